@@ -1,85 +1,184 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { StyleSheet, Alert, Platform, ScrollView, Pressable, PermissionsAndroid, Dimensions } from 'react-native';
+import { StyleSheet, Alert, Platform, ScrollView, Pressable, PermissionsAndroid } from 'react-native';
 import { Text, View } from '@/components/Themed';
-import { BleManager } from 'react-native-ble-plx';
-import { LineChart } from 'react-native-chart-kit';
-import { GestureAPI } from '@/services/GestureAPI';
-
-// Arduino device configuration
-const DEVICE_CONFIG = {
-  name: "AbracadabraIMU",
-  serviceUUID: "8cfc8e26-0682-4f72-b0c0-c0c8e0b12a06",
-  dataCharacteristicUUID: "780fe2ec-c87c-443e-bf01-78918d9d625b",
-  commandCharacteristicUUID: "aa7e97b4-d7dc-4cb0-9fef-85875036520e"
-};
-
-interface GestureSession {
-  id: string;
-  startTime: number;
-  endTime?: number;
-  isActive: boolean;
-  deviceId: string;
-  samplesReceived: number;
+import { Link } from 'expo-router';
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import {
+  createBleManager,
+  deviceConnection,
+  ConnectionState,
+  DeviceConnectionEvent,
+  DeviceLike,
+  ScannedDevice,
+} from '@/services/DeviceConnection';
+import { DecodeResult, decodePacket } from '@/services/PacketCodec';
+import { sessionRepository, SessionSummary } from '@/services/SessionRepository';
+import { sessionAssembler } from '@/services/SessionAssembler';
+import { liveSampleStore } from '@/services/LiveSampleStore';
+import { REPLAY_DEVICE_ID, sessionReplayer } from '@/services/SessionReplayer';
+import { trainingCapture, TrainingCaptureState } from '@/services/TrainingCapture';
+import { streamingRecognizer } from '@/services/StreamingRecognizer';
+import { AppSettings, settingsStore } from '@/services/Settings';
+import { createSimulatedManager, SIMULATED_DEVICE_ID } from '@/services/simulation/SimulatedPeripheral';
+import { deviceHub } from '@/services/DeviceHub';
+import { ActionLogEntry, gestureActions } from '@/services/GestureActions';
+import { integrations } from '@/services/Integrations';
+import { knownDevices, rankDevices } from '@/services/KnownDevices';
+import { linkHealthMonitor, LinkQuality } from '@/services/LinkHealthMonitor';
+import { describeFilter, filterRecording, NO_FILTERS, SensorFilters } from '@/services/SignalProcessing';
+import LiveRecognitionPanel from '@/components/LiveRecognitionPanel';
+import ReplayBanner from '@/components/ReplayBanner';
+import DeviceCommandPanel from '@/components/DeviceCommandPanel';
+import SimulatorControls from '@/components/SimulatorControls';
+import ConnectedSensors from '@/components/ConnectedSensors';
+import DevicePicker from '@/components/DevicePicker';
+import LinkHealthPanel from '@/components/LinkHealthPanel';
+import IMUCubeVisualization from '@/components/IMUCubeVisualization';
+import LiveSensorChart, { LiveTrace } from '@/components/LiveSensorChart';
+import { useLatestSample } from '@/components/useLatestSample';
+import { BLEDataPoint, GestureSession } from '@/services/types';
+import { CONNECTION_CONFIG, DEVICE_CONFIG } from '@/constants/Device';
+
+const ACCELERATION_TRACES: LiveTrace[] = [
+  { label: 'Acc-X', axis: 'x', rgb: '255, 99, 132' }, // Red
+  { label: 'Acc-Y', axis: 'y', rgb: '75, 192, 192' }, // Teal
+  { label: 'Acc-Z', axis: 'z', rgb: '153, 102, 255' }, // Purple
+];
+
+const GYROSCOPE_TRACES: LiveTrace[] = [
+  { label: 'Gyro-X', axis: 'x', rgb: '255, 206, 84' }, // Yellow
+  { label: 'Gyro-Y', axis: 'y', rgb: '54, 162, 235' }, // Blue
+  { label: 'Gyro-Z', axis: 'z', rgb: '255, 159, 64' }, // Orange
+];
+
+/**
+ * Bluetooth, or the simulated peripheral when enabled (the web build has no Bluetooth)
+ */
+function applyDeviceSource(settings: AppSettings) {
+  const simulated = settings.simulatedDevice || Platform.OS === 'web';
+  const createManager = simulated ? createSimulatedManager : createBleManager;
+  if (createManager !== deviceConnection.managerFactory) {
+    deviceHub.removeAll(); // Added sensors borrow the manager being replaced
+  }
+  deviceConnection.setManagerFactory(createManager);
 }
 
-interface BLEDataPoint {
-  timestamp: number;
-  sampleId: number;
-  acceleration: { x: number; y: number; z: number };
-  gyroscope: { x: number; y: number; z: number };
-  recordingHash: string;
+const CONNECTION_STATUS_TEXT: Record<ConnectionState, string> = {
+  idle: 'Disconnected',
+  scanning: 'Scanning for Arduino device...',
+  connecting: 'Connecting to device...',
+  discovering: 'Connected - Discovering services...',
+  streaming: 'Connected & Ready',
+  reconnecting: 'Reconnecting...',
+  disconnected: 'Disconnected',
+};
+
+/**
+ * Readouts that follow the live stream, re-rendered once per frame on their
+ * own rather than with the whole dashboard
+ */
+function CurrentValues({ dataRate }: { dataRate: number }) {
+  const latest = useLatestSample();
+  if (!latest) {
+    return null;
+  }
+  return (
+    <View style={styles.currentValues}>
+      <Text style={styles.currentTitle}>Current Values:</Text>
+      <View style={styles.valueRow}>
+        <Text style={styles.valueLabel}>Acc:</Text>
+        <Text style={styles.valueText}>
+          X:{latest.acceleration.x.toFixed(2)}g Y:{latest.acceleration.y.toFixed(2)}g Z:{latest.acceleration.z.toFixed(2)}g
+        </Text>
+      </View>
+      <View style={styles.valueRow}>
+        <Text style={styles.valueLabel}>Gyro:</Text>
+        <Text style={styles.valueText}>
+          X:{latest.gyroscope.x.toFixed(1)}° Y:{latest.gyroscope.y.toFixed(1)}° Z:{latest.gyroscope.z.toFixed(1)}°
+        </Text>
+      </View>
+      <View style={styles.valueRow}>
+        <Text style={styles.valueLabel}>Rate:</Text>
+        <Text style={styles.valueText}>{dataRate} samples/sec</Text>
+      </View>
+    </View>
+  );
 }
 
-interface RealtimeDataPoint {
-  time: number;
-  accMagnitude: number;
-  gyroMagnitude: number;
-  accX: number;
-  accY: number;
-  accZ: number;
-  gyroX: number;
-  gyroY: number;
-  gyroZ: number;
+function LatestSensorReading() {
+  const latest = useLatestSample();
+  if (!latest) {
+    return null;
+  }
+  return (
+    <View style={styles.sensorData}>
+      <Text style={styles.sensorTitle}>Latest Sensor Reading:</Text>
+      <View style={styles.sensorRow}>
+        <Text style={styles.sensorLabel}>Accel:</Text>
+        <Text style={styles.sensorValue}>
+          X: {latest.acceleration.x.toFixed(3)}g
+        </Text>
+        <Text style={styles.sensorValue}>
+          Y: {latest.acceleration.y.toFixed(3)}g
+        </Text>
+        <Text style={styles.sensorValue}>
+          Z: {latest.acceleration.z.toFixed(3)}g
+        </Text>
+      </View>
+      <View style={styles.sensorRow}>
+        <Text style={styles.sensorLabel}>Gyro:</Text>
+        <Text style={styles.sensorValue}>
+          X: {latest.gyroscope.x.toFixed(1)}°/s
+        </Text>
+        <Text style={styles.sensorValue}>
+          Y: {latest.gyroscope.y.toFixed(1)}°/s
+        </Text>
+        <Text style={styles.sensorValue}>
+          Z: {latest.gyroscope.z.toFixed(1)}°/s
+        </Text>
+      </View>
+    </View>
+  );
 }
 
 export default function TabOneScreen() {
   const [bleSupported, setBleSupported] = useState<boolean | null>(null);
-  const [isScanning, setIsScanning] = useState(false);
-  const [foundDevice, setFoundDevice] = useState<any>(null);
-  const [connectedDevice, setConnectedDevice] = useState<any>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState('Disconnected');
-  const [connectionQuality, setConnectionQuality] = useState<'Excellent' | 'Good' | 'Poor' | 'Unknown'>('Unknown');
+  const [connectionState, setConnectionState] = useState<ConnectionState>(deviceConnection.state);
+  const [foundDevice, setFoundDevice] = useState<ScannedDevice | null>(null);
+  const [connectedDevice, setConnectedDevice] = useState<DeviceLike | null>(null);
+  const [connectionQuality, setConnectionQuality] = useState<LinkQuality>('Unknown');
   const [scanStatus, setScanStatus] = useState('Initializing Bluetooth...');
-  const [manager, setManager] = useState<BleManager | null>(null);
-  const [dataCharacteristic, setDataCharacteristic] = useState<any>(null);
-  const [commandCharacteristic, setCommandCharacteristic] = useState<any>(null);
-  const [notificationSubscription, setNotificationSubscription] = useState<any>(null);
 
-  // Data storage in React state
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [isReplaying, setIsReplaying] = useState(sessionReplayer.isReplaying);
+
+  const isScanning = connectionState === 'scanning';
+  const isReconnecting = connectionState === 'reconnecting';
+  const isConnecting = connectionState === 'connecting' || connectionState === 'discovering';
+  const connectionStatus = CONNECTION_STATUS_TEXT[connectionState];
+  const showLiveData = !!connectedDevice || isReplaying;
+
+  // Samples live in sessionAssembler and liveSampleStore; React state only
+  // holds what the screen shows, refreshed once a second
   const [currentSession, setCurrentSession] = useState<GestureSession | null>(null);
-  const [sessionData, setSessionData] = useState<BLEDataPoint[]>([]);
-  const [latestDataPoint, setLatestDataPoint] = useState<BLEDataPoint | null>(null);
-  const [sessionHistory, setSessionHistory] = useState<GestureSession[]>([]);
+  const [sessionHistory, setSessionHistory] = useState<SessionSummary[]>([]);
+  const [training, setTraining] = useState<TrainingCaptureState>(trainingCapture.state);
   const [totalPacketsReceived, setTotalPacketsReceived] = useState(0);
   const [dataRate, setDataRate] = useState(0); // packets per second
-  const [lastDataTime, setLastDataTime] = useState<number>(0);
 
   // New debug states
   const [permissionsGranted, setPermissionsGranted] = useState(false);
-  const [scannedDevices, setScannedDevices] = useState<any[]>([]);
+  const [scannedDevices, setScannedDevices] = useState<ScannedDevice[]>([]);
   const [debugMode, setDebugMode] = useState(true); // Enable debug mode by default
 
-  // Real-time graph data
-  const [realtimeData, setRealtimeData] = useState<RealtimeDataPoint[]>([]);
-  const maxGraphPoints = 50;
-  
   // Analysis state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [lastAnalysisResult, setLastAnalysisResult] = useState<string | null>(null);
+  const [lastActions, setLastActions] = useState<ActionLogEntry[]>([]);
 
-  // Get screen dimensions for chart
-  const screenData = Dimensions.get('window');
+  // Set while an active session waits for the device to reconnect
+  const sessionSuspendedAt = useRef<number | null>(null);
+  const sessionGraceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Request necessary permissions for BLE
   const requestPermissions = async () => {
@@ -117,135 +216,184 @@ export default function TabOneScreen() {
     }
   };
 
-  // Real-time connection monitoring
+  // Connection quality and data rate from the link health monitor
+  useEffect(() => linkHealthMonitor.subscribe(event => {
+    if (event.type === 'sample') {
+      setConnectionQuality(event.sample.quality);
+      setDataRate(Math.round(event.sample.samplesPerSecond));
+    }
+  }), []);
+
+  // Counters, read from the sample stores
   useEffect(() => {
     const interval = setInterval(() => {
-      if (connectedDevice) {
-        // Monitor connection quality based on data flow
-        const now = Date.now();
-        const timeSinceLastData = now - lastDataTime;
-        
-        if (timeSinceLastData < 1000) {
-          setConnectionQuality('Excellent');
-        } else if (timeSinceLastData < 3000) {
-          setConnectionQuality('Good');
-        } else if (timeSinceLastData < 10000) {
-          setConnectionQuality('Poor');
-        } else {
-          setConnectionQuality('Unknown');
-        }
-      }
-    }, 1000);
+      setTotalPacketsReceived(liveSampleStore.totalReceived);
+      setCurrentSession(prev => prev?.isActive && prev.samplesReceived !== sessionAssembler.samples.length
+        ? { ...prev, samplesReceived: sessionAssembler.samples.length }
+        : prev);
+    }, 1000); // Update every second
 
     return () => clearInterval(interval);
-  }, [connectedDevice, lastDataTime]);
+  }, []);
+
+  const initializeBLE = async () => {
+    console.log('🚀 Starting BLE initialization...');
+    setScanStatus('Requesting permissions...');
+
+    // First, request permissions
+    const permissionsOk = await requestPermissions();
+    if (!permissionsOk) {
+      setScanStatus('Permissions denied - cannot scan for devices');
+      return;
+    }
+
+    try {
+      applyDeviceSource(await settingsStore.load());
+      deviceConnection.initialize();
+    } catch (error) {
+      console.log('❌ BLE initialization error:', error);
+      setScanStatus('BLE initialization failed');
+    }
+  };
 
-    // Data rate calculation
+  // Keep the recent sessions list in sync with persisted recordings
   useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now();
-      if (lastDataTime > 0 && now - lastDataTime < 2000) {
-        // Calculate packets per second based on recent activity
-        if (currentSession && sessionData.length > 0) {
-          const sessionDuration = (now - currentSession.startTime) / 1000;
-          setDataRate(Math.round(sessionData.length / sessionDuration));
+    const loadHistory = () => {
+      sessionRepository.list()
+        .then(setSessionHistory)
+        .catch(error => console.error('Failed to load session history:', error));
+    };
+    loadHistory();
+    return sessionRepository.subscribe(loadHistory);
+  }, []);
+
+  useEffect(() => trainingCapture.subscribe(setTraining), []);
+
+  // Session handling reads settingsStore.current, so load it up front
+  useEffect(() => {
+    settingsStore.load().catch(error => console.error('Failed to load settings:', error));
+  }, []);
+
+  useEffect(() => settingsStore.subscribe(applyDeviceSource), []);
+
+  useEffect(() => deviceHub.subscribe(event => {
+    switch (event.type) {
+      case 'groupSaved':
+        setIsAnalyzing(true);
+        break;
+      case 'groupAnalyzed': {
+        setIsAnalyzing(false);
+        const movements = event.sessions.map(session => session.primaryMovement ?? 'unknown');
+        setLastAnalysisResult(`${event.sessions.length} sensor(s): ${movements.join(', ')}`);
+        // The sensors are analyzed together, so they share one recognized gesture
+        const recognized = event.sessions.find(session => session.primaryMovement !== null);
+        if (recognized) {
+          gestureActions.trigger(recognized.primaryMovement!, recognized.confidence ?? 0)
+            .catch(error => console.error('💥 Gesture actions failed:', error));
+          integrations.dispatch({
+            gesture: recognized.primaryMovement!,
+            confidence: recognized.confidence ?? 0,
+            at: Date.now(),
+            movements: event.movements,
+          }).catch(error => console.error('💥 Integration dispatch failed:', error));
         }
-      } else {
-        setDataRate(0);
+        break;
       }
-    }, 1000); // Update every second
-
-    return () => clearInterval(interval);
-  }, [lastDataTime, currentSession, sessionData]);
+      case 'error':
+        setIsAnalyzing(false);
+        console.error('💥 Multi-sensor error:', event.error);
+        if (event.deviceId === null) {
+          setLastAnalysisResult('Analysis failed');
+        }
+        break;
+    }
+  }), []);
 
+  // Actions run for recognized gestures
   useEffect(() => {
-  const initializeBLE = async () => {
-      console.log('🚀 Starting BLE initialization...');
-      setScanStatus('Requesting permissions...');
-      
-      // First, request permissions
-      const permissionsOk = await requestPermissions();
-      if (!permissionsOk) {
-        setScanStatus('Permissions denied - cannot scan for devices');
-        return;
+    gestureActions.load().catch(error => console.error('Failed to load gesture actions:', error));
+    // Also resumes deliveries queued before the app was closed
+    integrations.load().catch(error => console.error('Failed to load integrations:', error));
+    return gestureActions.subscribe(event => {
+      if (event.type === 'logged') {
+        setLastActions(prev => [event.entry, ...prev]);
       }
+    });
+  }, []);
 
+  // Filters for the live charts; recordings are only filtered when analyzed
+  const [chartFilters, setChartFilters] = useState<SensorFilters>(liveSampleStore.filters);
+  useEffect(() => {
+    const applyChartFilters = (filters: SensorFilters) => {
       try {
-        console.log('🔵 Creating BLE Manager...');
-      const bleManager = new BleManager();
-      setManager(bleManager);
-        
-        // Check BLE support
-        bleManager.onStateChange((state) => {
-          console.log('🔵 BLE State changed to:', state);
-          if (state === 'PoweredOn') {
-            setBleSupported(true);
-            setScanStatus('Bluetooth ready');
-            // Start scanning after a short delay
-      setTimeout(() => {
-        startDeviceScan(bleManager);
-      }, 1000);
-          } else {
-            setBleSupported(false);
-            setScanStatus(`Bluetooth state: ${state}`);
-          }
-        }, true);
-      
-    } catch (error) {
-        console.log('❌ BLE initialization error:', error);
-        setScanStatus('BLE initialization failed');
+        liveSampleStore.setFilters(filters);
+      } catch (error) {
+        console.warn('Invalid chart filters, plotting raw data:', error);
+        liveSampleStore.setFilters(NO_FILTERS);
       }
+      setChartFilters(liveSampleStore.filters);
     };
+    applyChartFilters(settingsStore.current.chartFilters);
+    return settingsStore.subscribe(settings => applyChartFilters(settings.chartFilters));
+  }, []);
 
+  // Samples as sent for analysis: filtered only when the user opted in
+  const prepareForAnalysis = (samples: BLEDataPoint[]) => {
+    const { chartFilters: filters, filterRecordings } = settingsStore.current;
+    if (!filterRecordings) {
+      return samples;
+    }
+    try {
+      return filterRecording(samples, filters);
+    } catch (error) {
+      // e.g. a cutoff above the Nyquist frequency of a slower device
+      console.warn('Invalid recording filters, analyzing raw data:', error);
+      return samples;
+    }
+  };
+
+  // Always dispatch connection events to the latest render's handler
+  const connectionEventHandler = useRef<(event: DeviceConnectionEvent) => void>(() => {});
+
+  useEffect(() => {
+    const unsubscribe = deviceConnection.subscribe(event => connectionEventHandler.current(event));
     initializeBLE();
 
     // Cleanup on unmount
     return () => {
-      if (manager) {
-        manager.stopDeviceScan();
-        
-        // Clean up notification subscription
-        if (notificationSubscription) {
-          try {
-            notificationSubscription.remove();
-            console.log('Notification subscription cleaned up on unmount');
-          } catch (cleanupError) {
-            console.log('Subscription cleanup error on unmount (non-critical):', cleanupError);
-          }
-        }
-        
-        if (connectedDevice) {
-          connectedDevice.cancelConnection();
-        }
+      unsubscribe();
+      deviceConnection.destroy();
+      if (sessionGraceTimer.current) {
+        clearTimeout(sessionGraceTimer.current);
       }
     };
   }, []);
 
-  const checkBluetoothState = async (bleManager: BleManager, retryCount = 0) => {
-    try {
-      const state = await bleManager.state();
-      console.log('🔵 Bluetooth state:', state);
-      
-      if (state === 'PoweredOn') {
-        return true;
-      } else if (state === 'Unknown' && retryCount < 3) {
-        // Bluetooth state might still be initializing, retry
-        console.log('🔵 Bluetooth state unknown, retrying...', retryCount + 1);
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return checkBluetoothState(bleManager, retryCount + 1);
-      } else {
-        setScanStatus(`Bluetooth state: ${state}`);
-        return false;
-      }
-    } catch (error) {
-      console.log('❌ Error checking Bluetooth state:', error);
-      if (retryCount < 2) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return checkBluetoothState(bleManager, retryCount + 1);
-      }
-      return false;
+  // Replayed sessions go through the same packet handling as BLE notifications
+  const packetHandler = useRef<(result: DecodeResult) => void>(() => {});
+
+  useEffect(() => sessionReplayer.subscribe(event => {
+    switch (event.type) {
+      case 'started':
+        setIsReplaying(true);
+        break;
+      case 'data':
+        packetHandler.current(decodePacket(event.bytes));
+        break;
+      case 'stopped':
+        // The session will never see its SESSION_END
+        setCurrentSession(prev => prev?.isActive ? { ...prev, isActive: false, endTime: Date.now() } : prev);
+        streamingRecognizer.reset();
+        setIsReplaying(false);
+        break;
+      case 'finished':
+        setIsReplaying(false);
+        break;
     }
-  };
+  }), []);
+
+  const currentDeviceId = () =>
+    sessionReplayer.isReplaying ? REPLAY_DEVICE_ID : deviceConnection.connectedDevice?.id || 'unknown';
 
   // Gesture analysis function
   const analyzeGesture = (sessionData: BLEDataPoint[]) => {
@@ -253,7 +401,9 @@ export default function TabOneScreen() {
 
     // Calculate basic statistics
     const totalSamples = sessionData.length;
-    const duration = sessionData[sessionData.length - 1]?.timestamp - sessionData[0]?.timestamp;
+    const first = sessionData[0];
+    const last = sessionData[sessionData.length - 1];
+    const duration = (last.unwrappedTimestamp ?? last.timestamp) - (first.unwrappedTimestamp ?? first.timestamp);
     
     // Calculate acceleration magnitudes (handle potential NaN values)
     const accMagnitudes = sessionData.map(point => {
@@ -295,344 +445,345 @@ export default function TabOneScreen() {
     };
   };
 
-  const connectToDevice = async (device: any, bleManager?: BleManager) => {
-    // Use passed manager or fallback to state manager
-    const currentManager = bleManager || manager;
-    
-    console.log('connectToDevice called with:', {
-      deviceAvailable: !!device,
-      managerAvailable: !!currentManager,
-      passedManagerAvailable: !!bleManager,
-      stateManagerAvailable: !!manager,
-      deviceId: device?.id,
-      deviceName: device?.name
-    });
-
-    if (!currentManager) {
-      console.error('BLE Manager not available for connection');
-      Alert.alert('Connection Error', 'Bluetooth manager not initialized. Please restart the app.');
-      return;
+  const showConnectionError = (error: Error) => {
+    // Determine error type and provide specific guidance
+    let errorMessage = 'Unknown connection error';
+    let troubleshooting = '';
+
+    if (error.message?.includes('timeout')) {
+      errorMessage = 'Connection timed out';
+      troubleshooting = '\n• Move closer to the device\n• Make sure the device is powered on\n• Check if another app is connected to the device';
+    } else if (error.message?.includes('Service discovery')) {
+      errorMessage = 'Could not discover device services';
+      troubleshooting = '\n• The device may not be running the correct firmware\n• Try restarting the Arduino device';
+    } else if (error.message?.includes('characteristic')) {
+      errorMessage = 'Device services incompatible';
+      troubleshooting = '\n• Make sure the Arduino is running the latest firmware\n• Check that the device is an AbracadabraIMU device';
+    } else {
+      errorMessage = error.message || 'Connection failed';
+      troubleshooting = '\n• Make sure Bluetooth is enabled\n• Try restarting the app\n• Move closer to the device';
     }
 
-    if (!device) {
-      console.error('Device not available for connection');
-      Alert.alert('Connection Error', 'Device information not available. Please retry scanning.');
-      return;
-    }
+    const retryButtons = foundDevice
+      ? [{ text: 'Retry', onPress: () => { deviceConnection.connect(foundDevice.id); } }]
+      : [];
 
-    try {
-      setIsConnecting(true);
-      setConnectionStatus('Connecting to device...');
-      console.log('Attempting to connect to device:', device.id);
+    Alert.alert(
+      '❌ Connection Failed',
+      `${errorMessage}\n\nTroubleshooting:${troubleshooting}`,
+      [
+        ...retryButtons,
+        { text: 'Rescan', onPress: () => startDeviceScan() },
+        { text: 'Cancel' }
+      ]
+    );
+  };
 
-      // Connect to the device through the manager with timeout
-      console.log('Calling manager.connectToDevice...');
-      
-      // Create a timeout promise to prevent hanging
-      const connectTimeout = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Connection timeout after 15 seconds')), 15000);
-      });
-      
-      // Race between connection and timeout
-      const connectedDevice = await Promise.race([
-        currentManager.connectToDevice(device.id),
-        connectTimeout
-      ]);
-      
-      console.log('Successfully connected to device:', connectedDevice.id);
-      console.log('Device connection state:', connectedDevice.isConnected);
-      
-      setConnectedDevice(connectedDevice);
-      setConnectionStatus('Connected - Discovering services...');
+  // Close a session that was interrupted by a disconnect
+  const endInterruptedSession = () => {
+    if (sessionGraceTimer.current) {
+      clearTimeout(sessionGraceTimer.current);
+      sessionGraceTimer.current = null;
+    }
+    sessionSuspendedAt.current = null;
+    if (!currentSession?.isActive) {
+      return;
+    }
 
-      // Discover all services and characteristics with timeout
-      console.log('Discovering services and characteristics...');
-      
-      const discoveryTimeout = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Service discovery timeout after 10 seconds')), 10000);
-      });
-      
-      await Promise.race([
-        connectedDevice.discoverAllServicesAndCharacteristics(),
-        discoveryTimeout
-      ]);
-      
-      console.log('Service discovery completed');
-      
-      setConnectionStatus('Connected - Setting up notifications...');
+    // Close the recording as SESSION_END would; it is too incomplete to analyze
+    const packetLoss = sessionAssembler.finish();
+    if (streamingRecognizer.isActive) {
+      streamingRecognizer.finish(null);
+    }
+    setCurrentSession(prev => prev?.isActive
+      ? { ...prev, isActive: false, endTime: Date.now(), samplesReceived: sessionAssembler.samples.length, packetLoss }
+      : prev);
+  };
 
-      // Get the gesture service
-      const services = await connectedDevice.services();
-      console.log('Available services:', services.map(s => s.uuid));
-      
-      const gestureService = services.find(service => 
-        service.uuid.toLowerCase() === DEVICE_CONFIG.serviceUUID.toLowerCase()
-      );
+  const handleConnectionEvent = (event: DeviceConnectionEvent) => {
+    switch (event.type) {
+      case 'bluetoothState':
+        if (event.state === 'PoweredOn') {
+          setBleSupported(true);
+          setScanStatus('Bluetooth ready');
+          // Start scanning after a short delay
+          setTimeout(() => {
+            if (deviceConnection.state === 'idle') {
+              startDeviceScan();
+            }
+          }, 1000);
+        } else {
+          setBleSupported(false);
+          setScanStatus(`Bluetooth state: ${event.state}`);
+        }
+        break;
 
-      if (!gestureService) {
-        throw new Error(`Gesture service ${DEVICE_CONFIG.serviceUUID} not found`);
-      }
+      case 'stateChange':
+        setConnectionState(event.state);
+        if (event.state === 'scanning') {
+          setScanStatus('Scanning for Arduino device...');
+        } else if (event.state === 'streaming' && event.previousState !== 'reconnecting') {
+          Alert.alert(
+            '🎉 Connection Successful!',
+            `Connected to ${deviceConnection.connectedDevice?.name}\n\n✅ Services discovered\n✅ Notifications active\n✅ Ready for gesture data`,
+            [{ text: 'Great!' }]
+          );
+        }
+        break;
 
-      console.log('Found gesture service:', gestureService.uuid);
+      case 'deviceScanned':
+        setScannedDevices(prev => [...prev, event.device]);
+        break;
 
-      // Get characteristics
-      const characteristics = await gestureService.characteristics();
-      console.log('Available characteristics:', characteristics.map(c => c.uuid));
+      case 'deviceUpdated':
+        setScannedDevices(prev => prev.map(device => (device.id === event.device.id ? event.device : device)));
+        break;
 
-      const dataChar = characteristics.find(char => 
-        char.uuid.toLowerCase() === DEVICE_CONFIG.dataCharacteristicUUID.toLowerCase()
-      );
-      
-      const commandChar = characteristics.find(char => 
-        char.uuid.toLowerCase() === DEVICE_CONFIG.commandCharacteristicUUID.toLowerCase()
-      );
+      case 'deviceFound':
+        setFoundDevice(event.device);
+        setScanStatus(`Found ${event.device.name}!`);
+        break;
 
-      if (!dataChar) {
-        throw new Error(`Data characteristic ${DEVICE_CONFIG.dataCharacteristicUUID} not found`);
-      }
+      case 'scanTimeout':
+        if (rankDevices(event.scannedDevices, []).length > 0) {
+          setScanStatus('Scan finished. Pick a device to connect.');
+          break;
+        }
+        setScanStatus(`Device not found. Scanned ${event.scannedDevices.length} devices.`);
+        Alert.alert(
+          '🔍 Device Not Found',
+          `Could not find "${DEVICE_CONFIG.name}" device.\n\nScanned ${event.scannedDevices.length} devices.\n\nMake sure:\n• Arduino is powered on\n• Device is advertising\n• Device is nearby\n• Name matches exactly`,
+          [
+            { text: 'Show Debug Info', onPress: () => showDebugInfo() },
+            { text: 'Retry', onPress: () => startDeviceScan() },
+            { text: 'Cancel' }
+          ]
+        );
+        break;
 
-      if (!commandChar) {
-        throw new Error(`Command characteristic ${DEVICE_CONFIG.commandCharacteristicUUID} not found`);
-      }
+      case 'connected':
+        setConnectedDevice(event.device);
+        knownDevices.remember(event.device).catch(error => console.error('Failed to remember device:', error));
+        break;
 
-      console.log('Found data characteristic:', dataChar.uuid);
-      console.log('Found command characteristic:', commandChar.uuid);
+      case 'data':
+        // Device notifications would interleave with a replayed session
+        if (!sessionReplayer.isReplaying) {
+          handleBLEData(event.decoded);
+        }
+        break;
 
-      setDataCharacteristic(dataChar);
-      setCommandCharacteristic(commandChar);
+      case 'disconnected':
+        setConnectedDevice(null);
+        setConnectionQuality('Unknown');
 
-      // Subscribe to data characteristic notifications
-      console.log('Subscribing to data notifications...');
-      const subscription = dataChar.monitor((error: any, characteristic: any) => {
-        if (error) {
-          console.log('Notification error:', error);
-          // Don't show error if device was disconnected - this is expected
-          if (!error.message?.includes('disconnected') && !error.message?.includes('cancelled')) {
-            console.error('Unexpected notification error:', error);
+        if (event.willReconnect) {
+          // Keep the recording open in case the device comes back in time
+          if (currentSession?.isActive) {
+            console.log('⏸️ Session interrupted, waiting for reconnect:', currentSession.id);
+            sessionSuspendedAt.current = Date.now();
+            sessionGraceTimer.current = setTimeout(() => {
+              console.log('⏹️ Device did not return within the grace window, ending session');
+              endInterruptedSession();
+            }, CONNECTION_CONFIG.SESSION_RESUME_GRACE);
           }
-          return;
+          break;
         }
 
-        if (characteristic?.value) {
-          handleBLEData(characteristic.value);
-        }
-      });
-
-      setNotificationSubscription(subscription);
-      console.log('Data notifications subscribed successfully');
+        // Clear current session on disconnect
+        endInterruptedSession();
 
-      // Set up connection monitoring
-      connectedDevice.onDisconnected((error: any, device: any) => {
-        console.log('Device disconnected:', device?.id, error);
-        
-        // Clean up subscription to prevent "Operation was cancelled" errors
-        if (notificationSubscription) {
-          try {
-            notificationSubscription.remove();
-            console.log('Notification subscription cleaned up');
-          } catch (cleanupError) {
-            console.log('Subscription cleanup error (non-critical):', cleanupError);
-          }
-          setNotificationSubscription(null);
+        if (!event.expected) {
+          Alert.alert(
+            '📱 Device Disconnected',
+            'The Arduino device has been disconnected.',
+            [
+              { text: 'Reconnect', onPress: () => startDeviceScan() },
+              { text: 'OK' }
+            ]
+          );
         }
-        
-        setConnectedDevice(null);
-        setDataCharacteristic(null);
-        setCommandCharacteristic(null);
-        setConnectionStatus('Disconnected');
-        setConnectionQuality('Unknown');
-        
-        // Clear current session on disconnect
-        if (currentSession?.isActive) {
-          setCurrentSession(prev => prev ? { ...prev, isActive: false } : null);
+        break;
+
+      case 'reconnecting':
+        setReconnectAttempt(event.attempt);
+        break;
+
+      case 'reconnected':
+        setReconnectAttempt(0);
+        if (sessionSuspendedAt.current !== null) {
+          if (sessionGraceTimer.current) {
+            clearTimeout(sessionGraceTimer.current);
+            sessionGraceTimer.current = null;
+          }
+          sessionSuspendedAt.current = null;
+          console.log(`▶️ Session resumed after ${event.downtimeMs}ms offline`);
         }
-        
-        // Show disconnection alert
+        break;
+
+      case 'reconnectFailed':
+        setReconnectAttempt(0);
+        endInterruptedSession();
         Alert.alert(
           '📱 Device Disconnected',
-          'The Arduino device has been disconnected.',
+          `Could not reconnect to the Arduino device after ${event.attempts} attempts.`,
           [
-            { text: 'Reconnect', onPress: () => startDeviceScan() },
+            { text: 'Rescan', onPress: () => startDeviceScan() },
             { text: 'OK' }
           ]
         );
-      });
-
-      setConnectionStatus('Connected & Ready');
-      setConnectionQuality('Excellent');
-      setIsConnecting(false);
+        break;
 
-      // Send a test ping command
-      console.log('Sending ping command...');
-      try {
-        // Convert string to base64 for React Native
-        const pingData = btoa('ping'); // btoa is available in React Native
-        await commandChar.writeWithResponse(pingData);
-        console.log('Ping command sent successfully');
-      } catch (pingError) {
-        console.log('Ping command failed (non-critical):', pingError);
-      }
-
-      // Success alert
-      Alert.alert(
-        '🎉 Connection Successful!',
-        `Connected to ${device.name}\n\n✅ Services discovered\n✅ Notifications active\n✅ Ready for gesture data`,
-        [{ text: 'Great!' }]
-      );
-
-    } catch (error) {
-      console.error('Connection error:', error);
-      setIsConnecting(false);
-      setConnectionStatus('Connection Failed');
-      setConnectionQuality('Unknown');
-      
-      // Determine error type and provide specific guidance
-      let errorMessage = 'Unknown connection error';
-      let troubleshooting = '';
-      
-      if (error.message?.includes('timeout')) {
-        errorMessage = 'Connection timed out';
-        troubleshooting = '\n• Move closer to the device\n• Make sure the device is powered on\n• Check if another app is connected to the device';
-      } else if (error.message?.includes('Service discovery')) {
-        errorMessage = 'Could not discover device services';
-        troubleshooting = '\n• The device may not be running the correct firmware\n• Try restarting the Arduino device';
-      } else if (error.message?.includes('characteristic')) {
-        errorMessage = 'Device services incompatible';
-        troubleshooting = '\n• Make sure the Arduino is running the latest firmware\n• Check that the device is an AbracadabraIMU device';
-      } else {
-        errorMessage = error.message || 'Connection failed';
-        troubleshooting = '\n• Make sure Bluetooth is enabled\n• Try restarting the app\n• Move closer to the device';
-      }
-      
-      Alert.alert(
-        '❌ Connection Failed',
-        `${errorMessage}\n\nTroubleshooting:${troubleshooting}`,
-        [
-          { text: 'Retry', onPress: () => connectToDevice(device, currentManager) },
-          { text: 'Rescan', onPress: () => startDeviceScan() },
-          { text: 'Cancel' }
-        ]
-      );
+      case 'error':
+        if (event.stage === 'bluetooth') {
+          setScanStatus('Bluetooth is not powered on');
+          Alert.alert(
+            'Bluetooth Required',
+            'Please make sure Bluetooth is enabled in Settings.',
+            [
+              { text: 'Retry', onPress: () => startDeviceScan() },
+              { text: 'Cancel' }
+            ]
+          );
+        } else if (event.stage === 'scan') {
+          setScanStatus(event.error.message);
+        } else {
+          setConnectedDevice(null);
+          setConnectionQuality('Unknown');
+          setScanStatus('Connection Failed');
+          showConnectionError(event.error);
+        }
+        break;
     }
   };
+  connectionEventHandler.current = handleConnectionEvent;
 
   // Handle BLE data packets from Arduino
-  const handleBLEData = (base64Data: string) => {
+  const handleBLEData = (result: DecodeResult) => {
     try {
-      // Decode base64 to binary data
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-
-      // Check if we have the expected packet size (20 bytes)
-      if (bytes.length !== 20) {
-        console.log('Unexpected packet size:', bytes.length);
+      if (!result.ok) {
+        console.warn(`Dropped BLE packet (${result.error.code}):`, result.error.message);
         return;
       }
-
-      // Parse the BLE packet according to Arduino's BLEPacket structure
-      const dataView = new DataView(bytes.buffer);
-      
-      const packetType = dataView.getUint8(0);
-      const reserved = dataView.getUint8(1);
-      const timestamp = dataView.getUint16(2, true); // little endian
-      const sampleId = dataView.getUint16(4, true);
-      const accX = dataView.getInt16(6, true) / 1000.0; // Convert back from scaled int
-      const accY = dataView.getInt16(8, true) / 1000.0;
-      const accZ = dataView.getInt16(10, true) / 1000.0;
-      const gyroX = dataView.getInt16(12, true) / 10.0; // Convert back from scaled int
-      const gyroY = dataView.getInt16(14, true) / 10.0;
-      const gyroZ = dataView.getInt16(16, true) / 10.0;
-      const recordingHash = dataView.getUint32(16, true); // This overlaps with gyroZ - will fix Arduino code later
+      const packet = result.packet;
 
       // Handle different packet types
-      if (packetType === 0x01) {
+      if (packet.type === 'SESSION_START') {
         // SESSION_START packet
-        console.log('🎬 Session start detected, Hash:', recordingHash.toString(16));
+        console.log('🎬 Session start detected, Hash:', packet.recordingHash, 'Protocol: v' + packet.version);
         console.log('🔥 Double tap triggered - starting gesture recording session');
         
         const newSession: GestureSession = {
-          id: recordingHash.toString(16),
+          id: packet.recordingHash,
           startTime: Date.now(),
           isActive: true,
-          deviceId: connectedDevice?.id || 'unknown',
-          samplesReceived: 0
+          deviceId: currentDeviceId(),
+          samplesReceived: 0,
+          // The hub saw this packet first and decided whether the recording is
+          // multi-sensor; sensors joining or dropping later don't change that
+          groupId: sessionReplayer.isReplaying ? undefined : deviceHub.sessionOf(currentDeviceId())?.groupId,
         };
         
         setCurrentSession(newSession);
-        setSessionData([]);
+        sessionAssembler.start(packet.recordingHash);
+        liveSampleStore.clear();
+
+        // Training takes are labeled by the user, so there is nothing to recognize live
+        if (settingsStore.current.streamingRecognition && !trainingCapture.isRecording) {
+          streamingRecognizer.start(packet.recordingHash);
+        } else {
+          streamingRecognizer.reset();
+        }
         
         // Clear previous analysis results when starting new session
         setLastAnalysisResult(null);
+        setLastActions([]);
         setIsAnalyzing(false);
         
-      } else if (packetType === 0x02) {
-        // SENSOR_DATA packet
-        const dataPoint: BLEDataPoint = {
+      } else if (packet.type === 'SENSOR_DATA') {
+        // SENSOR_DATA packet. This runs at the full sample rate, so it must not
+        // set React state; the screen reads the stores once per frame or second.
+        const { timestamp, sampleId, acceleration, gyroscope } = packet;
+
+        // Unwraps the uint16 counters; null for a duplicate packet
+        const dataPoint = sessionAssembler.push({
           timestamp,
           sampleId,
-          acceleration: { x: accX, y: accY, z: accZ },
-          gyroscope: { x: gyroX, y: gyroY, z: gyroZ },
-          recordingHash: recordingHash.toString(16)
-        };
-        
-        setLatestDataPoint(dataPoint);
-        setSessionData(prev => [...prev, dataPoint]);
-        setLastDataTime(Date.now());
-        setTotalPacketsReceived(prev => prev + 1);
-        
-        // Calculate magnitudes for real-time visualization
-        const accMagnitude = Math.sqrt(accX * accX + accY * accY + accZ * accZ);
-        const gyroMagnitude = Math.sqrt(gyroX * gyroX + gyroY * gyroY + gyroZ * gyroZ);
-        
-        // Add to real-time graph data
-        const realtimePoint: RealtimeDataPoint = {
-          time: Date.now(),
-          accMagnitude,
-          gyroMagnitude,
-          accX,
-          accY,
-          accZ,
-          gyroX,
-          gyroY,
-          gyroZ
-        };
-        
-        setRealtimeData(prev => {
-          const newData = [...prev, realtimePoint];
-          // Keep only the last maxGraphPoints data points
-          if (newData.length > maxGraphPoints) {
-            return newData.slice(-maxGraphPoints);
-          }
-          return newData;
+          acceleration,
+          gyroscope,
+          recordingHash: sessionAssembler.recordingHash ?? 'unknown'
         });
-        
-        // Update session sample count
-        if (currentSession?.isActive) {
-          setCurrentSession(prev => prev ? { 
-            ...prev, 
-            samplesReceived: prev.samplesReceived + 1 
-          } : null);
+        if (!dataPoint) {
+          return;
         }
         
+        streamingRecognizer.push(dataPoint);
+        liveSampleStore.push(dataPoint);
+        
         // Log occasionally to avoid spam
         if (sampleId % 50 === 0) {
+          const { x: accX, y: accY, z: accZ } = acceleration;
+          const { x: gyroX, y: gyroY, z: gyroZ } = gyroscope;
+          const accMagnitude = Math.sqrt(accX * accX + accY * accY + accZ * accZ);
           console.log(`Sample ${sampleId}: Acc=[${accX.toFixed(2)}, ${accY.toFixed(2)}, ${accZ.toFixed(2)}] Gyro=[${gyroX.toFixed(1)}, ${gyroY.toFixed(1)}, ${gyroZ.toFixed(1)}] AccMag=${accMagnitude.toFixed(2)}`);
         }
         
-      } else if (packetType === 0x03) {
+      } else if (packet.type === 'SESSION_END') {
         // SESSION_END packet
-        console.log('🏁 Session end detected, Duration:', timestamp, 'ms, Total samples:', sampleId + 1);
+        console.log('🏁 Session end detected, Duration:', packet.durationMs, 'ms, Total samples:', packet.totalSamples);
         
+        const sessionData = [...sessionAssembler.samples];
+        const completedSession: GestureSession = {
+          ...(currentSession ?? {
+            id: packet.recordingHash,
+            startTime: Date.now() - packet.durationMs,
+            deviceId: currentDeviceId(),
+          }),
+          samplesReceived: sessionData.length,
+          endTime: Date.now(),
+          isActive: false,
+          packetLoss: sessionAssembler.finish(packet.lastSampleId),
+        };
+
         if (currentSession?.isActive) {
-          setCurrentSession(prev => prev ? { 
-            ...prev, 
-            endTime: Date.now(),
-            isActive: false 
-          } : null);
+          setCurrentSession(completedSession);
+        }
+
+        // Replayed sessions are already stored; they only go through analysis
+        const isReplay = sessionReplayer.isReplaying;
+
+        // Analysis finishes later, possibly after the next SESSION_START
+        const recognition = streamingRecognizer.session;
+        const finishRecognition = (prediction: PredictionResponse | null) => {
+          if (streamingRecognizer.isActive && streamingRecognizer.session === recognition) {
+            streamingRecognizer.finish(prediction);
+          }
+        };
+
+        // In training mode the recording is a labeled take, not something to analyze
+        if (trainingCapture.isRecording && !isReplay) {
+          const take = trainingCapture.addTake(completedSession, sessionData);
+          if (take) {
+            const { label, takes, targetRepetitions } = trainingCapture.state;
+            setLastAnalysisResult(`Training take ${takes.length}/${targetRepetitions} (${label})`);
+          }
+          return;
+        }
+
+        // Recorded alongside other sensors: the hub saves and analyzes the sessions together
+        if (completedSession.groupId && !isReplay) {
+          finishRecognition(null);
+          setLastAnalysisResult('Waiting for all sensors...');
+          return;
         }
+
+        // Persist the recording before analysis so it survives a failed request
+        const savedSession = sessionData.length > 0 && !isReplay
+          ? sessionRepository.save(completedSession, sessionData).catch(error => {
+              console.error('💥 Failed to save session:', error);
+              return null;
+            })
+          : Promise.resolve(null);
         
         // Analyze the session data
         const analysis = analyzeGesture(sessionData);
@@ -640,15 +791,15 @@ export default function TabOneScreen() {
         // Show session summary
         Alert.alert(
           '📊 Gesture Recording Complete!',
-          `✅ Duration: ${timestamp}ms\n✅ Samples: ${sampleId + 1}\n✅ Avg Acceleration: ${analysis?.avgAccelMagnitude || 'N/A'}g\n✅ Sampling Rate: ${analysis?.samplingRate || 'N/A'}Hz\n\n🧠 Sending to ML model for analysis...`,
+          `✅ Duration: ${packet.durationMs}ms\n✅ Samples: ${packet.totalSamples}\n📉 Packet Loss: ${completedSession.packetLoss?.missing ?? 0} (${((completedSession.packetLoss?.lossRate ?? 0) * 100).toFixed(1)}%)\n✅ Avg Acceleration: ${analysis?.avgAccelMagnitude || 'N/A'}g\n✅ Sampling Rate: ${analysis?.samplingRate || 'N/A'}Hz\n\n🧠 Sending to ML model for analysis...`,
           [{ text: 'Great!' }]
         );
 
         // Automatically call the gesture processing API
         // Convert BLE data to API format and analyze
         if (sessionData.length > 0) {
-          const recordingId = sessionData[0]?.recordingHash || 'unknown';
-          const apiData = GestureAPI.convertBLEDataToAPI(sessionData, recordingId);
+          const recordingId = packet.recordingHash;
+          const apiData = GestureAPI.convertBLEDataToAPI(prepareForAnalysis(sessionData), recordingId);
           
           console.log('🚀 Starting gesture analysis...');
           console.log(`📝 Recording ID: ${recordingId}`);
@@ -657,14 +808,31 @@ export default function TabOneScreen() {
           
           // Run analysis asynchronously
           setTimeout(() => {
-            GestureAPI.analyzeGesture(apiData, setIsAnalyzing, setLastAnalysisResult).catch(error => {
-              console.error('🔥 Failed to analyze gesture:', error);
-              setIsAnalyzing(false);
-              setLastAnalysisResult('Analysis failed');
-            });
+            GestureAPI.analyzeGesture(apiData, setIsAnalyzing, setLastAnalysisResult, completedSession.packetLoss)
+              .then(async prediction => {
+                finishRecognition(prediction);
+                // Replays re-analyze old recordings; they don't act on them again
+                if (prediction && !isReplay) {
+                  gestureActions.handlePrediction(prediction)
+                    .catch(error => console.error('💥 Gesture actions failed:', error));
+                  integrations.handlePrediction(prediction)
+                    .catch(error => console.error('💥 Integration dispatch failed:', error));
+                }
+                const saved = await savedSession;
+                if (prediction && saved) {
+                  await sessionRepository.setPrediction(saved.id, prediction);
+                }
+              })
+              .catch(error => {
+                console.error('🔥 Failed to analyze gesture:', error);
+                setIsAnalyzing(false);
+                setLastAnalysisResult('Analysis failed');
+                finishRecognition(null);
+              });
           }, 500); // Small delay to let the UI update
         } else {
           console.warn('⚠️ No session data available for analysis');
+          finishRecognition(null);
         }
       }
       
@@ -672,140 +840,33 @@ export default function TabOneScreen() {
       console.log('Error parsing BLE data:', error);
     }
   };
+  packetHandler.current = handleBLEData;
 
-  const startDeviceScan = async (existingManager?: BleManager) => {
-    const bleManager = existingManager || manager;
-    
-    if (!bleManager) {
+  const startDeviceScan = async () => {
+    if (!deviceConnection.isInitialized) {
       setScanStatus('BLE not initialized');
       return;
     }
 
-    try {
-      setIsScanning(true);
-      setScannedDevices([]); // Clear previous scan results
-      setScanStatus('Checking Bluetooth state...');
-
-      // Check if Bluetooth is powered on with retry logic
-      const isBluetoothOn = await checkBluetoothState(bleManager);
-      
-      if (!isBluetoothOn) {
-        setScanStatus('Bluetooth is not powered on');
-        Alert.alert(
-          'Bluetooth Required',
-          'Please make sure Bluetooth is enabled in Settings.',
-          [
-            { text: 'Retry', onPress: () => startDeviceScan(bleManager) },
-            { text: 'Cancel' }
-          ]
-        );
-        setIsScanning(false);
-        return;
-      }
-
-      setScanStatus('Scanning for Arduino device...');
-      console.log('🔍 Starting BLE scan for:', DEVICE_CONFIG.name);
-      console.log('🔍 Service UUID:', DEVICE_CONFIG.serviceUUID);
-
-      let scanTimeout: NodeJS.Timeout;
-
-      // Start scanning for devices (scan for all devices, not just specific service)
-      bleManager.startDeviceScan(null, { allowDuplicates: false }, (error: any, device: any) => {
-        if (error) {
-          console.log('❌ Scan error:', error);
-          setScanStatus(`Scan error: ${error.message}`);
-          setIsScanning(false);
-          return;
-        }
-
-        if (device) {
-          console.log('📱 Found device:', {
-            name: device.name || 'Unknown',
-            id: device.id,
-            rssi: device.rssi,
-            serviceUUIDs: device.serviceUUIDs
-          });
-
-          // Add to scanned devices for debugging
-          setScannedDevices(prev => {
-            const exists = prev.find(d => d.id === device.id);
-            if (!exists) {
-              return [...prev, {
-                name: device.name || 'Unknown',
-                id: device.id,
-                rssi: device.rssi,
-                serviceUUIDs: device.serviceUUIDs
-              }];
-            }
-            return prev;
-          });
-
-          // Check if this is our Arduino device by name
-          if (device.name === DEVICE_CONFIG.name) {
-            console.log('✅ Found Arduino device:', device.name);
-          setFoundDevice(device);
-          setScanStatus(`Found ${device.name}!`);
-          
-          // Stop scanning
-          bleManager.stopDeviceScan();
-            clearTimeout(scanTimeout);
-          setIsScanning(false);
-
-            // Update manager state and connect to device immediately
-            setManager(bleManager);
-            connectToDevice(device, bleManager);
-            return;
-          }
-
-          // Also check by service UUID if name doesn't match
-          if (device.serviceUUIDs && device.serviceUUIDs.includes(DEVICE_CONFIG.serviceUUID)) {
-            console.log('✅ Found device with matching service UUID:', device.name || device.id);
-            setFoundDevice(device);
-            setScanStatus(`Found device with matching service!`);
-            
-            // Stop scanning
-            bleManager.stopDeviceScan();
-            clearTimeout(scanTimeout);
-            setIsScanning(false);
-
-            setManager(bleManager);
-            connectToDevice(device, bleManager);
-            return;
-          }
-        }
+    setScannedDevices([]); // Clear previous scan results
+    setFoundDevice(null);
+    setScanStatus('Checking Bluetooth state...');
+
+    // Several boards may advertise the same name: connect on our own only to a
+    // preferred one, and otherwise let the user pick
+    const preferred = await knownDevices.load()
+      .then(() => knownDevices.preferredIds)
+      .catch(error => {
+        console.error('Failed to load known devices:', error);
+        return [];
       });
+    deviceConnection.startScan({ autoConnect: preferred.length > 0 ? preferred : 'none' });
+  };
 
-      // Stop scanning after 20 seconds if device not found
-      scanTimeout = setTimeout(() => {
-        if (isScanning) {
-          bleManager.stopDeviceScan();
-          setIsScanning(false);
-          
-          console.log('⏰ Scan timeout. Devices found:', scannedDevices.length);
-          scannedDevices.forEach(device => {
-            console.log(`  - ${device.name} (${device.id}) RSSI: ${device.rssi}`);
-          });
-          
-          if (!foundDevice) {
-            setScanStatus(`Device not found. Scanned ${scannedDevices.length} devices.`);
-            Alert.alert(
-              '🔍 Device Not Found',
-              `Could not find "AbracadabraIMU" device.\n\nScanned ${scannedDevices.length} devices.\n\nMake sure:\n• Arduino is powered on\n• Device is advertising\n• Device is nearby\n• Name matches exactly`,
-              [
-                { text: 'Show Debug Info', onPress: () => showDebugInfo() },
-                { text: 'Retry', onPress: () => startDeviceScan(bleManager) },
-                { text: 'Cancel' }
-              ]
-            );
-          }
-        }
-      }, 20000);
-
-    } catch (error) {
-      console.log('❌ Error starting scan:', error);
-      setScanStatus(`Error: ${error}`);
-      setIsScanning(false);
-    }
+  const connectToDevice = (device: ScannedDevice) => {
+    setFoundDevice(device);
+    setScanStatus(`Connecting to ${device.name}...`);
+    deviceConnection.connect(device.id);
   };
 
   const showDebugInfo = () => {
@@ -821,43 +882,29 @@ export default function TabOneScreen() {
   };
 
   const disconnectDevice = async () => {
-    if (connectedDevice) {
-      try {
-        // Clean up subscription first
-        if (notificationSubscription) {
-          try {
-            notificationSubscription.remove();
-            console.log('Notification subscription cleaned up');
-          } catch (cleanupError) {
-            console.log('Subscription cleanup error (non-critical):', cleanupError);
-          }
-          setNotificationSubscription(null);
-        }
-        
-        await connectedDevice.cancelConnection();
-        console.log('Device disconnected successfully');
-      } catch (error) {
-        console.log('Error disconnecting:', error);
-      }
-    }
+    await deviceConnection.disconnect();
   };
 
   const clearAllData = () => {
-    setSessionHistory([]);
-    setTotalPacketsReceived(0);
-    setCurrentSession(null);
-    setLatestDataPoint(null);
-    
-    // Also clean up notification subscription if exists
-    if (notificationSubscription) {
-      try {
-        notificationSubscription.remove();
-        console.log('Notification subscription cleaned up');
-      } catch (cleanupError) {
-        console.log('Subscription cleanup error (non-critical):', cleanupError);
-      }
-      setNotificationSubscription(null);
-    }
+    Alert.alert(
+      'Clear All Data',
+      `This deletes ${sessionHistory.length} saved session(s) from this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            liveSampleStore.reset();
+            setTotalPacketsReceived(0);
+            setCurrentSession(null);
+            sessionRepository.purge().catch(error => {
+              console.error('Failed to purge sessions:', error);
+            });
+          }
+        }
+      ]
+    );
   };
 
   const getConnectionStatusColor = () => {
@@ -870,7 +917,7 @@ export default function TabOneScreen() {
         default: return '#2196F3'; // Blue
       }
     }
-    if (isConnecting) return '#FF9800'; // Orange
+    if (isConnecting || isReconnecting) return '#FF9800'; // Orange
     if (foundDevice) return '#2196F3'; // Blue
     if (isScanning) return '#2196F3'; // Blue
     return '#FF9800'; // Orange
@@ -886,7 +933,7 @@ export default function TabOneScreen() {
         default: return '✅';
       }
     }
-    if (isConnecting) return '🔄';
+    if (isConnecting || isReconnecting) return '🔄';
     if (foundDevice) return '📱';
     if (isScanning) return '🔍';
     return '📱';
@@ -896,6 +943,7 @@ export default function TabOneScreen() {
     if (connectedDevice) {
       return `${connectionStatus} (${connectionQuality})`;
     }
+    if (isReconnecting) return `Reconnecting (attempt ${reconnectAttempt})`;
     if (isConnecting) return 'Connecting to device...';
     if (foundDevice) return `Found ${foundDevice.name}!`;
     return scanStatus;
@@ -910,44 +958,10 @@ export default function TabOneScreen() {
   };
 
   const retryScanning = () => {
-    if (manager) {
-      startDeviceScan(manager);
+    if (deviceConnection.isInitialized) {
+      startDeviceScan();
     } else {
       // Re-initialize BLE from scratch
-      const initializeBLE = async () => {
-        console.log('🚀 Re-initializing BLE...');
-        setScanStatus('Re-initializing...');
-        
-        const permissionsOk = await requestPermissions();
-        if (!permissionsOk) {
-          setScanStatus('Permissions denied - cannot scan for devices');
-          return;
-        }
-
-        try {
-          const bleManager = new BleManager();
-          setManager(bleManager);
-          
-          bleManager.onStateChange((state) => {
-            console.log('🔵 BLE State changed to:', state);
-            if (state === 'PoweredOn') {
-              setBleSupported(true);
-              setScanStatus('Bluetooth ready');
-              setTimeout(() => {
-                startDeviceScan(bleManager);
-              }, 1000);
-            } else {
-              setBleSupported(false);
-              setScanStatus(`Bluetooth state: ${state}`);
-            }
-          }, true);
-          
-        } catch (error) {
-          console.log('❌ BLE re-initialization error:', error);
-          setScanStatus('BLE initialization failed');
-        }
-      };
-      
       initializeBLE();
     }
   };
@@ -996,9 +1010,10 @@ export default function TabOneScreen() {
           <Pressable 
             style={[styles.debugButton, { backgroundColor: '#FF9800' }]} 
             onPress={async () => {
+              const sessionData = sessionAssembler.samples;
               if (sessionData.length > 0) {
                 const recordingId = sessionData[0]?.recordingHash || 'test';
-                const apiData = GestureAPI.convertBLEDataToAPI(sessionData, recordingId);
+                const apiData = GestureAPI.convertBLEDataToAPI(prepareForAnalysis(sessionData), recordingId);
                 await GestureAPI.analyzeGesture(apiData, setIsAnalyzing, setLastAnalysisResult);
               } else {
                 Alert.alert('No Data', 'No session data available to test. Perform a gesture first.');
@@ -1025,164 +1040,57 @@ export default function TabOneScreen() {
                 🎯 Result: <Text style={styles.resultValue}>{lastAnalysisResult}</Text>
               </Text>
               <Text style={styles.resultSubtext}>Analysis complete</Text>
+              {lastActions.map(entry => (
+                <Text key={entry.id} style={[styles.resultSubtext, !entry.ok && styles.actionFailedText]}>
+                  {entry.ok ? '✨' : '⚠️'} {entry.summary}{entry.error ? `: ${entry.error}` : ''}
+                </Text>
+              ))}
             </View>
           )}
         </View>
       )}
 
+      {/* 2.6 Streaming Recognition */}
+      <LiveRecognitionPanel />
+
+      {/* 2.7 Session Replay */}
+      <ReplayBanner />
+
       {/* 3. Real-time IMU Data */}
-      {connectedDevice && realtimeData.length > 10 && (
+      {showLiveData && (
         <View style={styles.graphContainer}>
           <View style={styles.graphHeader}>
             <Text style={styles.graphTitle}>📈 Real-time IMU Data</Text>
           </View>
           
-          {/* Acceleration Chart */}
-          <View style={styles.chartSection}>
-            <Text style={styles.chartLabel}>🔴 Acceleration (g)</Text>
-            <ScrollView 
-              horizontal 
-              showsHorizontalScrollIndicator={false}
-              style={styles.chartScrollView}
-            >
-              <LineChart
-                data={{
-                  labels: realtimeData.slice(-20).map((_, index) => (index % 5 === 0 ? `${index}` : '')),
-                  datasets: [
-                    {
-                      data: realtimeData.slice(-20).map(point => point.accX),
-                      color: (opacity = 1) => `rgba(255, 99, 132, ${opacity})`, // Red for X
-                      strokeWidth: 2
-                    },
-                    {
-                      data: realtimeData.slice(-20).map(point => point.accY),
-                      color: (opacity = 1) => `rgba(75, 192, 192, ${opacity})`, // Teal for Y
-                      strokeWidth: 2
-                    },
-                    {
-                      data: realtimeData.slice(-20).map(point => point.accZ),
-                      color: (opacity = 1) => `rgba(153, 102, 255, ${opacity})`, // Purple for Z
-                      strokeWidth: 2
-                    }
-                  ],
-                  legend: ["Acc-X", "Acc-Y", "Acc-Z"]
-                }}
-                width={screenData.width - 40}
-                height={160}
-                yAxisLabel=""
-                yAxisSuffix="g"
-                yAxisInterval={1}
-                chartConfig={{
-                  backgroundColor: "#1e2328",
-                  backgroundGradientFrom: "#1e2328",
-                  backgroundGradientTo: "#1e2328",
-                  decimalPlaces: 2,
-                  color: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
-                  labelColor: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
-                  style: {
-                    borderRadius: 16
-                  },
-                  propsForDots: {
-                    r: "2",
-                    strokeWidth: "1",
-                    stroke: "#ffa726"
-                  }
-                }}
-                bezier
-                style={{
-                  marginVertical: 8,
-                  borderRadius: 16
-                }}
-              />
-            </ScrollView>
-          </View>
-
-          {/* Gyroscope Chart */}
-          <View style={styles.chartSection}>
-            <Text style={styles.chartLabel}>🔵 Gyroscope (°/s)</Text>
-            <ScrollView 
-              horizontal 
-              showsHorizontalScrollIndicator={false}
-              style={styles.chartScrollView}
-            >
-              <LineChart
-                data={{
-                  labels: realtimeData.slice(-20).map((_, index) => (index % 5 === 0 ? `${index}` : '')),
-                  datasets: [
-                    {
-                      data: realtimeData.slice(-20).map(point => point.gyroX),
-                      color: (opacity = 1) => `rgba(255, 206, 84, ${opacity})`, // Yellow for X
-                      strokeWidth: 2
-                    },
-                    {
-                      data: realtimeData.slice(-20).map(point => point.gyroY),
-                      color: (opacity = 1) => `rgba(54, 162, 235, ${opacity})`, // Blue for Y
-                      strokeWidth: 2
-                    },
-                    {
-                      data: realtimeData.slice(-20).map(point => point.gyroZ),
-                      color: (opacity = 1) => `rgba(255, 159, 64, ${opacity})`, // Orange for Z
-                      strokeWidth: 2
-                    }
-                  ],
-                  legend: ["Gyro-X", "Gyro-Y", "Gyro-Z"]
-                }}
-                width={screenData.width - 40}
-                height={160}
-                yAxisLabel=""
-                yAxisSuffix="°/s"
-                yAxisInterval={1}
-                chartConfig={{
-                  backgroundColor: "#1e2328",
-                  backgroundGradientFrom: "#1e2328",
-                  backgroundGradientTo: "#1e2328",
-                  decimalPlaces: 1,
-                  color: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
-                  labelColor: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
-                  style: {
-                    borderRadius: 16
-                  },
-                  propsForDots: {
-                    r: "2",
-                    strokeWidth: "1",
-                    stroke: "#ffa726"
-                  }
-                }}
-                bezier
-                style={{
-                  marginVertical: 8,
-                  borderRadius: 16
-                }}
-              />
-            </ScrollView>
-          </View>
+          <LiveSensorChart
+            title="🔴 Acceleration (g)"
+            subtitle={chartFilters.acceleration.map(describeFilter).join(' → ')}
+            channel="acceleration"
+            traces={ACCELERATION_TRACES}
+            unit="g"
+            minSpan={0.5}
+          />
+
+          <LiveSensorChart
+            title="🔵 Gyroscope (°/s)"
+            subtitle={chartFilters.gyroscope.map(describeFilter).join(' → ')}
+            channel="gyroscope"
+            traces={GYROSCOPE_TRACES}
+            unit="°/s"
+            minSpan={20}
+            decimalPlaces={0}
+          />
           
-          {latestDataPoint && (
-            <View style={styles.currentValues}>
-              <Text style={styles.currentTitle}>Current Values:</Text>
-              <View style={styles.valueRow}>
-                <Text style={styles.valueLabel}>Acc:</Text>
-                <Text style={styles.valueText}>
-                  X:{latestDataPoint.acceleration.x.toFixed(2)}g Y:{latestDataPoint.acceleration.y.toFixed(2)}g Z:{latestDataPoint.acceleration.z.toFixed(2)}g
-                </Text>
-              </View>
-              <View style={styles.valueRow}>
-                <Text style={styles.valueLabel}>Gyro:</Text>
-                <Text style={styles.valueText}>
-                  X:{latestDataPoint.gyroscope.x.toFixed(1)}° Y:{latestDataPoint.gyroscope.y.toFixed(1)}° Z:{latestDataPoint.gyroscope.z.toFixed(1)}°
-                </Text>
-              </View>
-              <View style={styles.valueRow}>
-                <Text style={styles.valueLabel}>Rate:</Text>
-                <Text style={styles.valueText}>{dataRate} samples/sec</Text>
-              </View>
-            </View>
-          )}
+          <CurrentValues dataRate={dataRate} />
         </View>
       )}
 
+      {/* 3.5 Orientation */}
+      {showLiveData && <IMUCubeVisualization />}
+
       {/* 4. Live Data Stream */}
-      {connectedDevice && (
+      {showLiveData && (
         <View style={styles.dataContainer}>
           <Text style={styles.dataTitle}>📊 Live Data Stream</Text>
           
@@ -1201,38 +1109,16 @@ export default function TabOneScreen() {
             </View>
           )}
 
-          {latestDataPoint && (
-            <View style={styles.sensorData}>
-              <Text style={styles.sensorTitle}>Latest Sensor Reading:</Text>
-              <View style={styles.sensorRow}>
-                <Text style={styles.sensorLabel}>Accel:</Text>
-                <Text style={styles.sensorValue}>
-                  X: {latestDataPoint.acceleration.x.toFixed(3)}g
-                </Text>
-                <Text style={styles.sensorValue}>
-                  Y: {latestDataPoint.acceleration.y.toFixed(3)}g
-                </Text>
-                <Text style={styles.sensorValue}>
-                  Z: {latestDataPoint.acceleration.z.toFixed(3)}g
-                </Text>
-              </View>
-              <View style={styles.sensorRow}>
-                <Text style={styles.sensorLabel}>Gyro:</Text>
-                <Text style={styles.sensorValue}>
-                  X: {latestDataPoint.gyroscope.x.toFixed(1)}°/s
-                </Text>
-                <Text style={styles.sensorValue}>
-                  Y: {latestDataPoint.gyroscope.y.toFixed(1)}°/s
-                </Text>
-                <Text style={styles.sensorValue}>
-                  Z: {latestDataPoint.gyroscope.z.toFixed(1)}°/s
-                </Text>
-              </View>
-            </View>
-          )}
+          <LatestSensorReading />
         </View>
       )}
 
+      {/* 4.4 Connected sensors */}
+      {connectionState === 'streaming' && <ConnectedSensors />}
+
+      {/* 4.5 Simulated device */}
+      {connectedDevice?.id === SIMULATED_DEVICE_ID && <SimulatorControls />}
+
       {/* 5. Connected Device */}
       {connectedDevice && (
         <View style={styles.deviceInfo}>
@@ -1240,6 +1126,8 @@ export default function TabOneScreen() {
           <Text style={styles.deviceText}>Name: {connectedDevice.name}</Text>
           <Text style={styles.deviceText}>MAC: {connectedDevice.id}</Text>
           <Text style={styles.deviceText}>Quality: {connectionQuality}</Text>
+          {connectionState === 'streaming' && <LinkHealthPanel />}
+          {connectionState === 'streaming' && <DeviceCommandPanel key={connectedDevice.id} />}
           
           <Text 
             style={styles.disconnectButton} 
@@ -1250,6 +1138,29 @@ export default function TabOneScreen() {
         </View>
       )}
 
+      {/* Training capture */}
+      <Link href="/training" asChild>
+        <Pressable style={[styles.trainingButton, training.isRecording && styles.trainingButtonActive]}>
+          <Text style={styles.trainingButtonText}>
+            {training.isRecording
+              ? `🎓 Training "${training.label}": ${training.takes.length}/${training.targetRepetitions} takes`
+              : '🎓 Record Training Samples'}
+          </Text>
+        </Pressable>
+      </Link>
+
+      {/* Gesture actions */}
+      <Link href="/actions" asChild>
+        <Pressable style={styles.actionsButton}>
+          <Text style={styles.trainingButtonText}>✨ Gesture Actions</Text>
+        </Pressable>
+      </Link>
+      <Link href="/integrations" asChild>
+        <Pressable style={[styles.actionsButton, styles.integrationsButton]}>
+          <Text style={styles.trainingButtonText}>🏠 Home Automation</Text>
+        </Pressable>
+      </Link>
+
       {/* 6. Clear All Data */}
       <Pressable style={styles.clearButton} onPress={clearAllData}>
         <Text style={styles.clearButtonText}>🗑️ Clear All Data</Text>
@@ -1262,10 +1173,12 @@ export default function TabOneScreen() {
             ? '🔧 Create development build to use Bluetooth'
             : connectedDevice 
               ? '🎉 Ready to receive gesture data! Double-tap your Arduino to start recording.' 
+              : isReconnecting
+                ? '🔄 Connection lost, reconnecting automatically...'
               : isConnecting
                 ? '⏳ Connecting to your Arduino device...'
             : foundDevice 
-                  ? '📱 Device found, connecting automatically...'
+                  ? '📱 Device found, connecting...'
               : '⚡ Power on your Arduino device to connect'
           }
         </Text>
@@ -1275,7 +1188,7 @@ export default function TabOneScreen() {
       <View style={styles.configInfo}>
         <Text style={styles.configTitle}>Configuration:</Text>
         <Text style={styles.configText}>Device: {DEVICE_CONFIG.name}</Text>
-        <Text style={styles.configText}>Data Storage: React State (Option A)</Text>
+        <Text style={styles.configText}>Data Storage: On-device ({sessionHistory.length} saved sessions)</Text>
         <Text style={styles.configText}>Real-time Updates: Enabled</Text>
       </View>
 
@@ -1295,6 +1208,10 @@ export default function TabOneScreen() {
         </View>
       )}
 
+      {!connectedDevice && !foundDevice && bleSupported && (isScanning || rankDevices(scannedDevices, []).length > 0) && (
+        <DevicePicker devices={scannedDevices} isScanning={isScanning} onConnect={connectToDevice} />
+      )}
+
       {!isScanning && !foundDevice && !connectedDevice && bleSupported && (
         <View style={styles.retryContainer}>
           <Text 
@@ -1314,13 +1231,11 @@ export default function TabOneScreen() {
           {sessionHistory.slice(0, 3).map((session, index) => (
             <View key={session.id} style={styles.historyItem}>
               <Text style={styles.historyText}>
-                Session {index + 1}: {session.samplesReceived} samples
+                Session {index + 1}: {session.sampleCount} samples
+                {session.primaryMovement ? ` | ${session.primaryMovement}` : ''}
               </Text>
               <Text style={styles.historySubtext}>
-                {session.endTime ? 
-                  `Duration: ${((session.endTime - session.startTime) / 1000).toFixed(1)}s` : 
-                  'Active'
-                } | Hash: {session.id}
+                Duration: {(session.durationMs / 1000).toFixed(1)}s | Hash: {session.recordingHash}
               </Text>
             </View>
           ))}
@@ -1584,6 +1499,32 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#9BA1A6',
   },
+  trainingButton: {
+    backgroundColor: '#673AB7',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  trainingButtonActive: {
+    backgroundColor: '#FF9800',
+  },
+  actionsButton: {
+    backgroundColor: '#009688',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  integrationsButton: {
+    backgroundColor: '#3F51B5',
+  },
+  trainingButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
   clearButton: {
     backgroundColor: '#FF5722',
     paddingVertical: 8,
@@ -1705,20 +1646,6 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     textAlign: 'center',
   },
-  chartSection: {
-    marginBottom: 12,
-  },
-  chartLabel: {
-    fontSize: 14,
-    fontWeight: 'bold',
-    color: '#CCCCCC',
-    marginBottom: 8,
-    textAlign: 'center',
-  },
-  chartScrollView: {
-    maxHeight: 180,
-    marginVertical: 4,
-  },
   currentValues: {
     backgroundColor: '#2A2A2A',
     padding: 12,
@@ -1795,6 +1722,9 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     fontWeight: 'bold',
   },
+  actionFailedText: {
+    color: '#FF9800',
+  },
   resultSubtext: {
     fontSize: 12,
     color: '#CCCCCC',
@@ -1,14 +1,164 @@
-import { StyleSheet } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Link } from 'expo-router';
 
-import EditScreenInfo from '@/components/EditScreenInfo';
 import { Text, View } from '@/components/Themed';
+import SessionExportBar from '@/components/SessionExportBar';
+import {
+  filterSessions,
+  sessionLabels,
+  sessionRepository,
+  SessionDateRange,
+  SessionSummary,
+  StoredSession,
+} from '@/services/SessionRepository';
+import { pickImportFiles } from '@/services/FileImport';
+import { exceedsLossThreshold } from '@/services/Preprocessing';
+import { importSessions } from '@/services/SessionImport';
+
+const DATE_RANGES: { value: SessionDateRange; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+];
+
+function FilterChip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <Pressable style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function SessionRow({ session }: { session: SessionSummary }) {
+  return (
+    <Link href={{ pathname: '/session/[id]', params: { id: session.id } }} asChild>
+      <Pressable style={styles.sessionItem}>
+        <View style={styles.sessionHeader}>
+          <Text style={styles.sessionMovement}>
+            {session.primaryMovement ? `🎯 ${session.primaryMovement}` : '❔ Not analyzed'}
+          </Text>
+          {session.confidence !== null && (
+            <Text style={styles.sessionConfidence}>{(session.confidence * 100).toFixed(1)}%</Text>
+          )}
+        </View>
+        <Text style={styles.sessionText}>
+          {new Date(session.startTime).toLocaleString()}
+        </Text>
+        <Text style={styles.sessionSubtext}>
+          Duration: {(session.durationMs / 1000).toFixed(1)}s | Samples: {session.sampleCount} | Hash: {session.recordingHash}
+        </Text>
+        {!!session.packetLoss?.missing && (
+          <Text style={styles.sessionSubtext}>
+            {exceedsLossThreshold(session.packetLoss) ? '⚠️ Too lossy to analyze: lost' : '📉 Lost'} {session.packetLoss.missing} of {session.packetLoss.expected} samples ({(session.packetLoss.lossRate * 100).toFixed(1)}%)
+          </Text>
+        )}
+      </Pressable>
+    </Link>
+  );
+}
+
+export default function SessionsScreen() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [labelFilter, setLabelFilter] = useState<string | null>(null);
+  const [rangeFilter, setRangeFilter] = useState<SessionDateRange>('all');
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+      sessionRepository.list()
+        .then(setSessions)
+        .catch(error => console.error('Failed to load sessions:', error))
+        .finally(() => setIsLoading(false));
+    };
+    load();
+    return sessionRepository.subscribe(load);
+  }, []);
+
+  const labels = useMemo(() => sessionLabels(sessions), [sessions]);
+  const filtered = useMemo(
+    () => filterSessions(sessions, { label: labelFilter, range: rangeFilter }),
+    [sessions, labelFilter, rangeFilter]
+  );
+
+  const loadFiltered = async () => {
+    const loaded = await Promise.all(filtered.map(session => sessionRepository.get(session.id)));
+    return loaded.filter((session): session is StoredSession => session !== null);
+  };
+
+  const runImport = async () => {
+    setIsImporting(true);
+    try {
+      const files = await pickImportFiles();
+      if (files.length === 0) return;
+      const imported = await importSessions(files);
+      Alert.alert('Import Complete', `Imported ${imported.length} session(s) from ${files.length} file(s).`);
+    } catch (error) {
+      console.error('💥 Import failed:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-export default function TabTwoScreen() {
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Tab Two</Text>
-      <View style={styles.separator} lightColor="#eee" darkColor="rgba(255,255,255,0.1)" />
-      <EditScreenInfo path="app/(tabs)/two.tsx" />
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          <FilterChip label="All gestures" selected={labelFilter === null} onPress={() => setLabelFilter(null)} />
+          {labels.map(label => (
+            <FilterChip
+              key={label}
+              label={label}
+              selected={labelFilter === label}
+              onPress={() => setLabelFilter(label)}
+            />
+          ))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {DATE_RANGES.map(range => (
+            <FilterChip
+              key={range.value}
+              label={range.label}
+              selected={rangeFilter === range.value}
+              onPress={() => setRangeFilter(range.value)}
+            />
+          ))}
+        </ScrollView>
+        <Text style={styles.countText}>
+          {filtered.length} of {sessions.length} sessions
+        </Text>
+        <SessionExportBar
+          label={`Export ${filtered.length} shown session(s)`}
+          loadSessions={loadFiltered}
+          disabled={filtered.length === 0}
+        />
+        <Pressable
+          style={[styles.importButton, isImporting && styles.importButtonDisabled]}
+          disabled={isImporting}
+          onPress={runImport}
+        >
+          <Text style={styles.importButtonText}>{isImporting ? 'Importing...' : '📥 Import CSV / JSON sessions'}</Text>
+        </Pressable>
+      </View>
+
+      <FlatList
+        data={filtered}
+        keyExtractor={session => session.id}
+        renderItem={({ item }) => <SessionRow session={item} />}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {isLoading
+              ? 'Loading sessions...'
+              : sessions.length === 0
+                ? '📭 No recorded sessions yet. Double-tap your Arduino to record a gesture.'
+                : 'No sessions match the selected filters.'}
+          </Text>
+        }
+      />
     </View>
   );
 }
@@ -16,16 +166,96 @@ export default function TabTwoScreen() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+  },
+  filters: {
+    paddingTop: 12,
+    paddingHorizontal: 12,
+  },
+  chipRow: {
+    paddingBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#9BA1A6',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  countText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginBottom: 4,
+  },
+  importButton: {
+    backgroundColor: '#3F51B5',
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  listContent: {
+    padding: 12,
+    paddingBottom: 100, // Keep the last row above the tab bar
+  },
+  sessionItem: {
+    backgroundColor: '#1a1a1a',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    justifyContent: 'center',
+    backgroundColor: 'transparent',
+    marginBottom: 4,
   },
-  title: {
-    fontSize: 20,
+  sessionMovement: {
+    fontSize: 16,
     fontWeight: 'bold',
+    color: '#ECEDEE',
+  },
+  sessionConfidence: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  sessionText: {
+    fontSize: 12,
+    color: '#ECEDEE',
+  },
+  sessionSubtext: {
+    fontSize: 11,
+    color: '#9BA1A6',
+    marginTop: 2,
   },
-  separator: {
-    marginVertical: 30,
-    height: 1,
-    width: '80%',
+  emptyText: {
+    textAlign: 'center',
+    color: '#9BA1A6',
+    marginTop: 40,
+    paddingHorizontal: 20,
   },
 });
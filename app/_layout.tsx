@@ -52,7 +52,11 @@ function RootLayoutNav() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Settings' }} />
+        <Stack.Screen name="session/[id]" options={{ title: 'Session' }} />
+        <Stack.Screen name="training" options={{ title: 'Record Training Samples' }} />
+        <Stack.Screen name="actions" options={{ title: 'Gesture Actions' }} />
+        <Stack.Screen name="integrations" options={{ title: 'Home Automation' }} />
       </Stack>
     </ThemeProvider>
   );
@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, TextInput } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { ACTION_CONFIG } from '@/constants/API';
+import { GestureAPI } from '@/services/GestureAPI';
+import {
+  ActionLogEntry,
+  describeAction,
+  GestureAction,
+  GestureActionType,
+  gestureActions,
+  GestureBinding,
+} from '@/services/GestureActions';
+
+const ACTION_TYPES: { type: GestureActionType; label: string; placeholder: string }[] = [
+  { type: 'deepLink', label: '🔗 Deep link', placeholder: `lights/toggle (opens ${ACTION_CONFIG.DEEP_LINK_SCHEME}://...)` },
+  { type: 'webhook', label: '🌐 Webhook', placeholder: 'https://example.com/hooks/gesture' },
+  { type: 'speak', label: '🔊 Speak', placeholder: 'Detected {gesture} at {confidence} percent' },
+  { type: 'event', label: '📣 In-app event', placeholder: 'next-slide' },
+];
+
+const CONFIDENCE_STEP = 0.05;
+
+function buildAction(type: GestureActionType, value: string): GestureAction {
+  switch (type) {
+    case 'deepLink':
+      return { type, path: value };
+    case 'webhook':
+      return { type, url: value };
+    case 'speak':
+      return { type, text: value };
+    case 'event':
+      return { type, name: value };
+  }
+}
+
+export default function GestureActionsScreen() {
+  const [bindings, setBindings] = useState<GestureBinding[]>(gestureActions.currentBindings);
+  const [log, setLog] = useState<ActionLogEntry[]>(gestureActions.currentLog);
+  const [availableGestures, setAvailableGestures] = useState<string[]>([]);
+  const [gesture, setGesture] = useState('');
+  const [minConfidence, setMinConfidence] = useState(ACTION_CONFIG.DEFAULT_MIN_CONFIDENCE);
+  const [actionType, setActionType] = useState<GestureActionType>('deepLink');
+  const [actionValue, setActionValue] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = gestureActions.subscribe(event => {
+      if (event.type === 'bindingsChanged') setBindings(event.bindings);
+      if (event.type === 'logged') setLog(gestureActions.currentLog);
+    });
+    gestureActions.load()
+      .then(loaded => {
+        setBindings(loaded);
+        setLog(gestureActions.currentLog);
+      })
+      .catch(error => console.error('Failed to load gesture actions:', error));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    GestureAPI.getModelStatus()
+      .then(status => setAvailableGestures(status.available_gestures ?? []))
+      .catch(error => console.error('Failed to load model status:', error));
+  }, []);
+
+  const changeConfidence = (delta: number) => {
+    setMinConfidence(prev => Math.min(1, Math.max(0, Math.round((prev + delta) * 100) / 100)));
+  };
+
+  const addBinding = async () => {
+    try {
+      await gestureActions.addBinding({ gesture, minConfidence, action: buildAction(actionType, actionValue) });
+      setActionValue('');
+    } catch (error) {
+      Alert.alert('Cannot Add Binding', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const testBinding = async (binding: GestureBinding) => {
+    try {
+      const entry = await gestureActions.test(binding.id);
+      if (!entry.ok) {
+        Alert.alert('Action Failed', `${entry.summary}\n\n${entry.error}`);
+      }
+    } catch (error) {
+      Alert.alert('Action Failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const removeBinding = (binding: GestureBinding) => {
+    Alert.alert('Remove Binding', `Stop running "${describeAction(binding.action)}" for ${binding.gesture}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => gestureActions.removeBinding(binding.id) },
+    ]);
+  };
+
+  const clearLog = async () => {
+    await gestureActions.clearLog();
+    setLog([]);
+  };
+
+  const placeholder = ACTION_TYPES.find(entry => entry.type === actionType)!.placeholder;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* 1. New binding */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>New Binding</Text>
+        <View style={styles.chipRow}>
+          {availableGestures.map(choice => (
+            <Pressable
+              key={choice}
+              style={[styles.chip, gesture === choice && styles.chipSelected]}
+              onPress={() => setGesture(choice)}
+            >
+              <Text style={[styles.chipText, gesture === choice && styles.chipTextSelected]}>{choice}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          value={gesture}
+          onChangeText={setGesture}
+          placeholder="Gesture label"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Text style={styles.label}>Minimum confidence</Text>
+        <View style={styles.stepper}>
+          <Pressable style={styles.stepperButton} onPress={() => changeConfidence(-CONFIDENCE_STEP)}>
+            <Text style={styles.stepperButtonText}>−</Text>
+          </Pressable>
+          <Text style={styles.stepperValue}>{Math.round(minConfidence * 100)}%</Text>
+          <Pressable style={styles.stepperButton} onPress={() => changeConfidence(CONFIDENCE_STEP)}>
+            <Text style={styles.stepperButtonText}>+</Text>
+          </Pressable>
+        </View>
+
+        <Text style={styles.label}>Action</Text>
+        <View style={styles.chipRow}>
+          {ACTION_TYPES.map(({ type, label }) => (
+            <Pressable
+              key={type}
+              style={[styles.chip, actionType === type && styles.chipSelected]}
+              onPress={() => setActionType(type)}
+            >
+              <Text style={[styles.chipText, actionType === type && styles.chipTextSelected]}>{label}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          value={actionValue}
+          onChangeText={setActionValue}
+          placeholder={placeholder}
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.hintText}>{'{gesture}'} and {'{confidence}'} are filled in when the action runs.</Text>
+
+        <Pressable style={[styles.button, styles.addButton]} onPress={addBinding}>
+          <Text style={styles.buttonText}>➕ Add Binding</Text>
+        </Pressable>
+      </View>
+
+      {/* 2. Bindings */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Bindings ({bindings.length})</Text>
+        {bindings.length === 0 && (
+          <Text style={styles.hintText}>Recognized gestures only show their result until you bind an action.</Text>
+        )}
+        {bindings.map(binding => (
+          <View key={binding.id} style={[styles.row, !binding.enabled && styles.rowDisabled]}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>
+                {binding.gesture} ≥ {Math.round(binding.minConfidence * 100)}%
+              </Text>
+              <Text style={styles.rowText}>{describeAction(binding.action)}</Text>
+            </View>
+            <Text
+              style={styles.rowLink}
+              onPress={() => gestureActions.updateBinding(binding.id, { enabled: !binding.enabled })}
+            >
+              {binding.enabled ? 'On' : 'Off'}
+            </Text>
+            <Text style={styles.rowLink} onPress={() => testBinding(binding)}>Test</Text>
+            <Text style={[styles.rowLink, styles.removeText]} onPress={() => removeBinding(binding)}>Remove</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* 3. Action log */}
+      <View style={styles.section}>
+        <View style={styles.logHeader}>
+          <Text style={styles.sectionTitle}>Action Log</Text>
+          {log.length > 0 && <Text style={styles.rowLink} onPress={clearLog}>Clear</Text>}
+        </View>
+        {log.length === 0 && <Text style={styles.hintText}>Actions appear here as gestures trigger them.</Text>}
+        {log.map(entry => (
+          <View key={entry.id} style={styles.logEntry}>
+            <Text style={styles.rowText}>
+              {entry.ok ? '✅' : '❌'} {new Date(entry.at).toLocaleTimeString()} · {entry.gesture} ({Math.round(entry.confidence * 100)}%)
+            </Text>
+            <Text style={styles.logSummary}>{entry.summary}</Text>
+            {entry.error && <Text style={styles.errorText}>{entry.error}</Text>}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  section: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9BA1A6',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#9BA1A6',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    color: '#ECEDEE',
+    marginTop: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#2a2a2a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 22,
+    color: '#ECEDEE',
+  },
+  stepperValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginHorizontal: 20,
+    minWidth: 50,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 6,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  addButton: {
+    backgroundColor: '#009688',
+    marginTop: 12,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  rowInfo: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  rowText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  rowLink: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginLeft: 10,
+  },
+  removeText: {
+    color: '#f44336',
+  },
+  logHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: 'transparent',
+  },
+  logEntry: {
+    backgroundColor: 'transparent',
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingVertical: 6,
+  },
+  logSummary: {
+    fontSize: 13,
+    color: '#ECEDEE',
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#F44336',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,487 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, TextInput } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { INTEGRATION_CONFIG } from '@/constants/API';
+import { DeliveryResult } from '@/services/HttpDelivery';
+import {
+  IntegrationEndpoint,
+  IntegrationHeader,
+  IntegrationMethod,
+  integrations,
+  QueuedDelivery,
+} from '@/services/Integrations';
+
+const METHODS: IntegrationMethod[] = ['POST', 'PUT'];
+
+const CONFIDENCE_STEP = 0.05;
+
+interface EndpointForm {
+  name: string;
+  url: string;
+  method: IntegrationMethod;
+  headers: IntegrationHeader[];
+  gestures: string; // Comma-separated
+  minConfidence: number;
+  template: string;
+}
+
+const EMPTY_FORM: EndpointForm = {
+  name: '',
+  url: '',
+  method: 'POST',
+  headers: [{ name: 'Authorization', value: '' }],
+  gestures: '',
+  minConfidence: 0,
+  template: INTEGRATION_CONFIG.DEFAULT_TEMPLATE,
+};
+
+const toForm = (endpoint: IntegrationEndpoint): EndpointForm => ({
+  name: endpoint.name,
+  url: endpoint.url,
+  method: endpoint.method,
+  headers: endpoint.headers,
+  gestures: endpoint.gestures.join(', '),
+  minConfidence: endpoint.minConfidence,
+  template: endpoint.template,
+});
+
+const describeResult = (result: DeliveryResult) =>
+  result.ok
+    ? `✅ ${result.status} in ${result.latencyMs}ms`
+    : `❌ ${result.error}${result.retryable ? '' : ' (not retried)'}`;
+
+/**
+ * Headers are often secrets; show only enough to tell them apart
+ */
+const maskValue = (value: string) => (value.length <= 8 ? '••••' : `${value.slice(0, 6)}••••`);
+
+export default function IntegrationsScreen() {
+  const [endpoints, setEndpoints] = useState<IntegrationEndpoint[]>(integrations.currentEndpoints);
+  const [queue, setQueue] = useState<QueuedDelivery[]>(integrations.queue);
+  const [results, setResults] = useState<Record<string, DeliveryResult>>({});
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = integrations.subscribe(event => {
+      if (event.type === 'endpointsChanged') setEndpoints(event.endpoints);
+      if (event.type === 'queueChanged') setQueue(event.queue);
+      if (event.type === 'delivery') setResults(prev => ({ ...prev, [event.endpointId]: event.result }));
+    });
+    integrations.load()
+      .then(loaded => {
+        setEndpoints(loaded);
+        setQueue(integrations.queue);
+      })
+      .catch(error => console.error('Failed to load integrations:', error));
+    return unsubscribe;
+  }, []);
+
+  const updateForm = (changes: Partial<EndpointForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const updateHeader = (index: number, changes: Partial<IntegrationHeader>) => {
+    updateForm({ headers: form.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)) });
+  };
+
+  const changeConfidence = (delta: number) => {
+    updateForm({ minConfidence: Math.min(1, Math.max(0, Math.round((form.minConfidence + delta) * 100) / 100)) });
+  };
+
+  const save = async () => {
+    const endpoint = {
+      name: form.name,
+      url: form.url,
+      method: form.method,
+      headers: form.headers,
+      gestures: form.gestures.split(','),
+      minConfidence: form.minConfidence,
+      template: form.template,
+    };
+    try {
+      if (editingId) {
+        await integrations.updateEndpoint(editingId, endpoint);
+      } else {
+        await integrations.addEndpoint(endpoint);
+      }
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    } catch (error) {
+      Alert.alert('Cannot Save Endpoint', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const edit = (endpoint: IntegrationEndpoint) => {
+    setEditingId(endpoint.id);
+    setForm(toForm(endpoint));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const testFire = async (endpoint: IntegrationEndpoint) => {
+    setTesting(endpoint.id);
+    try {
+      const result = await integrations.testFire(endpoint.id);
+      Alert.alert(result.ok ? '✅ Test Delivered' : '❌ Test Failed', `${endpoint.name}: ${describeResult(result)}`);
+    } catch (error) {
+      Alert.alert('❌ Test Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const remove = (endpoint: IntegrationEndpoint) => {
+    const pending = queue.filter(delivery => delivery.endpointId === endpoint.id).length;
+    Alert.alert(
+      'Remove Endpoint',
+      `Stop sending gestures to ${endpoint.name}?${pending > 0 ? ` ${pending} queued deliveries will be dropped.` : ''}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            if (editingId === endpoint.id) cancelEdit();
+            integrations.removeEndpoint(endpoint.id);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* 1. Endpoints */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Endpoints ({endpoints.length})</Text>
+        {endpoints.length === 0 && (
+          <Text style={styles.hintText}>
+            Add a Home Assistant webhook, a Node-RED HTTP-in node or any other URL to send recognized gestures to.
+          </Text>
+        )}
+        {endpoints.map(endpoint => {
+          const pending = queue.filter(delivery => delivery.endpointId === endpoint.id);
+          const result = results[endpoint.id] ?? integrations.lastResultOf(endpoint.id);
+          return (
+            <View key={endpoint.id} style={[styles.endpoint, !endpoint.enabled && styles.endpointDisabled]}>
+              <Text style={styles.endpointTitle}>{endpoint.name}</Text>
+              <Text style={styles.endpointText}>{endpoint.method} {endpoint.url}</Text>
+              <Text style={styles.endpointText}>
+                {endpoint.gestures.length > 0 ? endpoint.gestures.join(', ') : 'All gestures'} ≥ {Math.round(endpoint.minConfidence * 100)}%
+                {endpoint.headers.length > 0 && ` · ${endpoint.headers.map(header => `${header.name}: ${maskValue(header.value)}`).join(', ')}`}
+              </Text>
+              {result && <Text style={styles.endpointText}>Last: {describeResult(result)}</Text>}
+              {pending.length > 0 && (
+                <Text style={styles.queueText}>
+                  ⏳ {pending.length} queued · retry {pending[0].attempts + 1} at {new Date(pending[0].nextAttemptAt).toLocaleTimeString()}
+                  {pending[0].lastError && ` · ${pending[0].lastError}`}
+                </Text>
+              )}
+              <View style={styles.linkRow}>
+                <Text style={styles.link} onPress={() => testFire(endpoint)}>
+                  {testing === endpoint.id ? 'Sending...' : '🧪 Test'}
+                </Text>
+                {pending.length > 0 && (
+                  <Text style={styles.link} onPress={() => integrations.retryNow(endpoint.id)}>🔁 Retry now</Text>
+                )}
+                <Text style={styles.link} onPress={() => edit(endpoint)}>Edit</Text>
+                <Text
+                  style={styles.link}
+                  onPress={() => integrations.updateEndpoint(endpoint.id, { enabled: !endpoint.enabled })}
+                >
+                  {endpoint.enabled ? 'On' : 'Off'}
+                </Text>
+                <Text style={[styles.link, styles.removeText]} onPress={() => remove(endpoint)}>Remove</Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* 2. Add or edit */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{editingId ? 'Edit Endpoint' : 'New Endpoint'}</Text>
+        <TextInput
+          style={styles.input}
+          value={form.name}
+          onChangeText={name => updateForm({ name })}
+          placeholder="Name, e.g. Home Assistant"
+          placeholderTextColor="#666"
+        />
+        <TextInput
+          style={styles.input}
+          value={form.url}
+          onChangeText={url => updateForm({ url })}
+          placeholder="http://homeassistant.local:8123/api/webhook/abracadabra"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <View style={styles.chipRow}>
+          {METHODS.map(method => (
+            <Pressable
+              key={method}
+              style={[styles.chip, form.method === method && styles.chipSelected]}
+              onPress={() => updateForm({ method })}
+            >
+              <Text style={[styles.chipText, form.method === method && styles.chipTextSelected]}>{method}</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Headers</Text>
+        {form.headers.map((header, index) => (
+          <View key={index} style={styles.headerRow}>
+            <TextInput
+              style={[styles.input, styles.headerName]}
+              value={header.name}
+              onChangeText={name => updateHeader(index, { name })}
+              placeholder="Header"
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={[styles.input, styles.headerValue]}
+              value={header.value}
+              onChangeText={value => updateHeader(index, { value })}
+              placeholder="Bearer <token>"
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Text
+              style={[styles.link, styles.removeText]}
+              onPress={() => updateForm({ headers: form.headers.filter((_, i) => i !== index) })}
+            >
+              ✕
+            </Text>
+          </View>
+        ))}
+        <Text style={styles.link} onPress={() => updateForm({ headers: [...form.headers, { name: '', value: '' }] })}>
+          ➕ Add header
+        </Text>
+
+        <Text style={styles.label}>Gestures</Text>
+        <TextInput
+          style={styles.input}
+          value={form.gestures}
+          onChangeText={gestures => updateForm({ gestures })}
+          placeholder="flick, circle (empty sends every gesture)"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Text style={styles.label}>Minimum confidence</Text>
+        <View style={styles.stepper}>
+          <Pressable style={styles.stepperButton} onPress={() => changeConfidence(-CONFIDENCE_STEP)}>
+            <Text style={styles.stepperButtonText}>−</Text>
+          </Pressable>
+          <Text style={styles.stepperValue}>{Math.round(form.minConfidence * 100)}%</Text>
+          <Pressable style={styles.stepperButton} onPress={() => changeConfidence(CONFIDENCE_STEP)}>
+            <Text style={styles.stepperButtonText}>+</Text>
+          </Pressable>
+        </View>
+
+        <Text style={styles.label}>JSON template</Text>
+        <TextInput
+          style={[styles.input, styles.templateInput]}
+          value={form.template}
+          onChangeText={template => updateForm({ template })}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.hintText}>
+          Placeholders: {'{{gesture}}'}, {'{{confidence}}'}, {'{{confidencePercent}}'}, {'{{timestamp}}'},{' '}
+          {'{{timestampMs}}'}, {'{{movements}}'}, {'{{source}}'}. A value that is only a placeholder keeps its type.
+        </Text>
+
+        <Pressable style={[styles.button, styles.saveButton]} onPress={save}>
+          <Text style={styles.buttonText}>{editingId ? '💾 Save Endpoint' : '➕ Add Endpoint'}</Text>
+        </Pressable>
+        {editingId && (
+          <Text style={[styles.link, styles.cancelText]} onPress={cancelEdit}>Cancel</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  section: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9BA1A6',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  endpoint: {
+    backgroundColor: '#2a2a2a',
+    padding: 10,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  endpointDisabled: {
+    opacity: 0.5,
+  },
+  endpointTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  endpointText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  queueText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 2,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+    marginTop: 6,
+  },
+  link: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginRight: 14,
+    marginTop: 4,
+  },
+  removeText: {
+    color: '#f44336',
+  },
+  cancelText: {
+    textAlign: 'center',
+    marginTop: 10,
+    marginRight: 0,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#9BA1A6',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    color: '#ECEDEE',
+    marginTop: 4,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  headerName: {
+    flex: 2,
+    marginRight: 6,
+  },
+  headerValue: {
+    flex: 3,
+    marginRight: 10,
+  },
+  templateInput: {
+    minHeight: 120,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#2a2a2a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 22,
+    color: '#ECEDEE',
+  },
+  stepperValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginHorizontal: 20,
+    minWidth: 50,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 6,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#3F51B5',
+    marginTop: 12,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
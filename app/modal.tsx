@@ -1,35 +1,431 @@
+import React, { useEffect, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { Platform, StyleSheet } from 'react-native';
+import { Alert, Platform, Pressable, ScrollView, StyleSheet, Switch, TextInput } from 'react-native';
 
-import EditScreenInfo from '@/components/EditScreenInfo';
+import SignalFilterEditor from '@/components/SignalFilterEditor';
 import { Text, View } from '@/components/Themed';
+import { API_ENVIRONMENTS, ApiEnvironmentId } from '@/constants/API';
+import { GestureAPI, HealthCheckResult } from '@/services/GestureAPI';
+import { localClassifier, LocalModel } from '@/services/LocalClassifier';
+import {
+  AppSettings,
+  PREDICTION_ENGINES,
+  PredictionEngine,
+  resolveApiBaseUrl,
+  settingsStore,
+} from '@/services/Settings';
+import { SensorChannel, SignalFilterSpec } from '@/services/SignalProcessing';
+
+const ENGINE_INFO: Record<PredictionEngine, { title: string; description: string }> = {
+  remote: {
+    title: '☁️ Remote',
+    description: 'Always use the hosted model. Needs an internet connection.',
+  },
+  local: {
+    title: '📱 On-device',
+    description: 'Always use the downloaded model. Works offline.',
+  },
+  'remote-with-local-fallback': {
+    title: '🔀 Remote with on-device fallback',
+    description: 'Use the hosted model, and the downloaded one when the request fails.',
+  },
+};
+
+export default function SettingsScreen() {
+  const [settings, setSettings] = useState<AppSettings>(settingsStore.current);
+  const [localModel, setLocalModel] = useState<LocalModel | null>(localClassifier.model);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [localApiUrl, setLocalApiUrl] = useState(settingsStore.current.localApiUrl);
+  const [stagingApiUrl, setStagingApiUrl] = useState(settingsStore.current.stagingApiUrl);
+  const [localModelUrl, setLocalModelUrl] = useState(settingsStore.current.localModelUrl);
+  const [healthChecks, setHealthChecks] = useState<Partial<Record<ApiEnvironmentId, HealthCheckResult | 'checking'>>>({});
+
+  useEffect(() => {
+    settingsStore.load().then(loaded => {
+      setSettings(loaded);
+      setLocalApiUrl(loaded.localApiUrl);
+      setStagingApiUrl(loaded.stagingApiUrl);
+      setLocalModelUrl(loaded.localModelUrl);
+    });
+    return settingsStore.subscribe(setSettings);
+  }, []);
+
+  useEffect(() => {
+    localClassifier.load().then(setLocalModel);
+    return localClassifier.subscribe(setLocalModel);
+  }, []);
+
+  const selectEngine = (engine: PredictionEngine) => {
+    if (engine === 'local' && !localModel) {
+      Alert.alert('No On-device Model', 'Download the model first to predict offline.');
+      return;
+    }
+    settingsStore.update({ predictionEngine: engine }).catch(error => {
+      console.error('Failed to save settings:', error);
+    });
+  };
+
+  const selectEnvironment = (environment: ApiEnvironmentId) => {
+    settingsStore.update({ apiEnvironment: environment }).catch(error => {
+      console.error('Failed to save settings:', error);
+    });
+  };
+
+  const saveApiUrl = (environment: 'local' | 'staging', url: string) => {
+    const key = environment === 'local' ? 'localApiUrl' : 'stagingApiUrl';
+    if (url.trim() === settings[key]) return;
+    setHealthChecks(prev => ({ ...prev, [environment]: undefined }));
+    settingsStore.update({ [key]: url.trim() }).catch(error => {
+      console.error('Failed to save settings:', error);
+    });
+  };
+
+  const updateChartFilters = (channel: SensorChannel, filters: SignalFilterSpec[]) => {
+    settingsStore.update({ chartFilters: { ...settings.chartFilters, [channel]: filters } }).catch(error => {
+      console.error('Failed to save settings:', error);
+    });
+  };
+
+  const checkHealth = async (environment: ApiEnvironmentId) => {
+    setHealthChecks(prev => ({ ...prev, [environment]: 'checking' }));
+    const result = await GestureAPI.checkHealth(environment);
+    setHealthChecks(prev => ({ ...prev, [environment]: result }));
+  };
+
+  const downloadModel = async () => {
+    setIsDownloading(true);
+    try {
+      const model = await GestureAPI.downloadLocalModel(localModelUrl);
+      await settingsStore.update({ localModelUrl: localModelUrl.trim() });
+      Alert.alert('📦 Model Downloaded', `On-device model ready with ${model.labels.length} gestures.`);
+    } catch (error) {
+      Alert.alert('❌ Download Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const removeModel = () => {
+    Alert.alert('Remove Model', 'Delete the on-device model?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await localClassifier.clear();
+          if (settings.predictionEngine === 'local') {
+            await settingsStore.update({ predictionEngine: 'remote-with-local-fallback' });
+          }
+        },
+      },
+    ]);
+  };
 
-export default function ModalScreen() {
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Modal</Text>
-      <View style={styles.separator} lightColor="#eee" darkColor="rgba(255,255,255,0.1)" />
-      <EditScreenInfo path="app/modal.tsx" />
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* 1. Prediction engine */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Prediction Engine</Text>
+        {PREDICTION_ENGINES.map(engine => {
+          const selected = settings.predictionEngine === engine;
+          return (
+            <Pressable
+              key={engine}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => selectEngine(engine)}
+            >
+              <Text style={styles.optionTitle}>{selected ? '● ' : '○ '}{ENGINE_INFO[engine].title}</Text>
+              <Text style={styles.optionText}>{ENGINE_INFO[engine].description}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {/* 2. API environment */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>API Environment</Text>
+        {Object.values(API_ENVIRONMENTS).map(environment => {
+          const selected = settings.apiEnvironment === environment.id;
+          const health = healthChecks[environment.id];
+          return (
+            <Pressable
+              key={environment.id}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => selectEnvironment(environment.id)}
+            >
+              <View style={styles.environmentRow}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.optionTitle}>{selected ? '● ' : '○ '}{environment.name}</Text>
+                  <Text style={styles.optionText}>{resolveApiBaseUrl(settings, environment.id) || 'No URL set'}</Text>
+                </View>
+                <Pressable
+                  style={styles.healthButton}
+                  onPress={() => checkHealth(environment.id)}
+                  disabled={health === 'checking'}
+                >
+                  <Text style={styles.healthButtonText}>{health === 'checking' ? '...' : 'Check'}</Text>
+                </Pressable>
+              </View>
+              {health && health !== 'checking' && (
+                <Text style={[styles.optionText, { color: health.ok ? '#4CAF50' : '#F44336' }]}>
+                  {health.ok ? `✅ Healthy (${health.latencyMs}ms)` : `❌ ${health.error}`}
+                </Text>
+              )}
+            </Pressable>
+          );
+        })}
+        <Text style={styles.infoText}>Local dev server URL</Text>
+        <TextInput
+          style={styles.input}
+          value={localApiUrl}
+          onChangeText={setLocalApiUrl}
+          onEndEditing={() => saveApiUrl('local', localApiUrl)}
+          onSubmitEditing={() => saveApiUrl('local', localApiUrl)}
+          placeholder={API_ENVIRONMENTS.local.baseUrl}
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <Text style={styles.infoText}>Staging server URL</Text>
+        <TextInput
+          style={styles.input}
+          value={stagingApiUrl}
+          onChangeText={setStagingApiUrl}
+          onEndEditing={() => saveApiUrl('staging', stagingApiUrl)}
+          onSubmitEditing={() => saveApiUrl('staging', stagingApiUrl)}
+          placeholder="https://your-staging-server"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+      </View>
+
+      {/* 3. Streaming recognition */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.sectionTitle}>Live Recognition</Text>
+            <Text style={styles.optionText}>
+              Classify sliding windows while a gesture is recording and compare them with the final result.
+              Fastest with an on-device model.
+            </Text>
+          </View>
+          <Switch
+            value={settings.streamingRecognition}
+            onValueChange={value => {
+              settingsStore.update({ streamingRecognition: value }).catch(error => {
+                console.error('Failed to save settings:', error);
+              });
+            }}
+          />
+        </View>
+      </View>
+
+      {/* 3.5 Simulated device */}
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.sectionTitle}>Simulated Device</Text>
+            <Text style={styles.optionText}>
+              Scan for a simulated AbracadabraIMU that performs scripted gestures instead of using Bluetooth.
+              Always on in the web build.
+            </Text>
+          </View>
+          <Switch
+            value={settings.simulatedDevice}
+            onValueChange={value => {
+              settingsStore.update({ simulatedDevice: value }).catch(error => {
+                console.error('Failed to save settings:', error);
+              });
+            }}
+          />
+        </View>
+      </View>
+
+      {/* 4. Signal filters */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Signal Filters</Text>
+        <Text style={styles.infoText}>Smooth the live charts. Recordings are always saved unfiltered.</Text>
+        <SignalFilterEditor
+          title="🔴 Acceleration chart"
+          channel="acceleration"
+          filters={settings.chartFilters.acceleration}
+          onChange={filters => updateChartFilters('acceleration', filters)}
+        />
+        <SignalFilterEditor
+          title="🔵 Gyroscope chart"
+          channel="gyroscope"
+          filters={settings.chartFilters.gyroscope}
+          onChange={filters => updateChartFilters('gyroscope', filters)}
+        />
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.optionTitle}>Filter recordings too</Text>
+            <Text style={styles.optionText}>
+              Apply the same filters to recordings before prediction and export.
+            </Text>
+          </View>
+          <Switch
+            value={settings.filterRecordings}
+            onValueChange={value => {
+              settingsStore.update({ filterRecordings: value }).catch(error => {
+                console.error('Failed to save settings:', error);
+              });
+            }}
+          />
+        </View>
+      </View>
+
+      {/* 5. On-device model */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>On-device Model</Text>
+        {localModel ? (
+          <>
+            <Text style={styles.infoText}>Name: {localModel.name ?? localModel.model_type}</Text>
+            {localModel.trained_at && (
+              <Text style={styles.infoText}>Trained: {new Date(localModel.trained_at).toLocaleString()}</Text>
+            )}
+            <Text style={styles.infoText}>Gestures: {localModel.labels.join(', ')}</Text>
+            <Text style={styles.infoText}>
+              Windows: {localModel.window_params.window_size_ms}ms / {localModel.window_params.overlap_ms}ms overlap @ {localModel.window_params.sample_rate_hz}Hz
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.infoText}>No model downloaded. Predictions need the internet until you download one.</Text>
+        )}
+
+        <Text style={styles.infoText}>Model file URL (exported from the server)</Text>
+        <TextInput
+          style={styles.input}
+          value={localModelUrl}
+          onChangeText={setLocalModelUrl}
+          placeholder="https://example.com/model.json"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <Pressable
+          style={[styles.button, styles.downloadButton, isDownloading && styles.buttonDisabled]}
+          onPress={downloadModel}
+          disabled={isDownloading}
+        >
+          <Text style={styles.buttonText}>
+            {isDownloading ? '⏳ Downloading...' : localModel ? '🔄 Update Model' : '📥 Download Model'}
+          </Text>
+        </Pressable>
+        {localModel && (
+          <Pressable style={[styles.button, styles.removeButton]} onPress={removeModel}>
+            <Text style={styles.buttonText}>🗑️ Remove Model</Text>
+          </Pressable>
+        )}
+      </View>
 
       {/* Use a light status bar on iOS to account for the black space above the modal */}
       <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
-    </View>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  section: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 10,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: 'rgba(33, 150, 243, 0.15)',
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 10,
+    backgroundColor: 'transparent',
+  },
+  environmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  healthButton: {
+    borderWidth: 1,
+    borderColor: '#9BA1A6',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  healthButtonText: {
+    fontSize: 12,
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    color: '#ECEDEE',
+  },
+  infoText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+    marginBottom: 4,
+  },
+  button: {
+    paddingVertical: 10,
+    borderRadius: 8,
     alignItems: 'center',
-    justifyContent: 'center',
+    marginTop: 10,
   },
-  title: {
-    fontSize: 20,
+  buttonText: {
+    color: 'white',
     fontWeight: 'bold',
   },
-  separator: {
-    marginVertical: 30,
-    height: 1,
-    width: '80%',
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  downloadButton: {
+    backgroundColor: '#2196F3',
+  },
+  removeButton: {
+    backgroundColor: '#FF5722',
   },
 });
@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+
+import { Text, View } from '@/components/Themed';
+import SensorTraceChart from '@/components/SensorTraceChart';
+import SessionExportBar from '@/components/SessionExportBar';
+import { deviceConnection } from '@/services/DeviceConnection';
+import { saveExportFile } from '@/services/FileExport';
+import { GestureAPI } from '@/services/GestureAPI';
+import { buildMultiSensorExportFile } from '@/services/MultiSensorRecording';
+import { sessionRepository, StoredSession } from '@/services/SessionRepository';
+import { unwrapDataPoints } from '@/services/SessionAssembler';
+import { repredictSession, REPLAY_SPEEDS, sessionReplayer } from '@/services/SessionReplayer';
+import { settingsStore } from '@/services/Settings';
+
+/**
+ * Seconds since the first sample, following the device's uint16 millisecond clock across wraps
+ */
+function elapsedSeconds(session: StoredSession): number[] {
+  const points = unwrapDataPoints(session.samples);
+  return points.map(point => (point.unwrappedTimestamp! - points[0].unwrappedTimestamp!) / 1000);
+}
+
+export default function SessionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPredicting, setIsPredicting] = useState(false);
+  const [isExportingGroup, setIsExportingGroup] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    const load = () => {
+      sessionRepository.get(id)
+        .then(setSession)
+        .catch(error => console.error('Failed to load session:', error))
+        .finally(() => setIsLoading(false));
+    };
+    load();
+    return sessionRepository.subscribe(load);
+  }, [id]);
+
+  const times = useMemo(() => (session ? elapsedSeconds(session) : []), [session]);
+
+  const deleteSession = () => {
+    if (!session) return;
+    Alert.alert('Delete Session', `Delete recording ${session.recordingHash}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await sessionRepository.delete(session.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const replaySession = (speed: number) => {
+    if (!session) return;
+    if (deviceConnection.state === 'streaming') {
+      Alert.alert('Device Connected', 'Disconnect the device before replaying a session.');
+      return;
+    }
+    try {
+      sessionReplayer.start(session, speed);
+      router.navigate('/');
+    } catch (error) {
+      Alert.alert('Replay Failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const rerunPrediction = async () => {
+    if (!session) return;
+    setIsPredicting(true);
+    try {
+      const settings = await settingsStore.load();
+      const prediction = await repredictSession(session, settings.filterRecordings ? settings.chartFilters : null);
+      const result = GestureAPI.getPrimaryMovement(prediction);
+      Alert.alert('Prediction Updated', result
+        ? `${result.movement} (${(result.confidence * 100).toFixed(1)}%)`
+        : 'No movement detected.');
+    } catch (error) {
+      console.error('💥 Re-running prediction failed:', error);
+      Alert.alert('Prediction Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsPredicting(false);
+    }
+  };
+
+  const exportGroup = async () => {
+    if (!session?.groupId) return;
+    setIsExportingGroup(true);
+    try {
+      const [sessions, settings] = await Promise.all([sessionRepository.getGroup(session.groupId), settingsStore.load()]);
+      await saveExportFile(buildMultiSensorExportFile(sessions, settings.filterRecordings ? settings.chartFilters : null));
+    } catch (error) {
+      console.error('💥 Export failed:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsExportingGroup(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <View style={styles.centered}>
+        <Stack.Screen options={{ title: 'Session' }} />
+        <Text style={styles.mutedText}>{isLoading ? 'Loading session...' : 'Session not found.'}</Text>
+      </View>
+    );
+  }
+
+  const primary = session.prediction ? GestureAPI.getPrimaryMovement(session.prediction) : null;
+  const segments = session.prediction?.detailed_segments ?? [];
+  const { samples } = session;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Stack.Screen options={{ title: primary?.movement ?? 'Session' }} />
+
+      <View style={styles.summary}>
+        <Text style={styles.summaryTitle}>
+          {primary ? `🎯 ${primary.movement} (${(primary.confidence * 100).toFixed(1)}%)` : '❔ Not analyzed'}
+        </Text>
+        <Text style={styles.summaryText}>Recorded: {new Date(session.startTime).toLocaleString()}</Text>
+        <Text style={styles.summaryText}>
+          Duration: {((session.endTime - session.startTime) / 1000).toFixed(1)}s | Samples: {samples.length}
+        </Text>
+        <Text style={styles.summaryText}>Hash: {session.recordingHash}</Text>
+        <Text style={styles.summaryText}>Device: {session.deviceId}</Text>
+        {session.groupId && (
+          <Text style={styles.summaryText}>Multi-sensor recording: {session.groupId}</Text>
+        )}
+        {session.packetLoss && (
+          <Text style={styles.summaryText}>
+            Packet loss: {session.packetLoss.missing}/{session.packetLoss.expected} missing ({(session.packetLoss.lossRate * 100).toFixed(1)}%)
+            | {session.packetLoss.gaps} gaps | {session.packetLoss.duplicates} duplicates | {session.packetLoss.outOfOrder} out of order
+          </Text>
+        )}
+      </View>
+
+      <SensorTraceChart
+        title="🔴 Acceleration (g)"
+        unit="g"
+        times={times}
+        series={[
+          { label: 'Acc-X', values: samples.map(point => point.acceleration.x), rgb: '255, 99, 132' },
+          { label: 'Acc-Y', values: samples.map(point => point.acceleration.y), rgb: '75, 192, 192' },
+          { label: 'Acc-Z', values: samples.map(point => point.acceleration.z), rgb: '153, 102, 255' },
+        ]}
+      />
+      <SensorTraceChart
+        title="🔵 Gyroscope (°/s)"
+        unit="°/s"
+        decimalPlaces={1}
+        times={times}
+        series={[
+          { label: 'Gyro-X', values: samples.map(point => point.gyroscope.x), rgb: '255, 206, 84' },
+          { label: 'Gyro-Y', values: samples.map(point => point.gyroscope.y), rgb: '54, 162, 235' },
+          { label: 'Gyro-Z', values: samples.map(point => point.gyroscope.z), rgb: '255, 159, 64' },
+        ]}
+      />
+
+      <View style={styles.segments}>
+        <Text style={styles.segmentsTitle}>🧩 Detected Segments ({segments.length})</Text>
+        {segments.length === 0 && (
+          <Text style={styles.mutedText}>No movement segments for this session.</Text>
+        )}
+        {segments.map((segment, index) => (
+          <View key={`${segment.movement}-${segment.start_time}-${index}`} style={styles.segmentItem}>
+            <Text style={styles.segmentMovement}>
+              {segment.movement} — {(segment.avg_confidence * 100).toFixed(1)}%
+            </Text>
+            <Text style={styles.segmentText}>
+              {segment.start_time.toFixed(2)}s → {segment.end_time.toFixed(2)}s | {segment.duration.toFixed(2)}s | {segment.window_count} windows
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.actions}>
+        <Text style={styles.actionsLabel}>⏯️ Replay on the dashboard</Text>
+        <View style={styles.buttonRow}>
+          {REPLAY_SPEEDS.map(speed => (
+            <Pressable key={speed} style={styles.replayButton} onPress={() => replaySession(speed)}>
+              <Text style={styles.buttonText}>{speed}x</Text>
+            </Pressable>
+          ))}
+        </View>
+        <Pressable
+          style={[styles.predictButton, isPredicting && styles.buttonDisabled]}
+          disabled={isPredicting}
+          onPress={rerunPrediction}
+        >
+          <Text style={styles.buttonText}>{isPredicting ? 'Analyzing...' : '🧠 Re-run Prediction'}</Text>
+        </Pressable>
+      </View>
+
+      <SessionExportBar label="Export this session" loadSessions={async () => [session]} />
+      {session.groupId && (
+        <Pressable
+          style={[styles.predictButton, styles.groupExportButton, isExportingGroup && styles.buttonDisabled]}
+          disabled={isExportingGroup}
+          onPress={exportGroup}
+        >
+          <Text style={styles.buttonText}>{isExportingGroup ? 'Exporting...' : '🧩 Export all sensors (CSV)'}</Text>
+        </Pressable>
+      )}
+
+      <Pressable style={styles.deleteButton} onPress={deleteSession}>
+        <Text style={styles.deleteButtonText}>🗑️ Delete Session</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  summary: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 6,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  segments: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  segmentsTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  segmentItem: {
+    backgroundColor: '#2a2a2a',
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  segmentMovement: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  segmentText: {
+    fontSize: 11,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  mutedText: {
+    color: '#9BA1A6',
+  },
+  actions: {
+    backgroundColor: 'transparent',
+    marginBottom: 12,
+  },
+  actionsLabel: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginBottom: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+    marginBottom: 8,
+  },
+  replayButton: {
+    backgroundColor: '#3F51B5',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  predictButton: {
+    backgroundColor: '#9C27B0',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  groupExportButton: {
+    backgroundColor: '#2196F3',
+    marginBottom: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    backgroundColor: '#FF5722',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, TextInput } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { TRAINING_CONFIG } from '@/constants/API';
+import { GestureAPI } from '@/services/GestureAPI';
+import { trainingCapture, TrainingCaptureState } from '@/services/TrainingCapture';
+
+export default function TrainingScreen() {
+  const [capture, setCapture] = useState<TrainingCaptureState>(trainingCapture.state);
+  const [availableGestures, setAvailableGestures] = useState<string[]>([]);
+  const [label, setLabel] = useState(trainingCapture.state.label ?? '');
+  const [repetitions, setRepetitions] = useState(trainingCapture.state.targetRepetitions);
+
+  useEffect(() => trainingCapture.subscribe(setCapture), []);
+
+  useEffect(() => {
+    GestureAPI.getModelStatus()
+      .then(status => setAvailableGestures(status.available_gestures ?? []))
+      .catch(error => console.error('Failed to load model status:', error));
+  }, []);
+
+  const changeRepetitions = (delta: number) => {
+    setRepetitions(prev => Math.min(TRAINING_CONFIG.MAX_REPETITIONS, Math.max(1, prev + delta)));
+  };
+
+  const startRecording = () => {
+    try {
+      trainingCapture.start(label, repetitions);
+    } catch (error) {
+      Alert.alert('Cannot Start', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const upload = async () => {
+    try {
+      const result = await trainingCapture.upload();
+      Alert.alert(
+        '🎓 Training Complete',
+        `${result.message}\n\n` +
+        `📊 Accuracy: ${result.accuracy_score !== undefined ? `${(result.accuracy_score * 100).toFixed(1)}%` : 'N/A'}\n` +
+        `🔢 Training samples: ${result.training_samples}`
+      );
+    } catch (error) {
+      Alert.alert(
+        '❌ Upload Failed',
+        `${error instanceof Error ? error.message : 'Unknown error'}\n\nTakes that were not uploaded are kept so you can retry.`
+      );
+    }
+  };
+
+  const finish = () => {
+    if (capture.takes.length === 0) {
+      trainingCapture.reset();
+      return;
+    }
+    Alert.alert('Discard Takes', `Discard ${capture.takes.length} takes that have not been uploaded?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => trainingCapture.reset() },
+    ]);
+  };
+
+  const labelChoices = availableGestures.includes(label) || !label
+    ? availableGestures
+    : [...availableGestures, label];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      {/* 1. Gesture label */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Gesture Label</Text>
+        <View style={styles.chipRow}>
+          {labelChoices.map(gesture => (
+            <Pressable
+              key={gesture}
+              style={[styles.chip, label === gesture && styles.chipSelected]}
+              onPress={() => setLabel(gesture)}
+              disabled={capture.isRecording}
+            >
+              <Text style={[styles.chipText, label === gesture && styles.chipTextSelected]}>{gesture}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          style={styles.input}
+          value={label}
+          onChangeText={setLabel}
+          placeholder="...or type a new gesture name"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!capture.isRecording}
+        />
+      </View>
+
+      {/* 2. Repetitions */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Repetitions</Text>
+        <View style={styles.stepper}>
+          <Pressable style={styles.stepperButton} onPress={() => changeRepetitions(-1)} disabled={capture.isRecording}>
+            <Text style={styles.stepperButtonText}>−</Text>
+          </Pressable>
+          <Text style={styles.stepperValue}>{repetitions}</Text>
+          <Pressable style={styles.stepperButton} onPress={() => changeRepetitions(1)} disabled={capture.isRecording}>
+            <Text style={styles.stepperButtonText}>+</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {/* 3. Recording controls */}
+      <View style={styles.section}>
+        <Text style={styles.progressText}>
+          {capture.label
+            ? `"${capture.label}": ${capture.takes.length} / ${capture.targetRepetitions} takes`
+            : 'Not recording'}
+        </Text>
+        {capture.isRecording ? (
+          <>
+            <Text style={styles.hintText}>🎬 Double-tap your Arduino and perform the gesture. Each recording becomes one take.</Text>
+            <Pressable style={[styles.button, styles.stopButton]} onPress={() => trainingCapture.stop()}>
+              <Text style={styles.buttonText}>⏹️ Stop Recording</Text>
+            </Pressable>
+          </>
+        ) : (
+          <Pressable
+            style={[styles.button, styles.recordButton]}
+            onPress={startRecording}
+            disabled={capture.isUploading}
+          >
+            <Text style={styles.buttonText}>
+              {capture.label === label.trim() && capture.takes.length > 0 ? '⏺️ Record More' : '⏺️ Start Recording'}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {/* 4. Review takes */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Takes ({capture.takes.length})</Text>
+        {capture.takes.length === 0 && (
+          <Text style={styles.hintText}>Recorded takes appear here for review before upload.</Text>
+        )}
+        {capture.takes.map((take, index) => (
+          <View key={take.id} style={styles.takeItem}>
+            <View style={styles.takeInfo}>
+              <Text style={styles.takeTitle}>Take {index + 1}</Text>
+              <Text style={styles.takeText}>
+                {take.samples.length} samples | {(take.durationMs / 1000).toFixed(1)}s | Hash: {take.recordingHash}
+              </Text>
+            </View>
+            <Pressable
+              style={styles.discardButton}
+              onPress={() => trainingCapture.discardTake(take.id)}
+              disabled={capture.isUploading}
+            >
+              <Text style={styles.discardButtonText}>Discard</Text>
+            </Pressable>
+          </View>
+        ))}
+      </View>
+
+      {/* 5. Upload */}
+      <Pressable
+        style={[styles.button, styles.uploadButton, (capture.takes.length === 0 || capture.isUploading) && styles.buttonDisabled]}
+        onPress={upload}
+        disabled={capture.takes.length === 0 || capture.isUploading}
+      >
+        <Text style={styles.buttonText}>
+          {capture.isUploading ? '⏳ Uploading...' : `📤 Upload ${capture.takes.length} Takes`}
+        </Text>
+      </Pressable>
+
+      {capture.error && (
+        <Text style={styles.errorText}>❌ {capture.error}</Text>
+      )}
+
+      {capture.lastResult && (
+        <View style={styles.resultContainer}>
+          <Text style={styles.resultTitle}>🎓 Last Training Result</Text>
+          <Text style={styles.resultText}>{capture.lastResult.message}</Text>
+          <Text style={styles.resultText}>
+            Accuracy: {capture.lastResult.accuracy_score !== undefined
+              ? `${(capture.lastResult.accuracy_score * 100).toFixed(1)}%`
+              : 'N/A'}
+          </Text>
+          <Text style={styles.resultText}>Training samples: {capture.lastResult.training_samples}</Text>
+          <Text style={styles.resultText}>Model updated: {capture.lastResult.model_updated ? '✅' : '❌'}</Text>
+        </View>
+      )}
+
+      {capture.label && (
+        <Pressable style={styles.finishButton} onPress={finish} disabled={capture.isUploading}>
+          <Text style={styles.finishButtonText}>Leave Training Mode</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  section: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#9BA1A6',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#9BA1A6',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    color: '#ECEDEE',
+    marginTop: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#2a2a2a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 22,
+    color: '#ECEDEE',
+  },
+  stepperValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginHorizontal: 20,
+    minWidth: 30,
+    textAlign: 'center',
+  },
+  progressText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginBottom: 8,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  recordButton: {
+    backgroundColor: '#4CAF50',
+  },
+  stopButton: {
+    backgroundColor: '#FF9800',
+  },
+  uploadButton: {
+    backgroundColor: '#2196F3',
+    marginBottom: 16,
+  },
+  takeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 6,
+  },
+  takeInfo: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  takeTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  takeText: {
+    fontSize: 11,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  discardButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#FF5722',
+  },
+  discardButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#F44336',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  resultContainer: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginBottom: 6,
+  },
+  resultText: {
+    fontSize: 13,
+    color: '#ECEDEE',
+    marginTop: 2,
+  },
+  finishButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  finishButtonText: {
+    color: '#9BA1A6',
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import LiveSensorChart, { LiveTrace } from '@/components/LiveSensorChart';
+import { deviceHub, SensorStatus } from '@/services/DeviceHub';
+import { LinkQuality } from '@/services/LinkHealthMonitor';
+
+const ACCELERATION_TRACES: LiveTrace[] = [
+  { label: 'X', axis: 'x', rgb: '255, 99, 132' },
+  { label: 'Y', axis: 'y', rgb: '75, 192, 192' },
+  { label: 'Z', axis: 'z', rgb: '153, 102, 255' },
+];
+
+const QUALITY_COLORS: Record<LinkQuality, string> = {
+  Excellent: '#4CAF50',
+  Good: '#8BC34A',
+  Poor: '#FF9800',
+  Unknown: '#9BA1A6',
+};
+
+const describeSession = ({ session }: SensorStatus) => {
+  if (!session) return 'No recording yet';
+  return session.isActive
+    ? `Recording: ${session.samplesReceived} samples`
+    : `Last recording: ${session.samplesReceived} samples`;
+};
+
+/**
+ * Every connected sensor with its own stream rate, link quality and
+ * recording. Sensors added here record alongside the dashboard's device;
+ * their sessions are saved and analyzed together.
+ */
+export default function ConnectedSensors() {
+  const [sensors, setSensors] = useState<SensorStatus[]>(deviceHub.sensors);
+  const [busy, setBusy] = useState<'add' | 'record' | null>(null);
+
+  useEffect(() => {
+    const refresh = () => setSensors(deviceHub.sensors);
+    const unsubscribe = deviceHub.subscribe(event => {
+      if (event.type === 'sensorsChanged') refresh();
+      if (event.type === 'error' && event.deviceId !== null) {
+        Alert.alert('Sensor Error', event.error.message);
+      }
+    });
+    // Rates and link quality change without events
+    const interval = setInterval(refresh, 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  const run = async (action: 'add' | 'record', task: () => Promise<void>) => {
+    setBusy(action);
+    try {
+      await task();
+    } catch (error) {
+      Alert.alert(action === 'add' ? 'Add Sensor Failed' : 'Record Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const streaming = sensors.filter(sensor => sensor.state === 'streaming').length;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🛰️ Sensors ({streaming} streaming)</Text>
+
+      {sensors.map(sensor => (
+        <View key={sensor.label} style={styles.sensor}>
+          <View style={styles.sensorHeader}>
+            <Text style={styles.sensorName}>
+              {sensor.label}: {sensor.deviceId ? sensor.name : 'Scanning...'}
+            </Text>
+            <Text style={[styles.quality, { color: QUALITY_COLORS[sensor.quality] }]}>
+              {sensor.quality} · {sensor.dataRate} Hz
+            </Text>
+          </View>
+          <Text style={styles.detailText}>
+            {sensor.state} · {sensor.packetsReceived} packets · {describeSession(sensor)}
+          </Text>
+
+          {!sensor.isPrimary && sensor.state === 'streaming' && (
+            <LiveSensorChart
+              title="Acceleration (g)"
+              channel="acceleration"
+              traces={ACCELERATION_TRACES}
+              unit="g"
+              minSpan={0.5}
+              store={deviceHub.streamOf(sensor.deviceId) ?? undefined}
+            />
+          )}
+
+          {!sensor.isPrimary && (
+            <Text style={styles.removeButton} onPress={() => deviceHub.removeSensor(sensor.deviceId)}>
+              🔌 Remove
+            </Text>
+          )}
+        </View>
+      ))}
+
+      <View style={styles.buttonRow}>
+        <Pressable
+          style={[styles.button, busy !== null && styles.buttonDisabled]}
+          disabled={busy !== null}
+          onPress={() => run('add', () => deviceHub.addSensor())}
+        >
+          <Text style={styles.buttonText}>{busy === 'add' ? '…' : '➕ Add sensor'}</Text>
+        </Pressable>
+        {streaming > 1 && (
+          <Pressable
+            style={[styles.button, styles.recordButton, busy !== null && styles.buttonDisabled]}
+            disabled={busy !== null}
+            onPress={() => run('record', () => deviceHub.recordAll())}
+          >
+            <Text style={styles.buttonText}>{busy === 'record' ? '…' : '⏺️ Record all'}</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  sensor: {
+    backgroundColor: 'transparent',
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingVertical: 8,
+  },
+  sensorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: 'transparent',
+  },
+  sensorName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  quality: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 2,
+  },
+  removeButton: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+    marginTop: 8,
+  },
+  button: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  recordButton: {
+    backgroundColor: '#E91E63',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { deviceConnection } from '@/services/DeviceConnection';
+import { DeviceCommandChannel } from '@/services/DeviceCommands';
+
+type PanelCommand = 'start' | 'stop' | 'calibrate';
+
+const BUTTONS: { command: PanelCommand; label: string; run: (commands: DeviceCommandChannel) => Promise<void> }[] = [
+  { command: 'start', label: '⏺️ Start', run: commands => commands.startRecording() },
+  { command: 'stop', label: '⏹️ Stop', run: commands => commands.stopRecording() },
+  { command: 'calibrate', label: '🎯 Calibrate', run: commands => commands.calibrate() },
+];
+
+/**
+ * Common device commands for the connected AbracadabraIMU, plus its
+ * firmware version and battery level. Firmware without the command
+ * protocol just leaves them unknown.
+ */
+export default function DeviceCommandPanel() {
+  const [firmware, setFirmware] = useState<string | null>(null);
+  const [battery, setBattery] = useState<number | null>(null);
+  const [busy, setBusy] = useState<PanelCommand | 'battery' | null>(null);
+
+  const refreshBattery = async () => {
+    setBusy('battery');
+    try {
+      setBattery(await deviceConnection.commands.getBattery());
+    } catch (error) {
+      console.log('Battery query failed:', error);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  useEffect(() => {
+    deviceConnection.commands.getFirmwareVersion()
+      .then(setFirmware)
+      .catch(error => console.log('Firmware query failed:', error));
+    refreshBattery();
+  }, []);
+
+  const run = async ({ command, run: send }: typeof BUTTONS[number]) => {
+    setBusy(command);
+    try {
+      await send(deviceConnection.commands);
+    } catch (error) {
+      Alert.alert('Command Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable onPress={refreshBattery} disabled={busy !== null}>
+        <Text style={styles.infoText}>
+          Firmware: {firmware ?? '—'} | Battery: {busy === 'battery' ? '…' : battery === null ? '—' : `${battery}%`}
+        </Text>
+      </Pressable>
+      <View style={styles.buttonRow}>
+        {BUTTONS.map(button => (
+          <Pressable
+            key={button.command}
+            style={[styles.button, busy !== null && styles.buttonDisabled]}
+            disabled={busy !== null}
+            onPress={() => run(button)}
+          >
+            <Text style={styles.buttonText}>{busy === button.command ? '…' : button.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'transparent',
+    marginTop: 8,
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginBottom: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+  },
+  button: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
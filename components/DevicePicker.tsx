@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, TextInput } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { ScannedDevice } from '@/services/DeviceConnection';
+import { displayName, KnownDevice, knownDevices, rankDevices } from '@/services/KnownDevices';
+
+interface DevicePickerProps {
+  devices: ScannedDevice[]; // Everything the scan has seen so far
+  isScanning: boolean;
+  onConnect: (device: ScannedDevice) => void;
+}
+
+const signalBars = (rssi: number | null) => {
+  if (rssi === null) return '▯▯▯▯';
+  const bars = rssi >= -55 ? 4 : rssi >= -67 ? 3 : rssi >= -80 ? 2 : 1;
+  return '▮'.repeat(bars) + '▯'.repeat(4 - bars);
+};
+
+/**
+ * AbracadabraIMUs in range, strongest signal first. Remembered devices show
+ * their nickname; starred ones are connected to automatically on later scans.
+ */
+export default function DevicePicker({ devices, isScanning, onConnect }: DevicePickerProps) {
+  const [known, setKnown] = useState<KnownDevice[]>(knownDevices.current);
+  const [renaming, setRenaming] = useState<{ id: string; text: string } | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = knownDevices.subscribe(setKnown);
+    knownDevices.load().then(setKnown).catch(error => console.error('Failed to load known devices:', error));
+    return unsubscribe;
+  }, []);
+
+  const choices = rankDevices(devices, known);
+  const outOfRange = known.filter(device => !choices.some(choice => choice.device.id === device.id));
+
+  const saveNickname = () => {
+    if (!renaming) return;
+    knownDevices.rename(renaming.id, renaming.text).catch(error => console.error('Failed to rename device:', error));
+    setRenaming(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📡 Devices in range ({choices.length})</Text>
+      {choices.length === 0 && (
+        <Text style={styles.mutedText}>{isScanning ? 'Looking for AbracadabraIMU devices...' : 'No devices found.'}</Text>
+      )}
+
+      {choices.map(({ device, known: remembered }) => (
+        <View key={device.id} style={styles.row}>
+          <View style={styles.rowHeader}>
+            {remembered && (
+              <Pressable onPress={() => knownDevices.setPreferred(device.id, !remembered.preferred)}>
+                <Text style={styles.star}>{remembered.preferred ? '★' : '☆'}</Text>
+              </Pressable>
+            )}
+            <View style={styles.rowText}>
+              {renaming?.id === device.id ? (
+                <TextInput
+                  style={styles.input}
+                  value={renaming.text}
+                  placeholder={device.name}
+                  placeholderTextColor="#666"
+                  onChangeText={text => setRenaming({ id: device.id, text })}
+                  onEndEditing={saveNickname}
+                  onSubmitEditing={saveNickname}
+                  autoFocus
+                />
+              ) : (
+                <Text
+                  style={styles.name}
+                  onLongPress={remembered ? () => setRenaming({ id: device.id, text: remembered.nickname ?? '' }) : undefined}
+                >
+                  {displayName(device, remembered)}
+                </Text>
+              )}
+              <Text style={styles.mutedText}>
+                {device.id} · {signalBars(device.rssi)} {device.rssi ?? '—'} dBm
+              </Text>
+            </View>
+            <Pressable style={styles.connectButton} onPress={() => onConnect(device)}>
+              <Text style={styles.connectText}>Connect</Text>
+            </Pressable>
+          </View>
+        </View>
+      ))}
+
+      {outOfRange.length > 0 && (
+        <>
+          <Text style={styles.subtitle}>Remembered, not in range</Text>
+          {outOfRange.map(device => (
+            <View key={device.id} style={styles.rowHeader}>
+              <Text style={[styles.mutedText, styles.rowText]}>
+                {device.preferred ? '★ ' : ''}{displayName(device, device)} ({device.id})
+              </Text>
+              <Text style={styles.forgetText} onPress={() => knownDevices.forget(device.id)}>
+                Forget
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {known.length > 0 && (
+        <Text style={styles.hint}>Tap ☆ to connect automatically. Long-press a name to rename it.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#9BA1A6',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  row: {
+    backgroundColor: 'transparent',
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+    paddingVertical: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  rowText: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  star: {
+    fontSize: 20,
+    color: '#FFC107',
+    marginRight: 8,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 6,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    color: '#ECEDEE',
+  },
+  mutedText: {
+    fontSize: 12,
+    color: '#9BA1A6',
+  },
+  connectButton: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  connectText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  forgetText: {
+    color: '#f44336',
+    fontSize: 12,
+  },
+  hint: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 8,
+  },
+});
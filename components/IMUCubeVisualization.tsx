@@ -1,70 +1,205 @@
-import React, { useState } from 'react';
-import { View, Text, TextInput, StyleSheet } from 'react-native';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import Svg, { Line, Polygon } from 'react-native-svg';
 
-interface IMUData {
-  acceleration: { x: number; y: number; z: number };
-  gyroscope: { x: number; y: number; z: number };
-}
+import {
+  conjugate,
+  DEG_TO_RAD,
+  fromAxisAngle,
+  IDENTITY,
+  MahonyFilter,
+  multiply,
+  Quaternion,
+  rotateVector,
+  toEuler,
+  Vector3,
+} from '@/services/orientation';
+import { liveSampleStore } from '@/services/LiveSampleStore';
+import { BLEDataPoint } from '@/services/types';
 
 interface IMUCubeVisualizationProps {
-  imuData: IMUData | null;
   style?: any;
 }
 
-export default function IMUCubeVisualization({ imuData, style }: IMUCubeVisualizationProps) {
-  const [accScale, setAccScale] = useState(0.2);
-  const [gyroScale, setGyroScale] = useState(0.0015);
+const CANVAS_SIZE = 220;
+const FOCAL_LENGTH = 260;
+const CAMERA_DISTANCE = 5;
+const HALF_EXTENTS: Vector3 = { x: 1, y: 0.7, z: 0.25 }; // Flattened like the wand board
+const AXIS_LENGTH = 1.6;
+
+// Look at the world from the front, slightly above and to the right
+const VIEW = multiply(
+  fromAxisAngle({ x: 1, y: 0, z: 0 }, 25 * DEG_TO_RAD),
+  fromAxisAngle({ x: 0, y: 0, z: 1 }, -30 * DEG_TO_RAD)
+);
+
+const FACES: Array<{ normal: Vector3; corners: Vector3[]; color: string }> = [
+  { normal: { x: 0, y: 0, z: 1 }, corners: [[-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]].map(toVector), color: '#4A90E2' },
+  { normal: { x: 0, y: 0, z: -1 }, corners: [[-1, -1, -1], [-1, 1, -1], [1, 1, -1], [1, -1, -1]].map(toVector), color: '#2C3E50' },
+  { normal: { x: 1, y: 0, z: 0 }, corners: [[1, -1, -1], [1, 1, -1], [1, 1, 1], [1, -1, 1]].map(toVector), color: '#C0392B' },
+  { normal: { x: -1, y: 0, z: 0 }, corners: [[-1, -1, -1], [-1, -1, 1], [-1, 1, 1], [-1, 1, -1]].map(toVector), color: '#7B241C' },
+  { normal: { x: 0, y: 1, z: 0 }, corners: [[-1, 1, -1], [-1, 1, 1], [1, 1, 1], [1, 1, -1]].map(toVector), color: '#27AE60' },
+  { normal: { x: 0, y: -1, z: 0 }, corners: [[-1, -1, -1], [1, -1, -1], [1, -1, 1], [-1, -1, 1]].map(toVector), color: '#196F3D' },
+];
+
+const AXES: Array<{ direction: Vector3; color: string }> = [
+  { direction: { x: AXIS_LENGTH, y: 0, z: 0 }, color: '#FF3333' },
+  { direction: { x: 0, y: AXIS_LENGTH, z: 0 }, color: '#33FF33' },
+  { direction: { x: 0, y: 0, z: AXIS_LENGTH }, color: '#3399FF' },
+];
+
+function toVector([x, y, z]: number[]): Vector3 {
+  return { x: x * HALF_EXTENTS.x, y: y * HALF_EXTENTS.y, z: z * HALF_EXTENTS.z };
+}
+
+/**
+ * Camera space: x right, z up, y away from the viewer
+ */
+function toCamera(orientation: Quaternion, v: Vector3): Vector3 {
+  return rotateVector(VIEW, rotateVector(orientation, v));
+}
+
+function project(p: Vector3): { x: number; y: number } {
+  const scale = FOCAL_LENGTH / (CAMERA_DISTANCE + p.y);
+  return { x: CANVAS_SIZE / 2 + p.x * scale, y: CANVAS_SIZE / 2 - p.z * scale };
+}
+
+function points(vertices: Vector3[]): string {
+  return vertices.map(vertex => {
+    const { x, y } = project(vertex);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+}
+
+function parseInput(text: string, min: number, max: number): number | null {
+  const value = parseFloat(text);
+  return !isNaN(value) && value >= min && value <= max ? value : null;
+}
+
+/**
+ * Orientation of the wand as an SVG cube. Gyroscope rates are integrated
+ * and tilt is corrected toward gravity by a Mahony filter; yaw is
+ * relative to where the wand pointed at the last reset.
+ */
+export default function IMUCubeVisualization({ style }: IMUCubeVisualizationProps) {
+  const filterRef = useRef(new MahonyFilter());
+  const [imuData, setImuData] = useState<BLEDataPoint | null>(liveSampleStore.latest?.point ?? null);
+  const [orientation, setOrientation] = useState<Quaternion>(IDENTITY);
+  const [reference, setReference] = useState<Quaternion>(IDENTITY);
+  const [gainText, setGainText] = useState(filterRef.current.kp.toString());
+  const [gyroScaleText, setGyroScaleText] = useState(filterRef.current.gyroScale.toString());
+
+  // Integrate every sample, but only redraw once per frame
+  useEffect(() => liveSampleStore.subscribe(frame => {
+    if (frame.added.length === 0) {
+      return;
+    }
+    frame.added.forEach(sample => filterRef.current.update(sample.point));
+    setOrientation(filterRef.current.quaternion);
+    setImuData(frame.added[frame.added.length - 1].point);
+  }), []);
+
+  const handleReset = () => {
+    setReference(filterRef.current.quaternion);
+  };
+
+  const { faces, axes, euler } = useMemo(() => {
+    const relative = multiply(conjugate(reference), orientation);
+    return {
+      faces: FACES
+        .map(face => ({
+          ...face,
+          normal: toCamera(relative, face.normal),
+          corners: face.corners.map(corner => toCamera(relative, corner)),
+        }))
+        .filter(face => face.normal.y < 0),
+      axes: AXES.map(axis => ({ ...axis, tip: project(toCamera(relative, axis.direction)) })),
+      euler: toEuler(relative),
+    };
+  }, [orientation, reference]);
+
+  const origin = project({ x: 0, y: 0, z: 0 });
 
   return (
     <View style={[styles.container, style]}>
       <View style={styles.header}>
         <Text style={styles.title}>📦 3D IMU Cube Visualization</Text>
-        <Text style={styles.subtitle}>Ready for implementation</Text>
+        <Text style={styles.subtitle}>Gyro integration with accelerometer tilt correction</Text>
       </View>
-      
+
       <View style={styles.controls}>
         <View style={styles.controlRow}>
-          <Text style={styles.controlLabel}>Acceleration Scale:</Text>
+          <Text style={styles.controlLabel}>Tilt Correction:</Text>
           <TextInput
             style={styles.controlInput}
-            value={accScale.toString()}
+            value={gainText}
             onChangeText={(text) => {
-              const value = parseFloat(text);
-              if (!isNaN(value) && value >= 0.01 && value <= 10) {
-                setAccScale(value);
+              setGainText(text);
+              const value = parseInput(text, 0, 10);
+              if (value !== null) {
+                filterRef.current.kp = value;
               }
             }}
             keyboardType="numeric"
-            placeholder="0.2"
+            placeholder="1"
           />
         </View>
-        
+
         <View style={styles.controlRow}>
           <Text style={styles.controlLabel}>Gyroscope Scale:</Text>
           <TextInput
             style={styles.controlInput}
-            value={gyroScale.toString()}
+            value={gyroScaleText}
             onChangeText={(text) => {
-              const value = parseFloat(text);
-              if (!isNaN(value) && value >= 0.0001 && value <= 0.1) {
-                setGyroScale(value);
+              setGyroScaleText(text);
+              const value = parseInput(text, 0.1, 10);
+              if (value !== null) {
+                filterRef.current.gyroScale = value;
               }
             }}
             keyboardType="numeric"
-            placeholder="0.0015"
+            placeholder="1"
           />
         </View>
       </View>
 
-      <View style={styles.placeholderContainer}>
-        <Text style={styles.placeholderText}>3D Cube Placeholder</Text>
-        <Text style={styles.placeholderSubtext}>Ready for 3D implementation</Text>
+      <View style={styles.canvasContainer}>
+        <Svg width={CANVAS_SIZE} height={CANVAS_SIZE}>
+          {faces.map(face => (
+            <Polygon
+              key={face.color}
+              points={points(face.corners)}
+              fill={face.color}
+              fillOpacity={0.85}
+              stroke="#FFFFFF"
+              strokeWidth={1}
+            />
+          ))}
+          {axes.map(axis => (
+            <Line
+              key={axis.color}
+              x1={origin.x}
+              y1={origin.y}
+              x2={axis.tip.x}
+              y2={axis.tip.y}
+              stroke={axis.color}
+              strokeWidth={2}
+            />
+          ))}
+        </Svg>
       </View>
-      
+
+      <Pressable style={styles.resetButton} onPress={handleReset}>
+        <Text style={styles.resetButtonText}>🎯 Reset Orientation</Text>
+      </Pressable>
+
       <View style={styles.legend}>
         <Text style={styles.legendText}>🔴 X-axis (Roll) | 🟢 Y-axis (Pitch) | 🔵 Z-axis (Yaw)</Text>
         <Text style={styles.instructionText}>
-          Cube will rotate with gyroscope and move with acceleration
+          Hold the wand still and tap reset to zero the cube
+        </Text>
+        <Text style={styles.dataText}>
+          Roll:{euler.roll.toFixed(0)}° Pitch:{euler.pitch.toFixed(0)}° Yaw:{euler.yaw.toFixed(0)}°
         </Text>
         {imuData && (
           <View style={styles.dataContainer}>
@@ -135,8 +270,8 @@ const styles = StyleSheet.create({
     borderColor: '#555555',
     minWidth: 80,
   },
-  placeholderContainer: {
-    height: 220,
+  canvasContainer: {
+    height: CANVAS_SIZE,
     marginBottom: 12,
     borderRadius: 8,
     backgroundColor: '#2A2A2A',
@@ -145,16 +280,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  placeholderText: {
-    fontSize: 16,
-    color: '#666666',
-    fontWeight: 'bold',
+  resetButton: {
+    backgroundColor: '#333333',
+    borderRadius: 6,
+    paddingVertical: 8,
+    marginBottom: 12,
+    alignItems: 'center',
   },
-  placeholderSubtext: {
-    fontSize: 12,
-    color: '#555555',
-    marginTop: 4,
-    fontStyle: 'italic',
+  resetButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
   },
   legend: {
     alignItems: 'center',
@@ -182,4 +318,4 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     marginBottom: 1,
   },
-}); 
\ No newline at end of file
+});
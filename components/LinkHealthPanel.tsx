@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import {
+  LinkHealthSample,
+  linkHealthMonitor,
+  LinkHealthWarning,
+  LinkQuality,
+} from '@/services/LinkHealthMonitor';
+
+const QUALITY_COLORS: Record<LinkQuality, string> = {
+  Excellent: '#4CAF50',
+  Good: '#8BC34A',
+  Poor: '#FF9800',
+  Unknown: '#555',
+};
+
+const BAR_HEIGHT: Record<LinkQuality, number> = { Excellent: 18, Good: 12, Poor: 6, Unknown: 3 };
+
+const MAX_WARNINGS = 3;
+
+const formatLoss = (loss: number | null) => (loss === null ? '—' : `${(loss * 100).toFixed(1)}%`);
+
+const formatThroughput = (bytesPerSecond: number) =>
+  bytesPerSecond >= 1024 ? `${(bytesPerSecond / 1024).toFixed(1)} KB/s` : `${Math.round(bytesPerSecond)} B/s`;
+
+/**
+ * Live link health: signal strength, packet loss, command latency and
+ * throughput, with a minute of quality history and warnings raised
+ * mid-recording
+ */
+export default function LinkHealthPanel() {
+  const [history, setHistory] = useState<LinkHealthSample[]>(linkHealthMonitor.history);
+  const [warnings, setWarnings] = useState<LinkHealthWarning[]>([]);
+
+  useEffect(() => linkHealthMonitor.subscribe(event => {
+    if (event.type === 'sample') {
+      setHistory(linkHealthMonitor.history);
+    } else {
+      setWarnings(prev => [event.warning, ...prev].slice(0, MAX_WARNINGS));
+    }
+  }), []);
+
+  const latest = history[history.length - 1] ?? null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        📡 Link Health: <Text style={{ color: QUALITY_COLORS[latest?.quality ?? 'Unknown'] }}>{latest?.quality ?? 'Measuring...'}</Text>
+      </Text>
+
+      <View style={styles.metricsRow}>
+        <Text style={styles.metric}>RSSI: {latest?.rssi ?? '—'} dBm</Text>
+        <Text style={styles.metric}>Loss: {formatLoss(latest?.packetLoss ?? null)}</Text>
+        <Text style={styles.metric}>Latency: {latest?.latencyMs ?? '—'} ms</Text>
+      </View>
+      <View style={styles.metricsRow}>
+        <Text style={styles.metric}>{Math.round(latest?.samplesPerSecond ?? 0)} samples/s</Text>
+        <Text style={styles.metric}>{formatThroughput(latest?.bytesPerSecond ?? 0)}</Text>
+        {latest?.recording && <Text style={styles.recording}>● Recording</Text>}
+      </View>
+
+      <View style={styles.history}>
+        {history.map(sample => (
+          <View
+            key={sample.at}
+            style={[styles.bar, { height: BAR_HEIGHT[sample.quality], backgroundColor: QUALITY_COLORS[sample.quality] }]}
+          />
+        ))}
+      </View>
+
+      {warnings.map(warning => (
+        <Text key={warning.at} style={styles.warning}>
+          ⚠️ {new Date(warning.at).toLocaleTimeString()}: {warning.message}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'transparent',
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+    marginBottom: 4,
+  },
+  metricsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: 'transparent',
+  },
+  metric: {
+    fontSize: 12,
+    color: '#9BA1A6',
+  },
+  recording: {
+    fontSize: 12,
+    color: '#f44336',
+  },
+  history: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 20,
+    marginTop: 6,
+    backgroundColor: 'transparent',
+  },
+  bar: {
+    flex: 1,
+    marginRight: 1,
+    borderRadius: 1,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 4,
+  },
+});
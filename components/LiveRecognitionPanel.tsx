@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import {
+  ProvisionalGesture,
+  Reconciliation,
+  streamingRecognizer,
+} from '@/services/StreamingRecognizer';
+
+function GestureRow({ gesture, status }: { gesture: ProvisionalGesture; status?: 'confirmed' | 'rejected' }) {
+  const icon = status === 'confirmed' ? '✅' : status === 'rejected' ? '❌' : '⚡';
+  return (
+    <View style={styles.gestureRow}>
+      <Text style={[styles.gestureText, status === 'rejected' && styles.rejectedText]}>
+        {icon} {gesture.movement} ({(gesture.confidence * 100).toFixed(0)}%)
+      </Text>
+      <Text style={styles.gestureTime}>
+        {gesture.startTime.toFixed(1)}s–{gesture.endTime.toFixed(1)}s
+      </Text>
+    </View>
+  );
+}
+
+/**
+ * Provisional gestures from the streaming recognizer, and how they compared
+ * with the final prediction once the session ended
+ */
+export default function LiveRecognitionPanel() {
+  const [isActive, setIsActive] = useState(streamingRecognizer.isActive);
+  const [gestures, setGestures] = useState<ProvisionalGesture[]>(streamingRecognizer.provisional);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [windowErrors, setWindowErrors] = useState(0);
+
+  useEffect(() => streamingRecognizer.subscribe(event => {
+    switch (event.type) {
+      case 'started':
+        setIsActive(true);
+        setGestures([]);
+        setReconciliation(null);
+        setWindowErrors(0);
+        break;
+      case 'provisional':
+        setGestures(streamingRecognizer.provisional);
+        break;
+      case 'windowError':
+        setWindowErrors(prev => prev + 1);
+        break;
+      case 'reconciled':
+        setIsActive(false);
+        setReconciliation(event.reconciliation);
+        break;
+    }
+  }), []);
+
+  if (!isActive && !reconciliation) {
+    return null;
+  }
+
+  const statusOf = (gesture: ProvisionalGesture) => {
+    if (!reconciliation?.final) return undefined;
+    return reconciliation.confirmed.includes(gesture) ? 'confirmed' : 'rejected';
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {isActive ? '📡 Live Recognition' : '📡 Live vs Final'}
+      </Text>
+
+      {gestures.length === 0 && (
+        <Text style={styles.subtext}>{isActive ? 'Listening for gestures...' : 'No gestures were detected live.'}</Text>
+      )}
+      {gestures.map(gesture => (
+        <GestureRow key={`${gesture.movement}-${gesture.startTime}`} gesture={gesture} status={statusOf(gesture)} />
+      ))}
+
+      {reconciliation && !reconciliation.final && (
+        <Text style={styles.subtext}>Final analysis unavailable; live results are unverified.</Text>
+      )}
+      {reconciliation?.final && (
+        <Text style={styles.subtext}>
+          {reconciliation.confirmed.length} confirmed, {reconciliation.rejected.length} rejected
+          {reconciliation.missed.length > 0 &&
+            ` | Missed live: ${reconciliation.missed.map(segment => segment.movement).join(', ')}`}
+        </Text>
+      )}
+      {windowErrors > 0 && (
+        <Text style={styles.errorText}>⚠️ {windowErrors} windows could not be classified</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+    width: '100%',
+    borderWidth: 1,
+    borderColor: '#2196F3',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  gestureRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: 'transparent',
+    marginBottom: 4,
+  },
+  gestureText: {
+    fontSize: 14,
+    color: '#ECEDEE',
+  },
+  rejectedText: {
+    color: '#9BA1A6',
+    textDecorationLine: 'line-through',
+  },
+  gestureTime: {
+    fontSize: 12,
+    color: '#9BA1A6',
+  },
+  subtext: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Dimensions, StyleSheet } from 'react-native';
+import Svg, { Line, Path, Text as SvgText } from 'react-native-svg';
+
+import { Text, View } from '@/components/Themed';
+import { LIVE_CHART_CONFIG } from '@/constants/Device';
+import { liveSampleStore, LiveSample, LiveSampleStore } from '@/services/LiveSampleStore';
+import { SensorChannel } from '@/services/SignalProcessing';
+
+export interface LiveTrace {
+  label: string;
+  axis: 'x' | 'y' | 'z';
+  rgb: string; // e.g. "255, 99, 132"
+}
+
+interface LiveSensorChartProps {
+  title: string;
+  subtitle?: string;
+  channel: SensorChannel;
+  traces: LiveTrace[];
+  unit: string;
+  minSpan: number; // Smallest y range, so noise on a still wand isn't blown up to full height
+  decimalPlaces?: number;
+  store?: LiveSampleStore; // Another sensor's stream; the dashboard's by default
+}
+
+const HEIGHT = 160;
+const PADDING = { left: 44, right: 8, top: 8, bottom: 18 };
+const Y_TICKS = 4;
+
+const timeOf = (sample: LiveSample) => sample.point.unwrappedTimestamp ?? sample.point.timestamp;
+
+/**
+ * SVG path for one axis. Gaps longer than MAX_LINE_GAP_MS start a new
+ * segment instead of being bridged by a straight line.
+ */
+function tracePath(
+  samples: LiveSample[],
+  value: (sample: LiveSample) => number,
+  x: (time: number) => number,
+  y: (value: number) => number
+): string {
+  let path = '';
+  let previousTime: number | null = null;
+  samples.forEach(sample => {
+    const time = timeOf(sample);
+    const command = previousTime === null || time - previousTime > LIVE_CHART_CONFIG.MAX_LINE_GAP_MS ? 'M' : 'L';
+    path += `${command}${x(time).toFixed(1)},${y(value(sample)).toFixed(1)}`;
+    previousTime = time;
+  });
+  return path;
+}
+
+/**
+ * Rolling chart of one sensor's axes over the last few seconds, drawn from
+ * the live sample store. Redraws once per frame rather than per packet.
+ */
+export default function LiveSensorChart({
+  title,
+  subtitle,
+  channel,
+  traces,
+  unit,
+  minSpan,
+  decimalPlaces = 2,
+  store = liveSampleStore,
+}: LiveSensorChartProps) {
+  const [samples, setSamples] = useState<LiveSample[]>(() => store.samples);
+
+  useEffect(() => {
+    setSamples(store.samples);
+    return store.subscribe(() => setSamples(store.samples));
+  }, [store]);
+
+  const width = Dimensions.get('window').width - 40;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const historyMs = LIVE_CHART_CONFIG.HISTORY_SECONDS * 1000;
+
+  const end = samples.length > 0 ? timeOf(samples[samples.length - 1]) : 0;
+  const visible = samples.filter(sample => timeOf(sample) >= end - historyMs);
+
+  let min = Infinity;
+  let max = -Infinity;
+  visible.forEach(sample => {
+    traces.forEach(trace => {
+      const value = sample.charted[channel][trace.axis];
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+  });
+  if (visible.length === 0) {
+    min = max = 0;
+  }
+  if (max - min < minSpan) {
+    const middle = (max + min) / 2;
+    min = middle - minSpan / 2;
+    max = middle + minSpan / 2;
+  }
+
+  const x = (time: number) => PADDING.left + plotWidth * (1 - (end - time) / historyMs);
+  const y = (value: number) => PADDING.top + plotHeight * (1 - (value - min) / (max - min));
+  const ticks = Array.from({ length: Y_TICKS + 1 }, (_, index) => min + ((max - min) * index) / Y_TICKS);
+
+  return (
+    <View style={styles.chartSection}>
+      <Text style={styles.chartLabel}>{title}</Text>
+      {!!subtitle && <Text style={styles.chartSubtitle}>{subtitle}</Text>}
+      <View style={styles.legend}>
+        {traces.map(trace => (
+          <Text key={trace.axis} style={[styles.legendText, { color: `rgb(${trace.rgb})` }]}>
+            ━ {trace.label}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.chart}>
+        <Svg width={width} height={HEIGHT}>
+          {ticks.map(tick => (
+            <React.Fragment key={tick}>
+              <Line
+                x1={PADDING.left}
+                x2={width - PADDING.right}
+                y1={y(tick)}
+                y2={y(tick)}
+                stroke="rgba(255, 255, 255, 0.1)"
+              />
+              <SvgText x={PADDING.left - 4} y={y(tick) + 3} fontSize={9} fill="#9BA1A6" textAnchor="end">
+                {`${tick.toFixed(decimalPlaces)}${unit}`}
+              </SvgText>
+            </React.Fragment>
+          ))}
+          {Array.from({ length: LIVE_CHART_CONFIG.HISTORY_SECONDS + 1 }, (_, second) => (
+            <SvgText
+              key={second}
+              x={PADDING.left + (plotWidth * second) / LIVE_CHART_CONFIG.HISTORY_SECONDS}
+              y={HEIGHT - 4}
+              fontSize={9}
+              fill="#9BA1A6"
+              textAnchor="middle"
+            >
+              {`${second - LIVE_CHART_CONFIG.HISTORY_SECONDS}s`}
+            </SvgText>
+          ))}
+          {traces.map(trace => (
+            <Path
+              key={trace.axis}
+              d={tracePath(visible, sample => sample.charted[channel][trace.axis], x, y)}
+              stroke={`rgb(${trace.rgb})`}
+              strokeWidth={1.5}
+              fill="none"
+            />
+          ))}
+        </Svg>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chartSection: {
+    marginBottom: 12,
+    backgroundColor: 'transparent',
+  },
+  chartLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#CCCCCC',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  chartSubtitle: {
+    fontSize: 11,
+    color: '#999999',
+    marginTop: -6,
+    marginBottom: 6,
+    textAlign: 'center',
+    fontStyle: 'italic',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    backgroundColor: 'transparent',
+  },
+  legendText: {
+    fontSize: 11,
+    marginHorizontal: 6,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1e2328',
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { sessionReplayer } from '@/services/SessionReplayer';
+
+interface ReplayStatus {
+  recordingHash: string;
+  speed: number;
+  sent: number;
+  total: number;
+}
+
+/**
+ * Progress of a session replay, with a button to stop it
+ */
+export default function ReplayBanner() {
+  const [status, setStatus] = useState<ReplayStatus | null>(null);
+
+  useEffect(() => sessionReplayer.subscribe(event => {
+    switch (event.type) {
+      case 'started':
+        setStatus({ recordingHash: event.session.recordingHash, speed: event.speed, sent: 0, total: 1 });
+        break;
+      case 'progress':
+        // Redraw per whole percent, not per tick
+        setStatus(prev => prev && Math.floor((100 * event.sent) / event.total) !== Math.floor((100 * prev.sent) / prev.total)
+          ? { ...prev, sent: event.sent, total: event.total }
+          : prev);
+        break;
+      case 'finished':
+      case 'stopped':
+        setStatus(null);
+        break;
+    }
+  }), []);
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.text}>
+        ⏯️ Replaying {status.recordingHash} at {status.speed}x — {Math.floor((100 * status.sent) / status.total)}%
+      </Text>
+      <Pressable style={styles.stopButton} onPress={() => sessionReplayer.stop()}>
+        <Text style={styles.stopButtonText}>Stop</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#3F51B5',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  text: {
+    flex: 1,
+    color: 'white',
+    fontWeight: '600',
+  },
+  stopButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  stopButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Dimensions, ScrollView, StyleSheet } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+
+import { Text, View } from '@/components/Themed';
+
+export interface TraceSeries {
+  label: string;
+  values: number[];
+  rgb: string; // e.g. "255, 99, 132"
+}
+
+interface SensorTraceChartProps {
+  title: string;
+  series: TraceSeries[];
+  times: number[]; // Seconds from session start, one per value
+  unit: string;
+  decimalPlaces?: number;
+}
+
+const POINT_SPACING = 2; // Horizontal pixels per sample once the trace outgrows the screen
+const LABEL_COUNT = 6;
+
+/**
+ * Full-length line chart of one sensor's axes. Long recordings scroll
+ * horizontally instead of being truncated.
+ */
+export default function SensorTraceChart({ title, series, times, unit, decimalPlaces = 2 }: SensorTraceChartProps) {
+  const screenWidth = Dimensions.get('window').width;
+
+  if (times.length < 2) {
+    return null;
+  }
+
+  const width = Math.max(screenWidth - 40, times.length * POINT_SPACING);
+  const labelEvery = Math.max(1, Math.floor(times.length / LABEL_COUNT));
+
+  return (
+    <View style={styles.chartSection}>
+      <Text style={styles.chartLabel}>{title}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={width > screenWidth}>
+        <LineChart
+          data={{
+            labels: times.map((time, index) => (index % labelEvery === 0 ? `${time.toFixed(1)}s` : '')),
+            datasets: series.map(trace => ({
+              data: trace.values,
+              color: (opacity = 1) => `rgba(${trace.rgb}, ${opacity})`,
+              strokeWidth: 1.5,
+            })),
+            legend: series.map(trace => trace.label),
+          }}
+          width={width}
+          height={180}
+          yAxisLabel=""
+          yAxisSuffix={unit}
+          withDots={false}
+          withVerticalLines={false}
+          chartConfig={{
+            backgroundColor: "#1e2328",
+            backgroundGradientFrom: "#1e2328",
+            backgroundGradientTo: "#1e2328",
+            decimalPlaces,
+            color: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
+            labelColor: (opacity = 1) => `rgba(255, 255, 255, ${opacity})`,
+          }}
+          style={styles.chart}
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chartSection: {
+    marginBottom: 16,
+    backgroundColor: 'transparent',
+  },
+  chartLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+});
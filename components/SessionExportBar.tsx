@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { saveExportFile } from '@/services/FileExport';
+import { buildExportFile, ExportFormat } from '@/services/SessionExport';
+import { StoredSession } from '@/services/SessionRepository';
+import { settingsStore } from '@/services/Settings';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'zip', label: 'Dataset (.zip)' },
+];
+
+interface SessionExportBarProps {
+  label: string;
+  loadSessions: () => Promise<StoredSession[]>;
+  disabled?: boolean;
+}
+
+/**
+ * Export buttons for one or more sessions. Samples are filtered like the
+ * ones sent for analysis when the user enabled "Filter recordings too".
+ */
+export default function SessionExportBar({ label, loadSessions, disabled = false }: SessionExportBarProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const runExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const [sessions, settings] = await Promise.all([loadSessions(), settingsStore.load()]);
+      const file = buildExportFile(sessions, format, {
+        filters: settings.filterRecordings ? settings.chartFilters : null,
+      });
+      await saveExportFile(file);
+    } catch (error) {
+      console.error('💥 Export failed:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>📤 {label}</Text>
+      <View style={styles.buttonRow}>
+        {FORMATS.map(({ format, label: formatLabel }) => (
+          <Pressable
+            key={format}
+            style={[styles.button, (disabled || exporting !== null) && styles.buttonDisabled]}
+            disabled={disabled || exporting !== null}
+            onPress={() => runExport(format)}
+          >
+            <Text style={styles.buttonText}>{exporting === format ? 'Exporting...' : formatLabel}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'transparent',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginBottom: 6,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    backgroundColor: 'transparent',
+  },
+  button: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
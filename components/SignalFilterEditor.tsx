@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Switch, TextInput } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { PREPROCESSING_CONFIG } from '@/constants/API';
+import {
+  SensorChannel,
+  SIGNAL_FILTER_DEFAULTS,
+  SignalFilterSpec,
+  SignalFilterType,
+} from '@/services/SignalProcessing';
+
+const FILTER_INFO: Record<SignalFilterType, { title: string; unit?: string }> = {
+  'gravity-removal': { title: 'Gravity removal' },
+  'high-pass': { title: 'High-pass', unit: 'Hz' },
+  'low-pass': { title: 'Low-pass', unit: 'Hz' },
+  'moving-average': { title: 'Moving average', unit: 'samples' },
+};
+
+const NYQUIST_HZ = PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ / 2;
+
+function parameterOf(spec: SignalFilterSpec): number | null {
+  switch (spec.type) {
+    case 'low-pass':
+    case 'high-pass':
+      return spec.cutoffHz;
+    case 'moving-average':
+      return spec.windowSize;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The spec with its parameter replaced, or null when the value is out of range
+ */
+function withParameter(spec: SignalFilterSpec, value: number): SignalFilterSpec | null {
+  switch (spec.type) {
+    case 'low-pass':
+    case 'high-pass':
+      return value > 0 && value < NYQUIST_HZ ? { ...spec, cutoffHz: value } : null;
+    case 'moving-average':
+      return Number.isInteger(value) && value >= 1 && value <= 50 ? { ...spec, windowSize: value } : null;
+    default:
+      return spec;
+  }
+}
+
+interface SignalFilterEditorProps {
+  title: string;
+  channel: SensorChannel;
+  filters: SignalFilterSpec[];
+  onChange: (filters: SignalFilterSpec[]) => void;
+}
+
+/**
+ * Toggles and parameters for one sensor's filter chain. Filters always run
+ * in the listed order.
+ */
+export default function SignalFilterEditor({ title, channel, filters, onChange }: SignalFilterEditorProps) {
+  const types = (Object.keys(SIGNAL_FILTER_DEFAULTS) as SignalFilterType[])
+    .filter(type => channel === 'acceleration' || type !== 'gravity-removal');
+  const specFor = (type: SignalFilterType) => filters.find(spec => spec.type === type);
+  const [drafts, setDrafts] = useState<Partial<Record<SignalFilterType, string>>>({});
+
+  useEffect(() => {
+    setDrafts({});
+  }, [filters]);
+
+  const update = (type: SignalFilterType, spec: SignalFilterSpec | null) => {
+    const byType = new Map(filters.map(entry => [entry.type, entry]));
+    if (spec) {
+      byType.set(type, spec);
+    } else {
+      byType.delete(type);
+    }
+    onChange(types.flatMap(entry => (byType.has(entry) ? [byType.get(entry)!] : [])));
+  };
+
+  const commitParameter = (type: SignalFilterType) => {
+    const draft = drafts[type];
+    const spec = specFor(type) ?? SIGNAL_FILTER_DEFAULTS[type];
+    const updated = draft === undefined ? null : withParameter(spec, parseFloat(draft));
+    if (updated) {
+      update(type, updated);
+    } else {
+      setDrafts(prev => ({ ...prev, [type]: undefined }));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {types.map(type => {
+        const spec = specFor(type);
+        const parameter = parameterOf(spec ?? SIGNAL_FILTER_DEFAULTS[type]);
+        return (
+          <View key={type} style={styles.row}>
+            <Switch
+              value={!!spec}
+              onValueChange={enabled => update(type, enabled ? spec ?? SIGNAL_FILTER_DEFAULTS[type] : null)}
+            />
+            <Text style={styles.label}>{FILTER_INFO[type].title}</Text>
+            {parameter !== null && (
+              <>
+                <TextInput
+                  style={[styles.input, !spec && styles.inputDisabled]}
+                  value={drafts[type] ?? String(parameter)}
+                  onChangeText={text => setDrafts(prev => ({ ...prev, [type]: text }))}
+                  onEndEditing={() => commitParameter(type)}
+                  onSubmitEditing={() => commitParameter(type)}
+                  editable={!!spec}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.unit}>{FILTER_INFO[type].unit}</Text>
+              </>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    backgroundColor: 'transparent',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ECEDEE',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    backgroundColor: 'transparent',
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: '#ECEDEE',
+    marginLeft: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    minWidth: 60,
+    textAlign: 'center',
+    color: '#ECEDEE',
+  },
+  inputDisabled: {
+    opacity: 0.4,
+  },
+  unit: {
+    fontSize: 12,
+    color: '#9BA1A6',
+    marginLeft: 6,
+    minWidth: 52,
+  },
+});
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Alert, Pressable, StyleSheet } from 'react-native';
+
+import { Text, View } from '@/components/Themed';
+import { SIMULATED_GESTURES, simulatedPeripherals } from '@/services/simulation/SimulatedPeripheral';
+
+/**
+ * Buttons that make the simulated devices perform a scripted gesture, all
+ * connected ones at once
+ */
+export default function SimulatorControls() {
+  const [performing, setPerforming] = useState<string | null>(null);
+
+  const perform = (name: string) => {
+    const connected = simulatedPeripherals.filter(peripheral => peripheral.isConnected);
+    if (connected.some(peripheral => peripheral.isPlaying)) return;
+    try {
+      if (connected.length === 0) {
+        throw new Error('Simulated device is not connected');
+      }
+      connected.forEach(peripheral => peripheral.perform(SIMULATED_GESTURES[name]));
+      setPerforming(name);
+      setTimeout(() => setPerforming(null), SIMULATED_GESTURES[name].durationMs);
+    } catch (error) {
+      Alert.alert('Simulation Failed', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🧪 Simulated Device</Text>
+      <View style={styles.buttonRow}>
+        {Object.keys(SIMULATED_GESTURES).map(name => (
+          <Pressable
+            key={name}
+            style={[styles.button, performing === name && styles.buttonActive]}
+            disabled={performing !== null}
+            onPress={() => perform(name)}
+          >
+            <Text style={styles.buttonText}>{name}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1a1a1a',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#ECEDEE',
+    marginBottom: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'transparent',
+  },
+  button: {
+    backgroundColor: '#673AB7',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  buttonActive: {
+    backgroundColor: '#4CAF50',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { liveSampleStore } from '@/services/LiveSampleStore';
+import { BLEDataPoint } from '@/services/types';
+
+/**
+ * Most recent sample as received, updated at most once per frame
+ */
+export function useLatestSample(): BLEDataPoint | null {
+  const [latest, setLatest] = useState<BLEDataPoint | null>(liveSampleStore.latest?.point ?? null);
+
+  useEffect(() => liveSampleStore.subscribe(frame => setLatest(frame.latest?.point ?? null)), []);
+
+  return latest;
+}
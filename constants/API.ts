@@ -1,6 +1,37 @@
 // API Configuration for Abracadabra Gesture Recognition
+export type ApiEnvironmentId = 'production' | 'staging' | 'local' | 'mock';
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId;
+  name: string;
+  baseUrl: string;
+}
+
+export const API_ENVIRONMENTS: Record<ApiEnvironmentId, ApiEnvironment> = {
+  production: {
+    id: 'production',
+    name: 'Production',
+    baseUrl: 'https://abracadabragestureprocessing-production.up.railway.app',
+  },
+  staging: {
+    id: 'staging',
+    name: 'Staging',
+    baseUrl: '', // No shared deployment; the URL is set in settings
+  },
+  local: {
+    id: 'local',
+    name: 'Local dev server',
+    baseUrl: 'http://localhost:8000', // Default only; overridable in settings (e.g. the machine's LAN IP)
+  },
+  mock: {
+    id: 'mock',
+    name: 'Mock server',
+    baseUrl: 'http://mock.abracadabra.local',
+  },
+};
+
 export const API_CONFIG = {
-  BASE_URL: 'https://abracadabragestureprocessing-production.up.railway.app',
+  DEFAULT_ENVIRONMENT: 'production' as ApiEnvironmentId,
   ENDPOINTS: {
     PREDICT: '/api/predict',
     TRAIN: '/api/train',
@@ -10,12 +41,58 @@ export const API_CONFIG = {
   TIMEOUT: 10000, // 10 seconds
 };
 
+// Training capture defaults
+export const TRAINING_CONFIG = {
+  DEFAULT_REPETITIONS: 10,
+  MAX_REPETITIONS: 50,
+  UPLOAD_BATCH_SIZE: 5, // Recordings per /api/train request
+};
+
+// Streaming recognition defaults
+export const STREAMING_CONFIG = {
+  // Used until a prediction reports the server's own window_params
+  DEFAULT_WINDOW_PARAMS: {
+    window_size_ms: 1000,
+    overlap_ms: 500,
+    sample_rate_hz: 100,
+  },
+};
+
+// Preprocessing applied to recordings before prediction
+export const PREPROCESSING_CONFIG = {
+  DEFAULT_SAMPLE_RATE_HZ: 100, // Used until the server or on-device model declares its rate
+  MAX_INTERPOLATED_GAP_MS: 100, // Longer gaps are left empty instead of interpolated
+  MAX_LOSS_RATE: 0.2, // Recordings missing more than this are not sent for prediction
+};
+
+// Actions run when a recognized gesture matches a binding
+export const ACTION_CONFIG = {
+  DEEP_LINK_SCHEME: 'abracadabraapp', // app.json "scheme"
+  DEFAULT_MIN_CONFIDENCE: 0.6,
+  WEBHOOK_TIMEOUT: 5000, // 5 seconds
+  LOG_SIZE: 100, // Most recent action runs kept
+};
+
+// Recognized gestures POSTed to user-defined HTTP endpoints (Home Assistant, Node-RED, ...)
+export const INTEGRATION_CONFIG = {
+  TIMEOUT: 5000, // 5 seconds; hubs are usually on the LAN
+  RETRY_BASE_DELAY: 2000,
+  RETRY_MAX_DELAY: 300000, // 5 minutes
+  RETRY_JITTER: 0.2,
+  MAX_ATTEMPTS: 8, // Deliveries are dropped after this many failed attempts
+  QUEUE_SIZE: 50, // Per endpoint; the oldest deliveries are dropped first
+  DEFAULT_TEMPLATE: JSON.stringify(
+    { gesture: '{{gesture}}', confidence: '{{confidence}}', timestamp: '{{timestamp}}', source: 'abracadabra' },
+    null,
+    2
+  ),
+};
+
+export type ApiEndpoint = keyof typeof API_CONFIG.ENDPOINTS;
+
 // API Helper Functions
-export const API_URLS = {
-  predict: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PREDICT}`,
-  train: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.TRAIN}`,
-  modelStatus: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.MODEL_STATUS}`,
-  health: `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.HEALTH}`,
-} as const;
+export function buildApiUrl(baseUrl: string, endpoint: ApiEndpoint): string {
+  return `${baseUrl.replace(/\/+$/, '')}${API_CONFIG.ENDPOINTS[endpoint]}`;
+}
 
 export default API_CONFIG; 
\ No newline at end of file
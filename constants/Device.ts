@@ -0,0 +1,58 @@
+// Arduino device configuration
+export const DEVICE_CONFIG = {
+  name: "AbracadabraIMU",
+  serviceUUID: "8cfc8e26-0682-4f72-b0c0-c0c8e0b12a06",
+  dataCharacteristicUUID: "780fe2ec-c87c-443e-bf01-78918d9d625b",
+  commandCharacteristicUUID: "aa7e97b4-d7dc-4cb0-9fef-85875036520e"
+};
+
+// Connection timing (milliseconds)
+export const CONNECTION_CONFIG = {
+  SCAN_TIMEOUT: 20000, // Give up scanning after 20 seconds
+  CONNECT_TIMEOUT: 15000,
+  DISCOVERY_TIMEOUT: 10000,
+  STATE_RETRY_DELAY: 1000, // Wait between Bluetooth state checks
+  STATE_RETRIES: 3,
+  RECONNECT_BASE_DELAY: 500, // First automatic reconnect attempt after ~0.5s
+  RECONNECT_MAX_DELAY: 15000,
+  RECONNECT_JITTER: 0.5, // Randomize half of each delay
+  RECONNECT_MAX_ATTEMPTS: 10,
+  SESSION_RESUME_GRACE: 10000, // Keep an interrupted recording open this long
+};
+
+// Requests over the command characteristic
+export const COMMAND_CONFIG = {
+  TIMEOUT: 2000, // Wait this long for each reply
+  RETRIES: 2, // Resend with the same id; the firmware answers repeats without running them again
+  SAMPLE_RATES_HZ: [25, 50, 100, 200],
+  ACCEL_RANGES_G: [2, 4, 8, 16],
+  GYRO_RANGES_DPS: [250, 500, 1000, 2000],
+};
+
+// Several sensors connected at once
+export const MULTI_SENSOR_CONFIG = {
+  MAX_SENSORS: 4,
+  GROUP_WINDOW_MS: 1500, // Sessions starting this close together form one multi-sensor recording
+};
+
+// Link health monitoring while streaming
+export const LINK_HEALTH_CONFIG = {
+  SAMPLE_INTERVAL_MS: 1000, // One health sample per second
+  RSSI_INTERVAL_MS: 2000,
+  LATENCY_INTERVAL_MS: 5000, // Time a command round trip this often
+  WINDOW_MS: 5000, // Packet loss and throughput over the last five seconds
+  HISTORY_SIZE: 60, // A minute of samples
+  STALL_MS: 1000, // No data for this long mid-recording counts as a stall
+  EXCELLENT: { RSSI_DBM: -67, PACKET_LOSS: 0.01, LATENCY_MS: 150 },
+  GOOD: { RSSI_DBM: -80, PACKET_LOSS: 0.05, LATENCY_MS: 500 },
+};
+
+// Live charts on the dashboard
+export const LIVE_CHART_CONFIG = {
+  HISTORY_SECONDS: 5,
+  BUFFER_CAPACITY: 1000, // Five seconds at up to 200Hz
+  MAX_LINE_GAP_MS: 100, // Break the trace at longer gaps instead of bridging them
+  RATE_ESTIMATE_SAMPLES: 10, // Samples timed before the chart filters are designed for the device's rate
+};
+
+export default DEVICE_CONFIG;
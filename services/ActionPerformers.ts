@@ -0,0 +1,31 @@
+import * as Linking from 'expo-linking';
+import * as Speech from 'expo-speech';
+
+import type { ActionPerformers } from '@/services/GestureActions';
+
+/**
+ * Speak text, resolving once it has been read out
+ */
+function speak(text: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    Speech.speak(text, {
+      onDone: resolve,
+      onStopped: resolve,
+      onError: error => reject(error instanceof Error ? error : new Error(String(error))),
+    });
+  });
+}
+
+/**
+ * The device side of gesture actions. Kept apart from the engine so tests can
+ * run it without the native modules.
+ */
+export const defaultPerformers: ActionPerformers = {
+  openURL: async url => {
+    await Linking.openURL(url);
+  },
+  speak,
+  fetch: (input, init) => fetch(input, init),
+};
+
+export default defaultPerformers;
@@ -0,0 +1,24 @@
+export interface BackoffOptions {
+  baseDelay: number; // Delay before the first retry (ms)
+  maxDelay: number; // Cap for any single delay (ms)
+  jitter: number; // Fraction of the delay that is randomized, 0..1
+}
+
+/**
+ * Capped exponential backoff with jitter. `attempt` starts at 1.
+ *
+ * The un-jittered delay doubles per attempt up to `maxDelay`; the last
+ * `jitter` fraction of it is randomized so clients don't retry in lockstep.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const capped = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, exponent));
+  const jitter = Math.min(1, Math.max(0, options.jitter));
+  return Math.round(capped * (1 - jitter) + capped * jitter * random());
+}
+
+export default computeBackoffDelay;
@@ -0,0 +1,251 @@
+import { COMMAND_CONFIG } from '@/constants/Device';
+
+/**
+ * Text protocol of the AbracadabraIMU command characteristic.
+ *
+ * Requests are written as "<id>:<verb>" or "<id>:<verb>:<arg>", and the
+ * device notifies "<id>:ok[:<value>]" or "<id>:err:<message>" on the same
+ * characteristic. Ids correlate replies with requests; a request resent
+ * with the same id gets the original reply again.
+ *
+ *   start                     begin a recording (like a double-tap)
+ *   stop                      end the current recording
+ *   rate:<hz>                 sample rate, replies with the rate applied
+ *   accel_range:<g>           accelerometer full scale, replies with the range applied
+ *   gyro_range:<dps>          gyroscope full scale, replies with the range applied
+ *   calibrate                 zero the gyroscope bias; keep the device still
+ *   version                   replies with the firmware version, e.g. "1.4.0"
+ *   battery                   replies with the charge in percent
+ */
+
+export type CommandVerb = 'start' | 'stop' | 'rate' | 'accel_range' | 'gyro_range' | 'calibrate' | 'version' | 'battery';
+
+export const COMMAND_VERBS: CommandVerb[] = ['start', 'stop', 'rate', 'accel_range', 'gyro_range', 'calibrate', 'version', 'battery'];
+
+export interface CommandRequest {
+  id: number;
+  verb: CommandVerb;
+  arg?: string;
+}
+
+export type CommandReply =
+  | { id: number; ok: true; value: string | null }
+  | { id: number; ok: false; message: string };
+
+export type DeviceCommandErrorCode = 'timeout' | 'rejected' | 'disconnected' | 'write';
+
+export class DeviceCommandError extends Error {
+  constructor(readonly code: DeviceCommandErrorCode, readonly verb: CommandVerb, message: string) {
+    super(message);
+    this.name = 'DeviceCommandError';
+  }
+}
+
+export function encodeCommand(request: CommandRequest): string {
+  return request.arg === undefined
+    ? `${request.id}:${request.verb}`
+    : `${request.id}:${request.verb}:${request.arg}`;
+}
+
+/**
+ * Parse a request as the firmware does. Returns null for anything else,
+ * e.g. the legacy "ping".
+ */
+export function parseCommandRequest(text: string): CommandRequest | null {
+  const [id, verb, ...rest] = text.trim().split(':');
+  if (!/^\d+$/.test(id) || !COMMAND_VERBS.includes(verb as CommandVerb)) {
+    return null;
+  }
+  const request: CommandRequest = { id: Number(id), verb: verb as CommandVerb };
+  return rest.length > 0 ? { ...request, arg: rest.join(':') } : request;
+}
+
+export function encodeCommandReply(reply: CommandReply): string {
+  if (!reply.ok) {
+    return `${reply.id}:err:${reply.message}`;
+  }
+  return reply.value === null ? `${reply.id}:ok` : `${reply.id}:ok:${reply.value}`;
+}
+
+/**
+ * Parse a notification from the command characteristic. Returns null for
+ * text that is not a reply.
+ */
+export function parseCommandReply(text: string): CommandReply | null {
+  const match = /^(\d+):(ok|err)(?::(.*))?$/s.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const id = Number(match[1]);
+  return match[2] === 'ok'
+    ? { id, ok: true, value: match[3] ?? null }
+    : { id, ok: false, message: match[3] || 'Command failed' };
+}
+
+export interface DeviceCommandChannelOptions {
+  timeout?: number;
+  retries?: number;
+}
+
+interface PendingCommand {
+  request: CommandRequest;
+  resolve: (value: string | null) => void;
+  reject: (error: DeviceCommandError) => void;
+  attempts: number;
+  attemptsLeft: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function requireOneOf(verb: CommandVerb, value: number, allowed: number[], unit: string) {
+  if (!allowed.includes(value)) {
+    throw new DeviceCommandError('rejected', verb, `Unsupported value ${value}${unit}; expected one of ${allowed.join(', ')}`);
+  }
+}
+
+function parseNumber(verb: CommandVerb, value: string | null): number {
+  const parsed = Number(value);
+  if (value === null || !Number.isFinite(parsed)) {
+    throw new DeviceCommandError('rejected', verb, `Unexpected reply to ${verb}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Typed requests over the command characteristic, correlated with their
+ * replies by id. Each attempt times out; unanswered requests are resent
+ * before failing.
+ */
+export class DeviceCommandChannel {
+  private nextId = 1;
+  private pending = new Map<number, PendingCommand>();
+  private readonly timeout: number;
+  private readonly retries: number;
+
+  constructor(
+    private readonly write: (text: string) => Promise<void>,
+    options: DeviceCommandChannelOptions = {}
+  ) {
+    this.timeout = options.timeout ?? COMMAND_CONFIG.TIMEOUT;
+    this.retries = options.retries ?? COMMAND_CONFIG.RETRIES;
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  startRecording(): Promise<void> {
+    return this.send('start').then(() => undefined);
+  }
+
+  stopRecording(): Promise<void> {
+    return this.send('stop').then(() => undefined);
+  }
+
+  async setSampleRate(hz: number): Promise<number> {
+    requireOneOf('rate', hz, COMMAND_CONFIG.SAMPLE_RATES_HZ, 'Hz');
+    return parseNumber('rate', await this.send('rate', String(hz)));
+  }
+
+  async setAccelRange(g: number): Promise<number> {
+    requireOneOf('accel_range', g, COMMAND_CONFIG.ACCEL_RANGES_G, 'g');
+    return parseNumber('accel_range', await this.send('accel_range', String(g)));
+  }
+
+  async setGyroRange(dps: number): Promise<number> {
+    requireOneOf('gyro_range', dps, COMMAND_CONFIG.GYRO_RANGES_DPS, '°/s');
+    return parseNumber('gyro_range', await this.send('gyro_range', String(dps)));
+  }
+
+  calibrate(): Promise<void> {
+    return this.send('calibrate').then(() => undefined);
+  }
+
+  async getFirmwareVersion(): Promise<string> {
+    return (await this.send('version')) ?? 'unknown';
+  }
+
+  async getBattery(): Promise<number> {
+    return parseNumber('battery', await this.send('battery'));
+  }
+
+  /**
+   * Send a request and resolve with the reply value. `retries` overrides
+   * the channel's resend count, e.g. 0 to time a single round trip.
+   */
+  send(verb: CommandVerb, arg?: string, { retries = this.retries }: { retries?: number } = {}): Promise<string | null> {
+    const request: CommandRequest = { id: this.nextId++, verb };
+    if (arg !== undefined) {
+      request.arg = arg;
+    }
+    return new Promise((resolve, reject) => {
+      const pending: PendingCommand = { request, resolve, reject, attempts: retries + 1, attemptsLeft: retries + 1, timer: null };
+      this.pending.set(request.id, pending);
+      this.attempt(pending);
+    });
+  }
+
+  /**
+   * Feed a notification from the command characteristic. Returns whether it
+   * answered a pending request.
+   */
+  handleReply(text: string): boolean {
+    const reply = parseCommandReply(text);
+    const pending = reply && this.pending.get(reply.id);
+    if (!reply || !pending) {
+      return false;
+    }
+    this.settle(pending);
+    if (reply.ok) {
+      pending.resolve(reply.value);
+    } else {
+      pending.reject(new DeviceCommandError('rejected', pending.request.verb, `Device rejected ${pending.request.verb}: ${reply.message}`));
+    }
+    return true;
+  }
+
+  /**
+   * Fail every pending request, e.g. when the device disconnects
+   */
+  cancelAll(message = 'Device disconnected') {
+    Array.from(this.pending.values()).forEach(pending => {
+      this.settle(pending);
+      pending.reject(new DeviceCommandError('disconnected', pending.request.verb, message));
+    });
+  }
+
+  private attempt(pending: PendingCommand) {
+    pending.attemptsLeft--;
+    const text = encodeCommand(pending.request);
+    console.log(`📤 Device command: ${text}`);
+
+    this.write(text).catch(error => {
+      if (!this.pending.has(pending.request.id)) return;
+      this.settle(pending);
+      const message = error instanceof Error ? error.message : String(error);
+      pending.reject(new DeviceCommandError('write', pending.request.verb, `Could not send ${pending.request.verb}: ${message}`));
+    });
+
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      if (pending.attemptsLeft > 0) {
+        console.log(`⏰ No reply to ${text}, retrying`);
+        this.attempt(pending);
+        return;
+      }
+      this.settle(pending);
+      pending.reject(new DeviceCommandError(
+        'timeout',
+        pending.request.verb,
+        `No reply to ${pending.request.verb} after ${pending.attempts} attempt(s)`
+      ));
+    }, this.timeout);
+  }
+
+  private settle(pending: PendingCommand) {
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+      pending.timer = null;
+    }
+    this.pending.delete(pending.request.id);
+  }
+}
@@ -0,0 +1,730 @@
+import { BleManager } from 'react-native-ble-plx';
+import { CONNECTION_CONFIG, DEVICE_CONFIG } from '@/constants/Device';
+import { BackoffOptions, computeBackoffDelay } from '@/services/Backoff';
+import { DeviceCommandChannel, DeviceCommandChannelOptions } from '@/services/DeviceCommands';
+import { decodePacket, DecodeResult } from '@/services/PacketCodec';
+
+/**
+ * Minimal structural view of react-native-ble-plx used by the connection.
+ * The real BleManager satisfies these interfaces, and tests can pass a fake.
+ */
+export interface BleErrorLike {
+  message: string;
+}
+
+export interface SubscriptionLike {
+  remove(): void;
+}
+
+export interface CharacteristicLike {
+  uuid: string;
+  value?: string | null;
+  monitor(
+    listener: (error: BleErrorLike | null, characteristic: CharacteristicLike | null) => void
+  ): SubscriptionLike;
+  writeWithResponse(valueBase64: string): Promise<unknown>;
+}
+
+export interface ServiceLike {
+  uuid: string;
+  characteristics(): Promise<CharacteristicLike[]>;
+}
+
+export interface DeviceLike {
+  id: string;
+  name: string | null;
+  rssi?: number | null;
+  serviceUUIDs?: string[] | null;
+  discoverAllServicesAndCharacteristics(): Promise<unknown>;
+  services(): Promise<ServiceLike[]>;
+  onDisconnected(listener: (error: BleErrorLike | null, device: DeviceLike) => void): SubscriptionLike;
+  cancelConnection(): Promise<unknown>;
+  readRSSI?(): Promise<{ rssi?: number | null }>;
+}
+
+export interface BleManagerLike {
+  state(): Promise<string>;
+  onStateChange(listener: (state: string) => void, emitCurrentState?: boolean): SubscriptionLike;
+  startDeviceScan(
+    uuids: string[] | null,
+    options: { allowDuplicates?: boolean } | null,
+    listener: (error: BleErrorLike | null, device: DeviceLike | null) => void
+  ): unknown;
+  stopDeviceScan(): unknown;
+  connectToDevice(deviceId: string): Promise<DeviceLike>;
+  destroy?(): unknown;
+}
+
+/**
+ * idle → scanning → connecting → discovering → streaming → disconnected
+ *
+ * An unexpected drop while streaming moves to `reconnecting`, which returns to
+ * `streaming` on success or ends in `disconnected` once attempts run out.
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'scanning'
+  | 'connecting'
+  | 'discovering'
+  | 'streaming'
+  | 'reconnecting'
+  | 'disconnected';
+
+export interface ScannedDevice {
+  id: string;
+  name: string;
+  rssi: number | null;
+  serviceUUIDs: string[] | null;
+}
+
+export type ConnectionStage = 'bluetooth' | 'scan' | 'connect' | 'discovery';
+
+export type DeviceConnectionEvent =
+  | { type: 'stateChange'; state: ConnectionState; previousState: ConnectionState }
+  | { type: 'bluetoothState'; state: string }
+  | { type: 'deviceScanned'; device: ScannedDevice }
+  | { type: 'deviceUpdated'; device: ScannedDevice } // New signal strength for a scanned device
+  | { type: 'deviceFound'; device: ScannedDevice }
+  | { type: 'scanTimeout'; scannedDevices: ScannedDevice[] }
+  | { type: 'connected'; device: DeviceLike }
+  | { type: 'data'; bytes: Uint8Array; decoded: DecodeResult } // Decoded once for every listener
+  | { type: 'disconnected'; device: DeviceLike; error: BleErrorLike | null; expected: boolean; willReconnect: boolean }
+  | { type: 'reconnecting'; attempt: number; delayMs: number }
+  | { type: 'reconnected'; attempts: number; downtimeMs: number }
+  | { type: 'reconnectFailed'; attempts: number }
+  | { type: 'error'; stage: ConnectionStage; error: Error };
+
+export type DeviceConnectionListener = (event: DeviceConnectionEvent) => void;
+
+/**
+ * Which AbracadabraIMU a scan connects to on its own: the first one found,
+ * only one of the given ids, or none (the user picks with `connect`)
+ */
+export type ScanAutoConnect = 'first' | 'none' | string[];
+
+export interface ScanOptions {
+  autoConnect?: ScanAutoConnect;
+  exclude?: string[]; // Never connect to these on their own, e.g. already connected sensors
+}
+
+export interface DeviceConnectionOptions {
+  createManager?: () => BleManagerLike;
+  scanTimeout?: number;
+  connectTimeout?: number;
+  discoveryTimeout?: number;
+  stateRetryDelay?: number;
+  stateRetries?: number;
+  autoReconnect?: boolean;
+  maxReconnectAttempts?: number;
+  reconnectBackoff?: BackoffOptions;
+  random?: () => number; // Jitter source, injectable for tests
+  commands?: DeviceCommandChannelOptions;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Race a promise against a timeout, clearing the timer either way
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+/**
+ * Decode a base64 notification value into raw packet bytes
+ */
+export function base64ToBytes(base64Data: string): Uint8Array {
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function isMatchingDevice(device: Pick<DeviceLike, 'name' | 'serviceUUIDs'>): boolean {
+  if (device.name === DEVICE_CONFIG.name) {
+    return true;
+  }
+  return !!device.serviceUUIDs?.some(
+    uuid => uuid.toLowerCase() === DEVICE_CONFIG.serviceUUID.toLowerCase()
+  );
+}
+
+function toScannedDevice(device: DeviceLike): ScannedDevice {
+  return {
+    name: device.name || 'Unknown',
+    id: device.id,
+    rssi: device.rssi ?? null,
+    serviceUUIDs: device.serviceUUIDs ?? null,
+  };
+}
+
+/**
+ * The phone's Bluetooth radio
+ */
+export const createBleManager = (): BleManagerLike => new BleManager();
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Owns the BLE manager and the lifecycle of a single AbracadabraIMU connection.
+ * Screens subscribe to its events instead of talking to react-native-ble-plx.
+ */
+export class DeviceConnection {
+  private manager: BleManagerLike | null = null;
+  private createManager: () => BleManagerLike;
+  private readonly options: Required<Omit<DeviceConnectionOptions, 'createManager' | 'random' | 'commands'>>;
+  private readonly random: () => number;
+  // Typed requests to the connected device, e.g. `commands.startRecording()`
+  readonly commands: DeviceCommandChannel;
+  private listeners = new Set<DeviceConnectionListener>();
+
+  private currentState: ConnectionState = 'idle';
+  private device: DeviceLike | null = null;
+  private commandCharacteristic: CharacteristicLike | null = null;
+  private notificationSubscription: SubscriptionLike | null = null;
+  private commandSubscription: SubscriptionLike | null = null;
+  private disconnectSubscription: SubscriptionLike | null = null;
+  private stateSubscription: SubscriptionLike | null = null;
+  private scanTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private scanned = new Map<string, ScannedDevice>();
+  private disconnectRequested = false;
+  private lastDeviceId: string | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private disconnectedAt = 0;
+
+  constructor(options: DeviceConnectionOptions = {}) {
+    this.createManager = options.createManager ?? createBleManager;
+    this.options = {
+      scanTimeout: options.scanTimeout ?? CONNECTION_CONFIG.SCAN_TIMEOUT,
+      connectTimeout: options.connectTimeout ?? CONNECTION_CONFIG.CONNECT_TIMEOUT,
+      discoveryTimeout: options.discoveryTimeout ?? CONNECTION_CONFIG.DISCOVERY_TIMEOUT,
+      stateRetryDelay: options.stateRetryDelay ?? CONNECTION_CONFIG.STATE_RETRY_DELAY,
+      stateRetries: options.stateRetries ?? CONNECTION_CONFIG.STATE_RETRIES,
+      autoReconnect: options.autoReconnect ?? true,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? CONNECTION_CONFIG.RECONNECT_MAX_ATTEMPTS,
+      reconnectBackoff: options.reconnectBackoff ?? {
+        baseDelay: CONNECTION_CONFIG.RECONNECT_BASE_DELAY,
+        maxDelay: CONNECTION_CONFIG.RECONNECT_MAX_DELAY,
+        jitter: CONNECTION_CONFIG.RECONNECT_JITTER,
+      },
+    };
+    this.random = options.random ?? Math.random;
+    this.commands = new DeviceCommandChannel(text => this.writeCommand(text), options.commands);
+  }
+
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  get connectedDevice(): DeviceLike | null {
+    return this.device;
+  }
+
+  get lastKnownDeviceId(): string | null {
+    return this.lastDeviceId;
+  }
+
+  get reconnectAttempts(): number {
+    return this.reconnectAttempt;
+  }
+
+  get scannedDevices(): ScannedDevice[] {
+    return Array.from(this.scanned.values());
+  }
+
+  get isInitialized(): boolean {
+    return this.manager !== null;
+  }
+
+  get bleManager(): BleManagerLike | null {
+    return this.manager;
+  }
+
+  get managerFactory(): () => BleManagerLike {
+    return this.createManager;
+  }
+
+  /**
+   * Subscribe to connection events. Returns an unsubscribe function.
+   */
+  subscribe(listener: DeviceConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: DeviceConnectionEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('DeviceConnection listener error:', error);
+      }
+    });
+  }
+
+  private setState(state: ConnectionState) {
+    if (state === this.currentState) return;
+    const previousState = this.currentState;
+    this.currentState = state;
+    this.emit({ type: 'stateChange', state, previousState });
+  }
+
+  /**
+   * Create the BLE manager and start reporting Bluetooth adapter state
+   */
+  initialize(): void {
+    if (this.manager) return;
+
+    console.log('🔵 Creating BLE Manager...');
+    const manager = this.createManager();
+    this.manager = manager;
+    this.stateSubscription = manager.onStateChange(state => {
+      console.log('🔵 BLE State changed to:', state);
+      this.emit({ type: 'bluetoothState', state });
+    }, true);
+  }
+
+  /**
+   * Wait for the adapter to report PoweredOn, retrying while it is still Unknown
+   */
+  async checkBluetoothState(retryCount = 0): Promise<boolean> {
+    const manager = this.requireManager();
+    try {
+      const state = await manager.state();
+      console.log('🔵 Bluetooth state:', state);
+
+      if (state === 'PoweredOn') {
+        return true;
+      }
+      if (state === 'Unknown' && retryCount < this.options.stateRetries) {
+        console.log('🔵 Bluetooth state unknown, retrying...', retryCount + 1);
+        await delay(this.options.stateRetryDelay);
+        return this.checkBluetoothState(retryCount + 1);
+      }
+      return false;
+    } catch (error) {
+      console.log('❌ Error checking Bluetooth state:', error);
+      if (retryCount < this.options.stateRetries - 1) {
+        await delay(this.options.stateRetryDelay);
+        return this.checkBluetoothState(retryCount + 1);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Scan for AbracadabraIMUs (by name or service UUID) and connect to one as
+   * `autoConnect` says. Scanned devices are reported with updates to their
+   * signal strength while the scan runs.
+   */
+  async startScan({ autoConnect = 'first', exclude = [] }: ScanOptions = {}): Promise<void> {
+    const manager = this.requireManager();
+    if (this.currentState === 'scanning') return;
+
+    this.cancelReconnect();
+    this.scanned.clear();
+    this.setState('scanning');
+
+    const isBluetoothOn = await this.checkBluetoothState();
+    if (!isBluetoothOn) {
+      this.setState('idle');
+      this.emit({ type: 'error', stage: 'bluetooth', error: new Error('Bluetooth is not powered on') });
+      return;
+    }
+
+    console.log('🔍 Starting BLE scan for:', DEVICE_CONFIG.name);
+
+    try {
+      // Scan for all devices, not just the service UUID, so the debug list is
+      // complete. Duplicates carry fresh RSSI readings for the picker.
+      await manager.startDeviceScan(null, { allowDuplicates: autoConnect !== 'first' }, (error, device) => {
+        if (this.currentState !== 'scanning') return;
+
+        if (error) {
+          console.log('❌ Scan error:', error);
+          this.stopScan();
+          this.setState('idle');
+          this.emit({ type: 'error', stage: 'scan', error: new Error(`Scan error: ${error.message}`) });
+          return;
+        }
+
+        if (!device) return;
+
+        const scannedDevice = toScannedDevice(device);
+        const previous = this.scanned.get(device.id);
+        this.scanned.set(device.id, scannedDevice);
+        if (!previous) {
+          this.emit({ type: 'deviceScanned', device: scannedDevice });
+        } else if (previous.rssi !== scannedDevice.rssi) {
+          this.emit({ type: 'deviceUpdated', device: scannedDevice });
+        }
+
+        const wanted = autoConnect === 'first' || (Array.isArray(autoConnect) && autoConnect.includes(device.id));
+        if (wanted && isMatchingDevice(device) && !exclude.includes(device.id)) {
+          console.log('✅ Found Arduino device:', scannedDevice.name);
+          this.stopScan();
+          this.emit({ type: 'deviceFound', device: scannedDevice });
+          this.connect(device.id);
+        }
+      });
+    } catch (error) {
+      console.log('❌ Error starting scan:', error);
+      this.setState('idle');
+      this.emit({ type: 'error', stage: 'scan', error: toError(error) });
+      return;
+    }
+
+    this.scanTimeoutId = setTimeout(() => {
+      this.scanTimeoutId = null;
+      if (this.currentState !== 'scanning') return;
+
+      console.log('⏰ Scan timeout. Devices found:', this.scanned.size);
+      this.stopScan();
+      this.setState('idle');
+      this.emit({ type: 'scanTimeout', scannedDevices: this.scannedDevices });
+    }, this.options.scanTimeout);
+  }
+
+  stopScan(): void {
+    if (this.scanTimeoutId) {
+      clearTimeout(this.scanTimeoutId);
+      this.scanTimeoutId = null;
+    }
+    this.manager?.stopDeviceScan();
+  }
+
+  /**
+   * Connect, discover the gesture service and subscribe to data notifications
+   */
+  async connect(deviceId: string): Promise<void> {
+    this.stopScan(); // The user may pick a device while scanning
+    this.cancelReconnect();
+    this.disconnectRequested = false;
+    this.setState('connecting');
+
+    try {
+      await this.establish(deviceId, true);
+    } catch (error) {
+      console.error('Connection error:', error);
+      const stage: ConnectionStage = this.currentState === 'discovering' ? 'discovery' : 'connect';
+      this.setState('disconnected');
+      this.emit({ type: 'error', stage, error: toError(error) });
+      return;
+    }
+
+    this.setState('streaming');
+    await this.sendPing();
+  }
+
+  /**
+   * Run the connect → discover → subscribe sequence. Throws on failure after
+   * releasing anything it acquired. `reportProgress` drives the state machine
+   * through connecting/discovering; reconnect attempts stay in `reconnecting`.
+   */
+  private async establish(deviceId: string, reportProgress: boolean): Promise<void> {
+    const manager = this.requireManager();
+
+    try {
+      console.log('Attempting to connect to device:', deviceId);
+      const connected = await withTimeout(
+        manager.connectToDevice(deviceId),
+        this.options.connectTimeout,
+        `Connection timeout after ${this.options.connectTimeout / 1000} seconds`
+      );
+      this.device = connected;
+      this.lastDeviceId = connected.id;
+      this.emit({ type: 'connected', device: connected });
+
+      if (reportProgress) {
+        this.setState('discovering');
+      }
+      await withTimeout(
+        connected.discoverAllServicesAndCharacteristics(),
+        this.options.discoveryTimeout,
+        `Service discovery timeout after ${this.options.discoveryTimeout / 1000} seconds`
+      );
+
+      const services = await connected.services();
+      const gestureService = services.find(service =>
+        service.uuid.toLowerCase() === DEVICE_CONFIG.serviceUUID.toLowerCase()
+      );
+      if (!gestureService) {
+        throw new Error(`Gesture service ${DEVICE_CONFIG.serviceUUID} not found`);
+      }
+
+      const characteristics = await gestureService.characteristics();
+      const dataChar = characteristics.find(char =>
+        char.uuid.toLowerCase() === DEVICE_CONFIG.dataCharacteristicUUID.toLowerCase()
+      );
+      const commandChar = characteristics.find(char =>
+        char.uuid.toLowerCase() === DEVICE_CONFIG.commandCharacteristicUUID.toLowerCase()
+      );
+
+      if (!dataChar) {
+        throw new Error(`Data characteristic ${DEVICE_CONFIG.dataCharacteristicUUID} not found`);
+      }
+      if (!commandChar) {
+        throw new Error(`Command characteristic ${DEVICE_CONFIG.commandCharacteristicUUID} not found`);
+      }
+
+      this.commandCharacteristic = commandChar;
+
+      this.disconnectSubscription = connected.onDisconnected((error, disconnectedDevice) => {
+        this.handleDisconnected(disconnectedDevice, error);
+      });
+
+      this.notificationSubscription = dataChar.monitor((error, characteristic) => {
+        if (error) {
+          // Errors after a disconnect are expected and handled by onDisconnected
+          if (!error.message?.includes('disconnected') && !error.message?.includes('cancelled')) {
+            console.error('Unexpected notification error:', error);
+          }
+          return;
+        }
+        if (characteristic?.value) {
+          const bytes = base64ToBytes(characteristic.value);
+          this.emit({ type: 'data', bytes, decoded: decodePacket(bytes) });
+        }
+      });
+
+      // Replies to device commands; older firmware never notifies here
+      this.commandSubscription = commandChar.monitor((error, characteristic) => {
+        if (characteristic?.value) {
+          this.commands.handleReply(atob(characteristic.value));
+        }
+      });
+    } catch (error) {
+      this.releaseDevice();
+      throw error;
+    }
+  }
+
+  private async sendPing() {
+    try {
+      await this.writeCommand('ping');
+    } catch (pingError) {
+      console.log('Ping command failed (non-critical):', pingError);
+    }
+  }
+
+  /**
+   * Write a UTF-8 command string to the command characteristic
+   */
+  async writeCommand(command: string): Promise<void> {
+    if (!this.commandCharacteristic) {
+      throw new Error('Command characteristic not available');
+    }
+    await this.commandCharacteristic.writeWithResponse(btoa(command));
+  }
+
+  /**
+   * Current signal strength of the connected device in dBm, or null when
+   * not connected or the platform can't read it
+   */
+  async readRSSI(): Promise<number | null> {
+    if (!this.device?.readRSSI || this.currentState !== 'streaming') {
+      return null;
+    }
+    const { rssi } = await this.device.readRSSI();
+    return rssi ?? null;
+  }
+
+  /**
+   * Disconnect on request. Emits a `disconnected` event with `expected: true`
+   * and never triggers automatic reconnection.
+   */
+  async disconnect(): Promise<void> {
+    if (this.currentState === 'reconnecting') {
+      this.cancelReconnect();
+      this.setState('disconnected');
+      return;
+    }
+
+    const device = this.device;
+    if (!device) return;
+
+    this.disconnectRequested = true;
+    this.removeNotificationSubscription();
+    try {
+      await device.cancelConnection();
+      console.log('Device disconnected successfully');
+    } catch (error) {
+      console.log('Error disconnecting:', error);
+      this.handleDisconnected(device, null);
+    }
+  }
+
+  /**
+   * Release the manager and every subscription
+   */
+  destroy(): void {
+    this.releaseManager();
+    this.listeners.clear();
+    this.currentState = 'idle';
+  }
+
+  /**
+   * Switch the BLE source, e.g. to a simulated peripheral. Any connection is
+   * dropped and the new manager created right away if one was in use;
+   * listeners stay subscribed.
+   */
+  setManagerFactory(createManager: () => BleManagerLike): void {
+    if (createManager === this.createManager) return;
+
+    const wasInitialized = this.manager !== null;
+    const device = this.device;
+    this.releaseManager();
+    this.disconnectRequested = false;
+    this.createManager = createManager;
+
+    if (device) {
+      this.emit({ type: 'disconnected', device, error: null, expected: true, willReconnect: false });
+    }
+    this.setState('idle');
+    if (wasInitialized) {
+      this.initialize();
+    }
+  }
+
+  private releaseManager() {
+    this.stopScan();
+    this.cancelReconnect();
+    this.disconnectRequested = true;
+    this.releaseDevice();
+    this.stateSubscription?.remove();
+    this.stateSubscription = null;
+    this.manager?.destroy?.();
+    this.manager = null;
+  }
+
+  private handleDisconnected(device: DeviceLike, error: BleErrorLike | null) {
+    if (!this.device) return;
+
+    console.log('Device disconnected:', device?.id, error);
+    const expected = this.disconnectRequested;
+    const willReconnect = !expected && this.options.autoReconnect && this.lastDeviceId !== null;
+    this.cleanup();
+    this.device = null;
+    this.disconnectRequested = false;
+
+    if (willReconnect) {
+      this.disconnectedAt = Date.now();
+      this.emit({ type: 'disconnected', device, error, expected, willReconnect });
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.setState('disconnected');
+    this.emit({ type: 'disconnected', device, error, expected, willReconnect });
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempt += 1;
+    const attempt = this.reconnectAttempt;
+
+    if (attempt > this.options.maxReconnectAttempts) {
+      console.log('❌ Giving up reconnecting after', attempt - 1, 'attempts');
+      this.reconnectAttempt = 0;
+      this.setState('disconnected');
+      this.emit({ type: 'reconnectFailed', attempts: attempt - 1 });
+      return;
+    }
+
+    const delayMs = computeBackoffDelay(attempt, this.options.reconnectBackoff, this.random);
+    console.log(`🔄 Reconnect attempt ${attempt} in ${delayMs}ms`);
+    this.setState('reconnecting');
+    this.emit({ type: 'reconnecting', attempt, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect();
+    }, delayMs);
+  }
+
+  private async attemptReconnect() {
+    const deviceId = this.lastDeviceId;
+    if (this.currentState !== 'reconnecting' || !deviceId) return;
+
+    try {
+      await this.establish(deviceId, false);
+    } catch (error) {
+      console.log('Reconnect attempt failed:', toError(error).message);
+      if (this.currentState === 'reconnecting') {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    // Cancelled (disconnect/destroy/scan) while the attempt was in flight
+    if (this.currentState !== 'reconnecting') {
+      this.releaseDevice();
+      return;
+    }
+
+    const attempts = this.reconnectAttempt;
+    const downtimeMs = Date.now() - this.disconnectedAt;
+    this.reconnectAttempt = 0;
+    this.setState('streaming');
+    this.emit({ type: 'reconnected', attempts, downtimeMs });
+    await this.sendPing();
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  private releaseDevice() {
+    this.cleanup();
+    if (this.device) {
+      this.device.cancelConnection().catch(() => {});
+      this.device = null;
+    }
+  }
+
+  private removeNotificationSubscription() {
+    if (this.notificationSubscription) {
+      try {
+        this.notificationSubscription.remove();
+      } catch (cleanupError) {
+        console.log('Subscription cleanup error (non-critical):', cleanupError);
+      }
+      this.notificationSubscription = null;
+    }
+  }
+
+  private cleanup() {
+    this.removeNotificationSubscription();
+    this.commandSubscription?.remove();
+    this.commandSubscription = null;
+    this.commands.cancelAll();
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+    this.commandCharacteristic = null;
+  }
+
+  private requireManager(): BleManagerLike {
+    if (!this.manager) {
+      throw new Error('Bluetooth manager not initialized');
+    }
+    return this.manager;
+  }
+}
+
+// Shared connection used by every screen
+export const deviceConnection = new DeviceConnection();
+
+export default DeviceConnection;
@@ -0,0 +1,448 @@
+import { MULTI_SENSOR_CONFIG } from '@/constants/Device';
+import {
+  BleManagerLike,
+  ConnectionState,
+  DeviceConnection,
+  deviceConnection,
+  DeviceConnectionEvent,
+  DeviceConnectionOptions,
+} from '@/services/DeviceConnection';
+import type { PredictionResponse } from '@/services/GestureAPI';
+import { LinkHealthMonitor, linkHealthMonitor, LinkHealthOptions, LinkQuality } from '@/services/LinkHealthMonitor';
+import { LiveSampleStore } from '@/services/LiveSampleStore';
+import { mergeSignificantMovements, predictMultiSensor } from '@/services/MultiSensorRecording';
+import { DecodeResult } from '@/services/PacketCodec';
+import { SessionAssembler } from '@/services/SessionAssembler';
+import { repredictSession } from '@/services/SessionReplayer';
+import { sessionRepository, SessionRepository, SessionSummary, StoredSession } from '@/services/SessionRepository';
+import { settingsStore } from '@/services/Settings';
+import { BLEDataPoint, GestureSession } from '@/services/types';
+
+export interface SensorStatus {
+  deviceId: string;
+  name: string;
+  label: string; // "Sensor 1", "Sensor 2", ... in connection order
+  isPrimary: boolean; // The dashboard's own connection
+  state: ConnectionState;
+  dataRate: number; // Samples per second over the last second
+  quality: LinkQuality; // Graded like the dashboard's connection indicator
+  packetsReceived: number;
+  session: GestureSession | null; // Current or last recording
+}
+
+export type DeviceHubEvent =
+  | { type: 'sensorsChanged' }
+  | { type: 'groupSaved'; groupId: string; sessions: SessionSummary[] }
+  | { type: 'groupAnalyzed'; groupId: string; sessions: SessionSummary[]; movements: Record<string, number> }
+  | { type: 'error'; deviceId: string | null; error: Error };
+
+interface SensorLink {
+  connection: DeviceConnection;
+  deviceId: string;
+  name: string;
+  isPrimary: boolean;
+  assembler: SessionAssembler;
+  live: LiveSampleStore;
+  health: LinkHealthMonitor;
+  session: GestureSession | null;
+  unsubscribe: () => void;
+}
+
+interface PendingGroup {
+  id: string;
+  openedAt: number;
+  members: Map<string, { session: GestureSession; samples: BLEDataPoint[] } | null>; // null while recording
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface DeviceHubOptions {
+  repository?: SessionRepository;
+  groupWindowMs?: number;
+  maxSensors?: number;
+  connectionOptions?: Omit<DeviceConnectionOptions, 'createManager'>; // For added sensors
+  linkHealthOptions?: LinkHealthOptions; // For sensors the dashboard doesn't already monitor
+}
+
+/**
+ * Borrow the primary connection's BLE manager; react-native-ble-plx allows
+ * only one. The primary connection keeps ownership and destroys it.
+ */
+function borrowManager(owner: DeviceConnection): BleManagerLike {
+  const manager = () => {
+    if (!owner.bleManager) {
+      throw new Error('Bluetooth manager not initialized');
+    }
+    return owner.bleManager;
+  };
+  return {
+    state: () => manager().state(),
+    onStateChange: (listener, emitCurrentState) => manager().onStateChange(listener, emitCurrentState),
+    startDeviceScan: (uuids, options, listener) => manager().startDeviceScan(uuids, options, listener),
+    stopDeviceScan: () => manager().stopDeviceScan(),
+    connectToDevice: deviceId => manager().connectToDevice(deviceId),
+  };
+}
+
+const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Every connected AbracadabraIMU: the dashboard's connection plus sensors
+ * added alongside it. Each sensor gets its own stream, session and link
+ * quality. Sessions that start on several sensors within a short window
+ * are saved together as one multi-sensor recording and analyzed on a
+ * shared time grid.
+ */
+export class DeviceHub {
+  private links: SensorLink[] = [];
+  private listeners = new Set<(event: DeviceHubEvent) => void>();
+  private group: PendingGroup | null = null;
+  private readonly repository: SessionRepository;
+  private readonly groupWindowMs: number;
+  private readonly maxSensors: number;
+  private readonly connectionOptions: Omit<DeviceConnectionOptions, 'createManager'>;
+  private readonly linkHealthOptions: LinkHealthOptions;
+
+  constructor(private readonly primary: DeviceConnection = deviceConnection, options: DeviceHubOptions = {}) {
+    this.repository = options.repository ?? sessionRepository;
+    this.groupWindowMs = options.groupWindowMs ?? MULTI_SENSOR_CONFIG.GROUP_WINDOW_MS;
+    this.maxSensors = options.maxSensors ?? MULTI_SENSOR_CONFIG.MAX_SENSORS;
+    this.connectionOptions = options.connectionOptions ?? {};
+    this.linkHealthOptions = options.linkHealthOptions ?? {};
+    // The dashboard's own connection is already monitored for its indicator
+    this.attach(primary, true, primary === deviceConnection ? linkHealthMonitor : undefined);
+  }
+
+  get sensors(): SensorStatus[] {
+    const now = Date.now();
+    return this.links.map((link, index) => ({
+      deviceId: link.deviceId,
+      name: link.name,
+      label: `Sensor ${index + 1}`,
+      isPrimary: link.isPrimary,
+      state: link.connection.state,
+      dataRate: Math.round(link.live.rate(now)),
+      quality: link.connection.state === 'streaming' ? link.health.latest?.quality ?? 'Unknown' : 'Unknown',
+      packetsReceived: link.live.totalReceived,
+      session: link.session,
+    }));
+  }
+
+  /**
+   * Whether recordings are multi-sensor: more than one sensor is streaming
+   */
+  get isMultiSensor(): boolean {
+    return this.streamingLinks().length > 1;
+  }
+
+  /**
+   * A sensor's live stream, for charts
+   */
+  streamOf(deviceId: string): LiveSampleStore | null {
+    return this.links.find(link => link.deviceId === deviceId)?.live ?? null;
+  }
+
+  /**
+   * A sensor's current or last recording. Its groupId, set at SESSION_START,
+   * says whether the hub saves and analyzes it with other sensors.
+   */
+  sessionOf(deviceId: string): GestureSession | null {
+    return this.links.find(link => link.deviceId === deviceId)?.session ?? null;
+  }
+
+  connectionOf(deviceId: string): DeviceConnection | null {
+    return this.links.find(link => link.deviceId === deviceId)?.connection ?? null;
+  }
+
+  /**
+   * Subscribe to hub events. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: DeviceHubEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Scan for one more AbracadabraIMU, skipping connected ones, and connect it
+   * through the primary connection's BLE manager
+   */
+  async addSensor(): Promise<void> {
+    if (!this.primary.isInitialized) {
+      throw new Error('Bluetooth manager not initialized');
+    }
+    if (this.links.length >= this.maxSensors) {
+      throw new Error(`At most ${this.maxSensors} sensors can be connected`);
+    }
+
+    const connection = new DeviceConnection({
+      ...this.connectionOptions,
+      createManager: () => borrowManager(this.primary),
+    });
+    this.attach(connection, false);
+    this.emit({ type: 'sensorsChanged' });
+    connection.initialize();
+    await connection.startScan({ exclude: this.links.flatMap(other => (other.deviceId ? [other.deviceId] : [])) });
+  }
+
+  async removeSensor(deviceId: string): Promise<void> {
+    const link = this.links.find(candidate => candidate.deviceId === deviceId && !candidate.isPrimary);
+    if (link) {
+      await link.connection.disconnect();
+      this.detach(link);
+    }
+  }
+
+  /**
+   * Disconnect every added sensor, e.g. before switching the BLE source
+   */
+  removeAll() {
+    this.links.filter(link => !link.isPrimary).forEach(link => this.detach(link));
+  }
+
+  /**
+   * Ask every streaming sensor to start recording, so their sessions form
+   * one multi-sensor recording
+   */
+  async recordAll(): Promise<void> {
+    const links = this.streamingLinks();
+    if (links.length === 0) {
+      throw new Error('No sensor is connected');
+    }
+    const results = await Promise.allSettled(links.map(link => link.connection.commands.startRecording()));
+    const failed = results.flatMap((result, index) =>
+      result.status === 'rejected' ? [`${links[index].name}: ${toError(result.reason).message}`] : []
+    );
+    if (failed.length > 0) {
+      throw new Error(`Could not start recording on ${failed.join('; ')}`);
+    }
+  }
+
+  private streamingLinks(): SensorLink[] {
+    return this.links.filter(link => link.connection.state === 'streaming');
+  }
+
+  private attach(
+    connection: DeviceConnection,
+    isPrimary: boolean,
+    health: LinkHealthMonitor = new LinkHealthMonitor(connection, this.linkHealthOptions)
+  ): SensorLink {
+    const link: SensorLink = {
+      connection,
+      deviceId: connection.connectedDevice?.id ?? '',
+      name: connection.connectedDevice?.name ?? 'AbracadabraIMU',
+      isPrimary,
+      assembler: new SessionAssembler(),
+      live: new LiveSampleStore(),
+      health,
+      session: null,
+      unsubscribe: () => {},
+    };
+    link.unsubscribe = connection.subscribe(event => this.handleConnectionEvent(link, event));
+    this.links.push(link);
+    return link;
+  }
+
+  private detach(link: SensorLink) {
+    this.endSession(link);
+    link.unsubscribe();
+    link.health.destroy();
+    link.connection.destroy();
+    this.links = this.links.filter(other => other !== link);
+    this.emit({ type: 'sensorsChanged' });
+  }
+
+  private handleConnectionEvent(link: SensorLink, event: DeviceConnectionEvent) {
+    switch (event.type) {
+      case 'connected':
+        link.deviceId = event.device.id;
+        link.name = event.device.name || 'AbracadabraIMU';
+        this.emit({ type: 'sensorsChanged' });
+        break;
+      case 'data':
+        this.handlePacket(link, event.decoded);
+        break;
+      case 'stateChange':
+        this.emit({ type: 'sensorsChanged' });
+        break;
+      case 'disconnected':
+        if (!event.willReconnect) {
+          this.endSession(link);
+          if (!link.isPrimary) {
+            this.detach(link);
+          }
+        }
+        break;
+      case 'scanTimeout':
+      case 'reconnectFailed':
+        if (!link.isPrimary) {
+          this.detach(link);
+        }
+        break;
+      case 'error':
+        if (!link.isPrimary) {
+          this.emit({ type: 'error', deviceId: link.deviceId || null, error: event.error });
+          this.detach(link);
+        }
+        break;
+    }
+  }
+
+  private handlePacket(link: SensorLink, result: DecodeResult) {
+    if (!result.ok) {
+      return;
+    }
+    const packet = result.packet;
+    const now = Date.now();
+
+    switch (packet.type) {
+      case 'SESSION_START':
+        link.assembler.start(packet.recordingHash);
+        link.live.clear();
+        link.session = {
+          id: packet.recordingHash,
+          startTime: now,
+          isActive: true,
+          deviceId: link.deviceId,
+          samplesReceived: 0,
+        };
+        this.joinGroup(link, now);
+        break;
+
+      case 'SENSOR_DATA': {
+        const point = link.assembler.push({
+          timestamp: packet.timestamp,
+          sampleId: packet.sampleId,
+          acceleration: packet.acceleration,
+          gyroscope: packet.gyroscope,
+          recordingHash: link.session?.id ?? 'unknown',
+        });
+        if (point) {
+          link.live.push(point, now);
+          if (link.session?.isActive) {
+            link.session.samplesReceived = link.assembler.samples.length;
+          }
+        }
+        break;
+      }
+
+      case 'SESSION_END':
+        this.endSession(link, packet.lastSampleId);
+        break;
+    }
+  }
+
+  private joinGroup(link: SensorLink, now: number) {
+    if (!this.isMultiSensor) {
+      return;
+    }
+    if (!this.group || now - this.group.openedAt > this.groupWindowMs || this.group.members.has(link.deviceId)) {
+      this.group = { id: now.toString(36), openedAt: now, members: new Map(), timer: null };
+    }
+    this.group.members.set(link.deviceId, null);
+    link.session!.groupId = this.group.id;
+  }
+
+  private endSession(link: SensorLink, lastSampleId?: number) {
+    const session = link.session;
+    if (!session?.isActive) {
+      return;
+    }
+    link.session = {
+      ...session,
+      isActive: false,
+      endTime: Date.now(),
+      samplesReceived: link.assembler.samples.length,
+      packetLoss: link.assembler.finish(lastSampleId),
+    };
+
+    const group = this.group;
+    if (group && session.groupId === group.id) {
+      group.members.set(link.deviceId, { session: link.session, samples: [...link.assembler.samples] });
+      this.maybeFinishGroup(group);
+    }
+    this.emit({ type: 'sensorsChanged' });
+  }
+
+  /**
+   * Save the group once every member has ended and no more sensors can join
+   */
+  private maybeFinishGroup(group: PendingGroup) {
+    if (Array.from(group.members.values()).some(member => member === null)) {
+      return;
+    }
+    const remaining = group.openedAt + this.groupWindowMs - Date.now();
+    const othersMayJoin = group.members.size < this.streamingLinks().length;
+    if (othersMayJoin && remaining > 0) {
+      if (!group.timer) {
+        group.timer = setTimeout(() => {
+          group.timer = null;
+          this.maybeFinishGroup(group);
+        }, remaining);
+      }
+      return;
+    }
+
+    if (group.timer) {
+      clearTimeout(group.timer);
+      group.timer = null;
+    }
+    if (this.group === group) {
+      this.group = null;
+    }
+    this.saveGroup(group).catch(error => this.emit({ type: 'error', deviceId: null, error: toError(error) }));
+  }
+
+  private async saveGroup(group: PendingGroup) {
+    const members = Array.from(group.members.values())
+      .flatMap(member => (member && member.samples.length > 0 ? [member] : []));
+    if (members.length === 0) {
+      return;
+    }
+
+    const isGroup = members.length > 1;
+    const summaries: SessionSummary[] = [];
+    for (const { session, samples } of members) {
+      const { groupId, ...single } = session;
+      summaries.push(await this.repository.save(isGroup ? session : single, samples));
+    }
+    console.log(`🧩 Saved ${isGroup ? 'multi-sensor recording' : 'session'} ${group.id} (${summaries.length} sensor(s))`);
+    this.emit({ type: 'groupSaved', groupId: group.id, sessions: summaries });
+
+    const stored = (await Promise.all(summaries.map(summary => this.repository.get(summary.id))))
+      .filter((session): session is StoredSession => session !== null);
+    const { chartFilters, filterRecordings } = settingsStore.current;
+    const filters = filterRecordings ? chartFilters : null;
+    const predictions: PredictionResponse[] = [];
+    if (isGroup) {
+      for (const { sessionId, prediction } of await predictMultiSensor(stored, filters)) {
+        await this.repository.setPrediction(sessionId, prediction);
+        predictions.push(prediction);
+      }
+    } else {
+      predictions.push(await repredictSession(stored[0], filters, this.repository));
+    }
+
+    const analyzed = (await this.repository.list()).filter(summary => summaries.some(saved => saved.id === summary.id));
+    this.emit({
+      type: 'groupAnalyzed',
+      groupId: group.id,
+      sessions: analyzed,
+      movements: mergeSignificantMovements(predictions),
+    });
+  }
+
+  private emit(event: DeviceHubEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('DeviceHub listener error:', error);
+      }
+    });
+  }
+}
+
+export const deviceHub = new DeviceHub();
+
+export default DeviceHub;
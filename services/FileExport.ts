@@ -0,0 +1,37 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import type { ExportFile } from '@/services/SessionExport';
+
+const BASE64_CHUNK = 0x8000; // Bytes per String.fromCharCode call, well under the argument limit
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < data.length; offset += BASE64_CHUNK) {
+    binary += String.fromCharCode(...data.subarray(offset, offset + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Write an export to the cache directory and open the share sheet for it.
+ * The web build downloads the file instead (see FileExport.web.ts).
+ */
+export async function saveExportFile(file: ExportFile): Promise<void> {
+  if (!FileSystem.cacheDirectory) {
+    throw new Error('No cache directory to write the export to');
+  }
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${file.filename}`;
+  if (typeof file.data === 'string') {
+    await FileSystem.writeAsStringAsync(uri, file.data);
+  } else {
+    await FileSystem.writeAsStringAsync(uri, toBase64(file.data), { encoding: FileSystem.EncodingType.Base64 });
+  }
+  console.log(`📦 Exported ${file.filename}`);
+
+  await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle: file.filename });
+}
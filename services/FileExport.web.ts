@@ -0,0 +1,21 @@
+import type { ExportFile } from '@/services/SessionExport';
+
+/**
+ * Download an export through the browser
+ */
+export async function saveExportFile(file: ExportFile): Promise<void> {
+  const blob = new Blob([file.data], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    console.log(`📦 Exported ${file.filename}`);
+  } finally {
+    // Revoke after the click has been handled, or some browsers cancel the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
@@ -0,0 +1,21 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+import type { ImportFile } from '@/services/SessionImport';
+
+const IMPORT_TYPES = ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain'];
+
+/**
+ * Let the user pick session files and read them as text. Resolves to an
+ * empty list if the picker was cancelled.
+ */
+export async function pickImportFiles(): Promise<ImportFile[]> {
+  const result = await DocumentPicker.getDocumentAsync({ type: IMPORT_TYPES, multiple: true, copyToCacheDirectory: true });
+  if (result.canceled) {
+    return [];
+  }
+  return Promise.all(result.assets.map(async asset => ({
+    name: asset.name,
+    text: await FileSystem.readAsStringAsync(asset.uri),
+  })));
+}
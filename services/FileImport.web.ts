@@ -0,0 +1,19 @@
+import * as DocumentPicker from 'expo-document-picker';
+
+import type { ImportFile } from '@/services/SessionImport';
+
+const IMPORT_TYPES = ['.csv', '.json', 'text/csv', 'application/json'];
+
+/**
+ * Let the user pick session files through the browser and read them as text
+ */
+export async function pickImportFiles(): Promise<ImportFile[]> {
+  const result = await DocumentPicker.getDocumentAsync({ type: IMPORT_TYPES, multiple: true });
+  if (result.canceled) {
+    return [];
+  }
+  return Promise.all(result.assets.map(async asset => ({
+    name: asset.name,
+    text: asset.file ? await asset.file.text() : await (await fetch(asset.uri)).text(),
+  })));
+}
@@ -1,5 +1,11 @@
-import { API_CONFIG, API_URLS } from '@/constants/API';
+import { API_CONFIG, API_ENVIRONMENTS, ApiEndpoint, ApiEnvironmentId, buildApiUrl, PREPROCESSING_CONFIG } from '@/constants/API';
 import { Alert } from 'react-native';
+import { classifyWindow, localClassifier, LocalModel } from '@/services/LocalClassifier';
+import { resolveApiBaseUrl, settingsStore } from '@/services/Settings';
+import { mockGestureServer } from '@/services/simulation/MockGestureServer';
+import { unwrapDataPoints } from '@/services/SessionAssembler';
+import { preprocessIMUData, RecordingQualityError } from '@/services/Preprocessing';
+import { BLEDataPoint, PacketLossStats } from '@/services/types';
 
 export interface IMUDataPoint {
   rel_timestamp: number;
@@ -51,6 +57,8 @@ export interface PredictionResponse {
   };
 }
 
+export type WindowParams = PredictionResponse['window_params'];
+
 export interface ModelStatusResponse {
   model_loaded: boolean;
   model_type: string;
@@ -67,11 +75,53 @@ export interface TrainingResponse {
   accuracy_score?: number;
 }
 
+export interface TrainingBatch {
+  label: string;
+  data: IMUDataPoint[]; // One or more recordings, told apart by recording_id
+  packetLoss?: PacketLossStats; // Combined over the batch's recordings
+}
+
+export interface HealthCheckResult {
+  environment: ApiEnvironmentId;
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface PrimaryMovement {
+  movement: string;
+  confidence: number;
+}
+
 export class GestureAPI {
+  // Declared by the last remote prediction; the rate recordings are resampled to
+  private static serverWindowParams: WindowParams | null = null;
+
+  /**
+   * Full URL of an endpoint in the given environment (the active one by default)
+   */
+  static async resolveUrl(endpoint: ApiEndpoint, environment?: ApiEnvironmentId): Promise<string> {
+    const settings = await settingsStore.load();
+    return buildApiUrl(resolveApiBaseUrl(settings, environment), endpoint);
+  }
+
   private static async makeRequest<T>(
-    url: string, 
-    options: RequestInit = {}
+    endpoint: ApiEndpoint,
+    options: RequestInit = {},
+    environment?: ApiEnvironmentId
   ): Promise<T> {
+    const settings = await settingsStore.load();
+    const target = environment ?? settings.apiEnvironment;
+    const baseUrl = resolveApiBaseUrl(settings, target);
+    if (!baseUrl) {
+      throw new Error(`No server URL set for the ${API_ENVIRONMENTS[target].name} environment`);
+    }
+    // The mock environment is served in-process
+    return this.fetchJSON(buildApiUrl(baseUrl, endpoint), options, target === 'mock' ? mockGestureServer.fetch : fetch);
+  }
+
+  private static async fetchJSON<T>(url: string, options: RequestInit, request: typeof fetch): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
 
@@ -87,7 +137,7 @@ export class GestureAPI {
            'unknown') : 'none'
       });
 
-      const response = await fetch(url, {
+      const response = await request(url, {
         ...options,
         signal: controller.signal,
         headers: {
@@ -129,9 +179,9 @@ export class GestureAPI {
   }
 
   /**
-   * Convert IMU data array to CSV format string
+   * Convert IMU data array to CSV in the server's upload schema
    */
-  private static convertToCSV(data: IMUDataPoint[]): string {
+  static convertToCSV(data: IMUDataPoint[]): string {
     if (data.length === 0) {
       return '';
     }
@@ -150,21 +200,125 @@ export class GestureAPI {
   /**
    * Get the health status of the API
    */
-  static async getHealth(): Promise<any> {
-    return this.makeRequest(API_URLS.health);
+  static async getHealth(environment?: ApiEnvironmentId): Promise<any> {
+    return this.makeRequest('HEALTH', {}, environment);
+  }
+
+  /**
+   * Time a health request against an environment without switching to it
+   */
+  static async checkHealth(environment?: ApiEnvironmentId): Promise<HealthCheckResult> {
+    const settings = await settingsStore.load();
+    const target = environment ?? settings.apiEnvironment;
+    const url = await this.resolveUrl('HEALTH', target);
+    const startTime = Date.now();
+
+    try {
+      await this.getHealth(target);
+      return { environment: target, url, ok: true, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        environment: target,
+        url,
+        ok: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
   }
 
   /**
    * Get the current model status
    */
   static async getModelStatus(): Promise<ModelStatusResponse> {
-    return this.makeRequest(API_URLS.modelStatus);
+    return this.makeRequest('MODEL_STATUS');
+  }
+
+  /**
+   * Download a model file exported from the server and install it for
+   * on-device prediction. The API has no export endpoint, so the file is
+   * fetched from wherever the user hosts it.
+   */
+  static async downloadLocalModel(url: string): Promise<LocalModel> {
+    const modelUrl = url.trim();
+    if (!/^https?:\/\//i.test(modelUrl)) {
+      throw new Error('Model URL must start with http:// or https://');
+    }
+    const exported = await this.fetchJSON<unknown>(modelUrl, {}, fetch);
+    return localClassifier.install(exported);
+  }
+
+  /**
+   * Predict gesture from IMU data using the engine chosen in settings
+   */
+  static async predictGesture(data: IMUDataPoint[], packetLoss?: PacketLossStats): Promise<PredictionResponse> {
+    const { predictionEngine } = await settingsStore.load();
+    const model = predictionEngine === 'remote' ? null : await localClassifier.load();
+    const localRate = model?.window_params.sample_rate_hz;
+    const remoteRate = this.serverWindowParams?.sample_rate_hz ?? localRate;
+
+    switch (predictionEngine) {
+      case 'local':
+        return this.predictLocally(this.preprocess(data, packetLoss, localRate));
+      case 'remote-with-local-fallback': {
+        // A rejected recording is rejected for both engines, so check it before trying
+        const prepared = this.preprocess(data, packetLoss, remoteRate);
+        try {
+          return await this.predictRemotely(prepared, packetLoss);
+        } catch (error) {
+          if (!model) {
+            throw error;
+          }
+          console.warn('📴 Remote prediction failed, falling back to on-device model:', error);
+          return this.predictLocally(remoteRate === localRate ? prepared : this.preprocess(data, packetLoss, localRate));
+        }
+      }
+      default:
+        return this.predictRemotely(this.preprocess(data, packetLoss, remoteRate), packetLoss);
+    }
+  }
+
+  /**
+   * Resample to the model's rate and interpolate short gaps. Throws
+   * RecordingQualityError when too much of the recording is missing.
+   */
+  private static preprocess(
+    data: IMUDataPoint[],
+    packetLoss: PacketLossStats | undefined,
+    sampleRateHz: number = PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ
+  ): IMUDataPoint[] {
+    const { data: prepared, report } = preprocessIMUData(data, { sampleRateHz, packetLoss });
+    console.log(
+      `🧹 Resampled ${report.inputSamples} → ${report.outputSamples} samples at ${sampleRateHz}Hz`,
+      `(${report.interpolatedSamples} interpolated, ${report.unfilledGaps} long gaps)`
+    );
+    return prepared;
   }
 
   /**
-   * Predict gesture from IMU data
+   * Classify one streaming window. Uses the on-device model when the engine
+   * allows it and one is installed, since it answers without a round trip.
+   * Resolves with null when no gesture (or only rest) is detected.
    */
-  static async predictGesture(data: IMUDataPoint[]): Promise<PredictionResponse> {
+  static async classifyWindow(points: IMUDataPoint[]): Promise<PrimaryMovement | null> {
+    const { predictionEngine } = await settingsStore.load();
+    const model = predictionEngine === 'remote' ? null : await localClassifier.load();
+
+    if (model) {
+      return classifyWindow(points, model);
+    }
+    if (predictionEngine === 'local') {
+      throw new Error('No on-device model installed');
+    }
+    return this.getPrimaryMovement(await this.predictRemotely(points));
+  }
+
+  private static async predictLocally(data: IMUDataPoint[]): Promise<PredictionResponse> {
+    console.log('📱 Predicting on device with', data.length, 'data points');
+    return localClassifier.predict(data);
+  }
+
+  private static async predictRemotely(data: IMUDataPoint[], packetLoss?: PacketLossStats): Promise<PredictionResponse> {
     try {
       console.log('🚀 Starting gesture prediction...');
       console.log('Input data points:', data.length);
@@ -203,13 +357,20 @@ export class GestureAPI {
       // Use FormData as the server expects form data
       const formData = new FormData();
       formData.append('csv_data', csvData);
+      if (packetLoss) {
+        formData.append('packet_loss', JSON.stringify(packetLoss));
+      }
 
       console.log('📤 Sending request to API...');
       
-      return this.makeRequest(API_URLS.predict, {
+      const prediction = await this.makeRequest<PredictionResponse>('PREDICT', {
         method: 'POST',
         body: formData,
       });
+      if (prediction.window_params?.sample_rate_hz > 0) {
+        this.serverWindowParams = prediction.window_params;
+      }
+      return prediction;
       
     } catch (error) {
       console.error('💥 Error in predictGesture:', error);
@@ -218,59 +379,98 @@ export class GestureAPI {
   }
 
   /**
-   * Train the model with new gesture data
+   * Train the model with new gesture data. Without a batch the server
+   * retrains on the samples it already has.
    */
-  static async trainModel(): Promise<TrainingResponse> {
-    return this.makeRequest(API_URLS.train, {
+  static async trainModel(batch?: TrainingBatch): Promise<TrainingResponse> {
+    if (!batch) {
+      return this.makeRequest('TRAIN', {
+        method: 'POST',
+      });
+    }
+
+    console.log(`🎓 Uploading ${batch.data.length} labeled samples for "${batch.label}"`);
+
+    const formData = new FormData();
+    formData.append('label', batch.label);
+    formData.append('csv_data', this.convertToCSV(batch.data));
+    if (batch.packetLoss) {
+      formData.append('packet_loss', JSON.stringify(batch.packetLoss));
+    }
+
+    return this.makeRequest('TRAIN', {
       method: 'POST',
+      body: formData,
     });
   }
 
   /**
-   * Convert BLE data to API format
+   * Convert BLE data to API format. Pass `recordedAt` (e.g. the session's
+   * start time) to get the same recording id every time.
    */
   static convertBLEDataToAPI(
-    bleData: any[], 
-    recordingId: string
+    bleData: BLEDataPoint[], 
+    recordingId: string,
+    recordedAt: number = Date.now()
   ): IMUDataPoint[] {
     // Convert hex recording ID to server-expected format
     // Server expects format like "g_12601398_9595"
-    const timestamp = Date.now();
-    const formattedRecordingId = `g_${timestamp}_${recordingId}`;
+    const formattedRecordingId = `g_${recordedAt}_${recordingId}`;
     
-    return bleData.map((point, index) => ({
-      rel_timestamp: point.timestamp || index * 4, // 4ms intervals (250Hz)
+    // Device timestamps wrap every ~65s; send them continued past the wrap
+    return unwrapDataPoints(bleData).map(point => ({
+      rel_timestamp: point.unwrappedTimestamp!,
       recording_id: formattedRecordingId,
-      acc_x: point.acceleration?.x || 0,
-      acc_y: point.acceleration?.y || 0,
-      acc_z: point.acceleration?.z || 0,
-      gyro_x: point.gyroscope?.x || 0,
-      gyro_y: point.gyroscope?.y || 0,
-      gyro_z: point.gyroscope?.z || 0,
+      acc_x: point.acceleration.x,
+      acc_y: point.acceleration.y,
+      acc_z: point.acceleration.z,
+      gyro_x: point.gyroscope.x,
+      gyro_y: point.gyroscope.y,
+      gyro_z: point.gyroscope.z,
     }));
   }
 
+  /**
+   * Pick the detected segment with the highest average confidence
+   */
+  static getPrimaryMovement(prediction: PredictionResponse): PrimaryMovement | null {
+    if (!prediction.detailed_segments?.length) {
+      return null;
+    }
+    const primary = prediction.detailed_segments.reduce((prev, current) =>
+      prev.avg_confidence > current.avg_confidence ? prev : current
+    );
+    return { movement: primary.movement, confidence: primary.avg_confidence };
+  }
+
+  /**
+   * Whether two gesture labels name the same movement, e.g. a user's binding and a prediction
+   */
+  static isSameMovement(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
   /**
    * Test API connectivity
    */
-  static async testConnection(): Promise<boolean> {
-    try {
-      await this.getHealth();
-      return true;
-    } catch (error) {
-      console.error('API connection test failed:', error);
-      return false;
+  static async testConnection(environment?: ApiEnvironmentId): Promise<boolean> {
+    const result = await this.checkHealth(environment);
+    if (!result.ok) {
+      console.error('API connection test failed:', result.error);
     }
+    return result.ok;
   }
 
   /**
-   * Analyze a gesture session and show the results
+   * Analyze a gesture session and show the results.
+   * Resolves with the prediction, or null when the analysis failed.
    */
   static async analyzeGesture(
     sessionData: IMUDataPoint[], 
     setIsAnalyzing?: (analyzing: boolean) => void,
-    setLastResult?: (result: string) => void
-  ): Promise<void> {
+    setLastResult?: (result: string) => void,
+    packetLoss?: PacketLossStats
+  ): Promise<PredictionResponse | null> {
     try {
       console.log('🔍 Analyzing gesture data with ML model...');
       console.log(`📊 Sending ${sessionData.length} data points to API`);
@@ -285,7 +485,7 @@ export class GestureAPI {
       // Start analysis
       const startTime = Date.now();
       console.log('🔧 DEBUG: Calling predictGesture now...');
-      const prediction = await this.predictGesture(sessionData);
+      const prediction = await this.predictGesture(sessionData, packetLoss);
       console.log('🔧 DEBUG: predictGesture returned:', prediction);
       const endTime = Date.now();
       
@@ -300,14 +500,10 @@ export class GestureAPI {
         .join(', ');
       
       // Get the highest confidence movement
-      const primaryMovement = prediction.detailed_segments?.length > 0 
-        ? prediction.detailed_segments.reduce((prev, current) => 
-            prev.avg_confidence > current.avg_confidence ? prev : current
-          )
-        : null;
+      const primaryMovement = this.getPrimaryMovement(prediction);
       
       const mainPrediction = primaryMovement?.movement || 'unknown';
-      const mainConfidence = primaryMovement?.avg_confidence || 0;
+      const mainConfidence = primaryMovement?.confidence || 0;
       
       // Create a detailed results message
       const resultMessage = `🎯 Gesture Analysis Results\n\n` +
@@ -345,7 +541,16 @@ export class GestureAPI {
       console.log(`  Data Points Sent: ${sessionData.length}`);
       console.log(`  Auto Learning:`, prediction.auto_learning?.length || 0, 'suggestions');
       
+      return prediction;
     } catch (error) {
+      if (error instanceof RecordingQualityError) {
+        console.warn('📉 Recording rejected before analysis:', error.report);
+        setIsAnalyzing?.(false);
+        setLastResult?.('Recording rejected (packet loss)');
+        Alert.alert('📉 Recording Rejected', error.message, [{ text: 'OK', style: 'cancel' }]);
+        return null;
+      }
+
       console.error('❌ Gesture analysis failed:', error);
       console.error('🔧 DEBUG: Full error object:', JSON.stringify(error, null, 2));
       console.error('🔧 DEBUG: Error name:', error instanceof Error ? error.name : 'unknown');
@@ -364,6 +569,7 @@ export class GestureAPI {
           { text: 'OK', style: 'cancel' }
         ]
       );
+      return null;
     }
   }
 }
@@ -0,0 +1,379 @@
+import { ACTION_CONFIG } from '@/constants/API';
+import { defaultPerformers } from '@/services/ActionPerformers';
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import { deliver } from '@/services/HttpDelivery';
+import { createIdGenerator, defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+
+/**
+ * What a binding does. Text fields may use the {gesture} and {confidence}
+ * placeholders.
+ */
+export type GestureAction =
+  | { type: 'deepLink'; path: string } // Opened as abracadabraapp://<path>
+  | { type: 'webhook'; url: string } // POSTed the recognized gesture as JSON
+  | { type: 'speak'; text: string }
+  | { type: 'event'; name: string }; // Delivered to in-app subscribers
+
+export type GestureActionType = GestureAction['type'];
+
+/**
+ * A gesture label bound to an action. The action runs when the label is
+ * recognized with at least the minimum confidence.
+ */
+export interface GestureBinding {
+  id: string;
+  gesture: string;
+  minConfidence: number; // 0-1
+  action: GestureAction;
+  enabled: boolean;
+}
+
+export type NewGestureBinding = Omit<GestureBinding, 'id' | 'enabled'> & { enabled?: boolean };
+
+/**
+ * One run of a binding's action
+ */
+export interface ActionLogEntry {
+  id: string;
+  at: number;
+  bindingId: string;
+  gesture: string;
+  confidence: number;
+  action: GestureActionType;
+  summary: string;
+  ok: boolean;
+  error?: string;
+}
+
+export type GestureActionEvent =
+  | { type: 'bindingsChanged'; bindings: GestureBinding[] }
+  | { type: 'logged'; entry: ActionLogEntry }
+  | { type: 'appEvent'; name: string; gesture: string; confidence: number };
+
+/**
+ * Side effects the engine runs actions through; swapped out in tests
+ */
+export interface ActionPerformers {
+  openURL(url: string): Promise<void>;
+  speak(text: string): Promise<void>;
+  fetch: typeof fetch;
+}
+
+export interface GestureActionOptions {
+  bindingsKey?: string;
+  logKey?: string;
+  logSize?: number;
+  webhookTimeoutMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Replace {gesture} and {confidence} (as a whole percentage) in action text
+ */
+export function fillTemplate(template: string, gesture: string, confidence: number): string {
+  return template
+    .replace(/\{gesture\}/g, gesture)
+    .replace(/\{confidence\}/g, String(Math.round(confidence * 100)));
+}
+
+const SCHEME_PREFIX = `${ACTION_CONFIG.DEEP_LINK_SCHEME}://`;
+
+/**
+ * The app's own URL for a path. Full URLs are accepted only with the app's scheme.
+ */
+export function deepLinkURL(path: string): string {
+  const trimmed = path.trim();
+  if (trimmed.toLowerCase().startsWith(SCHEME_PREFIX)) {
+    return SCHEME_PREFIX + trimmed.slice(SCHEME_PREFIX.length);
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    throw new Error(`Deep links must use the ${ACTION_CONFIG.DEEP_LINK_SCHEME}:// scheme`);
+  }
+  return SCHEME_PREFIX + trimmed.replace(/^\/+/, '');
+}
+
+/**
+ * Why an action can't run, or null when it is complete
+ */
+export function validateAction(action: GestureAction): string | null {
+  switch (action.type) {
+    case 'deepLink':
+      try {
+        deepLinkURL(action.path);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      return action.path.trim() ? null : 'Enter a deep link path';
+    case 'webhook':
+      return /^https?:\/\/\S+$/i.test(action.url.trim()) ? null : 'Webhook URL must start with http:// or https://';
+    case 'speak':
+      return action.text.trim() ? null : 'Enter the text to speak';
+    case 'event':
+      return action.name.trim() ? null : 'Enter an event name';
+  }
+}
+
+export function describeAction(action: GestureAction): string {
+  switch (action.type) {
+    case 'deepLink':
+      return `Open ${SCHEME_PREFIX}${action.path.replace(SCHEME_PREFIX, '').replace(/^\/+/, '')}`;
+    case 'webhook':
+      return `POST ${action.url}`;
+    case 'speak':
+      return `Say "${action.text}"`;
+    case 'event':
+      return `Fire event "${action.name}"`;
+  }
+}
+
+/**
+ * Runs the actions users bind to recognized gestures: opening a deep link,
+ * calling a webhook, speaking text or firing an in-app event. Bindings and a
+ * log of recent runs are persisted.
+ */
+export class GestureActionEngine {
+  private listeners = new Set<(event: GestureActionEvent) => void>();
+  private bindings: GestureBinding[] = [];
+  private log: ActionLogEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private readonly createId: () => string;
+  private readonly options: Required<GestureActionOptions>;
+
+  constructor(
+    private readonly storage: StorageAdapter = defaultStorage,
+    private readonly performers: ActionPerformers = defaultPerformers,
+    options: GestureActionOptions = {}
+  ) {
+    this.options = {
+      bindingsKey: options.bindingsKey ?? 'abracadabra:gesture-bindings',
+      logKey: options.logKey ?? 'abracadabra:gesture-action-log',
+      logSize: options.logSize ?? ACTION_CONFIG.LOG_SIZE,
+      webhookTimeoutMs: options.webhookTimeoutMs ?? ACTION_CONFIG.WEBHOOK_TIMEOUT,
+      now: options.now ?? Date.now,
+    };
+    this.createId = createIdGenerator(this.options.now);
+  }
+
+  /**
+   * Bindings as last loaded or updated; empty until `load` resolves
+   */
+  get currentBindings(): GestureBinding[] {
+    return this.bindings;
+  }
+
+  /**
+   * Action runs, newest first
+   */
+  get currentLog(): ActionLogEntry[] {
+    return this.log;
+  }
+
+  /**
+   * Subscribe to binding changes, action runs and in-app events. Returns an
+   * unsubscribe function.
+   */
+  subscribe(listener: (event: GestureActionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: GestureActionEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('GestureActionEngine listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Read bindings and the log once; later calls resolve with the current bindings
+   */
+  load(): Promise<GestureBinding[]> {
+    if (!this.loading) {
+      this.loading = Promise.all([
+        readJSON<GestureBinding[]>(this.storage, this.options.bindingsKey, []),
+        readJSON<ActionLogEntry[]>(this.storage, this.options.logKey, []),
+      ]).then(
+        ([bindings, log]) => {
+          this.bindings = Array.isArray(bindings) ? bindings : [];
+          this.log = Array.isArray(log) ? log : [];
+          this.emit({ type: 'bindingsChanged', bindings: this.bindings });
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading.then(() => this.bindings);
+  }
+
+  /**
+   * Bind a gesture to an action. Throws when the action is incomplete.
+   */
+  async addBinding(binding: NewGestureBinding): Promise<GestureBinding> {
+    const created: GestureBinding = { ...this.checked(binding), id: this.createId(), enabled: binding.enabled ?? true };
+    await this.change(bindings => [...bindings, created]);
+    return created;
+  }
+
+  async updateBinding(id: string, changes: Partial<Omit<GestureBinding, 'id'>>): Promise<GestureBinding> {
+    await this.load();
+    const existing = this.bindings.find(binding => binding.id === id);
+    if (!existing) {
+      throw new Error(`No gesture binding ${id}`);
+    }
+    const updated: GestureBinding = { ...existing, ...changes, ...this.checked({ ...existing, ...changes }) };
+    await this.change(bindings => bindings.map(binding => (binding.id === id ? updated : binding)));
+    return updated;
+  }
+
+  removeBinding(id: string): Promise<GestureBinding[]> {
+    return this.change(bindings => bindings.filter(binding => binding.id !== id));
+  }
+
+  async clearLog(): Promise<void> {
+    await this.load();
+    this.log = [];
+    await writeJSON(this.storage, this.options.logKey, this.log);
+  }
+
+  /**
+   * Run the actions bound to the prediction's primary movement
+   */
+  handlePrediction(prediction: PredictionResponse): Promise<ActionLogEntry[]> {
+    const primary = GestureAPI.getPrimaryMovement(prediction);
+    return primary ? this.trigger(primary.movement, primary.confidence) : Promise.resolve([]);
+  }
+
+  /**
+   * Run every enabled binding for the gesture that the confidence clears.
+   * Failures are logged rather than thrown.
+   */
+  async trigger(gesture: string, confidence: number): Promise<ActionLogEntry[]> {
+    await this.load();
+    const matched = this.bindings.filter(binding =>
+      binding.enabled && GestureAPI.isSameMovement(binding.gesture, gesture) && confidence >= binding.minConfidence
+    );
+    if (matched.length === 0) {
+      return [];
+    }
+    console.log(`✨ ${gesture} (${(confidence * 100).toFixed(0)}%) triggers ${matched.length} action(s)`);
+
+    const entries = await Promise.all(matched.map(binding => this.run(binding, gesture, confidence)));
+    await this.record(entries);
+    return entries;
+  }
+
+  /**
+   * Run one binding now, as if its gesture had been recognized
+   */
+  async test(id: string): Promise<ActionLogEntry> {
+    await this.load();
+    const binding = this.bindings.find(entry => entry.id === id);
+    if (!binding) {
+      throw new Error(`No gesture binding ${id}`);
+    }
+    const entry = await this.run(binding, binding.gesture, 1);
+    await this.record([entry]);
+    return entry;
+  }
+
+  private async record(entries: ActionLogEntry[]) {
+    this.log = [...entries.slice().reverse(), ...this.log].slice(0, this.options.logSize);
+    await writeJSON(this.storage, this.options.logKey, this.log).catch(error =>
+      console.error('Failed to save the action log:', error)
+    );
+    entries.forEach(entry => this.emit({ type: 'logged', entry }));
+  }
+
+  private async run(binding: GestureBinding, gesture: string, confidence: number): Promise<ActionLogEntry> {
+    const { action } = binding;
+    const entry: ActionLogEntry = {
+      id: this.createId(),
+      at: this.options.now(),
+      bindingId: binding.id,
+      gesture,
+      confidence,
+      action: action.type,
+      summary: describeAction(action),
+      ok: true,
+    };
+
+    try {
+      switch (action.type) {
+        case 'deepLink': {
+          const url = deepLinkURL(fillTemplate(action.path, gesture, confidence));
+          entry.summary = `Open ${url}`;
+          await this.performers.openURL(url);
+          break;
+        }
+        case 'webhook':
+          await this.callWebhook(action.url, gesture, confidence, entry.at);
+          break;
+        case 'speak': {
+          const text = fillTemplate(action.text, gesture, confidence);
+          entry.summary = `Say "${text}"`;
+          await this.performers.speak(text);
+          break;
+        }
+        case 'event': {
+          const name = fillTemplate(action.name, gesture, confidence);
+          entry.summary = `Fire event "${name}"`;
+          this.emit({ type: 'appEvent', name, gesture, confidence });
+          break;
+        }
+      }
+    } catch (error) {
+      entry.ok = false;
+      entry.error = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Gesture action failed (${entry.summary}):`, entry.error);
+    }
+    return entry;
+  }
+
+  private async callWebhook(url: string, gesture: string, confidence: number, at: number) {
+    const result = await deliver(
+      this.performers.fetch,
+      { url, method: 'POST' },
+      JSON.stringify({ gesture, confidence, at: new Date(at).toISOString() }),
+      this.options.webhookTimeoutMs,
+      this.options.now
+    );
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+  }
+
+  private checked(binding: Omit<GestureBinding, 'id' | 'enabled'>): Omit<GestureBinding, 'id' | 'enabled'> {
+    const gesture = binding.gesture.trim();
+    if (!gesture) {
+      throw new Error('Enter the gesture to bind');
+    }
+    const problem = validateAction(binding.action);
+    if (problem) {
+      throw new Error(problem);
+    }
+    return {
+      gesture,
+      minConfidence: Math.min(Math.max(binding.minConfidence, 0), 1),
+      action: binding.action,
+    };
+  }
+
+  private async change(update: (bindings: GestureBinding[]) => GestureBinding[]): Promise<GestureBinding[]> {
+    await this.load();
+    this.bindings = update(this.bindings);
+    await writeJSON(this.storage, this.options.bindingsKey, this.bindings);
+    this.emit({ type: 'bindingsChanged', bindings: this.bindings });
+    return this.bindings;
+  }
+}
+
+export const gestureActions = new GestureActionEngine();
+
+export default GestureActionEngine;
@@ -0,0 +1,67 @@
+/**
+ * Outcome of sending a recognized gesture to a user's HTTP endpoint
+ */
+export interface DeliveryResult {
+  ok: boolean;
+  status: number | null; // null when no response arrived
+  latencyMs: number;
+  retryable: boolean;
+  error?: string;
+}
+
+export interface DeliveryTarget {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers?: Record<string, string>; // Added to the JSON Content-Type
+}
+
+const RETRYABLE_STATUS = new Set([408, 425, 429]);
+
+/**
+ * Send a JSON body to a user's endpoint, giving up after the timeout. Never
+ * throws: failures are described in the result, including whether trying
+ * again could help. Shared by webhook actions and integration endpoints.
+ */
+export async function deliver(
+  request: typeof fetch,
+  target: DeliveryTarget,
+  body: string,
+  timeoutMs: number,
+  now: () => number = Date.now
+): Promise<DeliveryResult> {
+  const startedAt = now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await request(target.url.trim(), {
+      method: target.method,
+      headers: { 'Content-Type': 'application/json', ...target.headers },
+      body,
+      signal: controller.signal,
+    });
+    const latencyMs = now() - startedAt;
+    if (response.ok) {
+      return { ok: true, status: response.status, latencyMs, retryable: false };
+    }
+    return {
+      ok: false,
+      status: response.status,
+      latencyMs,
+      // Server errors and throttling may pass; other client errors won't
+      retryable: response.status >= 500 || RETRYABLE_STATUS.has(response.status),
+      error: `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return {
+      ok: false,
+      status: null,
+      latencyMs: now() - startedAt,
+      retryable: true,
+      error: timedOut ? 'Request timeout' : error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,559 @@
+import { INTEGRATION_CONFIG } from '@/constants/API';
+import { BackoffOptions, computeBackoffDelay } from '@/services/Backoff';
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import { deliver, DeliveryResult } from '@/services/HttpDelivery';
+import { createIdGenerator, defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+
+export type IntegrationMethod = 'POST' | 'PUT';
+
+export interface IntegrationHeader {
+  name: string; // e.g. Authorization
+  value: string; // e.g. Bearer <long-lived access token>
+}
+
+/**
+ * A user-defined HTTP endpoint that recognized gestures are sent to, such as
+ * a Home Assistant webhook or a Node-RED flow on the LAN
+ */
+export interface IntegrationEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  method: IntegrationMethod;
+  headers: IntegrationHeader[]; // Sent with every request; read at send time so queued deliveries use new tokens
+  template: string; // JSON body with {{placeholders}}, see renderTemplate
+  gestures: string[]; // Gestures to send; empty sends every gesture
+  minConfidence: number; // 0-1
+  enabled: boolean;
+}
+
+export type NewIntegrationEndpoint = Pick<IntegrationEndpoint, 'name' | 'url'> &
+  Partial<Omit<IntegrationEndpoint, 'id' | 'name' | 'url'>>;
+
+/**
+ * What a template is filled in with
+ */
+export interface RecognizedGesture {
+  gesture: string;
+  confidence: number;
+  at: number;
+  movements: Record<string, number>; // Significant movements and their counts
+}
+
+/**
+ * A rendered body waiting to be sent, or to be retried
+ */
+export interface QueuedDelivery {
+  id: string;
+  endpointId: string;
+  gesture: string;
+  body: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export type IntegrationEvent =
+  | { type: 'endpointsChanged'; endpoints: IntegrationEndpoint[] }
+  | { type: 'queueChanged'; queue: QueuedDelivery[] }
+  | { type: 'delivery'; endpointId: string; gesture: string; result: DeliveryResult; test: boolean };
+
+export interface IntegrationOptions {
+  fetch?: typeof fetch;
+  endpointsKey?: string;
+  queueKey?: string;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  queueSize?: number;
+  retryBackoff?: BackoffOptions;
+  now?: () => number;
+  random?: () => number;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function placeholderValues(event: RecognizedGesture): Record<string, unknown> {
+  return {
+    gesture: event.gesture,
+    confidence: event.confidence,
+    confidencePercent: Math.round(event.confidence * 100),
+    timestamp: new Date(event.at).toISOString(),
+    timestampMs: event.at,
+    movements: event.movements,
+    source: 'abracadabra',
+  };
+}
+
+/**
+ * Fill a JSON template. A string that is only a placeholder becomes the
+ * value itself ("{{confidence}}" → 0.92, "{{movements}}" → an object);
+ * placeholders inside longer strings are replaced with text. Unknown
+ * placeholders are left as they are.
+ *
+ * Placeholders: gesture, confidence, confidencePercent, timestamp (ISO 8601),
+ * timestampMs, movements, source.
+ */
+export function renderTemplate(template: string, event: RecognizedGesture): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (error) {
+    throw new Error(`Template is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const values = placeholderValues(event);
+
+  const fill = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      const whole = /^\{\{\s*(\w+)\s*\}\}$/.exec(value);
+      if (whole && whole[1] in values) {
+        return values[whole[1]];
+      }
+      return value.replace(PLACEHOLDER, (match, key: string) => {
+        if (!(key in values)) return match;
+        const replacement = values[key];
+        return typeof replacement === 'object' ? JSON.stringify(replacement) : String(replacement);
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fill(entry)]));
+    }
+    return value;
+  };
+
+  return JSON.stringify(fill(parsed));
+}
+
+/**
+ * Why an endpoint can't be used, or null when it is complete
+ */
+export function validateEndpoint(endpoint: Omit<IntegrationEndpoint, 'id'>): string | null {
+  if (!endpoint.name.trim()) {
+    return 'Enter a name for the endpoint';
+  }
+  if (!/^https?:\/\/\S+$/i.test(endpoint.url.trim())) {
+    return 'URL must start with http:// or https://';
+  }
+  const badHeader = endpoint.headers.find(header => !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(header.name.trim()));
+  if (badHeader) {
+    return `"${badHeader.name}" is not a valid header name`;
+  }
+  try {
+    renderTemplate(endpoint.template, { gesture: 'test', confidence: 1, at: 0, movements: {} });
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
+
+/**
+ * Sends recognized gestures to user-defined HTTP endpoints. Each endpoint has
+ * its own queue, delivered in order; failed deliveries are retried with
+ * backoff, surviving app restarts, until they succeed, are rejected by the
+ * endpoint or run out of attempts.
+ */
+export class IntegrationDispatcher {
+  private listeners = new Set<(event: IntegrationEvent) => void>();
+  private endpoints: IntegrationEndpoint[] = [];
+  private deliveries: QueuedDelivery[] = [];
+  private lastResults = new Map<string, DeliveryResult>();
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+  private readonly createId: () => string;
+  private readonly options: Required<IntegrationOptions>;
+
+  constructor(private readonly storage: StorageAdapter = defaultStorage, options: IntegrationOptions = {}) {
+    this.options = {
+      fetch: options.fetch ?? ((input, init) => fetch(input, init)),
+      endpointsKey: options.endpointsKey ?? 'abracadabra:integrations',
+      queueKey: options.queueKey ?? 'abracadabra:integration-queue',
+      timeoutMs: options.timeoutMs ?? INTEGRATION_CONFIG.TIMEOUT,
+      maxAttempts: options.maxAttempts ?? INTEGRATION_CONFIG.MAX_ATTEMPTS,
+      queueSize: options.queueSize ?? INTEGRATION_CONFIG.QUEUE_SIZE,
+      retryBackoff: options.retryBackoff ?? {
+        baseDelay: INTEGRATION_CONFIG.RETRY_BASE_DELAY,
+        maxDelay: INTEGRATION_CONFIG.RETRY_MAX_DELAY,
+        jitter: INTEGRATION_CONFIG.RETRY_JITTER,
+      },
+      now: options.now ?? Date.now,
+      random: options.random ?? Math.random,
+    };
+    this.createId = createIdGenerator(this.options.now);
+  }
+
+  /**
+   * Endpoints as last loaded or updated; empty until `load` resolves
+   */
+  get currentEndpoints(): IntegrationEndpoint[] {
+    return this.endpoints;
+  }
+
+  /**
+   * Deliveries waiting to be sent, oldest first
+   */
+  get queue(): QueuedDelivery[] {
+    return this.deliveries;
+  }
+
+  queueFor(endpointId: string): QueuedDelivery[] {
+    return this.deliveries.filter(delivery => delivery.endpointId === endpointId);
+  }
+
+  /**
+   * Outcome of the endpoint's last request, test fires included
+   */
+  lastResultOf(endpointId: string): DeliveryResult | null {
+    return this.lastResults.get(endpointId) ?? null;
+  }
+
+  /**
+   * Subscribe to endpoint, queue and delivery changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: IntegrationEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: IntegrationEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('IntegrationDispatcher listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Read endpoints and the queue once, and resume deliveries left from the
+   * last run. Later calls resolve with the current endpoints.
+   */
+  load(): Promise<IntegrationEndpoint[]> {
+    if (!this.loading) {
+      this.loading = Promise.all([
+        readJSON<IntegrationEndpoint[]>(this.storage, this.options.endpointsKey, []),
+        readJSON<QueuedDelivery[]>(this.storage, this.options.queueKey, []),
+      ]).then(
+        ([endpoints, queue]) => {
+          this.endpoints = Array.isArray(endpoints) ? endpoints : [];
+          this.deliveries = Array.isArray(queue) ? queue : [];
+          this.emit({ type: 'endpointsChanged', endpoints: this.endpoints });
+          this.emit({ type: 'queueChanged', queue: this.deliveries });
+          this.schedule();
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading.then(() => this.endpoints);
+  }
+
+  /**
+   * Stop retrying for good, e.g. in tests
+   */
+  destroy() {
+    this.destroyed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Add an endpoint. Throws when it is incomplete.
+   */
+  async addEndpoint(endpoint: NewIntegrationEndpoint): Promise<IntegrationEndpoint> {
+    const created = this.checked({
+      method: 'POST',
+      headers: [],
+      template: INTEGRATION_CONFIG.DEFAULT_TEMPLATE,
+      gestures: [],
+      minConfidence: 0,
+      enabled: true,
+      ...endpoint,
+      id: this.createId(),
+    });
+    await this.changeEndpoints(endpoints => [...endpoints, created]);
+    return created;
+  }
+
+  async updateEndpoint(id: string, changes: Partial<Omit<IntegrationEndpoint, 'id'>>): Promise<IntegrationEndpoint> {
+    await this.load();
+    const existing = this.endpoints.find(endpoint => endpoint.id === id);
+    if (!existing) {
+      throw new Error(`No integration endpoint ${id}`);
+    }
+    const updated = this.checked({ ...existing, ...changes, id });
+    await this.changeEndpoints(endpoints => endpoints.map(endpoint => (endpoint.id === id ? updated : endpoint)));
+    return updated;
+  }
+
+  /**
+   * Remove an endpoint along with its queued deliveries
+   */
+  async removeEndpoint(id: string): Promise<IntegrationEndpoint[]> {
+    await this.changeEndpoints(endpoints => endpoints.filter(endpoint => endpoint.id !== id));
+    this.lastResults.delete(id);
+    await this.changeQueue(queue => queue.filter(delivery => delivery.endpointId !== id));
+    return this.endpoints;
+  }
+
+  /**
+   * Send the prediction's primary movement to every matching endpoint
+   */
+  handlePrediction(prediction: PredictionResponse, at: number = this.options.now()): Promise<QueuedDelivery[]> {
+    const primary = GestureAPI.getPrimaryMovement(prediction);
+    if (!primary) {
+      return Promise.resolve([]);
+    }
+    return this.dispatch({
+      gesture: primary.movement,
+      confidence: primary.confidence,
+      at,
+      movements: prediction.significant_movements ?? {},
+    });
+  }
+
+  /**
+   * Queue the gesture for every enabled endpoint that wants it and start
+   * sending. Resolves once queued, not once delivered.
+   */
+  async dispatch(event: RecognizedGesture): Promise<QueuedDelivery[]> {
+    await this.load();
+    const matched = this.endpoints.filter(endpoint =>
+      endpoint.enabled &&
+      event.confidence >= endpoint.minConfidence &&
+      (endpoint.gestures.length === 0 || endpoint.gestures.some(gesture => GestureAPI.isSameMovement(gesture, event.gesture)))
+    );
+    if (matched.length === 0) {
+      return [];
+    }
+
+    const queued: QueuedDelivery[] = [];
+    for (const endpoint of matched) {
+      try {
+        queued.push({
+          id: this.createId(),
+          endpointId: endpoint.id,
+          gesture: event.gesture,
+          body: renderTemplate(endpoint.template, event),
+          createdAt: event.at,
+          attempts: 0,
+          nextAttemptAt: this.options.now(),
+          lastError: null,
+        });
+      } catch (error) {
+        console.error(`💥 Integration "${endpoint.name}" template failed:`, error);
+      }
+    }
+    console.log(`🏠 Sending ${event.gesture} to ${queued.length} integration(s)`);
+
+    await this.changeQueue(queue => this.capQueue([...queue, ...queued]));
+    this.flush();
+    return queued;
+  }
+
+  /**
+   * Send a sample gesture to the endpoint right away, outside the queue
+   */
+  async testFire(endpointId: string): Promise<DeliveryResult> {
+    await this.load();
+    const endpoint = this.endpoints.find(entry => entry.id === endpointId);
+    if (!endpoint) {
+      throw new Error(`No integration endpoint ${endpointId}`);
+    }
+    const event: RecognizedGesture = {
+      gesture: endpoint.gestures[0] ?? 'test',
+      confidence: 1,
+      at: this.options.now(),
+      movements: {},
+    };
+    const result = await this.send(endpoint, renderTemplate(endpoint.template, event));
+    this.lastResults.set(endpointId, result);
+    this.emit({ type: 'delivery', endpointId, gesture: event.gesture, result, test: true });
+    return result;
+  }
+
+  /**
+   * Retry the endpoint's queued deliveries now instead of waiting out the backoff
+   */
+  async retryNow(endpointId: string): Promise<void> {
+    await this.changeQueue(queue => queue.map(delivery =>
+      delivery.endpointId === endpointId ? { ...delivery, nextAttemptAt: this.options.now() } : delivery
+    ));
+    await this.flush();
+  }
+
+  discard(deliveryId: string): Promise<QueuedDelivery[]> {
+    return this.changeQueue(queue => queue.filter(delivery => delivery.id !== deliveryId));
+  }
+
+  /**
+   * Send every delivery that is due. Each endpoint is sent to in order and
+   * stops at its first failure so later gestures don't overtake earlier ones.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+    this.flushing = (async () => {
+      do {
+        this.flushAgain = false;
+        const endpointIds = Array.from(new Set(this.deliveries.map(delivery => delivery.endpointId)));
+        await Promise.all(endpointIds.map(id => this.flushEndpoint(id)));
+      } while (this.flushAgain);
+    })()
+      .catch(error => console.error('💥 Integration flush failed:', error))
+      .finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+    return this.flushing;
+  }
+
+  private async flushEndpoint(endpointId: string) {
+    const endpoint = this.endpoints.find(entry => entry.id === endpointId);
+    if (!endpoint) {
+      await this.changeQueue(queue => queue.filter(delivery => delivery.endpointId !== endpointId));
+      return;
+    }
+    if (!endpoint.enabled) {
+      return; // Kept until the endpoint is turned back on or removed
+    }
+
+    for (;;) {
+      const delivery = this.deliveries.find(entry => entry.endpointId === endpointId);
+      if (!delivery || delivery.nextAttemptAt > this.options.now()) {
+        return;
+      }
+
+      const result = await this.send(endpoint, delivery.body);
+      this.lastResults.set(endpointId, result);
+      this.emit({ type: 'delivery', endpointId, gesture: delivery.gesture, result, test: false });
+
+      const attempts = delivery.attempts + 1;
+      if (result.ok || !result.retryable || attempts >= this.options.maxAttempts) {
+        if (!result.ok) {
+          console.warn(`⚠️ Dropping ${delivery.gesture} for "${endpoint.name}" after ${attempts} attempt(s): ${result.error}`);
+        }
+        await this.changeQueue(queue => queue.filter(entry => entry.id !== delivery.id));
+        continue;
+      }
+
+      const delayMs = computeBackoffDelay(attempts, this.options.retryBackoff, this.options.random);
+      console.log(`🔁 "${endpoint.name}" failed (${result.error}); retry ${attempts} in ${delayMs}ms`);
+      await this.changeQueue(queue => queue.map(entry =>
+        entry.id === delivery.id
+          ? { ...entry, attempts, nextAttemptAt: this.options.now() + delayMs, lastError: result.error ?? null }
+          : entry
+      ));
+      return;
+    }
+  }
+
+  private send(endpoint: IntegrationEndpoint, body: string): Promise<DeliveryResult> {
+    const headers: Record<string, string> = {};
+    endpoint.headers.forEach(header => {
+      headers[header.name.trim()] = header.value;
+    });
+    return deliver(
+      this.options.fetch,
+      { url: endpoint.url, method: endpoint.method, headers },
+      body,
+      this.options.timeoutMs,
+      this.options.now
+    );
+  }
+
+  /**
+   * Wake up for the next retry that is due
+   */
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.destroyed) {
+      return;
+    }
+    // Endpoints deliver in order, so only each queue's head decides when to wake
+    const heads = new Map<string, QueuedDelivery>();
+    const enabled = new Set(this.endpoints.filter(endpoint => endpoint.enabled).map(endpoint => endpoint.id));
+    for (const delivery of this.deliveries) {
+      if (enabled.has(delivery.endpointId) && !heads.has(delivery.endpointId)) {
+        heads.set(delivery.endpointId, delivery);
+      }
+    }
+    if (heads.size === 0) {
+      return;
+    }
+    const next = Math.min(...[...heads.values()].map(delivery => delivery.nextAttemptAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, Math.max(0, next - this.options.now()));
+  }
+
+  /**
+   * Drop each endpoint's oldest deliveries beyond the queue size
+   */
+  private capQueue(queue: QueuedDelivery[]): QueuedDelivery[] {
+    const counts = new Map<string, number>();
+    const kept = queue.slice().reverse().filter(delivery => {
+      const count = (counts.get(delivery.endpointId) ?? 0) + 1;
+      counts.set(delivery.endpointId, count);
+      return count <= this.options.queueSize;
+    });
+    return kept.reverse();
+  }
+
+  private checked(endpoint: IntegrationEndpoint): IntegrationEndpoint {
+    const normalized: IntegrationEndpoint = {
+      ...endpoint,
+      name: endpoint.name.trim(),
+      url: endpoint.url.trim(),
+      headers: endpoint.headers
+        .map(header => ({ name: header.name.trim(), value: header.value }))
+        .filter(header => header.value !== ''), // Unfilled rows, like a blank Authorization
+      gestures: endpoint.gestures.map(gesture => gesture.trim()).filter(Boolean),
+      minConfidence: Math.min(Math.max(endpoint.minConfidence, 0), 1),
+    };
+    const problem = validateEndpoint(normalized);
+    if (problem) {
+      throw new Error(problem);
+    }
+    return normalized;
+  }
+
+  private async changeEndpoints(update: (endpoints: IntegrationEndpoint[]) => IntegrationEndpoint[]) {
+    await this.load();
+    this.endpoints = update(this.endpoints);
+    await writeJSON(this.storage, this.options.endpointsKey, this.endpoints);
+    this.emit({ type: 'endpointsChanged', endpoints: this.endpoints });
+    this.schedule();
+  }
+
+  private async changeQueue(update: (queue: QueuedDelivery[]) => QueuedDelivery[]): Promise<QueuedDelivery[]> {
+    await this.load();
+    this.deliveries = update(this.deliveries);
+    await writeJSON(this.storage, this.options.queueKey, this.deliveries);
+    this.emit({ type: 'queueChanged', queue: this.deliveries });
+    return this.deliveries;
+  }
+}
+
+export const integrations = new IntegrationDispatcher();
+
+export default IntegrationDispatcher;
@@ -0,0 +1,155 @@
+import { isMatchingDevice, ScannedDevice } from '@/services/DeviceConnection';
+import { defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+
+/**
+ * A device the app has connected to before
+ */
+export interface KnownDevice {
+  id: string;
+  name: string; // Advertised name when last connected
+  nickname: string | null; // Set by the user, e.g. "Left wrist"
+  preferred: boolean; // Scans connect to preferred devices on their own
+  lastConnectedAt: number;
+}
+
+/**
+ * A matching device in the picker, with what the app remembers about it
+ */
+export interface DeviceChoice {
+  device: ScannedDevice;
+  known: KnownDevice | null;
+}
+
+export function displayName(device: { id: string; name: string }, known: KnownDevice | null): string {
+  return known?.nickname || device.name || device.id;
+}
+
+/**
+ * AbracadabraIMUs from a scan, strongest signal first. Devices without a
+ * reading sort last.
+ */
+export function rankDevices(scanned: ScannedDevice[], known: KnownDevice[]): DeviceChoice[] {
+  return scanned
+    .filter(isMatchingDevice)
+    .map(device => ({ device, known: known.find(entry => entry.id === device.id) ?? null }))
+    .sort((a, b) => (b.device.rssi ?? -Infinity) - (a.device.rssi ?? -Infinity));
+}
+
+const DEFAULT_KEY = 'abracadabra:known-devices';
+
+/**
+ * Devices the app has connected to, with user-assigned nicknames and the
+ * preferred ones to connect to automatically. Most recently connected first.
+ */
+export class KnownDeviceStore {
+  private listeners = new Set<(devices: KnownDevice[]) => void>();
+  private devices: KnownDevice[] = [];
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: StorageAdapter = defaultStorage,
+    private readonly key: string = DEFAULT_KEY
+  ) {}
+
+  /**
+   * Devices as last loaded or updated; empty until `load` resolves
+   */
+  get current(): KnownDevice[] {
+    return this.devices;
+  }
+
+  get preferredIds(): string[] {
+    return this.devices.filter(device => device.preferred).map(device => device.id);
+  }
+
+  find(id: string): KnownDevice | null {
+    return this.devices.find(device => device.id === id) ?? null;
+  }
+
+  /**
+   * Subscribe to changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (devices: KnownDevice[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.devices);
+      } catch (error) {
+        console.error('KnownDeviceStore listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Read remembered devices once; later calls resolve with the current list.
+   * A failed read is retried on the next call.
+   */
+  load(): Promise<KnownDevice[]> {
+    if (!this.loading) {
+      this.loading = readJSON<KnownDevice[]>(this.storage, this.key, []).then(
+        stored => {
+          this.devices = Array.isArray(stored) ? stored : [];
+          this.notify();
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading.then(() => this.devices);
+  }
+
+  /**
+   * Record a connection, keeping any nickname and preference
+   */
+  remember(device: { id: string; name: string | null }, connectedAt: number = Date.now()): Promise<KnownDevice> {
+    return this.change(devices => {
+      const existing = devices.find(entry => entry.id === device.id);
+      const entry: KnownDevice = {
+        id: device.id,
+        name: device.name || existing?.name || 'Unknown',
+        nickname: existing?.nickname ?? null,
+        preferred: existing?.preferred ?? false,
+        lastConnectedAt: connectedAt,
+      };
+      return [entry, ...devices.filter(other => other.id !== device.id)];
+    }).then(() => this.find(device.id)!);
+  }
+
+  /**
+   * Set or clear (with an empty name) a device's nickname
+   */
+  rename(id: string, nickname: string): Promise<KnownDevice[]> {
+    const trimmed = nickname.trim();
+    return this.change(devices =>
+      devices.map(device => (device.id === id ? { ...device, nickname: trimmed || null } : device))
+    );
+  }
+
+  setPreferred(id: string, preferred: boolean): Promise<KnownDevice[]> {
+    return this.change(devices => devices.map(device => (device.id === id ? { ...device, preferred } : device)));
+  }
+
+  forget(id: string): Promise<KnownDevice[]> {
+    return this.change(devices => devices.filter(device => device.id !== id));
+  }
+
+  private async change(update: (devices: KnownDevice[]) => KnownDevice[]): Promise<KnownDevice[]> {
+    await this.load();
+    this.devices = update(this.devices);
+    await writeJSON(this.storage, this.key, this.devices);
+    this.notify();
+    return this.devices;
+  }
+}
+
+export const knownDevices = new KnownDeviceStore();
+
+export default KnownDeviceStore;
@@ -0,0 +1,321 @@
+import { LINK_HEALTH_CONFIG } from '@/constants/Device';
+import { DeviceConnection, deviceConnection, DeviceConnectionEvent } from '@/services/DeviceConnection';
+import { DeviceCommandError } from '@/services/DeviceCommands';
+import { DecodeResult } from '@/services/PacketCodec';
+import { RingBuffer } from '@/services/RingBuffer';
+import { CounterUnwrapper } from '@/services/SessionAssembler';
+
+export type LinkQuality = 'Excellent' | 'Good' | 'Poor' | 'Unknown';
+
+export type LinkMetric = 'rssi' | 'packetLoss' | 'latency' | 'stall';
+
+/**
+ * One reading of the link, taken once per sample interval while streaming
+ */
+export interface LinkHealthSample {
+  at: number;
+  rssi: number | null; // dBm, last read
+  packetLoss: number | null; // Fraction of sample ids missing over the window; null without sensor data
+  latencyMs: number | null; // Last command round trip; null if the firmware doesn't answer commands
+  samplesPerSecond: number; // SENSOR_DATA packets received over the window
+  bytesPerSecond: number; // All notification bytes over the window
+  quality: LinkQuality;
+  weakest: LinkMetric[]; // Metrics that set the quality
+  recording: boolean;
+}
+
+export interface LinkHealthWarning {
+  at: number;
+  metrics: LinkMetric[];
+  message: string;
+}
+
+export type LinkHealthEvent =
+  | { type: 'sample'; sample: LinkHealthSample }
+  | { type: 'warning'; warning: LinkHealthWarning };
+
+export interface LinkHealthOptions {
+  sampleIntervalMs?: number;
+  rssiIntervalMs?: number;
+  latencyIntervalMs?: number;
+  windowMs?: number;
+  historySize?: number;
+  stallMs?: number;
+  now?: () => number;
+}
+
+const QUALITY_RANK: Record<LinkQuality, number> = { Unknown: 0, Excellent: 1, Good: 2, Poor: 3 };
+
+/**
+ * Grade each measured metric and keep the worst. Unmeasured metrics are
+ * ignored; with none measured the quality is unknown.
+ */
+export function gradeLink(metrics: {
+  rssi: number | null;
+  packetLoss: number | null;
+  latencyMs: number | null;
+  stalled?: boolean;
+}): { quality: LinkQuality; weakest: LinkMetric[] } {
+  const { EXCELLENT, GOOD } = LINK_HEALTH_CONFIG;
+  const grades: [LinkMetric, LinkQuality][] = [];
+  if (metrics.rssi !== null) {
+    grades.push(['rssi', metrics.rssi >= EXCELLENT.RSSI_DBM ? 'Excellent' : metrics.rssi >= GOOD.RSSI_DBM ? 'Good' : 'Poor']);
+  }
+  if (metrics.packetLoss !== null) {
+    grades.push(['packetLoss', metrics.packetLoss <= EXCELLENT.PACKET_LOSS ? 'Excellent' : metrics.packetLoss <= GOOD.PACKET_LOSS ? 'Good' : 'Poor']);
+  }
+  if (metrics.latencyMs !== null) {
+    grades.push(['latency', metrics.latencyMs <= EXCELLENT.LATENCY_MS ? 'Excellent' : metrics.latencyMs <= GOOD.LATENCY_MS ? 'Good' : 'Poor']);
+  }
+  if (metrics.stalled) {
+    grades.push(['stall', 'Poor']);
+  }
+
+  const quality = grades.reduce<LinkQuality>(
+    (worst, [, grade]) => (QUALITY_RANK[grade] > QUALITY_RANK[worst] ? grade : worst),
+    'Unknown'
+  );
+  const weakest = quality === 'Excellent' || quality === 'Unknown'
+    ? []
+    : grades.filter(([, grade]) => grade === quality).map(([metric]) => metric);
+  return { quality, weakest };
+}
+
+const WARNING_TEXT: Record<LinkMetric, (sample: LinkHealthSample) => string> = {
+  rssi: sample => `weak signal (${sample.rssi} dBm)`,
+  packetLoss: sample => `${((sample.packetLoss ?? 0) * 100).toFixed(1)}% packet loss`,
+  latency: sample => `slow command replies (${sample.latencyMs} ms)`,
+  stall: () => 'data stopped arriving',
+};
+
+/**
+ * Health of the BLE link while streaming: signal strength read from the
+ * radio, packet loss from gaps in sample ids, command round-trip latency and
+ * throughput. Keeps a short history and warns when quality turns poor during
+ * a recording.
+ */
+export class LinkHealthMonitor {
+  private listeners = new Set<(event: LinkHealthEvent) => void>();
+  private samples: RingBuffer<LinkHealthSample>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private streamingSince = 0;
+  private arrivals: { at: number; sampleId: number }[] = [];
+  private packets: { at: number; bytes: number }[] = [];
+  private sampleIds = new CounterUnwrapper();
+  private recording = false;
+  private rssi: number | null = null;
+  private latencyMs: number | null = null;
+  private lastRssiAt = -Infinity;
+  private lastProbeAt = -Infinity;
+  private probing = false;
+  private probeAnswered = false;
+  private commandsSupported = true;
+  private lastQuality: LinkQuality = 'Unknown';
+  private readonly options: Required<LinkHealthOptions>;
+
+  constructor(private readonly connection: DeviceConnection = deviceConnection, options: LinkHealthOptions = {}) {
+    this.options = {
+      sampleIntervalMs: options.sampleIntervalMs ?? LINK_HEALTH_CONFIG.SAMPLE_INTERVAL_MS,
+      rssiIntervalMs: options.rssiIntervalMs ?? LINK_HEALTH_CONFIG.RSSI_INTERVAL_MS,
+      latencyIntervalMs: options.latencyIntervalMs ?? LINK_HEALTH_CONFIG.LATENCY_INTERVAL_MS,
+      windowMs: options.windowMs ?? LINK_HEALTH_CONFIG.WINDOW_MS,
+      historySize: options.historySize ?? LINK_HEALTH_CONFIG.HISTORY_SIZE,
+      stallMs: options.stallMs ?? LINK_HEALTH_CONFIG.STALL_MS,
+      now: options.now ?? Date.now,
+    };
+    this.samples = new RingBuffer(this.options.historySize);
+    connection.subscribe(event => this.handleConnectionEvent(event));
+    if (connection.state === 'streaming') {
+      this.start();
+    }
+  }
+
+  /**
+   * Health samples, oldest first
+   */
+  get history(): LinkHealthSample[] {
+    return this.samples.toArray();
+  }
+
+  get latest(): LinkHealthSample | null {
+    return this.samples.at(-1) ?? null;
+  }
+
+  /**
+   * Subscribe to health samples and warnings. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: LinkHealthEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop monitoring for good, e.g. in tests
+   */
+  destroy() {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  private handleConnectionEvent(event: DeviceConnectionEvent) {
+    switch (event.type) {
+      case 'stateChange':
+        if (event.state === 'streaming') {
+          this.start();
+        } else if (event.previousState === 'streaming') {
+          this.stop();
+        }
+        break;
+      case 'data':
+        this.recordPacket(event.bytes, event.decoded);
+        break;
+    }
+  }
+
+  private start() {
+    if (this.timer) return;
+    const now = this.options.now();
+    this.streamingSince = now;
+    this.arrivals = [];
+    this.packets = [];
+    this.rssi = null;
+    this.latencyMs = null;
+    this.lastRssiAt = -Infinity;
+    this.lastProbeAt = -Infinity;
+    this.commandsSupported = true;
+    this.probeAnswered = false;
+    this.lastQuality = 'Unknown';
+    this.samples.clear();
+    this.timer = setInterval(() => this.tick(), this.options.sampleIntervalMs);
+    this.readRssi(now);
+  }
+
+  private stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.recording = false;
+  }
+
+  private recordPacket(bytes: Uint8Array, result: DecodeResult) {
+    const at = this.options.now();
+    this.packets.push({ at, bytes: bytes.length });
+
+    if (!result.ok) return;
+    const packet = result.packet;
+    switch (packet.type) {
+      case 'SESSION_START':
+        this.recording = true;
+        this.sampleIds.reset(); // Sample ids restart with every recording
+        this.arrivals = [];
+        break;
+      case 'SENSOR_DATA':
+        this.arrivals.push({ at, sampleId: this.sampleIds.unwrap(packet.sampleId) });
+        break;
+      case 'SESSION_END':
+        this.recording = false;
+        break;
+    }
+  }
+
+  private tick() {
+    const now = this.options.now();
+    if (now - this.lastRssiAt >= this.options.rssiIntervalMs) {
+      this.readRssi(now);
+    }
+    if (this.commandsSupported && !this.probing && now - this.lastProbeAt >= this.options.latencyIntervalMs) {
+      this.probeLatency(now);
+    }
+    this.addSample(this.measure(now));
+  }
+
+  private measure(now: number): LinkHealthSample {
+    const since = now - this.options.windowMs;
+    this.arrivals = this.arrivals.filter(arrival => arrival.at > since);
+    this.packets = this.packets.filter(packet => packet.at > since);
+    const seconds = Math.max(Math.min(this.options.windowMs, now - this.streamingSince), 1) / 1000;
+
+    let packetLoss: number | null = null;
+    if (this.arrivals.length > 0) {
+      const ids = new Set(this.arrivals.map(arrival => arrival.sampleId));
+      const expected = Math.max(...ids) - Math.min(...ids) + 1;
+      packetLoss = 1 - ids.size / expected;
+    }
+
+    const lastData = this.packets.length > 0 ? this.packets[this.packets.length - 1].at : this.streamingSince;
+    const stalled = this.recording && now - lastData > this.options.stallMs;
+    const { quality, weakest } = gradeLink({ rssi: this.rssi, packetLoss, latencyMs: this.latencyMs, stalled });
+
+    return {
+      at: now,
+      rssi: this.rssi,
+      packetLoss,
+      latencyMs: this.latencyMs,
+      samplesPerSecond: this.arrivals.length / seconds,
+      bytesPerSecond: this.packets.reduce((sum, packet) => sum + packet.bytes, 0) / seconds,
+      quality,
+      weakest,
+      recording: this.recording,
+    };
+  }
+
+  private addSample(sample: LinkHealthSample) {
+    this.samples.push(sample);
+    this.emit({ type: 'sample', sample });
+
+    if (sample.recording && sample.quality === 'Poor' && this.lastQuality !== 'Poor') {
+      const message = `Link quality dropped mid-recording: ${sample.weakest.map(metric => WARNING_TEXT[metric](sample)).join(', ')}`;
+      console.warn(`📡 ${message}`);
+      this.emit({ type: 'warning', warning: { at: sample.at, metrics: sample.weakest, message } });
+    }
+    this.lastQuality = sample.quality;
+  }
+
+  private readRssi(now: number) {
+    this.lastRssiAt = now;
+    this.connection.readRSSI()
+      .then(rssi => {
+        this.rssi = rssi;
+      })
+      .catch(error => console.log('RSSI read failed:', error));
+  }
+
+  private probeLatency(now: number) {
+    this.lastProbeAt = now;
+    this.probing = true;
+    // One attempt only: a resent request would add the retry timeout to the round trip
+    this.connection.commands.send('battery', undefined, { retries: 0 })
+      .then(() => {
+        this.latencyMs = this.options.now() - now;
+        this.probeAnswered = true;
+      })
+      .catch(error => {
+        this.latencyMs = null;
+        // Firmware without the command protocol never answers; stop asking.
+        // Once it has answered, a missed reply is just a lost packet.
+        if (error instanceof DeviceCommandError && error.code === 'timeout' && !this.probeAnswered) {
+          this.commandsSupported = false;
+        }
+      })
+      .finally(() => {
+        this.probing = false;
+      });
+  }
+
+  private emit(event: LinkHealthEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('LinkHealthMonitor listener error:', error);
+      }
+    });
+  }
+}
+
+export const linkHealthMonitor = new LinkHealthMonitor();
+
+export default LinkHealthMonitor;
@@ -0,0 +1,209 @@
+import { LIVE_CHART_CONFIG } from '@/constants/Device';
+import { RingBuffer } from '@/services/RingBuffer';
+import { estimateSampleRate, NO_FILTERS, SensorFilters, SignalProcessor } from '@/services/SignalProcessing';
+import { BLEDataPoint } from '@/services/types';
+
+export interface LiveSample {
+  point: BLEDataPoint; // As received
+  charted: BLEDataPoint; // Through the chart filters
+  receivedAt: number;
+}
+
+/**
+ * What changed since the previous frame
+ */
+export interface LiveFrame {
+  added: LiveSample[]; // In arrival order, even if they were cleared from the history since
+  latest: LiveSample | null;
+}
+
+type FrameScheduler = (callback: () => void) => void;
+
+const nextFrame: FrameScheduler = callback => {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => callback());
+  } else {
+    setTimeout(callback, 16);
+  }
+};
+
+/**
+ * Recent samples for the live charts, kept outside React state. Samples are
+ * pushed at the BLE rate; subscribers hear about them at most once per frame.
+ * Chart filters are designed for the rate measured from the first samples
+ * of each recording.
+ */
+export class LiveSampleStore {
+  private history: RingBuffer<LiveSample>;
+  private processor = new SignalProcessor(NO_FILTERS);
+  private listeners = new Set<(frame: LiveFrame) => void>();
+  private pending: LiveSample[] = [];
+  private frameScheduled = false;
+  private rateMeasured = false;
+  private received = 0;
+  private lastReceived = 0;
+
+  constructor(
+    capacity: number = LIVE_CHART_CONFIG.BUFFER_CAPACITY,
+    private readonly scheduleFrame: FrameScheduler = nextFrame
+  ) {
+    this.history = new RingBuffer(capacity);
+  }
+
+  get filters(): SensorFilters {
+    return this.processor.filters;
+  }
+
+  /**
+   * Rate the chart filters are designed for
+   */
+  get sampleRateHz(): number {
+    return this.processor.sampleRateHz;
+  }
+
+  /**
+   * Buffered samples, oldest first
+   */
+  get samples(): LiveSample[] {
+    return this.history.toArray();
+  }
+
+  get latest(): LiveSample | null {
+    return this.history.at(-1) ?? null;
+  }
+
+  /**
+   * Samples pushed since the last reset, including those no longer buffered
+   */
+  get totalReceived(): number {
+    return this.received;
+  }
+
+  /**
+   * When the last sample arrived, or 0 if none did since the last reset
+   */
+  get lastReceivedAt(): number {
+    return this.lastReceived;
+  }
+
+  /**
+   * Samples received during the last `windowMs`
+   */
+  rate(now: number = Date.now(), windowMs = 1000): number {
+    let count = 0;
+    for (let index = this.history.length - 1; index >= 0; index--) {
+      if (this.history.at(index)!.receivedAt <= now - windowMs) {
+        break;
+      }
+      count++;
+    }
+    return (count * 1000) / windowMs;
+  }
+
+  /**
+   * Change the chart filters and re-filter the buffered history with them.
+   * Throws for an invalid chain, leaving the current filters in place.
+   */
+  setFilters(filters: SensorFilters) {
+    if (filters === this.processor.filters) {
+      return;
+    }
+    this.refilter(new SignalProcessor(filters, this.processor.sampleRateHz));
+  }
+
+  private refilter(processor: SignalProcessor) {
+    const samples = this.history.toArray();
+    this.processor = processor;
+    this.history.clear();
+    samples.forEach(sample => this.history.push({ ...sample, charted: processor.process(sample.point) }));
+    this.requestFrame();
+  }
+
+  /**
+   * Redesign the filters once enough samples show the device's actual rate
+   */
+  private measureRate() {
+    this.rateMeasured = true;
+    const measured = estimateSampleRate(this.history.toArray().map(sample => sample.point));
+    const current = this.processor.sampleRateHz;
+    if (!measured || Math.abs(measured - current) / current < 0.1) {
+      return;
+    }
+    try {
+      this.refilter(new SignalProcessor(this.processor.filters, measured));
+    } catch (error) {
+      console.warn(`Chart filters don't fit the device's ${Math.round(measured)}Hz, plotting raw data:`, error);
+      this.refilter(new SignalProcessor(NO_FILTERS, measured));
+    }
+  }
+
+  push(point: BLEDataPoint, receivedAt: number = Date.now()): LiveSample {
+    const sample = { point, charted: this.processor.process(point), receivedAt };
+    this.history.push(sample);
+    if (!this.rateMeasured && this.history.length >= LIVE_CHART_CONFIG.RATE_ESTIMATE_SAMPLES) {
+      this.measureRate();
+    }
+    this.received++;
+    this.lastReceived = receivedAt;
+    this.pending.push(sample);
+    if (this.pending.length > this.history.capacity) {
+      this.pending.shift();
+    }
+    this.requestFrame();
+    return sample;
+  }
+
+  /**
+   * Drop the history and filter state, e.g. when a new recording starts
+   */
+  clear() {
+    this.history.clear();
+    this.processor.reset();
+    this.rateMeasured = false;
+    this.requestFrame();
+  }
+
+  /**
+   * Clear the history and the received statistics
+   */
+  reset() {
+    this.clear();
+    this.received = 0;
+    this.lastReceived = 0;
+  }
+
+  /**
+   * Subscribe to frame updates. Returns an unsubscribe function.
+   */
+  subscribe(listener: (frame: LiveFrame) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private requestFrame() {
+    if (this.frameScheduled) {
+      return;
+    }
+    this.frameScheduled = true;
+    this.scheduleFrame(() => this.flush());
+  }
+
+  private flush() {
+    this.frameScheduled = false;
+    const frame: LiveFrame = { added: this.pending, latest: this.latest };
+    this.pending = [];
+    this.listeners.forEach(listener => {
+      try {
+        listener(frame);
+      } catch (error) {
+        console.error('LiveSampleStore listener error:', error);
+      }
+    });
+  }
+}
+
+export const liveSampleStore = new LiveSampleStore();
+
+export default LiveSampleStore;
@@ -0,0 +1,353 @@
+import type { IMUDataPoint, PredictionResponse, PrimaryMovement } from '@/services/GestureAPI';
+import { defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+
+/**
+ * Per-window features, in the order the exported model's weights expect
+ */
+const CHANNELS = ['acc_x', 'acc_y', 'acc_z', 'gyro_x', 'gyro_y', 'gyro_z', 'acc_mag', 'gyro_mag'] as const;
+const STATS = ['mean', 'std', 'min', 'max', 'rms'] as const;
+
+export const FEATURE_NAMES: string[] = CHANNELS.flatMap(channel => STATS.map(stat => `${channel}_${stat}`));
+
+/**
+ * Softmax regression exported by the server (standard scaler + linear layer)
+ */
+export interface LocalModel {
+  format_version: 1;
+  model_type: 'softmax_regression';
+  name?: string;
+  trained_at?: string;
+  labels: string[];
+  still_label?: string; // Rest windows: counted as still phases, never reported as a movement
+  feature_names: string[];
+  scaler: { mean: number[]; scale: number[] };
+  weights: number[][]; // labels x features
+  bias: number[];
+  window_params: {
+    window_size_ms: number;
+    overlap_ms: number;
+    sample_rate_hz: number;
+  };
+  smoothing_window?: number; // Odd number of windows for the majority vote (default 3)
+  min_segment_windows?: number; // Shorter segments are discarded as noise (default 1)
+}
+
+function assertNumbers(values: unknown, length: number, field: string) {
+  if (!Array.isArray(values) || values.length !== length || values.some(value => typeof value !== 'number')) {
+    throw new Error(`Invalid local model: ${field} must be ${length} numbers`);
+  }
+}
+
+/**
+ * Validate a downloaded model file. Throws describing the first problem found.
+ */
+export function parseLocalModel(json: unknown): LocalModel {
+  const model = json as LocalModel;
+  if (!model || typeof model !== 'object') {
+    throw new Error('Invalid local model: not an object');
+  }
+  if (model.format_version !== 1 || model.model_type !== 'softmax_regression') {
+    throw new Error(`Unsupported local model: ${model.model_type} v${model.format_version}`);
+  }
+  if (!Array.isArray(model.labels) || model.labels.length === 0) {
+    throw new Error('Invalid local model: no labels');
+  }
+  if (
+    !Array.isArray(model.feature_names) ||
+    model.feature_names.length !== FEATURE_NAMES.length ||
+    model.feature_names.some((name, index) => name !== FEATURE_NAMES[index])
+  ) {
+    throw new Error('Invalid local model: feature set does not match this app version');
+  }
+
+  const featureCount = FEATURE_NAMES.length;
+  assertNumbers(model.scaler?.mean, featureCount, 'scaler.mean');
+  assertNumbers(model.scaler?.scale, featureCount, 'scaler.scale');
+  assertNumbers(model.bias, model.labels.length, 'bias');
+  if (!Array.isArray(model.weights) || model.weights.length !== model.labels.length) {
+    throw new Error(`Invalid local model: weights must have ${model.labels.length} rows`);
+  }
+  model.weights.forEach((row, index) => assertNumbers(row, featureCount, `weights[${index}]`));
+
+  const { window_size_ms, overlap_ms, sample_rate_hz } = model.window_params ?? ({} as LocalModel['window_params']);
+  if (!(sample_rate_hz > 0) || !(window_size_ms > 0) || !(overlap_ms >= 0) || overlap_ms >= window_size_ms) {
+    throw new Error('Invalid local model: bad window_params');
+  }
+  return model;
+}
+
+function stats(values: number[]): number[] {
+  const n = values.length;
+  let sum = 0;
+  let sumSquares = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    sum += value;
+    sumSquares += value * value;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const mean = sum / n;
+  const variance = Math.max(0, sumSquares / n - mean * mean);
+  return [mean, Math.sqrt(variance), min, max, Math.sqrt(sumSquares / n)];
+}
+
+/**
+ * Feature vector for one window, ordered as FEATURE_NAMES
+ */
+export function extractFeatures(window: IMUDataPoint[]): number[] {
+  const channels: number[][] = CHANNELS.map(() => []);
+  for (const point of window) {
+    channels[0].push(point.acc_x);
+    channels[1].push(point.acc_y);
+    channels[2].push(point.acc_z);
+    channels[3].push(point.gyro_x);
+    channels[4].push(point.gyro_y);
+    channels[5].push(point.gyro_z);
+    channels[6].push(Math.hypot(point.acc_x, point.acc_y, point.acc_z));
+    channels[7].push(Math.hypot(point.gyro_x, point.gyro_y, point.gyro_z));
+  }
+  return channels.flatMap(stats);
+}
+
+export interface SampleWindow {
+  startTime: number; // Seconds from the first sample
+  endTime: number;
+  points: IMUDataPoint[];
+}
+
+/**
+ * Slice the stream into overlapping windows. Positions come from the sample
+ * index and the nominal rate rather than the device's wrapping timestamps.
+ * A recording shorter than one window yields a single window.
+ */
+export function createWindows(
+  data: IMUDataPoint[],
+  params: LocalModel['window_params']
+): SampleWindow[] {
+  const size = Math.max(1, Math.round((params.window_size_ms * params.sample_rate_hz) / 1000));
+  const step = Math.max(1, size - Math.round((params.overlap_ms * params.sample_rate_hz) / 1000));
+  const windowAt = (start: number, end: number): SampleWindow => ({
+    startTime: start / params.sample_rate_hz,
+    endTime: end / params.sample_rate_hz,
+    points: data.slice(start, end),
+  });
+
+  if (data.length === 0) {
+    return [];
+  }
+  if (data.length < size) {
+    return [windowAt(0, data.length)];
+  }
+
+  const windows: SampleWindow[] = [];
+  for (let start = 0; start + size <= data.length; start += step) {
+    windows.push(windowAt(start, start + size));
+  }
+  return windows;
+}
+
+function softmax(model: LocalModel, features: number[]): number[] {
+  const scaled = features.map((value, i) => (value - model.scaler.mean[i]) / (model.scaler.scale[i] || 1));
+  const logits = model.weights.map((row, label) =>
+    row.reduce((sum, weight, i) => sum + weight * scaled[i], model.bias[label])
+  );
+  const maxLogit = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - maxLogit));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+/**
+ * Majority vote over a centered window of predictions; ties keep the raw label
+ */
+function smooth(labels: number[], width: number): number[] {
+  const half = Math.floor(width / 2);
+  return labels.map((label, index) => {
+    const counts = new Map<number, number>();
+    for (let i = Math.max(0, index - half); i <= Math.min(labels.length - 1, index + half); i++) {
+      counts.set(labels[i], (counts.get(labels[i]) ?? 0) + 1);
+    }
+    let best = label;
+    counts.forEach((count, candidate) => {
+      if (count > (counts.get(best) ?? 0)) best = candidate;
+    });
+    return best;
+  });
+}
+
+/**
+ * Classify a recording on device, producing the same response shape as /api/predict
+ */
+export function classifyLocally(data: IMUDataPoint[], model: LocalModel): PredictionResponse {
+  const startedAt = Date.now();
+  const windows = createWindows(data, model.window_params);
+  const probabilities = windows.map(window => softmax(model, extractFeatures(window.points)));
+  const raw = probabilities.map(probs => probs.indexOf(Math.max(...probs)));
+  const smoothed = smooth(raw, model.smoothing_window ?? 3);
+  const minWindows = model.min_segment_windows ?? 1;
+
+  const allDetected: { [key: string]: number } = {};
+  const significant: { [key: string]: number } = {};
+  const segments: PredictionResponse['detailed_segments'] = [];
+  let stillPhases = 0;
+
+  for (let start = 0; start < smoothed.length; ) {
+    let end = start;
+    while (end + 1 < smoothed.length && smoothed[end + 1] === smoothed[start]) end++;
+
+    const movement = model.labels[smoothed[start]];
+    const windowCount = end - start + 1;
+    if (movement === model.still_label) {
+      stillPhases++;
+    } else {
+      allDetected[movement] = (allDetected[movement] ?? 0) + windowCount;
+      if (windowCount >= minWindows) {
+        let confidence = 0;
+        for (let i = start; i <= end; i++) confidence += probabilities[i][smoothed[start]];
+        segments.push({
+          movement,
+          avg_confidence: confidence / windowCount,
+          duration: windows[end].endTime - windows[start].startTime,
+          start_time: windows[start].startTime,
+          end_time: windows[end].endTime,
+          window_count: windowCount,
+        });
+        significant[movement] = (significant[movement] ?? 0) + 1;
+      }
+    }
+    start = end + 1;
+  }
+
+  const primary = segments.reduce<(typeof segments)[number] | null>(
+    (best, segment) => (!best || segment.avg_confidence > best.avg_confidence ? segment : best),
+    null
+  );
+
+  return {
+    prediction: primary?.movement,
+    confidence: primary?.avg_confidence,
+    model_used: `local:${model.name ?? model.model_type}`,
+    processing_time: Date.now() - startedAt,
+    timestamp: new Date().toISOString(),
+    all_detected_movements: allDetected,
+    significant_movements: significant,
+    detailed_segments: segments,
+    raw_window_predictions: {
+      predictions: raw.map(label => model.labels[label]),
+      confidences: raw.map((label, i) => probabilities[i][label]),
+      smoothed_predictions: smoothed.map(label => model.labels[label]),
+      times: windows.map(window => window.startTime),
+    },
+    still_phases: stillPhases,
+    window_params: { ...model.window_params },
+  };
+}
+
+/**
+ * Classify a single window, e.g. while streaming. Returns null for rest windows.
+ */
+export function classifyWindow(points: IMUDataPoint[], model: LocalModel): PrimaryMovement | null {
+  if (points.length === 0) {
+    return null;
+  }
+  const probabilities = softmax(model, extractFeatures(points));
+  const best = probabilities.indexOf(Math.max(...probabilities));
+  const movement = model.labels[best];
+  return movement === model.still_label ? null : { movement, confidence: probabilities[best] };
+}
+
+const DEFAULT_KEY = 'abracadabra:local-model';
+
+/**
+ * Holds the on-device model, persisted so predictions keep working offline
+ */
+export class LocalGestureClassifier {
+  private listeners = new Set<(model: LocalModel | null) => void>();
+  private current: LocalModel | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: StorageAdapter = defaultStorage,
+    private readonly key: string = DEFAULT_KEY
+  ) {}
+
+  get model(): LocalModel | null {
+    return this.current;
+  }
+
+  /**
+   * Subscribe to model installs and removals. Returns an unsubscribe function.
+   */
+  subscribe(listener: (model: LocalModel | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setModel(model: LocalModel | null) {
+    this.current = model;
+    this.listeners.forEach(listener => {
+      try {
+        listener(model);
+      } catch (error) {
+        console.error('LocalGestureClassifier listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Load the stored model once. A stored model that no longer validates is
+   * ignored; a failed read is retried on the next call.
+   */
+  load(): Promise<LocalModel | null> {
+    if (!this.loading) {
+      this.loading = readJSON<unknown>(this.storage, this.key, null).then(
+        stored => {
+          if (stored && !this.current) {
+            try {
+              this.setModel(parseLocalModel(stored));
+            } catch (error) {
+              console.error('⚠️ Ignoring stored local model:', error);
+            }
+          }
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading.then(() => this.current);
+  }
+
+  /**
+   * Validate and persist a model exported by the server
+   */
+  async install(json: unknown): Promise<LocalModel> {
+    const model = parseLocalModel(json);
+    await writeJSON(this.storage, this.key, model);
+    console.log(`📦 Local model installed: ${model.name ?? model.model_type} (${model.labels.join(', ')})`);
+    this.setModel(model);
+    return model;
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.removeItem(this.key);
+    this.setModel(null);
+  }
+
+  async predict(data: IMUDataPoint[]): Promise<PredictionResponse> {
+    const model = await this.load();
+    if (!model) {
+      throw new Error('No on-device model installed');
+    }
+    return classifyLocally(data, model);
+  }
+}
+
+export const localClassifier = new LocalGestureClassifier();
+
+export default LocalGestureClassifier;
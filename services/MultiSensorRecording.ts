@@ -0,0 +1,192 @@
+import { PREPROCESSING_CONFIG } from '@/constants/API';
+import { GestureAPI, IMUDataPoint, PredictionResponse } from '@/services/GestureAPI';
+import { unwrapDataPoints } from '@/services/SessionAssembler';
+import type { ExportFile } from '@/services/SessionExport';
+import { StoredSession } from '@/services/SessionRepository';
+import { filterRecording, SensorFilters } from '@/services/SignalProcessing';
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SensorReading {
+  acceleration: Vector3;
+  gyroscope: Vector3;
+}
+
+/**
+ * Sessions recorded together on several sensors, resampled onto one time grid
+ */
+export interface MultiSensorRecording {
+  groupId: string;
+  startTime: number; // Phone time of the first frame
+  rateHz: number;
+  sensors: { deviceId: string; sessionId: string; recordingHash: string }[];
+  times: number[]; // ms since startTime, one per frame
+  frames: SensorReading[][]; // frames[frame][sensor]
+}
+
+/**
+ * Phone time of every sample. Sensor clocks are independent, so each session
+ * is anchored at its start time (when its SESSION_START arrived) and follows
+ * its own device clock from there.
+ */
+function phoneTimes(points: { unwrappedTimestamp?: number }[], startTime: number): number[] {
+  const first = points[0].unwrappedTimestamp!;
+  return points.map(point => startTime + point.unwrappedTimestamp! - first);
+}
+
+const lerp = (a: number, b: number, fraction: number) => a + (b - a) * fraction;
+
+const lerpVector = (a: Vector3, b: Vector3, fraction: number): Vector3 => ({
+  x: lerp(a.x, b.x, fraction),
+  y: lerp(a.y, b.y, fraction),
+  z: lerp(a.z, b.z, fraction),
+});
+
+/**
+ * Resample each session onto a shared grid over the time all sensors were
+ * recording, interpolating linearly between samples
+ */
+export function alignSessions(
+  sessions: StoredSession[],
+  rateHz: number = PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ
+): MultiSensorRecording {
+  const recorded = sessions.filter(session => session.samples.length > 0);
+  if (new Set(recorded.map(session => session.deviceId)).size < 2) {
+    throw new Error('A multi-sensor recording needs samples from at least two sensors');
+  }
+  if (!(rateHz > 0)) {
+    throw new Error(`Invalid sample rate: ${rateHz}`);
+  }
+
+  const streams = recorded.map(session => {
+    const points = unwrapDataPoints(session.samples);
+    return { session, points, times: phoneTimes(points, session.startTime) };
+  });
+  const start = Math.max(...streams.map(stream => stream.times[0]));
+  const end = Math.min(...streams.map(stream => stream.times[stream.times.length - 1]));
+  if (end < start) {
+    throw new Error('The sensors were not recording at the same time');
+  }
+
+  const periodMs = 1000 / rateHz;
+  const count = Math.floor((end - start) / periodMs + 1e-9) + 1;
+  const cursors = streams.map(() => 0);
+  const times: number[] = [];
+  const frames: SensorReading[][] = [];
+
+  for (let frame = 0; frame < count; frame++) {
+    const time = start + frame * periodMs;
+    frames.push(streams.map(({ points, times: sampleTimes }, sensor) => {
+      while (cursors[sensor] < points.length - 2 && sampleTimes[cursors[sensor] + 1] < time) {
+        cursors[sensor]++;
+      }
+      const index = cursors[sensor];
+      const next = Math.min(index + 1, points.length - 1);
+      const span = sampleTimes[next] - sampleTimes[index];
+      const fraction = span > 0 ? Math.min(1, Math.max(0, (time - sampleTimes[index]) / span)) : 0;
+      return {
+        acceleration: lerpVector(points[index].acceleration, points[next].acceleration, fraction),
+        gyroscope: lerpVector(points[index].gyroscope, points[next].gyroscope, fraction),
+      };
+    }));
+    times.push(Math.round(frame * periodMs * 1000) / 1000);
+  }
+
+  return {
+    groupId: recorded[0].groupId ?? recorded[0].id,
+    startTime: start,
+    rateHz,
+    sensors: recorded.map(session => ({
+      deviceId: session.deviceId,
+      sessionId: session.id,
+      recordingHash: session.recordingHash,
+    })),
+    times,
+    frames,
+  };
+}
+
+/**
+ * One row per frame: rel_timestamp, recording_id, then the server's six
+ * channels for each sensor, prefixed s1_, s2_, ...
+ */
+export function multiSensorToCSV(recording: MultiSensorRecording): string {
+  const recordingId = `m_${recording.startTime}_${recording.groupId}`;
+  const columns = recording.sensors.flatMap((_, sensor) =>
+    ['acc_x', 'acc_y', 'acc_z', 'gyro_x', 'gyro_y', 'gyro_z'].map(channel => `s${sensor + 1}_${channel}`)
+  );
+  const rows = recording.frames.map((readings, frame) => [
+    recording.times[frame],
+    recordingId,
+    ...readings.flatMap(({ acceleration: a, gyroscope: g }) => [a.x, a.y, a.z, g.x, g.y, g.z]),
+  ].join(','));
+  return [['rel_timestamp', 'recording_id', ...columns].join(','), ...rows].join('\n');
+}
+
+/**
+ * The sessions of a multi-sensor recording as one CSV on their shared time grid
+ */
+export function buildMultiSensorExportFile(sessions: StoredSession[], filters: SensorFilters | null = null): ExportFile {
+  const recording = alignSessions(filters
+    ? sessions.map(session => ({ ...session, samples: filterRecording(session.samples, filters) }))
+    : sessions);
+  return {
+    filename: `abracadabra-group-${recording.groupId}.csv`,
+    mimeType: 'text/csv',
+    data: multiSensorToCSV(recording),
+  };
+}
+
+/**
+ * One sensor's aligned stream in the server's schema
+ */
+export function sensorDataForPrediction(recording: MultiSensorRecording, sensor: number): IMUDataPoint[] {
+  const recordingId = `g_${Math.round(recording.startTime)}_${recording.sensors[sensor].recordingHash}`;
+  return recording.frames.map((readings, frame) => ({
+    rel_timestamp: recording.times[frame],
+    recording_id: recordingId,
+    acc_x: readings[sensor].acceleration.x,
+    acc_y: readings[sensor].acceleration.y,
+    acc_z: readings[sensor].acceleration.z,
+    gyro_x: readings[sensor].gyroscope.x,
+    gyro_y: readings[sensor].gyroscope.y,
+    gyro_z: readings[sensor].gyroscope.z,
+  }));
+}
+
+/**
+ * Predict every sensor's part of a multi-sensor recording on the shared time
+ * grid, so detected segments line up across sensors
+ */
+export async function predictMultiSensor(
+  sessions: StoredSession[],
+  filters: SensorFilters | null = null
+): Promise<{ sessionId: string; prediction: PredictionResponse }[]> {
+  const recording = alignSessions(filters
+    ? sessions.map(session => ({ ...session, samples: filterRecording(session.samples, filters) }))
+    : sessions);
+  return Promise.all(recording.sensors.map(async ({ sessionId }, sensor) => {
+    const { packetLoss } = sessions.find(session => session.id === sessionId)!;
+    const prediction = await GestureAPI.predictGesture(sensorDataForPrediction(recording, sensor), packetLoss ?? undefined);
+    return { sessionId, prediction };
+  }));
+}
+
+/**
+ * Significant movements of a multi-sensor recording. The sensors share one
+ * time grid, so a gesture seen by several of them counts once: each movement
+ * gets the highest count any sensor reported.
+ */
+export function mergeSignificantMovements(predictions: PredictionResponse[]): Record<string, number> {
+  const merged: Record<string, number> = {};
+  for (const prediction of predictions) {
+    for (const [movement, count] of Object.entries(prediction.significant_movements ?? {})) {
+      merged[movement] = Math.max(merged[movement] ?? 0, count);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,233 @@
+/**
+ * Binary packet codec for the AbracadabraIMU data characteristic.
+ *
+ * Every packet is 20 bytes, little endian. Byte 0 is the packet type and
+ * byte 1 (formerly `reserved`) is the protocol version.
+ *
+ * Version 0 (legacy firmware, version byte left at 0):
+ *   all types      0 type | 1 version | 2 timestamp u16 | 4 sampleId u16
+ *   SENSOR_DATA    6 accX i16 | 8 accY | 10 accZ | 12 gyroX i16 | 14 gyroY | 16 gyroZ | 18 unused
+ *   SESSION_START  16 recordingHash u32
+ *   SESSION_END    2 duration ms | 4 last sampleId | 16 recordingHash u32
+ *
+ * Version 1:
+ *   all types      0 type | 1 version | 2 timestamp u16 | 4 sampleId u16
+ *   SENSOR_DATA    6 accX i16 | 8 accY | 10 accZ | 12 gyroX i16 | 14 gyroY | 16 gyroZ | 18 reserved
+ *   SESSION_START  6 recordingHash u32 | 10 sampleRateHz u16 | 12 reserved
+ *   SESSION_END    2 duration ms | 4 last sampleId | 6 recordingHash u32 | 10 totalSamples u32 | 14 reserved
+ *
+ * Accelerometer values are sent as milli-g, gyroscope values as deci-degrees/s.
+ */
+
+export const PACKET_SIZE = 20;
+
+export const PACKET_TYPES = {
+  SESSION_START: 0x01,
+  SENSOR_DATA: 0x02,
+  SESSION_END: 0x03,
+} as const;
+
+export type PacketType = keyof typeof PACKET_TYPES;
+
+export const PROTOCOL_VERSIONS = [0, 1] as const;
+export type ProtocolVersion = typeof PROTOCOL_VERSIONS[number];
+export const CURRENT_PROTOCOL_VERSION: ProtocolVersion = 1;
+
+const ACC_SCALE = 1000; // milli-g
+const GYRO_SCALE = 10; // deci-degrees per second
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface PacketHeader {
+  version: ProtocolVersion;
+  timestamp: number;
+  sampleId: number;
+}
+
+export interface SessionStartPacket extends PacketHeader {
+  type: 'SESSION_START';
+  recordingHash: string;
+  sampleRateHz: number | null; // Not sent by version 0 firmware
+}
+
+export interface SensorDataPacket extends PacketHeader {
+  type: 'SENSOR_DATA';
+  acceleration: Vector3;
+  gyroscope: Vector3;
+}
+
+export interface SessionEndPacket extends PacketHeader {
+  type: 'SESSION_END';
+  durationMs: number;
+  lastSampleId: number;
+  totalSamples: number;
+  recordingHash: string;
+}
+
+export type Packet = SessionStartPacket | SensorDataPacket | SessionEndPacket;
+
+export type PacketDecodeErrorCode = 'INVALID_LENGTH' | 'UNKNOWN_PACKET_TYPE' | 'UNSUPPORTED_VERSION';
+
+export interface PacketDecodeError {
+  code: PacketDecodeErrorCode;
+  message: string;
+  length: number;
+  packetType?: number;
+  version?: number;
+}
+
+export type DecodeResult =
+  | { ok: true; packet: Packet }
+  | { ok: false; error: PacketDecodeError };
+
+const formatHash = (hash: number) => hash.toString(16);
+
+function isSupportedVersion(version: number): version is ProtocolVersion {
+  return (PROTOCOL_VERSIONS as readonly number[]).includes(version);
+}
+
+function decodeError(
+  code: PacketDecodeErrorCode,
+  message: string,
+  bytes: Uint8Array,
+  extra: Partial<PacketDecodeError> = {}
+): DecodeResult {
+  return { ok: false, error: { code, message, length: bytes.length, ...extra } };
+}
+
+function readVectors(view: DataView) {
+  return {
+    acceleration: {
+      x: view.getInt16(6, true) / ACC_SCALE,
+      y: view.getInt16(8, true) / ACC_SCALE,
+      z: view.getInt16(10, true) / ACC_SCALE,
+    },
+    gyroscope: {
+      x: view.getInt16(12, true) / GYRO_SCALE,
+      y: view.getInt16(14, true) / GYRO_SCALE,
+      z: view.getInt16(16, true) / GYRO_SCALE,
+    },
+  };
+}
+
+/**
+ * Decode one notification payload into a typed packet
+ */
+export function decodePacket(bytes: Uint8Array): DecodeResult {
+  if (bytes.length !== PACKET_SIZE) {
+    return decodeError(
+      'INVALID_LENGTH',
+      `Expected ${PACKET_SIZE} bytes, got ${bytes.length}`,
+      bytes,
+      bytes.length > 0 ? { packetType: bytes[0] } : {}
+    );
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const packetType = view.getUint8(0);
+  const version = view.getUint8(1);
+
+  if (!isSupportedVersion(version)) {
+    return decodeError('UNSUPPORTED_VERSION', `Unsupported protocol version ${version}`, bytes, {
+      packetType,
+      version,
+    });
+  }
+
+  const header: PacketHeader = {
+    version,
+    timestamp: view.getUint16(2, true),
+    sampleId: view.getUint16(4, true),
+  };
+
+  switch (packetType) {
+    case PACKET_TYPES.SESSION_START:
+      return {
+        ok: true,
+        packet: {
+          ...header,
+          type: 'SESSION_START',
+          recordingHash: formatHash(view.getUint32(version === 0 ? 16 : 6, true)),
+          sampleRateHz: version === 0 ? null : view.getUint16(10, true),
+        },
+      };
+
+    case PACKET_TYPES.SENSOR_DATA:
+      return {
+        ok: true,
+        packet: { ...header, type: 'SENSOR_DATA', ...readVectors(view) },
+      };
+
+    case PACKET_TYPES.SESSION_END:
+      return {
+        ok: true,
+        packet: {
+          ...header,
+          type: 'SESSION_END',
+          durationMs: header.timestamp,
+          lastSampleId: header.sampleId,
+          totalSamples: version === 0 ? header.sampleId + 1 : view.getUint32(10, true),
+          recordingHash: formatHash(view.getUint32(version === 0 ? 16 : 6, true)),
+        },
+      };
+
+    default:
+      return decodeError(
+        'UNKNOWN_PACKET_TYPE',
+        `Unknown packet type 0x${packetType.toString(16).padStart(2, '0')}`,
+        bytes,
+        { packetType, version }
+      );
+  }
+}
+
+const clampInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value)));
+
+/**
+ * Encode a packet in the layout of its `version`. Used by tests and simulated devices.
+ */
+export function encodePacket(packet: Packet): Uint8Array {
+  const bytes = new Uint8Array(PACKET_SIZE);
+  const view = new DataView(bytes.buffer);
+  const legacy = packet.version === 0;
+
+  view.setUint8(0, PACKET_TYPES[packet.type]);
+  view.setUint8(1, packet.version);
+  view.setUint16(2, packet.timestamp & 0xffff, true);
+  view.setUint16(4, packet.sampleId & 0xffff, true);
+
+  switch (packet.type) {
+    case 'SESSION_START':
+      view.setUint32(legacy ? 16 : 6, parseInt(packet.recordingHash, 16) >>> 0, true);
+      if (!legacy) {
+        view.setUint16(10, packet.sampleRateHz ?? 0, true);
+      }
+      break;
+
+    case 'SENSOR_DATA':
+      view.setInt16(6, clampInt16(packet.acceleration.x * ACC_SCALE), true);
+      view.setInt16(8, clampInt16(packet.acceleration.y * ACC_SCALE), true);
+      view.setInt16(10, clampInt16(packet.acceleration.z * ACC_SCALE), true);
+      view.setInt16(12, clampInt16(packet.gyroscope.x * GYRO_SCALE), true);
+      view.setInt16(14, clampInt16(packet.gyroscope.y * GYRO_SCALE), true);
+      view.setInt16(16, clampInt16(packet.gyroscope.z * GYRO_SCALE), true);
+      break;
+
+    case 'SESSION_END':
+      view.setUint16(2, packet.durationMs & 0xffff, true);
+      view.setUint16(4, packet.lastSampleId & 0xffff, true);
+      view.setUint32(legacy ? 16 : 6, parseInt(packet.recordingHash, 16) >>> 0, true);
+      if (!legacy) {
+        view.setUint32(10, packet.totalSamples >>> 0, true);
+      }
+      break;
+  }
+
+  return bytes;
+}
+
+export default decodePacket;
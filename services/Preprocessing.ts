@@ -0,0 +1,182 @@
+import { PREPROCESSING_CONFIG } from '@/constants/API';
+import type { IMUDataPoint } from '@/services/GestureAPI';
+import { PacketLossStats } from '@/services/types';
+
+export interface PreprocessingOptions {
+  sampleRateHz?: number;
+  maxGapMs?: number;
+  maxLossRate?: number;
+  packetLoss?: PacketLossStats | null; // Counted by the session assembler, when available
+}
+
+export interface PreprocessingReport {
+  sampleRateHz: number;
+  inputSamples: number;
+  outputSamples: number;
+  interpolatedSamples: number; // Output samples placed inside a gap in the input
+  unfilledGaps: number; // Gaps longer than maxGapMs, left without samples
+  lossRate: number; // From packetLoss when given, otherwise estimated from gaps in the input's own timestamps
+}
+
+export interface PreprocessingResult {
+  data: IMUDataPoint[];
+  report: PreprocessingReport;
+}
+
+/**
+ * Thrown instead of sending a recording that lost too many samples to the model
+ */
+export class RecordingQualityError extends Error {
+  constructor(readonly report: PreprocessingReport, readonly maxLossRate: number) {
+    super(
+      `${(report.lossRate * 100).toFixed(1)}% of the samples are missing ` +
+      `(limit ${(maxLossRate * 100).toFixed(0)}%). Please record the gesture again.`
+    );
+    this.name = 'RecordingQualityError';
+  }
+}
+
+const CHANNELS = ['acc_x', 'acc_y', 'acc_z', 'gyro_x', 'gyro_y', 'gyro_z'] as const;
+
+const roundMs = (ms: number) => Math.round(ms * 1000) / 1000;
+
+const GAP_FACTOR = 1.5; // Intervals this many times the usual one are a gap
+
+/**
+ * The recording's usual time between samples: the median interval, so a few
+ * gaps don't skew it
+ */
+function typicalInterval(points: IMUDataPoint[]): number {
+  const intervals = points
+    .slice(1)
+    .map((point, index) => point.rel_timestamp - points[index].rel_timestamp)
+    .sort((a, b) => a - b);
+  return intervals.length > 0 ? intervals[Math.floor((intervals.length - 1) / 2)] : 0;
+}
+
+/**
+ * Resample one recording onto a uniform grid starting at its first sample.
+ * Points must be ordered by time; repeated timestamps are skipped.
+ *
+ * Missing samples are counted against the recording's own rate, so
+ * upsampling a clean recording doesn't count as loss.
+ */
+function resampleRecording(points: IMUDataPoint[], periodMs: number, maxGapMs: number) {
+  const input = points.filter((point, index) => index === 0 || point.rel_timestamp > points[index - 1].rel_timestamp);
+  const output: IMUDataPoint[] = [];
+  let interpolated = 0;
+  let unfilledGaps = 0;
+  let missingSamples = 0;
+
+  if (input.length === 0) {
+    return { output, interpolated, unfilledGaps, missingSamples, expectedSamples: 0 };
+  }
+
+  const inputIntervalMs = typicalInterval(input);
+  const isGap = (span: number) => span > inputIntervalMs * GAP_FACTOR;
+  input.slice(1).forEach((point, index) => {
+    const span = point.rel_timestamp - input[index].rel_timestamp;
+    if (isGap(span)) {
+      missingSamples += Math.round(span / inputIntervalMs) - 1;
+    }
+  });
+
+  const start = input[0].rel_timestamp;
+  const end = input[input.length - 1].rel_timestamp;
+  const slots = Math.floor((end - start) / periodMs + 1e-9) + 1;
+  let segment = 0;
+
+  for (let slot = 0; slot < slots; slot++) {
+    const time = start + slot * periodMs;
+    while (segment < input.length - 2 && input[segment + 1].rel_timestamp < time) {
+      segment++;
+    }
+
+    const before = input[segment];
+    const after = input[Math.min(segment + 1, input.length - 1)];
+    const span = after.rel_timestamp - before.rel_timestamp;
+
+    if (span > maxGapMs) {
+      if (time > before.rel_timestamp && time < after.rel_timestamp) {
+        // Count each long gap once, at its first empty slot
+        if (time - periodMs <= before.rel_timestamp) unfilledGaps++;
+        continue;
+      }
+    } else if (isGap(span) && time > before.rel_timestamp && time < after.rel_timestamp) {
+      interpolated++;
+    }
+
+    const fraction = span > 0 ? Math.min(1, Math.max(0, (time - before.rel_timestamp) / span)) : 0;
+    const point: IMUDataPoint = { ...before, rel_timestamp: roundMs(time) };
+    CHANNELS.forEach(channel => {
+      point[channel] = before[channel] + (after[channel] - before[channel]) * fraction;
+    });
+    output.push(point);
+  }
+
+  return { output, interpolated, unfilledGaps, missingSamples, expectedSamples: input.length + missingSamples };
+}
+
+/**
+ * Bring recordings onto the model's uniform sample rate: linear interpolation
+ * across short gaps, nothing across long ones. Recordings (by recording_id)
+ * are processed separately. Throws RecordingQualityError when too much of the
+ * data is missing to give a meaningful prediction.
+ */
+export function preprocessIMUData(data: IMUDataPoint[], options: PreprocessingOptions = {}): PreprocessingResult {
+  const sampleRateHz = options.sampleRateHz ?? PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ;
+  const maxGapMs = options.maxGapMs ?? PREPROCESSING_CONFIG.MAX_INTERPOLATED_GAP_MS;
+  const maxLossRate = options.maxLossRate ?? PREPROCESSING_CONFIG.MAX_LOSS_RATE;
+  if (!(sampleRateHz > 0)) {
+    throw new Error(`Invalid sample rate: ${sampleRateHz}`);
+  }
+  const periodMs = 1000 / sampleRateHz;
+
+  const recordings = new Map<string, IMUDataPoint[]>();
+  data.forEach(point => {
+    const points = recordings.get(point.recording_id);
+    if (points) {
+      points.push(point);
+    } else {
+      recordings.set(point.recording_id, [point]);
+    }
+  });
+
+  const output: IMUDataPoint[] = [];
+  let interpolatedSamples = 0;
+  let unfilledGaps = 0;
+  let missingSamples = 0;
+  let expectedSamples = 0;
+  recordings.forEach(points => {
+    const result = resampleRecording(points, periodMs, maxGapMs);
+    output.push(...result.output);
+    interpolatedSamples += result.interpolated;
+    unfilledGaps += result.unfilledGaps;
+    missingSamples += result.missingSamples;
+    expectedSamples += result.expectedSamples;
+  });
+
+  const report: PreprocessingReport = {
+    sampleRateHz,
+    inputSamples: data.length,
+    outputSamples: output.length,
+    interpolatedSamples,
+    unfilledGaps,
+    lossRate: options.packetLoss?.lossRate ?? (expectedSamples > 0 ? missingSamples / expectedSamples : 0),
+  };
+
+  if (report.lossRate > maxLossRate) {
+    throw new RecordingQualityError(report, maxLossRate);
+  }
+  return { data: output, report };
+}
+
+/**
+ * Whether a recording's packet loss is above the prediction threshold
+ */
+export function exceedsLossThreshold(
+  packetLoss: PacketLossStats | null | undefined,
+  maxLossRate: number = PREPROCESSING_CONFIG.MAX_LOSS_RATE
+): boolean {
+  return !!packetLoss && packetLoss.lossRate > maxLossRate;
+}
@@ -0,0 +1,58 @@
+/**
+ * Fixed-capacity FIFO that overwrites its oldest item once full, so pushing
+ * never copies or reallocates
+ */
+export class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+    }
+    this.items = new Array(capacity);
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Append an item. Returns the item it displaced, if the buffer was full.
+   */
+  push(item: T): T | undefined {
+    const end = (this.start + this.count) % this.capacity;
+    const evicted = this.count === this.capacity ? this.items[end] : undefined;
+    this.items[end] = item;
+    if (this.count === this.capacity) {
+      this.start = (this.start + 1) % this.capacity;
+    } else {
+      this.count++;
+    }
+    return evicted;
+  }
+
+  /**
+   * Item by age, oldest first; negative indexes count back from the newest
+   */
+  at(index: number): T | undefined {
+    const offset = index < 0 ? this.count + index : index;
+    if (offset < 0 || offset >= this.count) {
+      return undefined;
+    }
+    return this.items[(this.start + offset) % this.capacity];
+  }
+
+  toArray(): T[] {
+    return Array.from({ length: this.count }, (_, index) => this.items[(this.start + index) % this.capacity]!);
+  }
+
+  clear() {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
+
+export default RingBuffer;
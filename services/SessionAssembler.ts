@@ -0,0 +1,196 @@
+import { BLEDataPoint, PacketLossStats } from '@/services/types';
+
+const UINT16_RANGE = 0x10000;
+
+/**
+ * Continues a wrapping counter into a monotonic number. Each raw value is
+ * placed within half a range of the highest value seen so far, so late
+ * (out-of-order) values stay behind it instead of jumping a whole wrap ahead.
+ */
+export class CounterUnwrapper {
+  private highest: number | null = null;
+
+  constructor(private readonly range: number = UINT16_RANGE) {}
+
+  /**
+   * Unwrapped value for `raw` without advancing the counter
+   */
+  peek(raw: number): number {
+    if (this.highest === null) {
+      return raw;
+    }
+    let delta = (raw - this.highest) % this.range;
+    if (delta < 0) delta += this.range;
+    if (delta >= this.range / 2) delta -= this.range;
+    return this.highest + delta;
+  }
+
+  unwrap(raw: number): number {
+    const value = this.peek(raw);
+    this.highest = this.highest === null ? value : Math.max(this.highest, value);
+    return value;
+  }
+
+  reset() {
+    this.highest = null;
+  }
+}
+
+/**
+ * Fill in unwrapped counters for points recorded without them (e.g. sessions saved by older versions)
+ */
+export function unwrapDataPoints(points: BLEDataPoint[]): BLEDataPoint[] {
+  if (points.every(point => point.unwrappedTimestamp !== undefined && point.unwrappedSampleId !== undefined)) {
+    return points;
+  }
+  const timestamps = new CounterUnwrapper();
+  const sampleIds = new CounterUnwrapper();
+  return points.map(point => ({
+    ...point,
+    unwrappedTimestamp: timestamps.unwrap(point.timestamp),
+    unwrappedSampleId: sampleIds.unwrap(point.sampleId),
+  }));
+}
+
+/**
+ * Combine the statistics of several recordings, e.g. the takes in one training upload
+ */
+export function mergePacketLoss(stats: PacketLossStats[]): PacketLossStats {
+  const total = stats.reduce(
+    (sum, entry) => ({
+      expected: sum.expected + entry.expected,
+      received: sum.received + entry.received,
+      missing: sum.missing + entry.missing,
+      duplicates: sum.duplicates + entry.duplicates,
+      outOfOrder: sum.outOfOrder + entry.outOfOrder,
+      gaps: sum.gaps + entry.gaps,
+    }),
+    { expected: 0, received: 0, missing: 0, duplicates: 0, outOfOrder: 0, gaps: 0 }
+  );
+  return { ...total, lossRate: total.expected > 0 ? total.missing / total.expected : 0 };
+}
+
+/**
+ * Builds one recording from SENSOR_DATA packets: unwraps the uint16
+ * timestamp and sample id, drops duplicates, puts late packets back in
+ * order and counts what never arrived.
+ */
+export class SessionAssembler {
+  private points: BLEDataPoint[] = [];
+  private seen = new Set<number>();
+  private timestamps = new CounterUnwrapper();
+  private sampleIds = new CounterUnwrapper();
+  private duplicates = 0;
+  private outOfOrder = 0;
+  private trailingSampleId: number | null = null;
+  private hash: string | null = null;
+
+  /**
+   * Recording hash from the SESSION_START that began this recording
+   */
+  get recordingHash(): string | null {
+    return this.hash;
+  }
+
+  /**
+   * Received samples, ordered by sample id
+   */
+  get samples(): BLEDataPoint[] {
+    return this.points;
+  }
+
+  get stats(): PacketLossStats {
+    if (this.points.length === 0) {
+      return { expected: 0, received: 0, missing: 0, duplicates: this.duplicates, outOfOrder: this.outOfOrder, gaps: 0, lossRate: 0 };
+    }
+
+    const first = this.points[0].unwrappedSampleId!;
+    const last = Math.max(this.points[this.points.length - 1].unwrappedSampleId!, this.trailingSampleId ?? -Infinity);
+    let gaps = last > this.points[this.points.length - 1].unwrappedSampleId! ? 1 : 0;
+    for (let i = 1; i < this.points.length; i++) {
+      if (this.points[i].unwrappedSampleId! - this.points[i - 1].unwrappedSampleId! > 1) gaps++;
+    }
+
+    const expected = last - first + 1;
+    const missing = expected - this.points.length;
+    return {
+      expected,
+      received: this.points.length,
+      missing,
+      duplicates: this.duplicates,
+      outOfOrder: this.outOfOrder,
+      gaps,
+      lossRate: missing / expected,
+    };
+  }
+
+  /**
+   * Begin a new recording, discarding the previous one
+   */
+  start(recordingHash: string | null = null) {
+    this.hash = recordingHash;
+    this.points = [];
+    this.seen.clear();
+    this.timestamps.reset();
+    this.sampleIds.reset();
+    this.duplicates = 0;
+    this.outOfOrder = 0;
+    this.trailingSampleId = null;
+  }
+
+  /**
+   * Add a sample. Returns the sample with its unwrapped counters, or
+   * null for a duplicate that was dropped.
+   */
+  push(point: BLEDataPoint): BLEDataPoint | null {
+    const unwrappedSampleId = this.sampleIds.peek(point.sampleId);
+    if (this.seen.has(unwrappedSampleId)) {
+      this.duplicates++;
+      return null;
+    }
+    this.sampleIds.unwrap(point.sampleId);
+    this.seen.add(unwrappedSampleId);
+
+    const assembled: BLEDataPoint = {
+      ...point,
+      unwrappedTimestamp: this.timestamps.unwrap(point.timestamp),
+      unwrappedSampleId,
+    };
+
+    // Insert in sample-id order; late packets are rare and land near the end
+    let index = this.points.length;
+    while (index > 0 && this.points[index - 1].unwrappedSampleId! > unwrappedSampleId) {
+      index--;
+    }
+    if (index < this.points.length) {
+      this.outOfOrder++;
+      console.warn(`⚠️ Sample ${point.sampleId} arrived out of order`);
+    } else if (index > 0 && unwrappedSampleId - this.points[index - 1].unwrappedSampleId! > 1) {
+      console.warn(`⚠️ Missing ${unwrappedSampleId - this.points[index - 1].unwrappedSampleId! - 1} samples before ${point.sampleId}`);
+    }
+    this.points.splice(index, 0, assembled);
+    return assembled;
+  }
+
+  /**
+   * Close the recording. SESSION_END's last sample id also counts samples
+   * lost at the very end.
+   */
+  finish(lastSampleId?: number): PacketLossStats {
+    if (lastSampleId !== undefined && this.points.length > 0) {
+      this.trailingSampleId = this.sampleIds.peek(lastSampleId);
+    }
+    const stats = this.stats;
+    if (stats.missing > 0 || stats.duplicates > 0) {
+      console.log(
+        `📉 Packet loss: ${stats.missing}/${stats.expected} missing (${(stats.lossRate * 100).toFixed(1)}%),`,
+        `${stats.duplicates} duplicates, ${stats.outOfOrder} out of order`
+      );
+    }
+    return stats;
+  }
+}
+
+export const sessionAssembler = new SessionAssembler();
+
+export default SessionAssembler;
@@ -0,0 +1,164 @@
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import { StoredSession } from '@/services/SessionRepository';
+import { filterRecording, SensorFilters } from '@/services/SignalProcessing';
+import { BLEDataPoint, PacketLossStats } from '@/services/types';
+import { createZip } from '@/services/ZipArchive';
+
+export type ExportFormat = 'csv' | 'json' | 'zip';
+
+export const SESSION_EXPORT_FORMAT = 'abracadabra-sessions';
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface ExportOptions {
+  filters?: SensorFilters | null; // Applied to the samples when set; exports are raw otherwise
+  exportedAt?: Date;
+}
+
+/**
+ * A session as written to JSON exports and bundle manifests
+ */
+export interface ExportedSession {
+  id: string;
+  recordingId: string; // recording_id of this session's CSV rows
+  recordingHash: string;
+  deviceId: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  sampleCount: number;
+  primaryMovement: string | null;
+  confidence: number | null;
+  packetLoss: PacketLossStats | null;
+  prediction: PredictionResponse | null;
+  samples?: BLEDataPoint[]; // Left out of bundle manifests, which point at a CSV instead
+  file?: string;
+}
+
+export interface SessionExportDocument {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  filters: SensorFilters | null;
+  sessions: ExportedSession[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  data: string | Uint8Array;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+/**
+ * Server-style recording id, stable across exports of the same session
+ */
+export function recordingIdFor(session: StoredSession): string {
+  return `g_${session.startTime}_${session.recordingHash}`;
+}
+
+function samplesOf(session: StoredSession, options: ExportOptions): BLEDataPoint[] {
+  return options.filters ? filterRecording(session.samples, options.filters) : session.samples;
+}
+
+function describeSession(session: StoredSession, options: ExportOptions): ExportedSession {
+  const primary = session.prediction ? GestureAPI.getPrimaryMovement(session.prediction) : null;
+  return {
+    id: session.id,
+    recordingId: recordingIdFor(session),
+    recordingHash: session.recordingHash,
+    deviceId: session.deviceId,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    durationMs: session.endTime - session.startTime,
+    sampleCount: session.samples.length,
+    primaryMovement: primary?.movement ?? null,
+    confidence: primary?.confidence ?? null,
+    packetLoss: session.packetLoss ?? null,
+    prediction: session.prediction,
+    samples: samplesOf(session, options),
+  };
+}
+
+function createDocument(sessions: ExportedSession[], options: ExportOptions): SessionExportDocument {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    filters: options.filters ?? null,
+    sessions,
+  };
+}
+
+/**
+ * Samples of one or more sessions in the server's training CSV schema,
+ * each session under its own recording_id
+ */
+export function sessionsToCSV(sessions: StoredSession[], options: ExportOptions = {}): string {
+  return GestureAPI.convertToCSV(sessions.flatMap(session =>
+    GestureAPI.convertBLEDataToAPI(samplesOf(session, options), session.recordingHash, session.startTime)
+  ));
+}
+
+/**
+ * Sessions with their metadata, packet loss, predictions and samples
+ */
+export function sessionsToJSON(sessions: StoredSession[], options: ExportOptions = {}): string {
+  return JSON.stringify(createDocument(sessions.map(session => describeSession(session, options)), options), null, 2);
+}
+
+/**
+ * Zipped dataset: one server-schema CSV per session plus a manifest.json
+ * holding the session metadata and predictions
+ */
+export function createDatasetBundle(sessions: StoredSession[], options: ExportOptions = {}): Uint8Array {
+  const modifiedAt = options.exportedAt ?? new Date();
+  const files = sessions.map(session => ({
+    name: `recordings/${recordingIdFor(session)}.csv`,
+    data: sessionsToCSV([session], options),
+    modifiedAt,
+  }));
+  const manifest = createDocument(
+    sessions.map((session, index) => {
+      const { samples, ...metadata } = describeSession(session, options);
+      return { ...metadata, file: files[index].name };
+    }),
+    { ...options, exportedAt: modifiedAt }
+  );
+  return createZip([{ name: 'manifest.json', data: JSON.stringify(manifest, null, 2), modifiedAt }, ...files]);
+}
+
+/**
+ * e.g. "abracadabra-session-1a2b3c4d.csv" or "abracadabra-12-sessions-20250301-142500.zip"
+ */
+export function exportFilename(sessions: StoredSession[], format: ExportFormat, exportedAt: Date = new Date()): string {
+  if (sessions.length === 1) {
+    return `abracadabra-session-${sessions[0].recordingHash}.${format}`;
+  }
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const stamp = `${exportedAt.getFullYear()}${pad(exportedAt.getMonth() + 1)}${pad(exportedAt.getDate())}`
+    + `-${pad(exportedAt.getHours())}${pad(exportedAt.getMinutes())}${pad(exportedAt.getSeconds())}`;
+  return `abracadabra-${sessions.length}-sessions-${stamp}.${format}`;
+}
+
+export function buildExportFile(
+  sessions: StoredSession[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportFile {
+  if (sessions.length === 0) {
+    throw new Error('No sessions to export');
+  }
+  const exportedAt = options.exportedAt ?? new Date();
+  const withDate = { ...options, exportedAt };
+  const data = format === 'csv'
+    ? sessionsToCSV(sessions, withDate)
+    : format === 'json'
+      ? sessionsToJSON(sessions, withDate)
+      : createDatasetBundle(sessions, withDate);
+  return { filename: exportFilename(sessions, format, exportedAt), mimeType: MIME_TYPES[format], data };
+}
@@ -0,0 +1,167 @@
+import { SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION, SessionExportDocument } from '@/services/SessionExport';
+import { sessionRepository, SessionRepository, SessionSummary, StoredSession } from '@/services/SessionRepository';
+import { BLEDataPoint } from '@/services/types';
+
+export interface ImportFile {
+  name: string;
+  text: string;
+}
+
+export const IMPORTED_DEVICE_ID = 'imported'; // Device id of sessions imported from CSV, which doesn't record one
+
+const CSV_COLUMNS = ['rel_timestamp', 'recording_id', 'acc_x', 'acc_y', 'acc_z', 'gyro_x', 'gyro_y', 'gyro_z'] as const;
+const NUMERIC_COLUMNS = CSV_COLUMNS.filter(column => column !== 'recording_id');
+
+/**
+ * Recording hash and start time from a server recording id like "g_1700000000000_1a2b3c4d".
+ * Ids in other formats are kept whole as the hash.
+ */
+function parseRecordingId(recordingId: string): { recordingHash: string; startTime: number | null } {
+  const match = /^g_(\d+)_(.+)$/.exec(recordingId);
+  return match
+    ? { recordingHash: match[2], startTime: Number(match[1]) }
+    : { recordingHash: recordingId, startTime: null };
+}
+
+/**
+ * Samples with device-style uint16 counters, continued in the unwrapped fields
+ */
+function toDataPoints(rows: { relTimestamp: number; values: number[] }[], recordingHash: string): BLEDataPoint[] {
+  return rows.map((row, index) => ({
+    timestamp: row.relTimestamp & 0xffff,
+    sampleId: index & 0xffff,
+    acceleration: { x: row.values[0], y: row.values[1], z: row.values[2] },
+    gyroscope: { x: row.values[3], y: row.values[4], z: row.values[5] },
+    recordingHash,
+    unwrappedTimestamp: row.relTimestamp,
+    unwrappedSampleId: index,
+  }));
+}
+
+/**
+ * Sessions from a CSV in the server's training schema (as written by
+ * GestureAPI.convertToCSV), one per recording_id
+ */
+export function parseSessionsCSV(text: string, importedAt: number = Date.now()): StoredSession[] {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0].split(',').map(column => column.trim());
+  const missing = CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing column(s): ${missing.join(', ')}`);
+  }
+  const columnIndex = Object.fromEntries(CSV_COLUMNS.map(column => [column, header.indexOf(column)]));
+
+  const recordings = new Map<string, { relTimestamp: number; values: number[] }[]>();
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const cells = line.split(',');
+    const values = NUMERIC_COLUMNS.map(column => Number(cells[columnIndex[column]]));
+    if (cells.length !== header.length || values.some(value => !Number.isFinite(value))) {
+      throw new Error(`Line ${index + 2}: expected ${header.length} columns of numbers and a recording id`);
+    }
+    const recordingId = cells[columnIndex.recording_id].trim();
+    const rows = recordings.get(recordingId) ?? [];
+    rows.push({ relTimestamp: values[0], values: values.slice(1) });
+    recordings.set(recordingId, rows);
+  });
+
+  if (recordings.size === 0) {
+    throw new Error('CSV contains no samples');
+  }
+
+  return Array.from(recordings, ([recordingId, rows]) => {
+    const { recordingHash, startTime } = parseRecordingId(recordingId);
+    const start = startTime ?? importedAt;
+    const samples = toDataPoints(rows, recordingHash);
+    return {
+      id: `${recordingHash}-${start}`,
+      recordingHash,
+      deviceId: IMPORTED_DEVICE_ID,
+      startTime: start,
+      endTime: start + rows[rows.length - 1].relTimestamp - rows[0].relTimestamp,
+      samples,
+      prediction: null,
+      packetLoss: null,
+      savedAt: importedAt,
+    };
+  });
+}
+
+/**
+ * Sessions from a JSON export (see SessionExport.sessionsToJSON)
+ */
+export function parseSessionsJSON(text: string, importedAt: number = Date.now()): StoredSession[] {
+  let document: SessionExportDocument;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  if (document?.format !== SESSION_EXPORT_FORMAT || !Array.isArray(document.sessions)) {
+    throw new Error('JSON is not an Abracadabra session export');
+  }
+  if (document.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Export version ${document.version} is newer than this app supports (${SESSION_EXPORT_VERSION})`);
+  }
+
+  return document.sessions.map(session => {
+    if (!Array.isArray(session.samples)) {
+      throw new Error(`Session ${session.id} has no samples; import its CSV instead`);
+    }
+    return {
+      id: session.id,
+      recordingHash: session.recordingHash,
+      deviceId: session.deviceId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      samples: session.samples,
+      prediction: session.prediction ?? null,
+      packetLoss: session.packetLoss ?? null,
+      savedAt: importedAt,
+    };
+  });
+}
+
+/**
+ * Parse by file extension, falling back to sniffing the content
+ */
+export function parseSessionFile(file: ImportFile, importedAt?: number): StoredSession[] {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const isJSON = extension === 'json' || (extension !== 'csv' && file.text.trimStart().startsWith('{'));
+  try {
+    return isJSON ? parseSessionsJSON(file.text, importedAt) : parseSessionsCSV(file.text, importedAt);
+  } catch (error) {
+    throw new Error(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse every file before saving any, so a bad file doesn't leave a partial
+ * import behind. Sessions already in the repository are replaced.
+ */
+export async function importSessions(
+  files: ImportFile[],
+  repository: SessionRepository = sessionRepository
+): Promise<SessionSummary[]> {
+  const sessions = files.flatMap(file => parseSessionFile(file));
+  const summaries: SessionSummary[] = [];
+  for (const session of sessions) {
+    summaries.push(await repository.save(
+      {
+        id: session.recordingHash,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        isActive: false,
+        deviceId: session.deviceId,
+        samplesReceived: session.samples.length,
+        packetLoss: session.packetLoss ?? undefined,
+      },
+      session.samples,
+      session.prediction
+    ));
+  }
+  console.log(`📥 Imported ${summaries.length} session(s) from ${files.length} file(s)`);
+  return summaries;
+}
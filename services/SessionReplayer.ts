@@ -0,0 +1,202 @@
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import { CURRENT_PROTOCOL_VERSION, encodePacket } from '@/services/PacketCodec';
+import { unwrapDataPoints } from '@/services/SessionAssembler';
+import { sessionRepository, SessionRepository, StoredSession } from '@/services/SessionRepository';
+import { filterRecording, SensorFilters } from '@/services/SignalProcessing';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+export const REPLAY_DEVICE_ID = 'replay'; // Device id of sessions recorded from a replay
+
+const TICK_MS = 20;
+
+/**
+ * An encoded BLE notification and when to deliver it, in ms from the replay start
+ */
+export interface ReplayPacket {
+  atMs: number;
+  bytes: Uint8Array;
+}
+
+export type ReplayEvent =
+  | { type: 'started'; session: StoredSession; speed: number }
+  | { type: 'data'; bytes: Uint8Array }
+  | { type: 'progress'; sent: number; total: number }
+  | { type: 'finished'; session: StoredSession }
+  | { type: 'stopped'; session: StoredSession };
+
+/**
+ * The packets the device would have sent for a session: SESSION_START,
+ * one SENSOR_DATA per sample at its recorded time, and SESSION_END
+ */
+export function buildReplayPackets(session: StoredSession): ReplayPacket[] {
+  const points = unwrapDataPoints(session.samples);
+  if (points.length === 0) {
+    return [];
+  }
+  const start = points[0].unwrappedTimestamp!;
+  const end = points[points.length - 1].unwrappedTimestamp!;
+  const version = CURRENT_PROTOCOL_VERSION;
+  const sampleRateHz = end > start ? Math.round(((points.length - 1) * 1000) / (end - start)) : null;
+
+  return [
+    {
+      atMs: 0,
+      bytes: encodePacket({
+        type: 'SESSION_START',
+        version,
+        timestamp: points[0].timestamp,
+        sampleId: points[0].sampleId,
+        recordingHash: session.recordingHash,
+        sampleRateHz,
+      }),
+    },
+    ...points.map(point => ({
+      atMs: point.unwrappedTimestamp! - start,
+      bytes: encodePacket({
+        type: 'SENSOR_DATA',
+        version,
+        timestamp: point.timestamp,
+        sampleId: point.sampleId,
+        acceleration: point.acceleration,
+        gyroscope: point.gyroscope,
+      }),
+    })),
+    {
+      atMs: end - start,
+      bytes: encodePacket({
+        type: 'SESSION_END',
+        version,
+        timestamp: points[points.length - 1].timestamp,
+        sampleId: points[points.length - 1].sampleId,
+        durationMs: end - start,
+        lastSampleId: points[points.length - 1].sampleId,
+        recordingHash: session.recordingHash,
+        totalSamples: points.length,
+      }),
+    },
+  ];
+}
+
+/**
+ * Run a stored session through GestureAPI.predictGesture again, e.g. after
+ * a model update, and keep the new prediction
+ */
+export async function repredictSession(
+  session: StoredSession,
+  filters: SensorFilters | null = null,
+  repository: SessionRepository = sessionRepository
+): Promise<PredictionResponse> {
+  const samples = filters ? filterRecording(session.samples, filters) : session.samples;
+  const data = GestureAPI.convertBLEDataToAPI(samples, session.recordingHash, session.startTime);
+  const prediction = await GestureAPI.predictGesture(data, session.packetLoss ?? undefined);
+  await repository.setPrediction(session.id, prediction);
+  return prediction;
+}
+
+interface ActiveReplay {
+  session: StoredSession;
+  speed: number;
+  packets: ReplayPacket[];
+  sent: number;
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Plays stored sessions back as BLE notifications, at recorded or
+ * accelerated speed, so the dashboard can run without the Arduino
+ */
+export class SessionReplayer {
+  private listeners = new Set<(event: ReplayEvent) => void>();
+  private active: ActiveReplay | null = null;
+
+  get isReplaying(): boolean {
+    return this.active !== null;
+  }
+
+  get session(): StoredSession | null {
+    return this.active?.session ?? null;
+  }
+
+  start(session: StoredSession, speed = 1) {
+    if (this.active) {
+      throw new Error('A replay is already running');
+    }
+    if (!(speed > 0)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+    const packets = buildReplayPackets(session);
+    if (packets.length === 0) {
+      throw new Error('Session has no samples to replay');
+    }
+
+    console.log(`⏯️ Replaying ${session.id} at ${speed}x (${session.samples.length} samples)`);
+    this.active = { session, speed, packets, sent: 0, startedAt: Date.now(), timer: null };
+    this.emit({ type: 'started', session, speed });
+    this.tick();
+  }
+
+  stop() {
+    const replay = this.active;
+    if (!replay) {
+      return;
+    }
+    if (replay.timer) {
+      clearTimeout(replay.timer);
+    }
+    this.active = null;
+    console.log(`⏹️ Replay stopped after ${replay.sent} of ${replay.packets.length} packets`);
+    this.emit({ type: 'stopped', session: replay.session });
+  }
+
+  /**
+   * Subscribe to replay events. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: ReplayEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private tick() {
+    const replay = this.active!;
+    replay.timer = null;
+    const elapsed = (Date.now() - replay.startedAt) * replay.speed;
+    const before = replay.sent;
+
+    while (replay.sent < replay.packets.length && replay.packets[replay.sent].atMs <= elapsed) {
+      this.emit({ type: 'data', bytes: replay.packets[replay.sent].bytes });
+      replay.sent++;
+      if (this.active !== replay) {
+        return; // Stopped by a listener
+      }
+    }
+
+    if (replay.sent > before) {
+      this.emit({ type: 'progress', sent: replay.sent, total: replay.packets.length });
+    }
+
+    if (replay.sent === replay.packets.length) {
+      this.active = null;
+      this.emit({ type: 'finished', session: replay.session });
+    } else {
+      replay.timer = setTimeout(() => this.tick(), TICK_MS);
+    }
+  }
+
+  private emit(event: ReplayEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('SessionReplayer listener error:', error);
+      }
+    });
+  }
+}
+
+export const sessionReplayer = new SessionReplayer();
+
+export default SessionReplayer;
@@ -0,0 +1,273 @@
+import { GestureAPI, PredictionResponse } from '@/services/GestureAPI';
+import { defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+import { BLEDataPoint, GestureSession, PacketLossStats } from '@/services/types';
+
+/**
+ * A completed recording with its samples and (once available) the model's prediction
+ */
+export interface StoredSession {
+  id: string;
+  recordingHash: string;
+  deviceId: string;
+  startTime: number;
+  endTime: number;
+  samples: BLEDataPoint[];
+  prediction: PredictionResponse | null;
+  packetLoss?: PacketLossStats | null; // Missing for sessions saved before loss tracking
+  groupId?: string; // Shared by sessions recorded together on several sensors
+  savedAt: number;
+}
+
+/**
+ * Lightweight listing entry, kept in a separate index so browsing
+ * sessions never loads the sample arrays
+ */
+export interface SessionSummary {
+  id: string;
+  recordingHash: string;
+  deviceId: string;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  sampleCount: number;
+  primaryMovement: string | null;
+  confidence: number | null;
+  packetLoss?: PacketLossStats | null; // Missing for sessions saved before loss tracking
+  groupId?: string;
+  savedAt: number;
+}
+
+const DEFAULT_PREFIX = 'abracadabra:sessions';
+
+export type SessionDateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface SessionFilter {
+  label?: string | null; // Detected primary movement
+  range?: SessionDateRange;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rangeStart(range: SessionDateRange, now: number): number {
+  switch (range) {
+    case 'today': {
+      const startOfDay = new Date(now);
+      startOfDay.setHours(0, 0, 0, 0);
+      return startOfDay.getTime();
+    }
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+    default:
+      return -Infinity;
+  }
+}
+
+/**
+ * Filter summaries by detected gesture label and recording date
+ */
+export function filterSessions(
+  sessions: SessionSummary[],
+  filter: SessionFilter,
+  now: number = Date.now()
+): SessionSummary[] {
+  const since = rangeStart(filter.range ?? 'all', now);
+  return sessions.filter(session =>
+    (!filter.label || session.primaryMovement === filter.label) && session.startTime >= since
+  );
+}
+
+/**
+ * Distinct detected gesture labels, alphabetically
+ */
+export function sessionLabels(sessions: SessionSummary[]): string[] {
+  const labels = new Set<string>();
+  sessions.forEach(session => {
+    if (session.primaryMovement) labels.add(session.primaryMovement);
+  });
+  return Array.from(labels).sort();
+}
+
+function summarize(session: StoredSession): SessionSummary {
+  const primary = session.prediction ? GestureAPI.getPrimaryMovement(session.prediction) : null;
+  return {
+    id: session.id,
+    recordingHash: session.recordingHash,
+    deviceId: session.deviceId,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    durationMs: session.endTime - session.startTime,
+    sampleCount: session.samples.length,
+    primaryMovement: primary?.movement ?? null,
+    confidence: primary?.confidence ?? null,
+    packetLoss: session.packetLoss ?? null,
+    ...(session.groupId && { groupId: session.groupId }),
+    savedAt: session.savedAt,
+  };
+}
+
+export class SessionRepository {
+  private listeners = new Set<() => void>();
+  // Serializes index read-modify-write cycles
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageAdapter = defaultStorage,
+    private readonly prefix: string = DEFAULT_PREFIX
+  ) {}
+
+  private get indexKey() {
+    return `${this.prefix}:index`;
+  }
+
+  private sessionKey(id: string) {
+    return `${this.prefix}:${id}`;
+  }
+
+  /**
+   * Subscribe to changes of the stored sessions. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('SessionRepository listener error:', error);
+      }
+    });
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private readIndex(): Promise<SessionSummary[]> {
+    return readJSON<SessionSummary[]>(this.storage, this.indexKey, []);
+  }
+
+  /**
+   * Persist a completed session. The recording hash is not unique across
+   * recordings, so the stored id also includes the start time.
+   */
+  save(
+    session: GestureSession,
+    samples: BLEDataPoint[],
+    prediction: PredictionResponse | null = null
+  ): Promise<SessionSummary> {
+    return this.exclusive(async () => {
+      const stored: StoredSession = {
+        id: `${session.id}-${session.startTime}`,
+        recordingHash: session.id,
+        deviceId: session.deviceId,
+        startTime: session.startTime,
+        endTime: session.endTime ?? Date.now(),
+        samples,
+        prediction,
+        packetLoss: session.packetLoss ?? null,
+        ...(session.groupId && { groupId: session.groupId }),
+        savedAt: Date.now(),
+      };
+      const summary = summarize(stored);
+
+      await writeJSON(this.storage, this.sessionKey(stored.id), stored);
+      const index = (await this.readIndex()).filter(entry => entry.id !== stored.id);
+      await writeJSON(this.storage, this.indexKey, [summary, ...index]);
+
+      console.log('💾 Session saved:', stored.id, `(${samples.length} samples)`);
+      this.notify();
+      return summary;
+    });
+  }
+
+  /**
+   * Attach the prediction that arrived after the session was saved
+   */
+  setPrediction(id: string, prediction: PredictionResponse): Promise<SessionSummary | null> {
+    return this.exclusive(async () => {
+      const stored = await readJSON<StoredSession | null>(this.storage, this.sessionKey(id), null);
+      if (!stored) {
+        return null;
+      }
+
+      const updated = { ...stored, prediction };
+      const summary = summarize(updated);
+      await writeJSON(this.storage, this.sessionKey(id), updated);
+      const index = await this.readIndex();
+      await writeJSON(
+        this.storage,
+        this.indexKey,
+        index.map(entry => (entry.id === id ? summary : entry))
+      );
+
+      this.notify();
+      return summary;
+    });
+  }
+
+  /**
+   * All stored sessions, newest first
+   */
+  async list(): Promise<SessionSummary[]> {
+    const index = await this.readIndex();
+    return [...index].sort((a, b) => b.startTime - a.startTime);
+  }
+
+  async get(id: string): Promise<StoredSession | null> {
+    return readJSON<StoredSession | null>(this.storage, this.sessionKey(id), null);
+  }
+
+  /**
+   * Sessions recorded together on several sensors, ordered by device id
+   */
+  async getGroup(groupId: string): Promise<StoredSession[]> {
+    const members = (await this.readIndex()).filter(entry => entry.groupId === groupId);
+    const sessions = await Promise.all(members.map(entry => this.get(entry.id)));
+    return sessions
+      .filter((session): session is StoredSession => session !== null)
+      .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const index = await this.readIndex();
+      const remaining = index.filter(entry => entry.id !== id);
+      await this.storage.removeItem(this.sessionKey(id));
+      if (remaining.length === index.length) {
+        return false;
+      }
+
+      await writeJSON(this.storage, this.indexKey, remaining);
+      this.notify();
+      return true;
+    });
+  }
+
+  /**
+   * Delete every stored session
+   */
+  purge(): Promise<number> {
+    return this.exclusive(async () => {
+      const index = await this.readIndex();
+      await Promise.all(index.map(entry => this.storage.removeItem(this.sessionKey(entry.id))));
+      await this.storage.removeItem(this.indexKey);
+
+      console.log('🗑️ Purged', index.length, 'stored sessions');
+      this.notify();
+      return index.length;
+    });
+  }
+}
+
+export const sessionRepository = new SessionRepository();
+
+export default SessionRepository;
@@ -0,0 +1,128 @@
+import { API_CONFIG, API_ENVIRONMENTS, ApiEnvironmentId } from '@/constants/API';
+import type { SensorFilters } from '@/services/SignalProcessing';
+import { defaultStorage, readJSON, StorageAdapter, writeJSON } from '@/services/Storage';
+
+/**
+ * Where gesture predictions are computed
+ */
+export type PredictionEngine = 'remote' | 'local' | 'remote-with-local-fallback';
+
+export const PREDICTION_ENGINES: PredictionEngine[] = ['remote', 'local', 'remote-with-local-fallback'];
+
+export interface AppSettings {
+  predictionEngine: PredictionEngine;
+  streamingRecognition: boolean; // Provisional results while a session is still recording
+  apiEnvironment: ApiEnvironmentId;
+  localApiUrl: string; // Base URL of the "local" environment, e.g. http://192.168.1.20:8000
+  stagingApiUrl: string; // Base URL of the "staging" environment; empty until the user sets one
+  localModelUrl: string; // Where the on-device model file exported from the server is downloaded from
+  chartFilters: SensorFilters; // Applied to the live charts
+  filterRecordings: boolean; // Also apply chartFilters to recordings before prediction and export
+  simulatedDevice: boolean; // Connect to the in-app simulated AbracadabraIMU instead of Bluetooth
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  predictionEngine: 'remote-with-local-fallback',
+  streamingRecognition: false,
+  apiEnvironment: API_CONFIG.DEFAULT_ENVIRONMENT,
+  localApiUrl: API_ENVIRONMENTS.local.baseUrl,
+  stagingApiUrl: API_ENVIRONMENTS.staging.baseUrl,
+  localModelUrl: '',
+  chartFilters: { acceleration: [], gyroscope: [] },
+  filterRecordings: false,
+  simulatedDevice: false,
+};
+
+/**
+ * Base URL of an environment, honoring the user's local and staging server
+ * addresses. Empty when the environment has no URL yet.
+ */
+export function resolveApiBaseUrl(
+  settings: AppSettings,
+  environment: ApiEnvironmentId = settings.apiEnvironment
+): string {
+  if (environment === 'local') {
+    return settings.localApiUrl.trim() || API_ENVIRONMENTS.local.baseUrl;
+  }
+  if (environment === 'staging') {
+    return settings.stagingApiUrl.trim();
+  }
+  return (API_ENVIRONMENTS[environment] ?? API_ENVIRONMENTS[API_CONFIG.DEFAULT_ENVIRONMENT]).baseUrl;
+}
+
+const DEFAULT_KEY = 'abracadabra:settings';
+
+/**
+ * User preferences persisted across launches. Values missing from storage
+ * (e.g. settings added in a later version) fall back to DEFAULT_SETTINGS.
+ */
+export class SettingsStore {
+  private listeners = new Set<(settings: AppSettings) => void>();
+  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly storage: StorageAdapter = defaultStorage,
+    private readonly key: string = DEFAULT_KEY
+  ) {}
+
+  /**
+   * Settings as last loaded or updated; defaults until `load` resolves
+   */
+  get current(): AppSettings {
+    return this.settings;
+  }
+
+  /**
+   * Subscribe to settings changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (settings: AppSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.settings);
+      } catch (error) {
+        console.error('SettingsStore listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Read persisted settings once; later calls resolve with the current settings.
+   * A failed read is retried on the next call.
+   */
+  load(): Promise<AppSettings> {
+    if (!this.loading) {
+      this.loading = readJSON<Partial<AppSettings>>(this.storage, this.key, {}).then(
+        stored => {
+          this.settings = { ...DEFAULT_SETTINGS, ...stored };
+          this.notify();
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        }
+      );
+    }
+    return this.loading.then(() => this.settings);
+  }
+
+  async update(changes: Partial<AppSettings>): Promise<AppSettings> {
+    await this.load();
+    this.settings = { ...this.settings, ...changes };
+    await writeJSON(this.storage, this.key, this.settings);
+    console.log('⚙️ Settings updated:', changes);
+    this.notify();
+    return this.settings;
+  }
+}
+
+export const settingsStore = new SettingsStore();
+
+export default SettingsStore;
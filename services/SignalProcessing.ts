@@ -0,0 +1,239 @@
+import { PREPROCESSING_CONFIG } from '@/constants/API';
+import {
+  conjugate,
+  cross,
+  fromAxisAngle,
+  IDENTITY,
+  MahonyFilter,
+  Quaternion,
+  rotateVector,
+  Vector3,
+} from '@/services/orientation';
+import { BLEDataPoint } from '@/services/types';
+
+/**
+ * Streaming filters for the IMU channels. Each stage keeps its own state,
+ * so a chain must see the samples of one recording in order.
+ */
+
+export type SignalFilterSpec =
+  | { type: 'low-pass'; cutoffHz: number }
+  | { type: 'high-pass'; cutoffHz: number }
+  | { type: 'moving-average'; windowSize: number }
+  | { type: 'gravity-removal' }; // Acceleration only; subtracts gravity along the estimated orientation
+
+export type SignalFilterType = SignalFilterSpec['type'];
+
+export type SensorChannel = 'acceleration' | 'gyroscope';
+
+/**
+ * Filter chain per sensor, applied in order
+ */
+export type SensorFilters = Record<SensorChannel, SignalFilterSpec[]>;
+
+export const SIGNAL_FILTER_DEFAULTS: Record<SignalFilterType, SignalFilterSpec> = {
+  'gravity-removal': { type: 'gravity-removal' },
+  'high-pass': { type: 'high-pass', cutoffHz: 0.5 },
+  'low-pass': { type: 'low-pass', cutoffHz: 5 },
+  'moving-average': { type: 'moving-average', windowSize: 5 },
+};
+
+export const NO_FILTERS: SensorFilters = { acceleration: [], gyroscope: [] };
+
+interface Stage {
+  process(value: Vector3, point: BLEDataPoint): Vector3;
+}
+
+/**
+ * Second-order Butterworth section (RBJ cookbook coefficients), primed with
+ * the first input so a constant signal produces no start-up transient
+ */
+class Biquad {
+  private b: [number, number, number];
+  private a: [number, number];
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+  private primed = false;
+
+  constructor(kind: 'low-pass' | 'high-pass', cutoffHz: number, sampleRateHz: number) {
+    if (!(cutoffHz > 0 && cutoffHz < sampleRateHz / 2)) {
+      throw new Error(`Cutoff ${cutoffHz}Hz must be between 0 and ${sampleRateHz / 2}Hz`);
+    }
+    const w0 = (2 * Math.PI * cutoffHz) / sampleRateHz;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / Math.SQRT2; // Q = 1/√2
+    const a0 = 1 + alpha;
+    const b = kind === 'low-pass'
+      ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+      : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+    this.b = [b[0] / a0, b[1] / a0, b[2] / a0];
+    this.a = [(-2 * cos) / a0, (1 - alpha) / a0];
+  }
+
+  process(x: number): number {
+    if (!this.primed) {
+      const dcGain = (this.b[0] + this.b[1] + this.b[2]) / (1 + this.a[0] + this.a[1]);
+      this.x1 = this.x2 = x;
+      this.y1 = this.y2 = x * dcGain;
+      this.primed = true;
+    }
+    const y = this.b[0] * x + this.b[1] * this.x1 + this.b[2] * this.x2 - this.a[0] * this.y1 - this.a[1] * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+class MovingAverage {
+  private window: number[] = [];
+  private sum = 0;
+
+  constructor(private readonly size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid moving-average window: ${size}`);
+    }
+  }
+
+  process(x: number): number {
+    this.window.push(x);
+    this.sum += x;
+    if (this.window.length > this.size) {
+      this.sum -= this.window.shift()!;
+    }
+    return this.sum / this.window.length;
+  }
+}
+
+function perAxis(create: () => { process(x: number): number }): Stage {
+  const axes = { x: create(), y: create(), z: create() };
+  return {
+    process: value => ({ x: axes.x.process(value.x), y: axes.y.process(value.y), z: axes.z.process(value.z) }),
+  };
+}
+
+/**
+ * Orientation that rotates the body-frame gravity reading onto world z
+ */
+function tiltFromGravity(acceleration: Vector3): Quaternion {
+  const norm = Math.hypot(acceleration.x, acceleration.y, acceleration.z);
+  if (norm === 0) {
+    return IDENTITY;
+  }
+  const down = { x: acceleration.x / norm, y: acceleration.y / norm, z: acceleration.z / norm };
+  if (down.z <= -1 + 1e-9) {
+    return fromAxisAngle({ x: 1, y: 0, z: 0 }, Math.PI); // Upside down; any horizontal axis works
+  }
+  return fromAxisAngle(cross(down, { x: 0, y: 0, z: 1 }), Math.acos(Math.max(-1, Math.min(1, down.z))));
+}
+
+class GravityRemoval implements Stage {
+  private readonly orientation = new MahonyFilter();
+  private started = false;
+
+  process(value: Vector3, point: BLEDataPoint): Vector3 {
+    // Orientation follows the raw readings, whatever earlier stages did to `value`
+    if (!this.started) {
+      this.orientation.reset(tiltFromGravity(point.acceleration));
+      this.started = true;
+    }
+    const gravity = rotateVector(conjugate(this.orientation.update(point).quaternion), { x: 0, y: 0, z: 1 });
+    return { x: value.x - gravity.x, y: value.y - gravity.y, z: value.z - gravity.z };
+  }
+}
+
+function createStage(spec: SignalFilterSpec, sampleRateHz: number): Stage {
+  switch (spec.type) {
+    case 'low-pass':
+    case 'high-pass':
+      return perAxis(() => new Biquad(spec.type, spec.cutoffHz, sampleRateHz));
+    case 'moving-average':
+      return perAxis(() => new MovingAverage(spec.windowSize));
+    case 'gravity-removal':
+      return new GravityRemoval();
+  }
+}
+
+/**
+ * Runs each sensor's filter chain over a stream of samples
+ */
+export class SignalProcessor {
+  private stages: Record<SensorChannel, Stage[]> = { acceleration: [], gyroscope: [] };
+
+  constructor(
+    readonly filters: SensorFilters,
+    readonly sampleRateHz: number = PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ
+  ) {
+    if (filters.gyroscope.some(spec => spec.type === 'gravity-removal')) {
+      throw new Error('Gravity removal only applies to acceleration');
+    }
+    this.reset();
+  }
+
+  get isPassthrough(): boolean {
+    return this.filters.acceleration.length === 0 && this.filters.gyroscope.length === 0;
+  }
+
+  /**
+   * Forget filter state, e.g. at the start of a new recording
+   */
+  reset() {
+    this.stages = {
+      acceleration: this.filters.acceleration.map(spec => createStage(spec, this.sampleRateHz)),
+      gyroscope: this.filters.gyroscope.map(spec => createStage(spec, this.sampleRateHz)),
+    };
+  }
+
+  process(point: BLEDataPoint): BLEDataPoint {
+    const run = (channel: SensorChannel) =>
+      this.stages[channel].reduce((value, stage) => stage.process(value, point), point[channel]);
+    return { ...point, acceleration: run('acceleration'), gyroscope: run('gyroscope') };
+  }
+}
+
+/**
+ * Rate of a stream from the median interval between its device timestamps,
+ * or null when fewer than two samples have distinct times
+ */
+export function estimateSampleRate(points: BLEDataPoint[]): number | null {
+  const intervals = points
+    .slice(1)
+    .map((point, index) =>
+      (point.unwrappedTimestamp ?? point.timestamp) - (points[index].unwrappedTimestamp ?? points[index].timestamp)
+    )
+    .sort((a, b) => a - b);
+  const median = intervals[Math.floor((intervals.length - 1) / 2)];
+  return median > 0 ? 1000 / median : null;
+}
+
+/**
+ * Filter a whole recording from a fresh state, designed for the recording's
+ * own rate unless one is given
+ */
+export function filterRecording(
+  points: BLEDataPoint[],
+  filters: SensorFilters,
+  sampleRateHz: number = estimateSampleRate(points) ?? PREPROCESSING_CONFIG.DEFAULT_SAMPLE_RATE_HZ
+): BLEDataPoint[] {
+  const processor = new SignalProcessor(filters, sampleRateHz);
+  return processor.isPassthrough ? points : points.map(point => processor.process(point));
+}
+
+/**
+ * Short label for a filter, e.g. "Low-pass 5Hz"
+ */
+export function describeFilter(spec: SignalFilterSpec): string {
+  switch (spec.type) {
+    case 'low-pass':
+      return `Low-pass ${spec.cutoffHz}Hz`;
+    case 'high-pass':
+      return `High-pass ${spec.cutoffHz}Hz`;
+    case 'moving-average':
+      return `Moving average ×${spec.windowSize}`;
+    case 'gravity-removal':
+      return 'Gravity removed';
+  }
+}
@@ -0,0 +1,63 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Key-value persistence used by repositories. AsyncStorage satisfies it on
+ * device and web; tests swap in MemoryStorageAdapter.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  get keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+}
+
+export const defaultStorage: StorageAdapter = AsyncStorage;
+
+/**
+ * Read and parse a JSON value, falling back when it is missing or corrupt
+ */
+export async function readJSON<T>(storage: StorageAdapter, key: string, fallback: T): Promise<T> {
+  const raw = await storage.getItem(key);
+  if (raw === null) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Corrupt JSON in storage key ${key}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeJSON(storage: StorageAdapter, key: string, value: unknown): Promise<void> {
+  await storage.setItem(key, JSON.stringify(value));
+}
+
+export default defaultStorage;
+
+/**
+ * Ids for stored records: creation time plus a counter, unique within one store
+ */
+export function createIdGenerator(now: () => number = Date.now): () => string {
+  let nextId = 0;
+  return () => `${now().toString(36)}-${(nextId++).toString(36)}`;
+}
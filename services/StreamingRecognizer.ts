@@ -0,0 +1,286 @@
+import { STREAMING_CONFIG } from '@/constants/API';
+import { GestureAPI, IMUDataPoint, PredictionResponse, PrimaryMovement, WindowParams } from '@/services/GestureAPI';
+import { BLEDataPoint } from '@/services/types';
+
+/**
+ * A run of consecutive windows classified as the same movement
+ */
+export interface ProvisionalGesture {
+  movement: string;
+  confidence: number; // Mean over the run's windows
+  startTime: number; // Seconds from session start
+  endTime: number;
+  windowCount: number;
+}
+
+/**
+ * Live results checked against the final prediction. A provisional gesture
+ * is confirmed when a final segment of the same movement overlaps it.
+ */
+export interface Reconciliation {
+  final: PredictionResponse | null;
+  confirmed: ProvisionalGesture[];
+  rejected: ProvisionalGesture[];
+  missed: PredictionResponse['detailed_segments']; // Final segments never seen live
+}
+
+export type RecognitionEvent =
+  | { type: 'started'; recordingHash: string; windowParams: WindowParams }
+  | { type: 'provisional'; gesture: ProvisionalGesture; isNew: boolean }
+  | { type: 'windowError'; error: unknown }
+  | { type: 'reconciled'; reconciliation: Reconciliation };
+
+export type WindowClassifier = (points: IMUDataPoint[]) => Promise<PrimaryMovement | null>;
+
+/**
+ * Match provisional gestures with the segments of the final prediction
+ */
+export function reconcile(provisional: ProvisionalGesture[], final: PredictionResponse | null): Reconciliation {
+  if (!final) {
+    return { final, confirmed: [], rejected: [], missed: [] };
+  }
+
+  const overlaps = (gesture: ProvisionalGesture, segment: PredictionResponse['detailed_segments'][number]) =>
+    gesture.movement === segment.movement &&
+    gesture.startTime < segment.end_time &&
+    segment.start_time < gesture.endTime;
+
+  const segments = final.detailed_segments ?? [];
+  return {
+    final,
+    confirmed: provisional.filter(gesture => segments.some(segment => overlaps(gesture, segment))),
+    rejected: provisional.filter(gesture => !segments.some(segment => overlaps(gesture, segment))),
+    missed: segments.filter(segment => !provisional.some(gesture => overlaps(gesture, segment))),
+  };
+}
+
+/**
+ * Runs sliding windows over SENSOR_DATA samples while a session records,
+ * emitting provisional gestures before SESSION_END. Windows are laid out in
+ * time from the sample timestamps, so they span the same duration whatever
+ * rate the device streams at. Windows that become ready while a
+ * classification is in flight are coalesced: only the newest one is
+ * classified next, so a slow remote model never builds a backlog.
+ */
+export class StreamingRecognizer {
+  private listeners = new Set<(event: RecognitionEvent) => void>();
+  private params: WindowParams = { ...STREAMING_CONFIG.DEFAULT_WINDOW_PARAMS };
+  private points: IMUDataPoint[] = []; // Only samples a later window can still use
+  private firstTimestamp: number | null = null; // Window offsets are measured from here
+  private sampleCount = 0;
+  private gestures: ProvisionalGesture[] = [];
+  private recordingId = '';
+  private nextWindowStart = 0; // ms from the first sample
+  private pendingStart: number | null = null;
+  private inFlight = false;
+  private active = false;
+  private generation = 0; // Invalidates classifications that finish after the session
+
+  constructor(private readonly classifyWindow: WindowClassifier = points => GestureAPI.classifyWindow(points)) {}
+
+  get windowParams(): WindowParams {
+    return this.params;
+  }
+
+  get provisional(): ProvisionalGesture[] {
+    return this.gestures;
+  }
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Changes whenever a session starts or ends, so a caller finishing a
+   * session later can check it is still the same one
+   */
+  get session(): number {
+    return this.generation;
+  }
+
+  /**
+   * Adopt the window layout the server (or on-device model) reports.
+   * Takes effect from the next session.
+   */
+  setWindowParams(params: WindowParams) {
+    if (params.sample_rate_hz > 0 && params.window_size_ms > 0 && params.overlap_ms >= 0 && params.overlap_ms < params.window_size_ms) {
+      this.params = { ...params };
+    }
+  }
+
+  /**
+   * Subscribe to recognition events. Returns an unsubscribe function.
+   */
+  subscribe(listener: (event: RecognitionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: RecognitionEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('StreamingRecognizer listener error:', error);
+      }
+    });
+  }
+
+  private get windowStep(): number {
+    return this.params.window_size_ms - this.params.overlap_ms;
+  }
+
+  start(recordingHash: string) {
+    this.reset();
+    this.active = true;
+    this.recordingId = `g_${Date.now()}_${recordingHash}`;
+    console.log('📡 Streaming recognition started:', this.params);
+    this.emit({ type: 'started', recordingHash, windowParams: this.params });
+  }
+
+  push(point: BLEDataPoint) {
+    if (!this.active) {
+      return;
+    }
+
+    const timestamp = point.unwrappedTimestamp ?? point.timestamp;
+    if (this.firstTimestamp === null) {
+      this.firstTimestamp = timestamp;
+    }
+    this.sampleCount++;
+    this.points.push({
+      rel_timestamp: timestamp,
+      recording_id: this.recordingId,
+      acc_x: point.acceleration.x,
+      acc_y: point.acceleration.y,
+      acc_z: point.acceleration.z,
+      gyro_x: point.gyroscope.x,
+      gyro_y: point.gyroscope.y,
+      gyro_z: point.gyroscope.z,
+    });
+
+    if (this.sampleCount < 2) {
+      return;
+    }
+    const elapsed = timestamp - this.firstTimestamp;
+    // A window is full once the next sample would fall past its end
+    const interval = elapsed / (this.sampleCount - 1);
+    while (elapsed + interval >= this.nextWindowStart + this.params.window_size_ms) {
+      this.pendingStart = this.nextWindowStart;
+      this.nextWindowStart += this.windowStep;
+    }
+    this.classifyPending();
+  }
+
+  private classifyPending() {
+    if (this.inFlight || this.pendingStart === null) {
+      return;
+    }
+
+    const start = this.pendingStart;
+    const end = start + this.params.window_size_ms;
+    const generation = this.generation;
+    const firstTimestamp = this.firstTimestamp!;
+    const window = this.points.filter(point => {
+      const offset = point.rel_timestamp - firstTimestamp;
+      return offset >= start && offset < end;
+    });
+    this.pendingStart = null;
+    // Later windows start at nextWindowStart or after it
+    this.points = this.points.filter(point => point.rel_timestamp - firstTimestamp >= this.nextWindowStart);
+    if (window.length === 0) {
+      return; // Nothing arrived during the window
+    }
+    this.inFlight = true;
+
+    this.classifyWindow(window)
+      .then(result => {
+        if (generation === this.generation && result) {
+          this.record(result, start / 1000, end / 1000);
+        }
+      })
+      .catch(error => {
+        if (generation === this.generation) {
+          console.error('💥 Streaming window classification failed:', error);
+          this.emit({ type: 'windowError', error });
+        }
+      })
+      .finally(() => {
+        if (generation === this.generation) {
+          this.inFlight = false;
+          this.classifyPending();
+        }
+      });
+  }
+
+  private record(result: PrimaryMovement, startTime: number, endTime: number) {
+    const last = this.gestures[this.gestures.length - 1];
+    if (last && last.movement === result.movement && startTime <= last.endTime) {
+      const extended: ProvisionalGesture = {
+        ...last,
+        confidence: (last.confidence * last.windowCount + result.confidence) / (last.windowCount + 1),
+        endTime,
+        windowCount: last.windowCount + 1,
+      };
+      this.gestures = [...this.gestures.slice(0, -1), extended];
+      this.emit({ type: 'provisional', gesture: extended, isNew: false });
+      return;
+    }
+
+    const gesture: ProvisionalGesture = {
+      movement: result.movement,
+      confidence: result.confidence,
+      startTime,
+      endTime,
+      windowCount: 1,
+    };
+    this.gestures = [...this.gestures, gesture];
+    console.log(`⚡ Provisional gesture: ${gesture.movement} (${(gesture.confidence * 100).toFixed(1)}%)`);
+    this.emit({ type: 'provisional', gesture, isNew: true });
+  }
+
+  /**
+   * End the session and check the live results against the final
+   * prediction (null when the final analysis failed). The final response's
+   * window_params are adopted for the next session.
+   */
+  finish(final: PredictionResponse | null): Reconciliation {
+    const reconciliation = reconcile(this.gestures, final);
+    this.active = false;
+    this.generation++;
+    this.inFlight = false;
+    this.pendingStart = null;
+
+    if (final?.window_params) {
+      this.setWindowParams(final.window_params);
+    }
+
+    console.log(
+      `📡 Streaming recognition reconciled: ${reconciliation.confirmed.length} confirmed, ` +
+      `${reconciliation.rejected.length} rejected, ${reconciliation.missed.length} missed`
+    );
+    this.emit({ type: 'reconciled', reconciliation });
+    return reconciliation;
+  }
+
+  /**
+   * Drop the current session without reconciling it
+   */
+  reset() {
+    this.generation++;
+    this.active = false;
+    this.inFlight = false;
+    this.pendingStart = null;
+    this.points = [];
+    this.firstTimestamp = null;
+    this.sampleCount = 0;
+    this.gestures = [];
+    this.nextWindowStart = 0;
+  }
+}
+
+export const streamingRecognizer = new StreamingRecognizer();
+
+export default StreamingRecognizer;
@@ -0,0 +1,230 @@
+import { TRAINING_CONFIG } from '@/constants/API';
+import { GestureAPI, TrainingBatch, TrainingResponse } from '@/services/GestureAPI';
+import { mergePacketLoss } from '@/services/SessionAssembler';
+import { BLEDataPoint, GestureSession, PacketLossStats } from '@/services/types';
+
+/**
+ * One repetition of the gesture being trained, held until it is uploaded or discarded
+ */
+export interface TrainingTake {
+  id: string;
+  recordingHash: string;
+  deviceId: string;
+  capturedAt: number;
+  durationMs: number;
+  samples: BLEDataPoint[];
+  packetLoss: PacketLossStats | null;
+}
+
+export interface TrainingCaptureState {
+  label: string | null;
+  targetRepetitions: number;
+  takes: TrainingTake[];
+  isRecording: boolean;
+  isUploading: boolean;
+  lastResult: TrainingResponse | null;
+  error: string | null;
+}
+
+export type TrainingUploader = (batch: TrainingBatch) => Promise<TrainingResponse>;
+
+/**
+ * Split takes into labeled CSV batches of at most `batchSize` recordings each
+ */
+export function createTrainingBatches(
+  label: string,
+  takes: TrainingTake[],
+  batchSize: number = TRAINING_CONFIG.UPLOAD_BATCH_SIZE
+): TrainingBatch[] {
+  const batches: TrainingBatch[] = [];
+  for (let i = 0; i < takes.length; i += batchSize) {
+    const batch = takes.slice(i, i + batchSize);
+    const packetLoss = batch.flatMap(take => (take.packetLoss ? [take.packetLoss] : []));
+    batches.push({
+      label,
+      data: batch.flatMap(take => GestureAPI.convertBLEDataToAPI(take.samples, take.id)),
+      ...(packetLoss.length > 0 ? { packetLoss: mergePacketLoss(packetLoss) } : {}),
+    });
+  }
+  return batches;
+}
+
+/**
+ * Collects labeled repetitions while training mode is on. The dashboard
+ * hands every completed recording to `addTake` instead of analyzing it.
+ */
+export class TrainingCapture {
+  private listeners = new Set<(state: TrainingCaptureState) => void>();
+  private current: TrainingCaptureState = {
+    label: null,
+    targetRepetitions: TRAINING_CONFIG.DEFAULT_REPETITIONS,
+    takes: [],
+    isRecording: false,
+    isUploading: false,
+    lastResult: null,
+    error: null,
+  };
+  private takeCounter = 0;
+
+  constructor(private readonly uploader: TrainingUploader = batch => GestureAPI.trainModel(batch)) {}
+
+  get state(): TrainingCaptureState {
+    return this.current;
+  }
+
+  get isRecording(): boolean {
+    return this.current.isRecording;
+  }
+
+  /**
+   * Subscribe to capture state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (state: TrainingCaptureState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(changes: Partial<TrainingCaptureState>) {
+    this.current = { ...this.current, ...changes };
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.current);
+      } catch (error) {
+        console.error('TrainingCapture listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Start recording repetitions for `label`. Takes already captured for a
+   * different label are dropped.
+   */
+  start(label: string, targetRepetitions: number = this.current.targetRepetitions) {
+    const trimmed = label.trim();
+    if (!trimmed) {
+      throw new Error('A gesture label is required');
+    }
+    if (!Number.isInteger(targetRepetitions) || targetRepetitions < 1) {
+      throw new Error(`Invalid repetition count: ${targetRepetitions}`);
+    }
+
+    const takes = trimmed === this.current.label ? this.current.takes : [];
+
+    console.log(`🎓 Training capture started: "${trimmed}" x${targetRepetitions}`);
+    this.update({
+      label: trimmed,
+      targetRepetitions,
+      takes,
+      isRecording: takes.length < targetRepetitions,
+      lastResult: null,
+      error: null,
+    });
+  }
+
+  stop() {
+    if (this.current.isRecording) {
+      console.log('🎓 Training capture stopped with', this.current.takes.length, 'takes');
+      this.update({ isRecording: false });
+    }
+  }
+
+  /**
+   * Record a completed session as a repetition. Returns null when capture is
+   * not running or the session has no samples. Recording stops on its own
+   * once the target repetition count is reached.
+   */
+  addTake(session: GestureSession, samples: BLEDataPoint[]): TrainingTake | null {
+    if (!this.current.isRecording || samples.length === 0) {
+      return null;
+    }
+
+    const capturedAt = session.endTime ?? Date.now();
+    const take: TrainingTake = {
+      id: `${session.id}_${++this.takeCounter}`,
+      recordingHash: session.id,
+      deviceId: session.deviceId,
+      capturedAt,
+      durationMs: capturedAt - session.startTime,
+      samples,
+      packetLoss: session.packetLoss ?? null,
+    };
+    const takes = [...this.current.takes, take];
+
+    console.log(`🎓 Take ${takes.length}/${this.current.targetRepetitions} captured (${samples.length} samples)`);
+    this.update({ takes, isRecording: takes.length < this.current.targetRepetitions });
+    return take;
+  }
+
+  /**
+   * Drop a bad take. Call `start` again with the same label to record a replacement.
+   */
+  discardTake(id: string): boolean {
+    const takes = this.current.takes.filter(take => take.id !== id);
+    if (takes.length === this.current.takes.length) {
+      return false;
+    }
+    this.update({ takes });
+    return true;
+  }
+
+  /**
+   * Upload all kept takes in labeled batches. Uploaded takes are removed as
+   * each batch succeeds, so retrying after a failure does not send duplicates.
+   * Resolves with the response to the last batch.
+   */
+  async upload(): Promise<TrainingResponse> {
+    const { label, takes, isUploading } = this.current;
+    if (isUploading) {
+      throw new Error('An upload is already in progress');
+    }
+    if (!label || takes.length === 0) {
+      throw new Error('No training takes to upload');
+    }
+
+    this.update({ isRecording: false, isUploading: true, error: null });
+
+    try {
+      let result: TrainingResponse | null = null;
+      for (let i = 0; i < takes.length; i += TRAINING_CONFIG.UPLOAD_BATCH_SIZE) {
+        const batchTakes = takes.slice(i, i + TRAINING_CONFIG.UPLOAD_BATCH_SIZE);
+        const [batch] = createTrainingBatches(label, batchTakes, batchTakes.length);
+        result = await this.uploader(batch);
+        if (!result.success) {
+          throw new Error(result.message || 'Training request was rejected');
+        }
+
+        const uploaded = new Set(batchTakes.map(take => take.id));
+        this.update({ takes: this.current.takes.filter(take => !uploaded.has(take.id)) });
+      }
+
+      console.log('✅ Training upload complete:', result);
+      this.update({ isUploading: false, lastResult: result });
+      return result!;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('💥 Training upload failed:', error);
+      this.update({ isUploading: false, error: message });
+      throw error;
+    }
+  }
+
+  /**
+   * Leave training mode and forget all takes
+   */
+  reset() {
+    this.update({
+      label: null,
+      takes: [],
+      isRecording: false,
+      isUploading: false,
+      lastResult: null,
+      error: null,
+    });
+  }
+}
+
+export const trainingCapture = new TrainingCapture();
+
+export default TrainingCapture;
@@ -0,0 +1,128 @@
+/**
+ * Minimal ZIP writer. Entries are stored uncompressed, which keeps this
+ * dependency free and is plenty for CSV/JSON datasets that get compressed
+ * again in transit anyway.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: string | Uint8Array; // Strings are written as UTF-8
+  modifiedAt?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0, the baseline every unzip tool reads
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields, in local time as unzip tools expect
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), ...dosDateTime(entry.modifiedAt ?? new Date()) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const buffer = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const bytes = (value: Uint8Array) => {
+    buffer.set(value, offset);
+    offset += value.length;
+  };
+
+  const localOffsets = files.map(file => {
+    const start = offset;
+    u32(LOCAL_HEADER_SIGNATURE);
+    u16(ZIP_VERSION);
+    u16(UTF8_FLAG);
+    u16(0); // Stored, no compression
+    u16(file.time);
+    u16(file.date);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0); // Extra field length
+    bytes(file.name);
+    bytes(file.data);
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    u32(CENTRAL_HEADER_SIGNATURE);
+    u16(ZIP_VERSION); // Made by
+    u16(ZIP_VERSION); // Needed to extract
+    u16(UTF8_FLAG);
+    u16(0);
+    u16(file.time);
+    u16(file.date);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0); // Extra field length
+    u16(0); // Comment length
+    u16(0); // Disk number
+    u16(0); // Internal attributes
+    u32(0); // External attributes
+    u32(localOffsets[index]);
+    bytes(file.name);
+  });
+
+  const centralLength = offset - centralStart;
+  u32(END_OF_CENTRAL_DIRECTORY_SIGNATURE);
+  u16(0); // This disk
+  u16(0); // Disk with the central directory
+  u16(files.length);
+  u16(files.length);
+  u32(centralLength);
+  u32(centralStart);
+  u16(0); // Comment length
+
+  return buffer;
+}
@@ -0,0 +1,22 @@
+import { expect, it } from '@jest/globals';
+import { computeBackoffDelay } from '../Backoff';
+
+const options = { baseDelay: 500, maxDelay: 15000, jitter: 0.5 };
+
+it('doubles the delay per attempt up to the cap', () => {
+  const noJitter = { ...options, jitter: 0 };
+
+  expect([1, 2, 3, 4, 5, 6, 7].map(attempt => computeBackoffDelay(attempt, noJitter))).toEqual([
+    500, 1000, 2000, 4000, 8000, 15000, 15000,
+  ]);
+});
+
+it('randomizes only the jitter fraction of the delay', () => {
+  expect(computeBackoffDelay(3, options, () => 0)).toBe(1000);
+  expect(computeBackoffDelay(3, options, () => 0.5)).toBe(1500);
+  expect(computeBackoffDelay(3, options, () => 0.999)).toBeLessThanOrEqual(2000);
+});
+
+it('never exceeds the cap with jitter applied', () => {
+  expect(computeBackoffDelay(20, options, () => 0.999)).toBeLessThanOrEqual(15000);
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  DeviceCommandChannel,
+  DeviceCommandError,
+  encodeCommand,
+  encodeCommandReply,
+  parseCommandReply,
+  parseCommandRequest,
+} from '../DeviceCommands';
+import { DeviceConnection } from '../DeviceConnection';
+import { SIMULATED_FIRMWARE_VERSION, SimulatedPeripheral } from '../simulation/SimulatedPeripheral';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe('wire format', () => {
+  it('round-trips requests and replies', () => {
+    expect(encodeCommand({ id: 7, verb: 'rate', arg: '100' })).toBe('7:rate:100');
+    expect(parseCommandRequest('7:rate:100')).toEqual({ id: 7, verb: 'rate', arg: '100' });
+    expect(parseCommandRequest('8:battery')).toEqual({ id: 8, verb: 'battery' });
+    expect(parseCommandRequest('ping')).toBeNull();
+    expect(parseCommandRequest('9:selfdestruct')).toBeNull();
+
+    expect(encodeCommandReply({ id: 7, ok: true, value: '100' })).toBe('7:ok:100');
+    expect(parseCommandReply('7:ok:100')).toEqual({ id: 7, ok: true, value: '100' });
+    expect(parseCommandReply('8:ok')).toEqual({ id: 8, ok: true, value: null });
+    expect(parseCommandReply('9:err:busy')).toEqual({ id: 9, ok: false, message: 'busy' });
+    expect(parseCommandReply('pong')).toBeNull();
+  });
+});
+
+describe('DeviceCommandChannel', () => {
+  function setup(options = { timeout: 100, retries: 1 }) {
+    const written: string[] = [];
+    const channel = new DeviceCommandChannel(async text => {
+      written.push(text);
+    }, options);
+    return { channel, written };
+  }
+
+  it('correlates replies with requests by id', async () => {
+    const { channel, written } = setup();
+    const battery = channel.getBattery();
+    const version = channel.getFirmwareVersion();
+    expect(written).toEqual(['1:battery', '2:version']);
+
+    expect(channel.handleReply('2:ok:1.4.0')).toBe(true);
+    expect(channel.handleReply('1:ok:87')).toBe(true);
+    expect(channel.handleReply('1:ok:87')).toBe(false); // Already answered
+
+    await expect(battery).resolves.toBe(87);
+    await expect(version).resolves.toBe('1.4.0');
+    expect(channel.pendingCount).toBe(0);
+  });
+
+  it('resends unanswered requests with the same id, then times out', async () => {
+    jest.useFakeTimers();
+    const { channel, written } = setup();
+    const calibrated = channel.calibrate();
+    const result = expect(calibrated).rejects.toMatchObject({ code: 'timeout', verb: 'calibrate' });
+
+    jest.advanceTimersByTime(100);
+    expect(written).toEqual(['1:calibrate', '1:calibrate']);
+    jest.advanceTimersByTime(100);
+    await result;
+    expect(channel.pendingCount).toBe(0);
+  });
+
+  it('sends only once when told not to retry', async () => {
+    jest.useFakeTimers();
+    const { channel, written } = setup();
+    const reply = channel.send('battery', undefined, { retries: 0 });
+    const result = expect(reply).rejects.toThrow('after 1 attempt(s)');
+
+    jest.advanceTimersByTime(100);
+    await result;
+    expect(written).toEqual(['1:battery']);
+  });
+
+  it('accepts a reply to a resent request', async () => {
+    jest.useFakeTimers();
+    const { channel, written } = setup();
+    const started = channel.startRecording();
+
+    jest.advanceTimersByTime(100);
+    channel.handleReply('1:ok');
+    await expect(started).resolves.toBeUndefined();
+    expect(written).toHaveLength(2);
+  });
+
+  it('rejects device errors, write failures, disconnects and unsupported values', async () => {
+    const { channel } = setup();
+    const rate = channel.setSampleRate(100);
+    channel.handleReply('1:err:busy');
+    await expect(rate).rejects.toThrow('Device rejected rate: busy');
+
+    const stop = channel.stopRecording();
+    channel.cancelAll();
+    await expect(stop).rejects.toMatchObject({ code: 'disconnected' });
+
+    await expect(channel.setGyroRange(300)).rejects.toThrow('Unsupported value 300°/s');
+
+    const failing = new DeviceCommandChannel(async () => {
+      throw new Error('Command characteristic not available');
+    });
+    const error = await failing.getBattery().catch(caught => caught);
+    expect(error).toBeInstanceOf(DeviceCommandError);
+    expect(error).toMatchObject({ code: 'write', message: expect.stringContaining('not available') });
+  });
+});
+
+describe('over DeviceConnection', () => {
+  it('talks to the simulated device through the command characteristic', async () => {
+    const peripheral = new SimulatedPeripheral();
+    const connection = new DeviceConnection({ createManager: peripheral.createManager, autoReconnect: false });
+    const packetTypes: number[] = [];
+    connection.subscribe(event => {
+      if (event.type === 'data') packetTypes.push(event.bytes[0]);
+    });
+    connection.initialize();
+    await connection.startScan();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await expect(connection.commands.getFirmwareVersion()).resolves.toBe(SIMULATED_FIRMWARE_VERSION);
+    await expect(connection.commands.getBattery()).resolves.toBe(100);
+    await expect(connection.commands.setSampleRate(50)).resolves.toBe(50);
+    expect(peripheral.settings.sampleRateHz).toBe(50);
+
+    await connection.commands.startRecording();
+    expect(peripheral.isPlaying).toBe(true);
+    await expect(connection.commands.startRecording()).rejects.toThrow('already recording');
+    expect(packetTypes[0]).toBe(0x01); // SESSION_START
+
+    const pending = connection.commands.calibrate();
+    connection.destroy();
+    await expect(pending).rejects.toMatchObject({ code: 'disconnected' });
+  });
+});
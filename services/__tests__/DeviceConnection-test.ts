@@ -0,0 +1,291 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DeviceConnection, DeviceConnectionEvent } from '../DeviceConnection';
+import { FakeBleManager, FakeDevice, FakeService } from '../simulation/FakeBleManager';
+import { DEVICE_CONFIG } from '@/constants/Device';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function setup(devices: FakeDevice[] = [new FakeDevice()]) {
+  const manager = new FakeBleManager(devices);
+  const connection = new DeviceConnection({
+    createManager: () => manager,
+    scanTimeout: 50,
+    connectTimeout: 20,
+    discoveryTimeout: 20,
+    stateRetryDelay: 1,
+    autoReconnect: false,
+  });
+  const events: DeviceConnectionEvent[] = [];
+  connection.subscribe(event => events.push(event));
+  connection.initialize();
+  const states = () => events.flatMap(event => (event.type === 'stateChange' ? [event.state] : []));
+  return { manager, connection, events, states };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('walks idle → scanning → connecting → discovering → streaming', async () => {
+  const { connection, states, manager } = setup();
+
+  await connection.startScan();
+  await flush();
+
+  expect(states()).toEqual(['scanning', 'connecting', 'discovering', 'streaming']);
+  expect(connection.state).toBe('streaming');
+  expect(manager.isScanning).toBe(false);
+  expect(connection.connectedDevice?.id).toBe('AA:BB:CC:DD:EE:FF');
+});
+
+it('matches devices advertising the service UUID under another name', async () => {
+  const device = new FakeDevice({ name: null, serviceUUIDs: [DEVICE_CONFIG.serviceUUID] });
+  const other = new FakeDevice({ id: 'other', name: 'Headphones' });
+  const { connection, manager, events } = setup([other, device]);
+
+  await connection.startScan();
+  await flush();
+
+  expect(manager.connectCalls).toEqual([device.id]);
+  expect(events.filter(event => event.type === 'deviceScanned')).toHaveLength(2);
+});
+
+it('waits for the user to pick when auto-connect is off, reporting signal changes', async () => {
+  const near = new FakeDevice({ id: 'near', rssi: -50 });
+  const far = new FakeDevice({ id: 'far', rssi: -80 });
+  const { connection, manager, events } = setup([far, near]);
+
+  await connection.startScan({ autoConnect: 'none' });
+  await flush();
+  expect(connection.state).toBe('scanning');
+  expect(manager.connectCalls).toEqual([]);
+
+  far.rssi = -70;
+  manager.advertise(far);
+  manager.advertise(near); // Unchanged, so no update
+  expect(events.filter(event => event.type === 'deviceUpdated')).toEqual([
+    { type: 'deviceUpdated', device: expect.objectContaining({ id: 'far', rssi: -70 }) },
+  ]);
+
+  await connection.connect('far');
+  expect(manager.isScanning).toBe(false);
+  expect(connection.connectedDevice?.id).toBe('far');
+});
+
+it('connects on its own only to preferred devices', async () => {
+  const other = new FakeDevice({ id: 'other' });
+  const preferred = new FakeDevice({ id: 'preferred' });
+  const { connection, manager } = setup([other, preferred]);
+
+  await connection.startScan({ autoConnect: ['preferred'] });
+  await flush();
+
+  expect(manager.connectCalls).toEqual(['preferred']);
+  expect(connection.state).toBe('streaming');
+});
+
+it('forwards notifications as bytes and their decoded packet', async () => {
+  const device = new FakeDevice();
+  const { connection, events } = setup([device]);
+
+  await connection.startScan();
+  await flush();
+  device.dataCharacteristic.notify([0x02, 0x00, 0xff]);
+
+  const data = events.find(event => event.type === 'data');
+  expect(data).toMatchObject({ type: 'data', bytes: new Uint8Array([0x02, 0x00, 0xff]), decoded: { ok: false, error: { code: 'INVALID_LENGTH' } } });
+});
+
+it('pings the device over the command characteristic once streaming', async () => {
+  const device = new FakeDevice();
+  const { connection } = setup([device]);
+
+  await connection.startScan();
+  await flush();
+
+  expect(device.commandCharacteristic.written).toEqual([btoa('ping')]);
+});
+
+it('reports unexpected disconnects and cleans up the data subscription', async () => {
+  const device = new FakeDevice();
+  const { connection, events } = setup([device]);
+
+  await connection.startScan();
+  await flush();
+  device.simulateDisconnect();
+
+  expect(connection.state).toBe('disconnected');
+  expect(connection.connectedDevice).toBeNull();
+  expect(device.dataCharacteristic.subscriberCount).toBe(0);
+  expect(events).toContainEqual(expect.objectContaining({ type: 'disconnected', expected: false }));
+});
+
+it('marks user-requested disconnects as expected', async () => {
+  const { connection, events } = setup();
+
+  await connection.startScan();
+  await flush();
+  await connection.disconnect();
+
+  expect(connection.state).toBe('disconnected');
+  expect(events).toContainEqual(expect.objectContaining({ type: 'disconnected', expected: true }));
+});
+
+it('emits a scan timeout with the devices seen when nothing matches', async () => {
+  const { connection, events } = setup([new FakeDevice({ id: 'x', name: 'Speaker' })]);
+
+  await connection.startScan();
+  await new Promise(resolve => setTimeout(resolve, 80));
+
+  expect(connection.state).toBe('idle');
+  const timeout = events.find(event => event.type === 'scanTimeout');
+  expect(timeout).toEqual({
+    type: 'scanTimeout',
+    scannedDevices: [{ id: 'x', name: 'Speaker', rssi: -60, serviceUUIDs: null }],
+  });
+});
+
+it('refuses to scan while Bluetooth is off', async () => {
+  const { connection, manager, events } = setup();
+  manager.adapterState = 'PoweredOff';
+
+  await connection.startScan();
+
+  expect(connection.state).toBe('idle');
+  expect(manager.isScanning).toBe(false);
+  expect(events).toContainEqual(expect.objectContaining({ type: 'error', stage: 'bluetooth' }));
+});
+
+it('fails with a connect-stage error when the connection times out', async () => {
+  const { connection, manager, events } = setup();
+  manager.connectResolves = false;
+
+  await connection.startScan();
+  await new Promise(resolve => setTimeout(resolve, 40));
+
+  expect(connection.state).toBe('disconnected');
+  const error = events.find(event => event.type === 'error');
+  expect(error).toMatchObject({ stage: 'connect' });
+  expect(error?.type === 'error' && error.error.message).toMatch(/timeout/);
+});
+
+it('fails with a discovery-stage error when the gesture service is missing', async () => {
+  const device = new FakeDevice({ services: [new FakeService('180f', [])] });
+  const { connection, events } = setup([device]);
+
+  await connection.startScan();
+  await flush();
+
+  expect(connection.state).toBe('disconnected');
+  expect(events).toContainEqual(expect.objectContaining({ type: 'error', stage: 'discovery' }));
+});
+
+it('tears down the manager on destroy', async () => {
+  const { connection, manager } = setup();
+
+  await connection.startScan();
+  await flush();
+  connection.destroy();
+
+  expect(manager.destroyed).toBe(true);
+  expect(connection.isInitialized).toBe(false);
+});
+
+it('switches to another BLE source without dropping listeners', async () => {
+  const { connection, events, manager, states } = setup();
+  await connection.startScan();
+  await flush();
+
+  const other = new FakeBleManager([new FakeDevice({ id: 'other' })]);
+  connection.setManagerFactory(() => other);
+
+  expect(manager.destroyed).toBe(true);
+  expect(connection.isInitialized).toBe(true);
+  expect(connection.connectedDevice).toBeNull();
+  expect(events).toContainEqual(expect.objectContaining({ type: 'disconnected', expected: true, willReconnect: false }));
+  expect(connection.state).toBe('idle');
+
+  await connection.startScan();
+  await flush();
+  expect(other.connectCalls).toEqual(['other']);
+  expect(states().slice(-1)).toEqual(['streaming']);
+});
+
+describe('automatic reconnection', () => {
+  function setupReconnect(maxReconnectAttempts = 3) {
+    const device = new FakeDevice();
+    const manager = new FakeBleManager([device]);
+    const connection = new DeviceConnection({
+      createManager: () => manager,
+      connectTimeout: 20,
+      discoveryTimeout: 20,
+      maxReconnectAttempts,
+      reconnectBackoff: { baseDelay: 5, maxDelay: 20, jitter: 0 },
+    });
+    const events: DeviceConnectionEvent[] = [];
+    connection.subscribe(event => events.push(event));
+    connection.initialize();
+    return { device, manager, connection, events };
+  }
+
+  it('reconnects to the last known device after an unexpected drop', async () => {
+    const { device, manager, connection, events } = setupReconnect();
+    await connection.startScan();
+    await flush();
+
+    device.simulateDisconnect();
+    expect(connection.state).toBe('reconnecting');
+    expect(events).toContainEqual(expect.objectContaining({ type: 'disconnected', willReconnect: true }));
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(connection.state).toBe('streaming');
+    expect(manager.connectCalls).toEqual([device.id, device.id]);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'reconnected', attempts: 1 }));
+  });
+
+  it('backs off between failed attempts and gives up after the limit', async () => {
+    const { device, manager, connection, events } = setupReconnect(3);
+    await connection.startScan();
+    await flush();
+
+    manager.connectError = new Error('Device not reachable');
+    device.simulateDisconnect();
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    const attempts = events.flatMap(event => (event.type === 'reconnecting' ? [[event.attempt, event.delayMs]] : []));
+    expect(attempts).toEqual([[1, 5], [2, 10], [3, 20]]);
+    expect(connection.state).toBe('disconnected');
+    expect(events).toContainEqual({ type: 'reconnectFailed', attempts: 3 });
+  });
+
+  it('does not reconnect after a requested disconnect', async () => {
+    const { manager, connection } = setupReconnect();
+    await connection.startScan();
+    await flush();
+
+    await connection.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(connection.state).toBe('disconnected');
+    expect(manager.connectCalls).toHaveLength(1);
+  });
+
+  it('stops reconnecting when disconnect is requested mid-backoff', async () => {
+    const { device, manager, connection } = setupReconnect();
+    await connection.startScan();
+    await flush();
+
+    device.simulateDisconnect();
+    await connection.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(connection.state).toBe('disconnected');
+    expect(manager.connectCalls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DeviceConnection } from '../DeviceConnection';
+import { DeviceHub, DeviceHubEvent } from '../DeviceHub';
+import { GestureAPI, PredictionResponse } from '../GestureAPI';
+import { SessionRepository } from '../SessionRepository';
+import { MemoryStorageAdapter } from '../Storage';
+import { FakeBleManager } from '../simulation/FakeBleManager';
+import { SimulatedGesture, SimulatedPeripheral } from '../simulation/SimulatedPeripheral';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Six samples at 100Hz, so a full session plays in about 50ms
+const tap: SimulatedGesture = {
+  name: 'tap',
+  durationMs: 50,
+  sample: t => ({ acceleration: { x: t / 100, y: 0, z: 1 }, gyroscope: { x: 0, y: 0, z: t } }),
+};
+
+const prediction = {
+  all_detected_movements: { flick: 1 },
+  significant_movements: { flick: 1 },
+  detailed_segments: [
+    { movement: 'flick', avg_confidence: 0.9, duration: 0.05, start_time: 0, end_time: 0.05, window_count: 1 },
+  ],
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { overlap_ms: 100, sample_rate_hz: 100, window_size_ms: 200 },
+} as PredictionResponse;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function setup() {
+  const peripherals = [
+    new SimulatedPeripheral({ deviceId: 'SIM-1', random: () => 0.25 }),
+    new SimulatedPeripheral({ deviceId: 'SIM-2', random: () => 0.75 }),
+  ];
+  const manager = new FakeBleManager(peripherals.map(peripheral => peripheral.device));
+  const primary = new DeviceConnection({ createManager: () => manager, autoReconnect: false });
+  const repository = new SessionRepository(new MemoryStorageAdapter());
+  const hub = new DeviceHub(primary, {
+    repository,
+    groupWindowMs: 100,
+    connectionOptions: { autoReconnect: false },
+    linkHealthOptions: { sampleIntervalMs: 20, rssiIntervalMs: 20 },
+  });
+  const events: DeviceHubEvent[] = [];
+  hub.subscribe(event => events.push(event));
+
+  primary.initialize();
+  await primary.startScan();
+  await wait(0);
+  return { peripherals, manager, primary, repository, hub, events };
+}
+
+describe('DeviceHub', () => {
+  it('connects another sensor alongside the primary one', async () => {
+    const { peripherals, manager, primary, hub } = await setup();
+    expect(hub.sensors.map(sensor => sensor.deviceId)).toEqual(['SIM-1']);
+    expect(hub.isMultiSensor).toBe(false);
+
+    await hub.addSensor();
+    await wait(0);
+
+    expect(hub.sensors).toMatchObject([
+      { deviceId: 'SIM-1', label: 'Sensor 1', isPrimary: true, state: 'streaming' },
+      { deviceId: 'SIM-2', label: 'Sensor 2', isPrimary: false, state: 'streaming' },
+    ]);
+    expect(hub.isMultiSensor).toBe(true);
+    expect(peripherals.every(peripheral => peripheral.isConnected)).toBe(true);
+
+    await hub.removeSensor('SIM-2');
+    expect(hub.sensors).toHaveLength(1);
+    expect(peripherals[1].device.connected).toBe(false);
+    expect(manager.destroyed).toBe(false); // Still owned by the primary connection
+    primary.destroy();
+  });
+
+  it('grades each sensor from its own signal strength and packet loss', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { peripherals, primary, hub } = await setup();
+    await hub.addSensor();
+    peripherals[1].device.rssi = -92;
+    await wait(60);
+
+    expect(hub.sensors.map(sensor => sensor.quality)).toEqual(['Excellent', 'Poor']);
+
+    await hub.removeSensor('SIM-2');
+    primary.destroy();
+    expect(hub.sensors[0].quality).toBe('Unknown');
+  });
+
+  it('saves sessions recorded together as one multi-sensor recording', async () => {
+    const predictGesture = jest.spyOn(GestureAPI, 'predictGesture').mockResolvedValue(prediction);
+    const { peripherals, primary, repository, hub, events } = await setup();
+    await hub.addSensor();
+    await wait(0);
+
+    peripherals.forEach(peripheral => peripheral.perform(tap));
+    await wait(250);
+
+    const saved = events.find(event => event.type === 'groupSaved');
+    const analyzed = events.find(event => event.type === 'groupAnalyzed');
+    expect(saved?.type === 'groupSaved' && saved.sessions.map(session => session.deviceId).sort()).toEqual(['SIM-1', 'SIM-2']);
+    expect(analyzed?.type === 'groupAnalyzed' && analyzed.sessions.map(session => session.primaryMovement))
+      .toEqual(['flick', 'flick']);
+    expect(analyzed?.type === 'groupAnalyzed' && analyzed.movements).toEqual({ flick: 1 });
+    expect(predictGesture).toHaveBeenCalledTimes(2);
+
+    const group = await repository.getGroup(saved!.type === 'groupSaved' ? saved!.groupId : '');
+    expect(group.map(session => session.deviceId)).toEqual(['SIM-1', 'SIM-2']);
+    expect(group.every(session => session.samples.length === 6)).toBe(true);
+    expect(hub.sensors.map(sensor => sensor.session?.isActive)).toEqual([false, false]);
+    expect(hub.sessionOf('SIM-1')?.groupId).toBe(saved!.type === 'groupSaved' ? saved!.groupId : null);
+    primary.destroy();
+  });
+
+  it('keeps a recording single when another sensor connects during it', async () => {
+    const { peripherals, primary, repository, hub, events } = await setup();
+    peripherals[0].perform({ ...tap, durationMs: 100 });
+    await hub.addSensor();
+    await wait(250);
+
+    expect(hub.isMultiSensor).toBe(true);
+    expect(hub.sessionOf('SIM-1')).toMatchObject({ isActive: false });
+    expect(hub.sessionOf('SIM-1')?.groupId).toBeUndefined();
+    expect(events.some(event => event.type === 'groupSaved')).toBe(false);
+    await expect(repository.list()).resolves.toEqual([]);
+    primary.destroy();
+  });
+
+  it('leaves single-sensor recordings to the dashboard', async () => {
+    const { peripherals, primary, repository, hub, events } = await setup();
+    peripherals[0].perform(tap);
+    await wait(150);
+
+    expect(hub.sensors[0].session).toMatchObject({ isActive: false, samplesReceived: 6 });
+    expect(events.some(event => event.type === 'groupSaved')).toBe(false);
+    await expect(repository.list()).resolves.toEqual([]);
+    primary.destroy();
+  });
+
+  it('starts recording on every sensor', async () => {
+    const { peripherals, primary, hub } = await setup();
+    await expect(hub.recordAll()).resolves.toBeUndefined();
+    expect(peripherals[0].isPlaying).toBe(true);
+
+    await hub.addSensor();
+    await wait(0);
+    await expect(hub.recordAll()).rejects.toThrow('already recording');
+    expect(peripherals[1].isPlaying).toBe(true);
+
+    peripherals.forEach(peripheral => peripheral.stop());
+    primary.destroy();
+  });
+});
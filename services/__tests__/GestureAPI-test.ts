@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, expect, it, jest } from '@jest/globals';
+import { GestureAPI, IMUDataPoint } from '../GestureAPI';
+import { FEATURE_NAMES, localClassifier, LocalModel } from '../LocalClassifier';
+import { RecordingQualityError } from '../Preprocessing';
+import { settingsStore } from '../Settings';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const model: LocalModel = {
+  format_version: 1,
+  model_type: 'softmax_regression',
+  name: 'offline',
+  labels: ['circle'],
+  feature_names: [...FEATURE_NAMES],
+  scaler: { mean: FEATURE_NAMES.map(() => 0), scale: FEATURE_NAMES.map(() => 1) },
+  weights: [FEATURE_NAMES.map(() => 0)],
+  bias: [0],
+  window_params: { window_size_ms: 100, overlap_ms: 50, sample_rate_hz: 100 },
+};
+
+const data: IMUDataPoint[] = [0, 1, 2].map(index => ({
+  rel_timestamp: index * 10,
+  recording_id: 'g_1_abc',
+  acc_x: 0,
+  acc_y: 0,
+  acc_z: 1,
+  gyro_x: 0,
+  gyro_y: 0,
+  gyro_z: 0,
+}));
+
+const fetchMock = jest.fn<typeof fetch>();
+const originalFetch = global.fetch;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fetchMock.mockReset();
+  fetchMock.mockRejectedValue(new Error('Network request failed'));
+  global.fetch = fetchMock;
+  await localClassifier.clear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+it('uses only the remote API when the engine is remote', async () => {
+  await localClassifier.install(model);
+  await settingsStore.update({ predictionEngine: 'remote' });
+
+  const load = jest.spyOn(localClassifier, 'load');
+
+  await expect(GestureAPI.predictGesture(data)).rejects.toThrow('Network request failed');
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+  expect(load).not.toHaveBeenCalled();
+  load.mockRestore();
+});
+
+it('falls back to the on-device model when the remote request fails', async () => {
+  await localClassifier.install(model);
+  await settingsStore.update({ predictionEngine: 'remote-with-local-fallback' });
+
+  const prediction = await GestureAPI.predictGesture(data);
+
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+  expect(prediction.model_used).toBe('local:offline');
+  expect(prediction.detailed_segments[0].movement).toBe('circle');
+});
+
+it('reports the remote error when there is no model to fall back to', async () => {
+  await settingsStore.update({ predictionEngine: 'remote-with-local-fallback' });
+
+  await expect(GestureAPI.predictGesture(data)).rejects.toThrow('Network request failed');
+});
+
+it('never calls the API when the engine is local', async () => {
+  await localClassifier.install(model);
+  await settingsStore.update({ predictionEngine: 'local' });
+
+  const prediction = await GestureAPI.predictGesture(data);
+
+  expect(fetchMock).not.toHaveBeenCalled();
+  expect(prediction.prediction).toBe('circle');
+});
+
+it('rejects a lossy recording without trying either engine', async () => {
+  await localClassifier.install(model);
+  await settingsStore.update({ predictionEngine: 'remote-with-local-fallback' });
+  const packetLoss = { expected: 6, received: 3, missing: 3, duplicates: 0, outOfOrder: 0, gaps: 1, lossRate: 0.5 };
+
+  await expect(GestureAPI.predictGesture(data, packetLoss)).rejects.toThrow(RecordingQualityError);
+  expect(fetchMock).not.toHaveBeenCalled();
+});
+
+it('resolves requests against the active environment', async () => {
+  await settingsStore.update({ apiEnvironment: 'local', localApiUrl: 'http://10.0.2.2:8000/' });
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ model_loaded: true })));
+
+  await GestureAPI.getModelStatus();
+
+  expect(fetchMock.mock.calls[0][0]).toBe('http://10.0.2.2:8000/api/model-status');
+  await settingsStore.update({ apiEnvironment: 'production' });
+});
+
+it('health-checks an environment without switching to it', async () => {
+  await expect(GestureAPI.checkHealth('staging')).resolves.toMatchObject({
+    environment: 'staging',
+    ok: false,
+    error: 'No server URL set for the Staging environment',
+  });
+  expect(fetchMock).not.toHaveBeenCalled();
+
+  await settingsStore.update({ stagingApiUrl: 'https://staging.example.com' });
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ status: 'ok' })));
+
+  const healthy = await GestureAPI.checkHealth('staging');
+  const unreachable = await GestureAPI.checkHealth('local');
+
+  expect(fetchMock.mock.calls[0][0]).toBe('https://staging.example.com/health');
+  expect(healthy).toMatchObject({ environment: 'staging', ok: true });
+  expect(unreachable).toMatchObject({ environment: 'local', ok: false, error: 'Network request failed' });
+  expect(settingsStore.current.apiEnvironment).toBe('production');  await settingsStore.update({ stagingApiUrl: '' });
+});
+
+it('downloads an exported model file from the given URL', async () => {
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(model)));
+
+  await expect(GestureAPI.downloadLocalModel(' https://example.com/model.json ')).resolves.toMatchObject({
+    labels: model.labels,
+  });
+  expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/model.json');
+  expect(localClassifier.model?.labels).toEqual(model.labels);
+  await expect(GestureAPI.downloadLocalModel('model.json')).rejects.toThrow('http://');
+});
@@ -0,0 +1,126 @@
+import { beforeEach, expect, it, jest } from '@jest/globals';
+import {
+  ActionPerformers,
+  deepLinkURL,
+  fillTemplate,
+  GestureActionEngine,
+  GestureActionEvent,
+} from '../GestureActions';
+import { PredictionResponse } from '../GestureAPI';
+import { MemoryStorageAdapter } from '../Storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// The default performers load native modules
+jest.mock('../ActionPerformers', () => ({ defaultPerformers: {} }));
+
+let storage: MemoryStorageAdapter;
+let performers: {
+  openURL: jest.Mock<ActionPerformers['openURL']>;
+  speak: jest.Mock<ActionPerformers['speak']>;
+  fetch: jest.Mock<(input: string, init: RequestInit) => Promise<Response>>;
+};
+
+beforeEach(() => {
+  storage = new MemoryStorageAdapter();
+  performers = {
+    openURL: jest.fn(async () => {}),
+    speak: jest.fn(async () => {}),
+    fetch: jest.fn(async () => ({ ok: true, status: 200 }) as Response),
+  };
+});
+
+const createEngine = (options = {}) =>
+  new GestureActionEngine(storage, performers as unknown as ActionPerformers, { now: () => 1000, ...options });
+
+it('fills placeholders and keeps deep links on the app scheme', () => {
+  expect(fillTemplate('{gesture} at {confidence}%', 'flick', 0.876)).toBe('flick at 88%');
+  expect(deepLinkURL('/lights/toggle')).toBe('abracadabraapp://lights/toggle');
+  expect(deepLinkURL('AbracadabraApp://scene/1')).toBe('abracadabraapp://scene/1');
+  expect(() => deepLinkURL('https://example.com')).toThrow('abracadabraapp://');
+});
+
+it('persists bindings and rejects incomplete ones', async () => {
+  const engine = createEngine();
+  const binding = await engine.addBinding({ gesture: ' flick ', minConfidence: 1.4, action: { type: 'speak', text: 'Hi' } });
+  expect(binding).toMatchObject({ gesture: 'flick', minConfidence: 1, enabled: true });
+  await expect(engine.addBinding({ gesture: 'flick', minConfidence: 0.5, action: { type: 'webhook', url: 'ftp://x' } }))
+    .rejects.toThrow('http');
+  await engine.updateBinding(binding.id, { enabled: false });
+
+  const reloaded = createEngine();
+  expect(await reloaded.load()).toEqual([{ ...binding, minConfidence: 1, enabled: false }]);
+});
+
+it('runs only enabled bindings that the confidence clears', async () => {
+  const engine = createEngine();
+  await engine.addBinding({ gesture: 'flick', minConfidence: 0.5, action: { type: 'deepLink', path: 'lights/{gesture}' } });
+  await engine.addBinding({ gesture: 'Flick', minConfidence: 0.9, action: { type: 'speak', text: 'Strong {gesture}' } });
+  const disabled = await engine.addBinding({ gesture: 'flick', minConfidence: 0, action: { type: 'speak', text: 'Off' } });
+  await engine.updateBinding(disabled.id, { enabled: false });
+
+  const entries = await engine.trigger('flick', 0.7);
+  expect(entries).toHaveLength(1);
+  expect(performers.openURL).toHaveBeenCalledWith('abracadabraapp://lights/flick');
+  expect(performers.speak).not.toHaveBeenCalled();
+
+  await engine.trigger('FLICK', 0.95);
+  expect(performers.speak).toHaveBeenCalledWith('Strong FLICK');
+  expect(await engine.trigger('circle', 1)).toEqual([]);
+});
+
+it('posts the gesture to webhooks and logs failures without throwing', async () => {
+  const engine = createEngine();
+  await engine.addBinding({ gesture: 'flick', minConfidence: 0, action: { type: 'webhook', url: 'https://example.com/hook' } });
+  await engine.trigger('flick', 0.8);
+
+  const [url, init] = performers.fetch.mock.calls[0];
+  expect(url).toBe('https://example.com/hook');
+  expect(init.method).toBe('POST');
+  expect(JSON.parse(init.body as string)).toEqual({ gesture: 'flick', confidence: 0.8, at: new Date(1000).toISOString() });
+
+  performers.fetch.mockResolvedValueOnce({ ok: false, status: 503 } as Response);
+  const [failed] = await engine.trigger('flick', 0.8);
+  expect(failed).toMatchObject({ ok: false, error: 'HTTP 503', action: 'webhook' });
+  expect(engine.currentLog.map(entry => entry.ok)).toEqual([false, true]);
+});
+
+it('gives up on webhooks that do not answer in time', async () => {
+  performers.fetch.mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+  }));
+  const engine = createEngine({ webhookTimeoutMs: 10 });
+  await engine.addBinding({ gesture: 'flick', minConfidence: 0, action: { type: 'webhook', url: 'http://localhost/hook' } });
+
+  const [entry] = await engine.trigger('flick', 1);
+  expect(entry).toMatchObject({ ok: false, error: 'Request timeout' });
+});
+
+it('fires in-app events for the primary movement and keeps a capped log', async () => {
+  const engine = createEngine({ logSize: 2 });
+  const events: GestureActionEvent[] = [];
+  engine.subscribe(event => events.push(event));
+  await engine.addBinding({ gesture: 'circle', minConfidence: 0.6, action: { type: 'event', name: 'next-slide' } });
+
+  const prediction = {
+    detailed_segments: [
+      { movement: 'flick', avg_confidence: 0.4, duration: 1, start_time: 0, end_time: 1, window_count: 1 },
+      { movement: 'circle', avg_confidence: 0.8, duration: 1, start_time: 1, end_time: 2, window_count: 1 },
+    ],
+  } as PredictionResponse;
+  await engine.handlePrediction(prediction);
+  await engine.handlePrediction(prediction);
+  await engine.handlePrediction(prediction);
+
+  expect(events.filter(event => event.type === 'appEvent')).toEqual(
+    Array(3).fill({ type: 'appEvent', name: 'next-slide', gesture: 'circle', confidence: 0.8 })
+  );
+  expect(engine.currentLog).toHaveLength(2);
+
+  const reloaded = createEngine();
+  await reloaded.load();
+  expect(reloaded.currentLog).toHaveLength(2);
+  await reloaded.clearLog();
+  expect(reloaded.currentLog).toEqual([]);
+});
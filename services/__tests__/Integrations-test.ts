@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { IntegrationDispatcher, IntegrationEvent, renderTemplate, validateEndpoint } from '../Integrations';
+import { PredictionResponse } from '../GestureAPI';
+import { MemoryStorageAdapter } from '../Storage';
+import { INTEGRATION_CONFIG } from '@/constants/API';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+/**
+ * Stands in for a home-automation hub: records requests and answers with the
+ * queued status codes, then 200
+ */
+class StandInHub {
+  requests: ReceivedRequest[] = [];
+  statuses: number[] = [];
+  private server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      this.requests.push({ method: request.method!, path: request.url!, headers: request.headers, body: JSON.parse(body) });
+      response.statusCode = this.statuses.shift() ?? 200;
+      response.end();
+    });
+  });
+
+  url = '';
+
+  start(): Promise<void> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => {
+        this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+let hub: StandInHub;
+let storage: MemoryStorageAdapter;
+let dispatchers: IntegrationDispatcher[];
+
+beforeEach(async () => {
+  hub = new StandInHub();
+  await hub.start();
+  storage = new MemoryStorageAdapter();
+  dispatchers = [];
+});
+
+afterEach(async () => {
+  dispatchers.forEach(dispatcher => dispatcher.destroy());
+  await hub.stop();
+});
+
+const createDispatcher = () => {
+  const dispatcher = new IntegrationDispatcher(storage, {
+    retryBackoff: { baseDelay: 10, maxDelay: 20, jitter: 0 },
+    maxAttempts: 3,
+  });
+  dispatchers.push(dispatcher);
+  return dispatcher;
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+const flick = { gesture: 'flick', confidence: 0.9, at: Date.UTC(2026, 0, 1), movements: { flick: 2 } };
+
+it('fills templates with typed values and text', () => {
+  const template = JSON.stringify({
+    entity_id: 'light.living_room',
+    gesture: '{{gesture}}',
+    confidence: '{{confidence}}',
+    message: '{{gesture}} at {{confidencePercent}}% ({{unknown}})',
+    data: { movements: '{{movements}}', at: ['{{timestamp}}'] },
+  });
+  expect(JSON.parse(renderTemplate(template, flick))).toEqual({
+    entity_id: 'light.living_room',
+    gesture: 'flick',
+    confidence: 0.9,
+    message: 'flick at 90% ({{unknown}})',
+    data: { movements: { flick: 2 }, at: ['2026-01-01T00:00:00.000Z'] },
+  });
+  expect(() => renderTemplate('{"gesture": {{gesture}}}', flick)).toThrow('not valid JSON');
+});
+
+it('rejects incomplete endpoints', () => {
+  const endpoint = {
+    name: 'Hub', url: 'http://hub.local', method: 'POST' as const, headers: [], template: INTEGRATION_CONFIG.DEFAULT_TEMPLATE,
+    gestures: [], minConfidence: 0, enabled: true,
+  };
+  expect(validateEndpoint(endpoint)).toBeNull();
+  expect(validateEndpoint({ ...endpoint, url: 'hub.local' })).toMatch('http');
+  expect(validateEndpoint({ ...endpoint, headers: [{ name: 'Bad Header', value: 'x' }] })).toMatch('header name');
+  expect(validateEndpoint({ ...endpoint, template: '{' })).toMatch('JSON');
+});
+
+it('posts matching gestures with the endpoint\'s auth headers', async () => {
+  const dispatcher = createDispatcher();
+  await dispatcher.addEndpoint({
+    name: 'Home Assistant',
+    url: `${hub.url}/api/webhook/abracadabra`,
+    headers: [{ name: 'Authorization', value: 'Bearer secret' }],
+    gestures: ['Flick'],
+    minConfidence: 0.8,
+  });
+
+  expect(await dispatcher.dispatch({ ...flick, gesture: 'circle' })).toEqual([]);
+  expect(await dispatcher.dispatch({ ...flick, confidence: 0.5 })).toEqual([]);
+  await dispatcher.dispatch(flick);
+  await waitFor(() => hub.requests.length === 1 && dispatcher.queue.length === 0);
+
+  expect(hub.requests[0]).toMatchObject({
+    method: 'POST',
+    path: '/api/webhook/abracadabra',
+    headers: { authorization: 'Bearer secret', 'content-type': 'application/json' },
+    body: { gesture: 'flick', confidence: 0.9, timestamp: '2026-01-01T00:00:00.000Z', source: 'abracadabra' },
+  });
+});
+
+it('retries failed deliveries in order and drops rejected ones', async () => {
+  const dispatcher = createDispatcher();
+  const events: IntegrationEvent[] = [];
+  dispatcher.subscribe(event => events.push(event));
+  await dispatcher.addEndpoint({ name: 'Node-RED', url: `${hub.url}/gesture`, template: '{"g": "{{gesture}}"}' });
+
+  hub.statuses = [503, 503];
+  await dispatcher.dispatch(flick);
+  await dispatcher.dispatch({ ...flick, gesture: 'circle' });
+  await waitFor(() => dispatcher.queue.length === 0);
+  expect(hub.requests.map(request => request.body)).toEqual([{ g: 'flick' }, { g: 'flick' }, { g: 'flick' }, { g: 'circle' }]);
+
+  hub.statuses = [401];
+  await dispatcher.dispatch(flick);
+  await waitFor(() => dispatcher.queue.length === 0);
+  expect(hub.requests).toHaveLength(5);
+  expect(dispatcher.lastResultOf(dispatcher.currentEndpoints[0].id)).toMatchObject({ ok: false, status: 401, retryable: false });
+  expect(events.filter(event => event.type === 'delivery' && !event.result.ok)).toHaveLength(3);
+});
+
+it('keeps the queue across restarts and gives up after the last attempt', async () => {
+  const dispatcher = createDispatcher();
+  const endpoint = await dispatcher.addEndpoint({ name: 'Hub', url: `${hub.url}/hook` });
+  await dispatcher.updateEndpoint(endpoint.id, { enabled: false });
+  await dispatcher.dispatch({ ...flick, gesture: 'ignored' });
+  expect(dispatcher.queue).toEqual([]);
+
+  // Queued while the hub is unreachable
+  await dispatcher.updateEndpoint(endpoint.id, { url: 'http://127.0.0.1:1/hook', enabled: true });
+  await dispatcher.dispatch(flick);
+  await waitFor(() => dispatcher.queue[0]?.attempts === 1);
+  dispatcher.destroy();
+
+  const restarted = createDispatcher();
+  await restarted.load();
+  expect(restarted.queue).toHaveLength(1);
+  await restarted.updateEndpoint(endpoint.id, { url: `${hub.url}/hook` });
+  await restarted.retryNow(endpoint.id);
+  expect(hub.requests).toHaveLength(1);
+  expect(restarted.queue).toEqual([]);
+
+  await restarted.updateEndpoint(endpoint.id, { url: 'http://127.0.0.1:1/hook' });
+  await restarted.dispatch(flick);
+  await waitFor(() => restarted.queue.length === 0);
+  expect(restarted.lastResultOf(endpoint.id)).toMatchObject({ ok: false, status: null, retryable: true });
+});
+
+it('waits for a backed-off delivery instead of the ones queued behind it', async () => {
+  const endpoint = { id: 'hub', name: 'Hub', url: `${hub.url}/hook`, method: 'POST', headers: [], template: '{}', gestures: [], minConfidence: 0, enabled: true };
+  const queued = (id: string, nextAttemptAt: number) => ({
+    id, endpointId: 'hub', gesture: 'flick', body: '{}', createdAt: 0, attempts: 1, nextAttemptAt, lastError: 'HTTP 503',
+  });
+  await storage.setItem('abracadabra:integrations', JSON.stringify([endpoint]));
+  await storage.setItem('abracadabra:integration-queue', JSON.stringify([queued('head', 1000), queued('next', 0)]));
+  const request = jest.fn<typeof fetch>();
+  const dispatcher = new IntegrationDispatcher(storage, { fetch: request, now: () => 0 });
+  dispatchers.push(dispatcher);
+
+  const pause = new Promise(resolve => setTimeout(resolve, 20));
+  const timers = jest.spyOn(global, 'setTimeout');
+  await dispatcher.load();
+  await pause;
+  const delays = timers.mock.calls.map(call => call[1]);
+  timers.mockRestore();
+
+  expect(delays).toEqual([1000]);
+  expect(request).not.toHaveBeenCalled();
+});
+
+it('test-fires endpoints outside the queue and sends predictions', async () => {
+  const dispatcher = createDispatcher();
+  const endpoint = await dispatcher.addEndpoint({ name: 'Hub', url: `${hub.url}/hook`, method: 'PUT', gestures: ['circle'] });
+
+  hub.statuses = [500];
+  expect(await dispatcher.testFire(endpoint.id)).toMatchObject({ ok: false, status: 500 });
+  expect(await dispatcher.testFire(endpoint.id)).toMatchObject({ ok: true, status: 200 });
+  expect(dispatcher.queue).toEqual([]);
+  expect(hub.requests.map(request => [request.method, (request.body as { gesture: string }).gesture]))
+    .toEqual([['PUT', 'circle'], ['PUT', 'circle']]);
+
+  const prediction = {
+    significant_movements: { circle: 1 },
+    detailed_segments: [{ movement: 'circle', avg_confidence: 0.7, duration: 1, start_time: 0, end_time: 1, window_count: 1 }],
+  } as unknown as PredictionResponse;
+  await dispatcher.handlePrediction(prediction, flick.at);
+  await waitFor(() => hub.requests.length === 3);
+  expect(hub.requests[2].body).toMatchObject({ gesture: 'circle', confidence: 0.7 });
+});
@@ -0,0 +1,68 @@
+import { beforeEach, expect, it, jest } from '@jest/globals';
+import { ScannedDevice } from '../DeviceConnection';
+import { displayName, KnownDeviceStore, rankDevices } from '../KnownDevices';
+import { MemoryStorageAdapter } from '../Storage';
+import { DEVICE_CONFIG } from '@/constants/Device';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let storage: MemoryStorageAdapter;
+
+beforeEach(() => {
+  storage = new MemoryStorageAdapter();
+});
+
+const scanned = (id: string, rssi: number | null, name = DEVICE_CONFIG.name): ScannedDevice =>
+  ({ id, name, rssi, serviceUUIDs: null });
+
+it('remembers connections, keeping nicknames and preferences', async () => {
+  const store = new KnownDeviceStore(storage);
+  await store.remember({ id: 'a', name: DEVICE_CONFIG.name }, 1000);
+  await store.rename('a', '  Left wrist ');
+  await store.setPreferred('a', true);
+  await store.remember({ id: 'b', name: null }, 2000);
+  await store.remember({ id: 'a', name: DEVICE_CONFIG.name }, 3000);
+
+  const reloaded = new KnownDeviceStore(storage);
+  expect(await reloaded.load()).toEqual([
+    { id: 'a', name: DEVICE_CONFIG.name, nickname: 'Left wrist', preferred: true, lastConnectedAt: 3000 },
+    { id: 'b', name: 'Unknown', nickname: null, preferred: false, lastConnectedAt: 2000 },
+  ]);
+  expect(reloaded.preferredIds).toEqual(['a']);
+});
+
+it('clears nicknames and forgets devices', async () => {
+  const store = new KnownDeviceStore(storage);
+  const listener = jest.fn();
+  store.subscribe(listener);
+  await store.remember({ id: 'a', name: DEVICE_CONFIG.name });
+  await store.rename('a', 'Lab board');
+  await store.rename('a', '   ');
+  expect(store.find('a')?.nickname).toBeNull();
+
+  await store.forget('a');
+  expect(store.current).toEqual([]);
+  expect(listener).toHaveBeenLastCalledWith([]);
+});
+
+it('survives corrupt storage', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await storage.setItem('abracadabra:known-devices', '{not json');
+  expect(await new KnownDeviceStore(storage).load()).toEqual([]);
+});
+
+it('ranks matching devices by signal strength', async () => {
+  const store = new KnownDeviceStore(storage);
+  const known = await store.remember({ id: 'weak', name: DEVICE_CONFIG.name });
+  const choices = rankDevices(
+    [scanned('weak', -85), scanned('headphones', -30, 'Headphones'), scanned('unknown', null), scanned('strong', -40)],
+    store.current
+  );
+
+  expect(choices.map(choice => choice.device.id)).toEqual(['strong', 'weak', 'unknown']);
+  expect(choices[1].known).toEqual(known);
+  expect(displayName(choices[1].device, { ...known, nickname: 'Right wrist' })).toBe('Right wrist');
+  expect(displayName(choices[0].device, null)).toBe(DEVICE_CONFIG.name);
+});
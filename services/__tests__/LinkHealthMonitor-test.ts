@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DeviceConnection } from '../DeviceConnection';
+import { gradeLink, LinkHealthEvent, LinkHealthMonitor } from '../LinkHealthMonitor';
+import { CURRENT_PROTOCOL_VERSION, encodePacket } from '../PacketCodec';
+import { FakeBleManager, FakeDevice } from '../simulation/FakeBleManager';
+import { SimulatedPeripheral } from '../simulation/SimulatedPeripheral';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const still = { x: 0, y: 0, z: 0 };
+
+const sessionStart = () => encodePacket({
+  type: 'SESSION_START', version: CURRENT_PROTOCOL_VERSION, timestamp: 0, sampleId: 0, recordingHash: 'abc', sampleRateHz: 100,
+});
+
+const sensorData = (sampleId: number) => encodePacket({
+  type: 'SENSOR_DATA', version: CURRENT_PROTOCOL_VERSION, timestamp: sampleId * 10, sampleId, acceleration: still, gyroscope: still,
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function setup(device: FakeDevice) {
+  const connection = new DeviceConnection({
+    createManager: () => new FakeBleManager([device]),
+    autoReconnect: false,
+    commands: { timeout: 20, retries: 0 },
+  });
+  const monitor = new LinkHealthMonitor(connection, {
+    sampleIntervalMs: 20,
+    rssiIntervalMs: 20,
+    latencyIntervalMs: 1000,
+    windowMs: 1000,
+    stallMs: 50,
+  });
+  const events: LinkHealthEvent[] = [];
+  monitor.subscribe(event => events.push(event));
+  connection.initialize();
+  await connection.startScan();
+  await wait(0);
+  return { connection, monitor, events };
+}
+
+describe('gradeLink', () => {
+  it('keeps the worst grade among measured metrics', () => {
+    expect(gradeLink({ rssi: null, packetLoss: null, latencyMs: null })).toEqual({ quality: 'Unknown', weakest: [] });
+    expect(gradeLink({ rssi: -50, packetLoss: 0, latencyMs: 40 })).toEqual({ quality: 'Excellent', weakest: [] });
+    expect(gradeLink({ rssi: -72, packetLoss: 0.03, latencyMs: 40 })).toEqual({ quality: 'Good', weakest: ['rssi', 'packetLoss'] });
+    expect(gradeLink({ rssi: -50, packetLoss: null, latencyMs: 900 })).toEqual({ quality: 'Poor', weakest: ['latency'] });
+    expect(gradeLink({ rssi: -50, packetLoss: 0, latencyMs: null, stalled: true })).toEqual({ quality: 'Poor', weakest: ['stall'] });
+  });
+});
+
+describe('LinkHealthMonitor', () => {
+  it('samples signal strength, packet loss and throughput while streaming', async () => {
+    const device = new FakeDevice({ rssi: -55 });
+    const { connection, monitor } = await setup(device);
+
+    device.dataCharacteristic.notify(sessionStart());
+    [0, 1, 2, 4, 5, 6, 7, 8, 9].forEach(sampleId => device.dataCharacteristic.notify(sensorData(sampleId)));
+    await wait(50);
+
+    const sample = monitor.latest!;
+    expect(sample.rssi).toBe(-55);
+    expect(sample.packetLoss).toBeCloseTo(0.1, 6); // Sample 3 never arrived
+    expect(sample.samplesPerSecond).toBeGreaterThan(0);
+    expect(sample.bytesPerSecond).toBeGreaterThan(sample.samplesPerSecond);
+    expect(sample.recording).toBe(true);
+    expect(sample).toMatchObject({ quality: 'Poor', weakest: ['packetLoss'] });
+    expect(monitor.history.length).toBeGreaterThan(1);
+
+    connection.destroy();
+    monitor.destroy();
+  });
+
+  it('warns once when quality turns poor mid-recording', async () => {
+    const device = new FakeDevice({ rssi: -60 });
+    const { connection, monitor, events } = await setup(device);
+
+    device.dataCharacteristic.notify(sessionStart());
+    device.dataCharacteristic.notify(sensorData(0));
+    device.rssi = -92;
+    await wait(120); // The device also stops sending data
+
+    const warnings = events.flatMap(event => (event.type === 'warning' ? [event.warning] : []));
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].message).toMatch(/data stopped arriving|weak signal/);
+    expect(monitor.latest).toMatchObject({ quality: 'Poor', weakest: expect.arrayContaining(['rssi', 'stall']) });
+
+    connection.destroy();
+    monitor.destroy();
+  });
+
+  it('times command round trips', async () => {
+    const { device } = new SimulatedPeripheral();
+    const { connection, monitor } = await setup(device);
+    await wait(60);
+
+    expect(monitor.latest?.latencyMs).toEqual(expect.any(Number));
+    expect(monitor.latest?.latencyMs).toBeLessThan(20);
+
+    connection.destroy();
+    monitor.destroy();
+  });
+
+  it('stops probing command latency when the firmware never answers', async () => {
+    const device = new FakeDevice();
+    const { connection, monitor } = await setup(device);
+    const send = jest.spyOn(connection.commands, 'send');
+    await wait(100);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith('battery', undefined, { retries: 0 });
+    expect(monitor.latest?.latencyMs).toBeNull();
+
+    connection.destroy();
+    monitor.destroy();
+  });
+
+  it('stops sampling when the device disconnects', async () => {
+    const device = new FakeDevice();
+    const { connection, monitor } = await setup(device);
+    await wait(50);
+    await connection.disconnect();
+    const count = monitor.history.length;
+    await wait(60);
+
+    expect(monitor.history).toHaveLength(count);
+    monitor.destroy();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { LiveFrame, LiveSampleStore } from '../LiveSampleStore';
+import { BLEDataPoint } from '../types';
+
+const point = (sampleId: number, accX = sampleId, intervalMs = 10): BLEDataPoint => ({
+  timestamp: sampleId * intervalMs,
+  sampleId,
+  acceleration: { x: accX, y: 0, z: 1 },
+  gyroscope: { x: 0, y: 0, z: 0 },
+  recordingHash: 'abc',
+});
+
+/**
+ * Store whose frames only fire when the test says so
+ */
+const createStore = (capacity = 4) => {
+  const frames: Array<() => void> = [];
+  const store = new LiveSampleStore(capacity, callback => {
+    frames.push(callback);
+  });
+  const renderFrame = () => frames.splice(0).forEach(callback => callback());
+  return { store, renderFrame, frames };
+};
+
+describe('LiveSampleStore', () => {
+  it('notifies subscribers once per frame with the samples added since', () => {
+    const { store, renderFrame, frames } = createStore();
+    const listener = jest.fn<(frame: LiveFrame) => void>();
+    store.subscribe(listener);
+
+    [1, 2, 3].forEach(id => store.push(point(id)));
+
+    expect(frames).toHaveLength(1);
+    expect(listener).not.toHaveBeenCalled();
+
+    renderFrame();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const frame = listener.mock.calls[0][0];
+    expect(frame.added.map(sample => sample.point.sampleId)).toEqual([1, 2, 3]);
+    expect(frame.latest?.point.sampleId).toBe(3);
+  });
+
+  it('keeps only the most recent samples', () => {
+    const { store } = createStore(3);
+
+    [1, 2, 3, 4, 5].forEach(id => store.push(point(id)));
+
+    expect(store.samples.map(sample => sample.point.sampleId)).toEqual([3, 4, 5]);
+    expect(store.totalReceived).toBe(5);
+  });
+
+  it('charts samples through the filters and re-filters the history when they change', () => {
+    const { store } = createStore();
+    [0, 10].forEach((value, index) => store.push(point(index, value)));
+
+    store.setFilters({ acceleration: [{ type: 'moving-average', windowSize: 2 }], gyroscope: [] });
+    store.push(point(2, 20));
+
+    expect(store.samples.map(sample => sample.charted.acceleration.x)).toEqual([0, 5, 15]);
+    expect(store.samples.map(sample => sample.point.acceleration.x)).toEqual([0, 10, 20]);
+  });
+
+  it('designs the filters for the rate the device streams at', () => {
+    const { store } = createStore(20);
+    const filters = { acceleration: [{ type: 'high-pass' as const, cutoffHz: 10 }], gyroscope: [] };
+    store.setFilters(filters);
+    expect(store.sampleRateHz).toBe(100);
+
+    for (let id = 0; id < 10; id++) store.push(point(id, id, 40));
+    expect(store.sampleRateHz).toBe(25);
+    expect(store.filters).toBe(filters);
+
+    // Too high for a 10Hz device: plotted raw instead
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    store.clear();
+    for (let id = 0; id < 10; id++) store.push(point(id, id, 100));
+    expect(store.sampleRateHz).toBe(10);
+    expect(store.samples.every(sample => sample.charted.acceleration.x === sample.point.acceleration.x)).toBe(true);
+  });
+
+  it('keeps the current filters when new ones are invalid', () => {
+    const { store } = createStore();
+    const filters = store.filters;
+
+    expect(() => store.setFilters({ acceleration: [], gyroscope: [{ type: 'gravity-removal' }] })).toThrow();
+    expect(store.filters).toBe(filters);
+  });
+
+  it('counts samples received in the last second', () => {
+    const { store } = createStore(10);
+    [0, 500, 900, 1200, 1400].forEach((receivedAt, index) => store.push(point(index), receivedAt));
+
+    expect(store.rate(1400)).toBe(4);
+    expect(store.rate(1400, 500)).toBe(4);
+    expect(store.rate(1400, 250)).toBe(8);
+  });
+
+  it('clears the history but not the received count', () => {
+    const { store } = createStore();
+    store.push(point(1));
+
+    store.clear();
+
+    expect(store.samples).toEqual([]);
+    expect(store.latest).toBeNull();
+    expect(store.totalReceived).toBe(1);
+
+    store.reset();
+    expect(store.totalReceived).toBe(0);
+  });
+});
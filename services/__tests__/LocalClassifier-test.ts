@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  classifyLocally,
+  createWindows,
+  extractFeatures,
+  FEATURE_NAMES,
+  LocalGestureClassifier,
+  LocalModel,
+  parseLocalModel,
+} from '../LocalClassifier';
+import { IMUDataPoint } from '../GestureAPI';
+import { MemoryStorageAdapter } from '../Storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const point = (gyroX: number, index = 0): IMUDataPoint => ({
+  rel_timestamp: index * 10,
+  recording_id: 'g_1_abc',
+  acc_x: 0,
+  acc_y: 0,
+  acc_z: 1,
+  gyro_x: gyroX,
+  gyro_y: 0,
+  gyro_z: 0,
+});
+
+const stream = (gyroValues: number[]): IMUDataPoint[] => gyroValues.map((gyro, index) => point(gyro, index));
+
+const GYRO_MAG_MEAN = FEATURE_NAMES.indexOf('gyro_mag_mean');
+
+/**
+ * "shake" wins whenever the mean gyro magnitude in a window exceeds 50°/s
+ */
+const createModel = (overrides: Partial<LocalModel> = {}): LocalModel => ({
+  format_version: 1,
+  model_type: 'softmax_regression',
+  name: 'test-model',
+  labels: ['still', 'shake'],
+  still_label: 'still',
+  feature_names: [...FEATURE_NAMES],
+  scaler: { mean: FEATURE_NAMES.map(() => 0), scale: FEATURE_NAMES.map(() => 1) },
+  weights: [
+    FEATURE_NAMES.map(() => 0),
+    FEATURE_NAMES.map((_, i) => (i === GYRO_MAG_MEAN ? 1 : 0)),
+  ],
+  bias: [0, -50],
+  window_params: { window_size_ms: 40, overlap_ms: 20, sample_rate_hz: 100 },
+  smoothing_window: 1,
+  ...overrides,
+});
+
+describe('features', () => {
+  it('computes mean, std, min, max and rms per channel', () => {
+    const features = extractFeatures([point(3), point(-3)]);
+    const feature = (name: string) => features[FEATURE_NAMES.indexOf(name)];
+
+    expect(features).toHaveLength(FEATURE_NAMES.length);
+    expect(feature('gyro_x_mean')).toBe(0);
+    expect(feature('gyro_x_std')).toBe(3);
+    expect(feature('gyro_x_min')).toBe(-3);
+    expect(feature('gyro_x_max')).toBe(3);
+    expect(feature('gyro_x_rms')).toBe(3);
+    expect(feature('gyro_mag_mean')).toBe(3);
+    expect(feature('acc_mag_mean')).toBe(1);
+  });
+
+  it('slices overlapping windows by sample index', () => {
+    const windows = createWindows(stream([0, 0, 0, 0, 0, 0, 0, 0]), { window_size_ms: 40, overlap_ms: 20, sample_rate_hz: 100 });
+
+    expect(windows.map(window => [window.startTime, window.endTime])).toEqual([
+      [0, 0.04],
+      [0.02, 0.06],
+      [0.04, 0.08],
+    ]);
+    expect(windows.every(window => window.points.length === 4)).toBe(true);
+  });
+
+  it('uses the whole recording when it is shorter than one window', () => {
+    const params = { window_size_ms: 40, overlap_ms: 20, sample_rate_hz: 100 };
+    expect(createWindows(stream([1, 2]), params)).toHaveLength(1);
+    expect(createWindows([], params)).toHaveLength(0);
+  });
+});
+
+describe('classifyLocally', () => {
+  it('returns segments in the remote response shape', () => {
+    const data = stream([0, 0, 0, 0, 100, 100, 100, 100, 100, 100, 0, 0, 0, 0]);
+
+    const prediction = classifyLocally(data, createModel());
+
+    expect(prediction.raw_window_predictions.predictions).toEqual(['still', 'still', 'shake', 'shake', 'still', 'still']);
+    expect(prediction.raw_window_predictions.times).toEqual([0, 0.02, 0.04, 0.06, 0.08, 0.1]);
+    expect(prediction.detailed_segments).toHaveLength(1);
+    expect(prediction.detailed_segments[0]).toMatchObject({
+      movement: 'shake',
+      start_time: 0.04,
+      end_time: 0.1,
+      window_count: 2,
+    });
+    expect(prediction.detailed_segments[0].duration).toBeCloseTo(0.06);
+    expect(prediction.detailed_segments[0].avg_confidence).toBeGreaterThan(0.99);
+    expect(prediction.all_detected_movements).toEqual({ shake: 2 });
+    expect(prediction.significant_movements).toEqual({ shake: 1 });
+    expect(prediction.still_phases).toBe(2);
+    expect(prediction.prediction).toBe('shake');
+    expect(prediction.model_used).toBe('local:test-model');
+    expect(prediction.window_params).toEqual({ window_size_ms: 40, overlap_ms: 20, sample_rate_hz: 100 });
+  });
+
+  it('smooths isolated windows with a majority vote', () => {
+    const model = createModel({ window_params: { window_size_ms: 10, overlap_ms: 0, sample_rate_hz: 100 }, smoothing_window: 3 });
+
+    const prediction = classifyLocally(stream([0, 0, 100, 0, 0]), model);
+
+    expect(prediction.raw_window_predictions.predictions).toEqual(['still', 'still', 'shake', 'still', 'still']);
+    expect(prediction.raw_window_predictions.smoothed_predictions).toEqual(['still', 'still', 'still', 'still', 'still']);
+    expect(prediction.detailed_segments).toHaveLength(0);
+    expect(prediction.still_phases).toBe(1);
+  });
+
+  it('drops segments shorter than min_segment_windows', () => {
+    const model = createModel({
+      window_params: { window_size_ms: 10, overlap_ms: 0, sample_rate_hz: 100 },
+      min_segment_windows: 2,
+    });
+
+    const prediction = classifyLocally(stream([0, 100, 0, 100, 100]), model);
+
+    expect(prediction.detailed_segments.map(segment => segment.window_count)).toEqual([2]);
+    expect(prediction.all_detected_movements).toEqual({ shake: 3 });
+    expect(prediction.significant_movements).toEqual({ shake: 1 });
+  });
+});
+
+describe('parseLocalModel', () => {
+  it('accepts a valid export', () => {
+    expect(parseLocalModel(JSON.parse(JSON.stringify(createModel()))).labels).toEqual(['still', 'shake']);
+  });
+
+  it.each([
+    ['an unknown model type', { model_type: 'random_forest' }, 'Unsupported'],
+    ['a different feature set', { feature_names: FEATURE_NAMES.slice(1) }, 'feature set'],
+    ['a short bias vector', { bias: [0] }, 'bias'],
+    ['overlap as long as the window', { window_params: { window_size_ms: 40, overlap_ms: 40, sample_rate_hz: 100 } }, 'window_params'],
+  ])('rejects %s', (_, overrides, message) => {
+    expect(() => parseLocalModel({ ...createModel(), ...overrides })).toThrow(message);
+  });
+});
+
+describe('LocalGestureClassifier', () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    storage = new MemoryStorageAdapter();
+  });
+
+  it('refuses to predict without a model', async () => {
+    await expect(new LocalGestureClassifier(storage).predict(stream([0]))).rejects.toThrow('No on-device model');
+  });
+
+  it('persists an installed model for the next launch', async () => {
+    const listener = jest.fn();
+    const classifier = new LocalGestureClassifier(storage);
+    classifier.subscribe(listener);
+    await classifier.install(createModel());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const relaunched = new LocalGestureClassifier(storage);
+    expect((await relaunched.load())?.name).toBe('test-model');
+    expect((await relaunched.predict(stream([100, 100, 100, 100]))).prediction).toBe('shake');
+
+    await relaunched.clear();
+    expect(await relaunched.load()).toBeNull();
+    expect(await new LocalGestureClassifier(storage).load()).toBeNull();
+  });
+
+  it('rejects an invalid install and ignores a corrupt stored model', async () => {
+    const classifier = new LocalGestureClassifier(storage, 'model');
+    await expect(classifier.install({ format_version: 2 })).rejects.toThrow('Unsupported');
+
+    await storage.setItem('model', JSON.stringify({ ...createModel(), bias: [] }));
+    expect(await classifier.load()).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { API_CONFIG } from '@/constants/API';
+import { GestureAPI, IMUDataPoint } from '../GestureAPI';
+import { localClassifier } from '../LocalClassifier';
+import { settingsStore } from '../Settings';
+import { createMockModel, mockGestureServer, MockGestureServer, parseIMUCSV } from '../simulation/MockGestureServer';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+/**
+ * Two seconds at 100Hz: still, then a second of rotation around z
+ */
+const circleGesture = (): IMUDataPoint[] =>
+  Array.from({ length: 200 }, (_, index) => ({
+    rel_timestamp: index * 10,
+    recording_id: 'g_1_abc',
+    acc_x: 0,
+    acc_y: 0,
+    acc_z: 1,
+    gyro_x: 0,
+    gyro_y: 0,
+    gyro_z: index >= 100 ? 200 * Math.sin(index / 5) : 0,
+  }));
+
+beforeAll(async () => {
+  await settingsStore.update({ apiEnvironment: 'mock', predictionEngine: 'remote' });
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockGestureServer.reset();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+it('answers health checks for the mock environment', async () => {
+  const result = await GestureAPI.checkHealth();
+
+  expect(result).toMatchObject({ environment: 'mock', ok: true });
+  expect(mockGestureServer.requests).toEqual([
+    expect.objectContaining({ endpoint: 'HEALTH', method: 'GET' }),
+  ]);
+});
+
+it('computes predictions from the uploaded CSV', async () => {
+  const prediction = await GestureAPI.predictGesture(circleGesture());
+
+  expect(prediction.model_used).toBe('mock-server');
+  expect(GestureAPI.getPrimaryMovement(prediction)?.movement).toBe('circle');
+  expect(prediction.detailed_segments[0].start_time).toBeGreaterThanOrEqual(0.5);
+  expect(prediction.still_phases).toBeGreaterThan(0);
+  expect(prediction.raw_window_predictions.predictions.length).toBe(prediction.raw_window_predictions.times.length);
+});
+
+it('rejects a prediction without data', async () => {
+  await expect(GestureAPI.predictGesture([])).rejects.toThrow('status: 400');
+});
+
+it('accumulates training uploads into the model status', async () => {
+  const first = await GestureAPI.trainModel({ label: 'wave', data: circleGesture() });
+  const second = await GestureAPI.trainModel({
+    label: 'wave',
+    data: circleGesture().map(point => ({ ...point, recording_id: 'g_2_def' })),
+  });
+  const status = await GestureAPI.getModelStatus();
+
+  expect(first).toMatchObject({ success: true, training_samples: 1 });
+  expect(second.training_samples).toBe(2);
+  expect(status.available_gestures).toContain('wave');
+  expect(status.training_samples).toBe(2);
+  expect(mockGestureServer.requests[0].fields.label).toBe('wave');
+});
+
+it('builds a model the on-device classifier accepts', async () => {
+  const model = await localClassifier.install(createMockModel());
+
+  expect(model.labels).toContain('circle');
+  expect((await localClassifier.predict(circleGesture())).prediction).toBe('circle');
+  await localClassifier.clear();
+});
+
+describe('scripted failures', () => {
+  it('surfaces HTTP errors with the response body', async () => {
+    mockGestureServer.failNext('MODEL_STATUS', { type: 'http', status: 500, body: 'Internal Server Error' });
+
+    await expect(GestureAPI.getModelStatus()).rejects.toThrow('HTTP error! status: 500, body: Internal Server Error');
+    await expect(GestureAPI.getModelStatus()).resolves.toMatchObject({ model_type: 'mock' });
+  });
+
+  it('surfaces malformed JSON', async () => {
+    mockGestureServer.failNext('HEALTH', { type: 'malformed' });
+
+    await expect(GestureAPI.getHealth()).rejects.toThrow('JSON');
+  });
+
+  it('surfaces network failures', async () => {
+    mockGestureServer.setFailure('PREDICT', { type: 'network' });
+
+    await expect(GestureAPI.predictGesture(circleGesture())).rejects.toThrow('Network request failed');
+    await expect(GestureAPI.predictGesture(circleGesture())).rejects.toThrow('Network request failed');
+
+    mockGestureServer.setFailure('PREDICT', null);
+    await expect(GestureAPI.predictGesture(circleGesture())).resolves.toBeTruthy();
+  });
+
+  it('turns an unanswered request into a timeout', async () => {
+    jest.useFakeTimers();
+    mockGestureServer.failNext('HEALTH', { type: 'timeout' });
+
+    const request = GestureAPI.getHealth();
+    const assertion = expect(request).rejects.toThrow('Request timeout');
+    await jest.advanceTimersByTimeAsync(API_CONFIG.TIMEOUT);
+
+    await assertion;
+  });
+});
+
+describe('MockGestureServer', () => {
+  it('installs into the global fetch and passes other URLs through', async () => {
+    const passthrough = jest.fn<typeof fetch>(async () => new Response('real'));
+    const originalFetch = global.fetch;
+    global.fetch = passthrough;
+    const server = new MockGestureServer({ baseUrl: 'http://mock.test/' });
+
+    const uninstall = server.install();
+    const mocked = await fetch('http://mock.test/health');
+    const real = await fetch('https://example.com/');
+    uninstall();
+
+    expect(await mocked.json()).toMatchObject({ status: 'healthy' });
+    expect(await real.text()).toBe('real');
+    expect(passthrough).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toBe(passthrough);
+    global.fetch = originalFetch;
+  });
+
+  it('parses the CSV format GestureAPI sends', () => {
+    const csv = 'rel_timestamp,recording_id,acc_x,acc_y,acc_z,gyro_x,gyro_y,gyro_z\n10,g_1_a,0.1,0.2,0.9,1,2,3\n';
+
+    expect(parseIMUCSV(csv)).toEqual([
+      { rel_timestamp: 10, recording_id: 'g_1_a', acc_x: 0.1, acc_y: 0.2, acc_z: 0.9, gyro_x: 1, gyro_y: 2, gyro_z: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { GestureAPI, PredictionResponse } from '../GestureAPI';
+import {
+  alignSessions,
+  mergeSignificantMovements,
+  multiSensorToCSV,
+  predictMultiSensor,
+  sensorDataForPrediction,
+} from '../MultiSensorRecording';
+import { StoredSession } from '../SessionRepository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * A session whose acceleration x is its phone time in seconds, so aligned
+ * values are easy to check
+ */
+function session(deviceId: string, startTime: number, firstTimestamp: number, count: number, intervalMs: number): StoredSession {
+  return {
+    id: `${deviceId}-${startTime}`,
+    recordingHash: deviceId,
+    deviceId,
+    startTime,
+    endTime: startTime + (count - 1) * intervalMs,
+    samples: Array.from({ length: count }, (_, index) => ({
+      timestamp: (firstTimestamp + index * intervalMs) & 0xffff,
+      sampleId: index,
+      acceleration: { x: (startTime + index * intervalMs) / 1000, y: 0, z: 1 },
+      gyroscope: { x: 0, y: 0, z: index },
+      recordingHash: deviceId,
+    })),
+    prediction: null,
+    packetLoss: null,
+    groupId: 'g1',
+    savedAt: 0,
+  };
+}
+
+describe('alignSessions', () => {
+  it('resamples every sensor onto the time they overlap', () => {
+    // Sensor a: 1000–1100ms every 10ms. Sensor b: 1025–1145ms every 20ms, its clock wrapping
+    const a = session('a', 1000, 100, 11, 10);
+    const b = session('b', 1025, 65530, 7, 20);
+
+    const recording = alignSessions([a, b], 100);
+
+    expect(recording.groupId).toBe('g1');
+    expect(recording.startTime).toBe(1025);
+    expect(recording.times).toEqual([0, 10, 20, 30, 40, 50, 60, 70]);
+    expect(recording.sensors.map(sensor => sensor.deviceId)).toEqual(['a', 'b']);
+    recording.frames.forEach((readings, frame) => {
+      const seconds = (1025 + frame * 10) / 1000;
+      expect(readings[0].acceleration.x).toBeCloseTo(seconds, 6);
+      expect(readings[1].acceleration.x).toBeCloseTo(seconds, 6);
+    });
+    expect(recording.frames[1][1].gyroscope.z).toBeCloseTo(0.5, 6); // Halfway between b's first two samples
+  });
+
+  it('rejects recordings it cannot align', () => {
+    const a = session('a', 1000, 0, 11, 10);
+    expect(() => alignSessions([a])).toThrow('at least two sensors');
+    expect(() => alignSessions([a, { ...a, id: 'copy' }])).toThrow('at least two sensors');
+    expect(() => alignSessions([a, session('b', 5000, 0, 11, 10)])).toThrow('not recording at the same time');
+    expect(() => alignSessions([a, session('b', 1000, 0, 11, 10)], 0)).toThrow('Invalid sample rate');
+  });
+});
+
+describe('multiSensorToCSV', () => {
+  it('writes one row per frame with columns for every sensor', () => {
+    const recording = alignSessions([session('a', 1000, 0, 3, 10), session('b', 1000, 0, 3, 10)], 100);
+    const [header, first] = multiSensorToCSV(recording).split('\n');
+
+    expect(header.split(',')).toEqual([
+      'rel_timestamp', 'recording_id',
+      's1_acc_x', 's1_acc_y', 's1_acc_z', 's1_gyro_x', 's1_gyro_y', 's1_gyro_z',
+      's2_acc_x', 's2_acc_y', 's2_acc_z', 's2_gyro_x', 's2_gyro_y', 's2_gyro_z',
+    ]);
+    expect(first).toBe('0,m_1000_g1,1,0,1,0,0,0,1,0,1,0,0,0');
+    expect(multiSensorToCSV(recording).split('\n')).toHaveLength(4);
+  });
+});
+
+describe('predictMultiSensor', () => {
+  it('predicts each sensor on the shared grid', async () => {
+    const predictGesture = jest.spyOn(GestureAPI, 'predictGesture')
+      .mockImplementation(async data => ({ still_phases: data.length }) as PredictionResponse);
+    const sessions = [session('a', 1000, 0, 11, 10), session('b', 1050, 0, 11, 10)];
+
+    const results = await predictMultiSensor(sessions);
+
+    expect(results.map(result => result.sessionId)).toEqual(['a-1000', 'b-1050']);
+    expect(results.map(result => result.prediction.still_phases)).toEqual([6, 6]);
+    expect(predictGesture.mock.calls[0][0]).toEqual(sensorDataForPrediction(alignSessions(sessions), 0));
+  });
+});
+
+describe('mergeSignificantMovements', () => {
+  it('counts a movement seen by several sensors once', () => {
+    const predictions = [
+      { significant_movements: { flick: 2, shake: 1 } },
+      { significant_movements: { flick: 1, circle: 1 } },
+    ] as unknown as PredictionResponse[];
+
+    expect(mergeSignificantMovements(predictions)).toEqual({ flick: 2, shake: 1, circle: 1 });
+  });
+});
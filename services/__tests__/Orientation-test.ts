@@ -0,0 +1,138 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEG_TO_RAD,
+  estimateOrientation,
+  fromAxisAngle,
+  linearAcceleration,
+  MadgwickFilter,
+  MahonyFilter,
+  OrientationFilter,
+  rotateVector,
+  toEuler,
+  Vector3,
+} from '../orientation';
+import { BLEDataPoint } from '../types';
+
+const still: Vector3 = { x: 0, y: 0, z: 0 };
+const level: Vector3 = { x: 0, y: 0, z: 1 };
+
+const point = (timestamp: number, gyroscope: Vector3, acceleration: Vector3 = level): BLEDataPoint => ({
+  timestamp,
+  sampleId: 0,
+  acceleration,
+  gyroscope,
+  recordingHash: 'abc',
+});
+
+/**
+ * 100Hz samples of a constant rotation rate (°/s), starting at `start` ms
+ */
+const rotation = (gyroscope: Vector3, count: number, start = 0): BLEDataPoint[] =>
+  Array.from({ length: count }, (_, index) => point((start + index * 10) % 0x10000, gyroscope));
+
+const filters: Array<[string, () => OrientationFilter]> = [
+  ['MadgwickFilter', () => new MadgwickFilter()],
+  ['MahonyFilter', () => new MahonyFilter()],
+];
+
+describe('Quaternion', () => {
+  it('converts to Euler angles', () => {
+    const q = fromAxisAngle({ x: 0, y: 0, z: 1 }, 90 * DEG_TO_RAD);
+
+    expect(toEuler(q).yaw).toBeCloseTo(90, 6);
+    expect(toEuler(fromAxisAngle({ x: 1, y: 0, z: 0 }, -30 * DEG_TO_RAD)).roll).toBeCloseTo(-30, 6);
+    expect(toEuler(fromAxisAngle({ x: 0, y: 1, z: 0 }, 45 * DEG_TO_RAD)).pitch).toBeCloseTo(45, 6);
+  });
+
+  it('removes gravity from acceleration', () => {
+    const tilted = fromAxisAngle({ x: 1, y: 0, z: 0 }, 40 * DEG_TO_RAD);
+    const reading = rotateVector({ ...tilted, x: -tilted.x }, { x: 0.5, y: 0, z: 1 });
+
+    const linear = linearAcceleration(tilted, reading);
+
+    expect(linear.x).toBeCloseTo(0.5, 6);
+    expect(linear.y).toBeCloseTo(0, 6);
+    expect(linear.z).toBeCloseTo(0, 6);
+  });
+});
+
+describe.each(filters)('%s', (_, createFilter) => {
+  it('integrates a constant yaw rate', () => {
+    const samples = estimateOrientation(rotation({ x: 0, y: 0, z: 90 }, 101), createFilter());
+
+    expect(samples[100].time).toBeCloseTo(1, 9);
+    expect(samples[100].euler.yaw).toBeCloseTo(90, 1);
+    expect(samples[100].euler.roll).toBeCloseTo(0, 3);
+  });
+
+  it('integrates roll and pitch while the accelerometer agrees', () => {
+    const filter = createFilter();
+    const points = rotation({ x: 30, y: 0, z: 0 }, 101).map((sample, index) => {
+      const tilt = fromAxisAngle({ x: 1, y: 0, z: 0 }, index * 0.3 * DEG_TO_RAD);
+      return { ...sample, acceleration: rotateVector({ ...tilt, x: -tilt.x }, level) };
+    });
+
+    const samples = estimateOrientation(points, filter);
+
+    expect(samples[100].euler.roll).toBeCloseTo(30, 0);
+    expect(Math.hypot(...Object.values(samples[100].linearAcceleration))).toBeLessThan(0.01);
+  });
+
+  it('converges on the tilt measured by the accelerometer', () => {
+    const filter = createFilter();
+    const rolled = { x: 0, y: Math.sin(30 * DEG_TO_RAD), z: Math.cos(30 * DEG_TO_RAD) };
+
+    const samples = estimateOrientation(rotation(still, 2000).map(sample => ({ ...sample, acceleration: rolled })), filter);
+
+    expect(samples[1999].euler.roll).toBeCloseTo(30, 1);
+    expect(samples[1999].euler.pitch).toBeCloseTo(0, 1);
+  });
+
+  it('follows the device clock across a uint16 wrap', () => {
+    const samples = estimateOrientation(rotation({ x: 0, y: 0, z: 90 }, 101, 65000), createFilter());
+
+    expect(samples[60].timestamp).toBe(64); // 65000 + 600 wrapped
+    expect(samples[100].time).toBeCloseTo(1, 9);
+    expect(samples[100].euler.yaw).toBeCloseTo(90, 1);
+  });
+
+  it('does not integrate across gaps', () => {
+    const filter = createFilter();
+
+    filter.update(point(0, still));
+    const sample = filter.update(point(2000, { x: 0, y: 0, z: 1000 }));
+
+    expect(sample.time).toBe(2);
+    expect(sample.quaternion).toEqual({ w: 1, x: 0, y: 0, z: 0 });
+  });
+
+  it('is deterministic after a reset', () => {
+    const filter = createFilter();
+    const points = rotation({ x: 20, y: -10, z: 45 }, 50);
+
+    const first = estimateOrientation(points, filter);
+    const second = estimateOrientation(points, filter);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe('MahonyFilter', () => {
+  it('ignores the accelerometer while it is far from 1g', () => {
+    const filter = new MahonyFilter();
+
+    filter.step(still, { x: 2, y: 0, z: 0 }, 0.01);
+
+    expect(filter.quaternion).toEqual({ w: 1, x: 0, y: 0, z: 0 });
+  });
+
+  it('learns a constant gyroscope bias with integral gain', () => {
+    const filter = new MahonyFilter({ kp: 2, ki: 1 });
+
+    for (let step = 0; step < 3000; step++) {
+      filter.step({ x: 2, y: 0, z: 0 }, level, 0.01);
+    }
+
+    expect(toEuler(filter.quaternion).roll).toBeCloseTo(0, 1);
+  });
+});
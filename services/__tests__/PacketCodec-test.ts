@@ -0,0 +1,147 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodePacket, encodePacket, Packet } from '../PacketCodec';
+
+const hex = (value: string) =>
+  new Uint8Array(value.split(/\s+/).filter(Boolean).map(byte => parseInt(byte, 16)));
+
+const decoded = (bytes: Uint8Array) => {
+  const result = decodePacket(bytes);
+  if (!result.ok) {
+    throw new Error(`Unexpected decode error: ${result.error.message}`);
+  }
+  return result.packet;
+};
+
+describe('protocol version 1', () => {
+  const sessionStart = hex('01 01 34 12 00 00 ef be ad de 64 00 00 00 00 00 00 00 00 00');
+  const sensorData = hex('02 01 e8 03 07 00 f4 01 18 fc e8 03 7d 00 3c f6 00 00 00 00');
+  const sessionEnd = hex('03 01 dc 05 95 00 ef be ad de 96 00 00 00 00 00 00 00 00 00');
+
+  const packets: Packet[] = [
+    {
+      type: 'SESSION_START',
+      version: 1,
+      timestamp: 0x1234,
+      sampleId: 0,
+      recordingHash: 'deadbeef',
+      sampleRateHz: 100,
+    },
+    {
+      type: 'SENSOR_DATA',
+      version: 1,
+      timestamp: 1000,
+      sampleId: 7,
+      acceleration: { x: 0.5, y: -1, z: 1 },
+      gyroscope: { x: 12.5, y: -250, z: 0 },
+    },
+    {
+      type: 'SESSION_END',
+      version: 1,
+      timestamp: 1500,
+      sampleId: 149,
+      durationMs: 1500,
+      lastSampleId: 149,
+      totalSamples: 150,
+      recordingHash: 'deadbeef',
+    },
+  ];
+
+  it('decodes SESSION_START', () => {
+    expect(decoded(sessionStart)).toEqual(packets[0]);
+  });
+
+  it('decodes SENSOR_DATA', () => {
+    expect(decoded(sensorData)).toEqual(packets[1]);
+  });
+
+  it('decodes SESSION_END', () => {
+    expect(decoded(sessionEnd)).toEqual(packets[2]);
+  });
+
+  it('encodes every packet type to the golden bytes', () => {
+    expect(encodePacket(packets[0])).toEqual(sessionStart);
+    expect(encodePacket(packets[1])).toEqual(sensorData);
+    expect(encodePacket(packets[2])).toEqual(sessionEnd);
+  });
+});
+
+describe('protocol version 0 (legacy firmware)', () => {
+  it('reads the recording hash of SESSION_START from offset 16', () => {
+    const bytes = hex('01 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ef be ad de');
+
+    expect(decoded(bytes)).toEqual({
+      type: 'SESSION_START',
+      version: 0,
+      timestamp: 0,
+      sampleId: 0,
+      recordingHash: 'deadbeef',
+      sampleRateHz: null,
+    });
+  });
+
+  it('keeps gyroZ intact in SENSOR_DATA', () => {
+    const bytes = hex('02 00 e8 03 07 00 f4 01 18 fc e8 03 7d 00 3c f6 84 03 ff ff');
+
+    expect(decoded(bytes)).toEqual({
+      type: 'SENSOR_DATA',
+      version: 0,
+      timestamp: 1000,
+      sampleId: 7,
+      acceleration: { x: 0.5, y: -1, z: 1 },
+      gyroscope: { x: 12.5, y: -250, z: 90 },
+    });
+  });
+
+  it('derives the sample count of SESSION_END from the last sample id', () => {
+    const bytes = hex('03 00 dc 05 95 00 00 00 00 00 00 00 00 00 00 00 ef be ad de');
+
+    expect(decoded(bytes)).toEqual({
+      type: 'SESSION_END',
+      version: 0,
+      timestamp: 1500,
+      sampleId: 149,
+      durationMs: 1500,
+      lastSampleId: 149,
+      totalSamples: 150,
+      recordingHash: 'deadbeef',
+    });
+    expect(encodePacket(decoded(bytes))).toEqual(bytes);
+  });
+});
+
+describe('decode errors', () => {
+  it('reports packets that are not 20 bytes', () => {
+    expect(decodePacket(hex('02 01 e8 03'))).toEqual({
+      ok: false,
+      error: { code: 'INVALID_LENGTH', message: 'Expected 20 bytes, got 4', length: 4, packetType: 2 },
+    });
+  });
+
+  it('reports unknown packet types', () => {
+    const result = decodePacket(hex('7f 01 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00'));
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        code: 'UNKNOWN_PACKET_TYPE',
+        message: 'Unknown packet type 0x7f',
+        length: 20,
+        packetType: 0x7f,
+        version: 1,
+      },
+    });
+  });
+
+  it('reports unsupported protocol versions', () => {
+    const result = decodePacket(hex('02 09 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00'));
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'UNSUPPORTED_VERSION', version: 9 } });
+  });
+});
+
+it('decodes from a view into a larger buffer', () => {
+  const buffer = new Uint8Array(24);
+  buffer.set(hex('02 01 e8 03 07 00 f4 01 18 fc e8 03 7d 00 3c f6 00 00 00 00'), 4);
+
+  expect(decoded(buffer.subarray(4))).toMatchObject({ type: 'SENSOR_DATA', sampleId: 7 });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from '@jest/globals';
+import type { IMUDataPoint } from '../GestureAPI';
+import { exceedsLossThreshold, preprocessIMUData, RecordingQualityError } from '../Preprocessing';
+
+const sample = (rel_timestamp: number, value: number, recording_id = 'g_1_abc'): IMUDataPoint => ({
+  rel_timestamp,
+  recording_id,
+  acc_x: value,
+  acc_y: 0,
+  acc_z: 1,
+  gyro_x: value * 10,
+  gyro_y: 0,
+  gyro_z: 0,
+});
+
+const times = (data: IMUDataPoint[]) => data.map(point => point.rel_timestamp);
+
+describe('preprocessIMUData', () => {
+  it('resamples irregular samples onto the target rate', () => {
+    const { data, report } = preprocessIMUData([sample(0, 0), sample(7, 0.7), sample(21, 2.1), sample(30, 3)], {
+      sampleRateHz: 100,
+    });
+
+    expect(times(data)).toEqual([0, 10, 20, 30]);
+    expect(data.map(point => point.acc_x)).toEqual([0, 1, 2, 3].map(value => expect.closeTo(value, 9)));
+    expect(data[1].gyro_x).toBeCloseTo(10, 9);
+    expect(report).toMatchObject({ inputSamples: 4, outputSamples: 4, sampleRateHz: 100 });
+  });
+
+  it('downsamples to a lower rate', () => {
+    const input = Array.from({ length: 21 }, (_, index) => sample(index * 5, index));
+
+    const { data } = preprocessIMUData(input, { sampleRateHz: 50 });
+
+    expect(times(data)).toEqual([0, 20, 40, 60, 80, 100]);
+    expect(data[2].acc_x).toBe(8);
+  });
+
+  it('interpolates across short gaps', () => {
+    const { data, report } = preprocessIMUData([sample(0, 0), sample(10, 1), sample(50, 5), sample(60, 6)], {
+      sampleRateHz: 100,
+      maxGapMs: 50,
+      maxLossRate: 1,
+    });
+
+    expect(times(data)).toEqual([0, 10, 20, 30, 40, 50, 60]);
+    expect(data[3].acc_x).toBeCloseTo(3, 9);
+    expect(report.interpolatedSamples).toBe(3);
+    expect(report.unfilledGaps).toBe(0);
+  });
+
+  it('leaves long gaps empty', () => {
+    const { data, report } = preprocessIMUData([sample(0, 0), sample(10, 1), sample(300, 5), sample(310, 6)], {
+      sampleRateHz: 100,
+      maxGapMs: 100,
+      maxLossRate: 1,
+    });
+
+    expect(times(data)).toEqual([0, 10, 300, 310]);
+    expect(report.unfilledGaps).toBe(1);
+    expect(report.lossRate).toBeCloseTo(28 / 32, 9);
+  });
+
+  it('does not count upsampling a clean recording as loss', () => {
+    const input = Array.from({ length: 50 }, (_, index) => sample(index * 20, index)); // 50 Hz, no packetLoss
+
+    const { data, report } = preprocessIMUData(input, { sampleRateHz: 100 });
+
+    expect(data).toHaveLength(99);
+    expect(report.lossRate).toBe(0);
+    expect(report.interpolatedSamples).toBe(0);
+  });
+
+  it('estimates loss against the recording\'s own rate', () => {
+    // 50 Hz with 4 samples dropped between 100 and 200 ms
+    const input = [0, 20, 40, 60, 80, 100, 200, 220, 240, 260].map((time, index) => sample(time, index));
+
+    const { report } = preprocessIMUData(input, { sampleRateHz: 100, maxLossRate: 1 });
+
+    expect(report.lossRate).toBeCloseTo(4 / 14, 9);
+    expect(report.interpolatedSamples).toBe(9);
+  });
+
+  it('resamples each recording separately', () => {
+    const { data } = preprocessIMUData([sample(0, 0, 'a'), sample(20, 2, 'a'), sample(1000, 0, 'b'), sample(1020, 2, 'b')], {
+      sampleRateHz: 100,
+      maxLossRate: 1,
+    });
+
+    expect(data.map(point => `${point.recording_id}@${point.rel_timestamp}`)).toEqual([
+      'a@0', 'a@10', 'a@20', 'b@1000', 'b@1010', 'b@1020',
+    ]);
+  });
+
+  it('rejects recordings that lost too many samples', () => {
+    const packetLoss = { expected: 10, received: 7, missing: 3, duplicates: 0, outOfOrder: 0, gaps: 1, lossRate: 0.3 };
+    const input = [sample(0, 0), sample(10, 1)];
+
+    expect(() => preprocessIMUData(input, { packetLoss, maxLossRate: 0.2 })).toThrow(RecordingQualityError);
+    expect(() => preprocessIMUData(input, { packetLoss, maxLossRate: 0.2 })).toThrow('30.0% of the samples are missing');
+    expect(preprocessIMUData(input, { packetLoss, maxLossRate: 0.5 }).data).toHaveLength(2);
+  });
+
+  it('passes an empty recording through', () => {
+    expect(preprocessIMUData([]).data).toEqual([]);
+  });
+});
+
+it('flags lossy sessions', () => {
+  const stats = (lossRate: number) => ({ expected: 100, received: 100, missing: 0, duplicates: 0, outOfOrder: 0, gaps: 0, lossRate });
+
+  expect(exceedsLossThreshold(stats(0.25), 0.2)).toBe(true);
+  expect(exceedsLossThreshold(stats(0.1), 0.2)).toBe(false);
+  expect(exceedsLossThreshold(null)).toBe(false);
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals';
+import { RingBuffer } from '../RingBuffer';
+
+describe('RingBuffer', () => {
+  it('keeps items in push order until full', () => {
+    const buffer = new RingBuffer<number>(3);
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(buffer.toArray()).toEqual([1, 2]);
+    expect(buffer.length).toBe(2);
+  });
+
+  it('overwrites the oldest item once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    const evicted = [1, 2, 3, 4, 5].map(item => buffer.push(item));
+
+    expect(evicted).toEqual([undefined, undefined, undefined, 1, 2]);
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.length).toBe(3);
+  });
+
+  it('indexes from either end', () => {
+    const buffer = new RingBuffer<string>(2);
+    ['a', 'b', 'c'].forEach(item => buffer.push(item));
+
+    expect(buffer.at(0)).toBe('b');
+    expect(buffer.at(-1)).toBe('c');
+    expect(buffer.at(2)).toBeUndefined();
+    expect(buffer.at(-3)).toBeUndefined();
+  });
+
+  it('empties on clear', () => {
+    const buffer = new RingBuffer<number>(2);
+    buffer.push(1);
+    buffer.clear();
+    buffer.push(2);
+
+    expect(buffer.toArray()).toEqual([2]);
+  });
+
+  it('rejects an invalid capacity', () => {
+    expect(() => new RingBuffer(0)).toThrow('Invalid ring buffer capacity: 0');
+  });
+});
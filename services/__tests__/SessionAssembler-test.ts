@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { GestureAPI } from '../GestureAPI';
+import { CounterUnwrapper, mergePacketLoss, SessionAssembler, unwrapDataPoints } from '../SessionAssembler';
+import { BLEDataPoint } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const point = (sampleId: number, timestamp = sampleId * 10): BLEDataPoint => ({
+  timestamp: timestamp % 0x10000,
+  sampleId: sampleId % 0x10000,
+  acceleration: { x: 0, y: 0, z: 1 },
+  gyroscope: { x: 0, y: 0, z: 0 },
+  recordingHash: 'abc',
+});
+
+const ids = (points: BLEDataPoint[]) => points.map(entry => entry.unwrappedSampleId);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('CounterUnwrapper', () => {
+  it('continues past the uint16 wrap', () => {
+    const unwrapper = new CounterUnwrapper();
+
+    expect([65534, 65535, 0, 1].map(raw => unwrapper.unwrap(raw))).toEqual([65534, 65535, 65536, 65537]);
+  });
+
+  it('keeps late values behind the newest one', () => {
+    const unwrapper = new CounterUnwrapper();
+    unwrapper.unwrap(65535);
+    unwrapper.unwrap(2);
+
+    expect(unwrapper.unwrap(65534)).toBe(65534);
+    expect(unwrapper.unwrap(3)).toBe(65539);
+  });
+});
+
+describe('SessionAssembler', () => {
+  let assembler: SessionAssembler;
+
+  beforeEach(() => {
+    assembler = new SessionAssembler();
+    assembler.start();
+  });
+
+  it('unwraps sample ids and timestamps across the wrap', () => {
+    [65534, 65535, 65536, 65537].forEach(sampleId => assembler.push(point(sampleId, sampleId)));
+
+    expect(ids(assembler.samples)).toEqual([65534, 65535, 65536, 65537]);
+    expect(assembler.samples.map(entry => entry.unwrappedTimestamp)).toEqual([65534, 65535, 65536, 65537]);
+    expect(assembler.samples[2].sampleId).toBe(0);
+    expect(assembler.finish().missing).toBe(0);
+  });
+
+  it('counts missing samples and gaps', () => {
+    [0, 1, 4, 5, 7].forEach(sampleId => assembler.push(point(sampleId)));
+
+    expect(assembler.finish()).toEqual({
+      expected: 8,
+      received: 5,
+      missing: 3,
+      duplicates: 0,
+      outOfOrder: 0,
+      gaps: 2,
+      lossRate: 3 / 8,
+    });
+  });
+
+  it('drops duplicates', () => {
+    expect(assembler.push(point(0))).not.toBeNull();
+    expect(assembler.push(point(1))).not.toBeNull();
+    expect(assembler.push(point(1))).toBeNull();
+
+    expect(assembler.samples).toHaveLength(2);
+    expect(assembler.finish()).toMatchObject({ received: 2, duplicates: 1, missing: 0 });
+  });
+
+  it('puts late samples back in order and fills their gap', () => {
+    [0, 1, 3, 2, 4].forEach(sampleId => assembler.push(point(sampleId)));
+
+    expect(ids(assembler.samples)).toEqual([0, 1, 2, 3, 4]);
+    expect(assembler.finish()).toMatchObject({ missing: 0, outOfOrder: 1, gaps: 0 });
+  });
+
+  it('counts samples lost before SESSION_END', () => {
+    [65530, 65531].forEach(sampleId => assembler.push(point(sampleId)));
+
+    // The last sample id wrapped to 1, i.e. 65537
+    expect(assembler.finish(1)).toMatchObject({ expected: 8, missing: 6, gaps: 1 });
+  });
+
+  it('starts over for a new session', () => {
+    [0, 5].forEach(sampleId => assembler.push(point(sampleId)));
+    assembler.start('def');
+    assembler.push(point(100));
+
+    expect(ids(assembler.samples)).toEqual([100]);
+    expect(assembler.recordingHash).toBe('def');
+    expect(assembler.stats).toMatchObject({ expected: 1, missing: 0 });
+  });
+});
+
+it('merges statistics across recordings', () => {
+  const merged = mergePacketLoss([
+    { expected: 10, received: 9, missing: 1, duplicates: 0, outOfOrder: 1, gaps: 1, lossRate: 0.1 },
+    { expected: 30, received: 27, missing: 3, duplicates: 2, outOfOrder: 0, gaps: 2, lossRate: 0.1 },
+  ]);
+
+  expect(merged).toEqual({ expected: 40, received: 36, missing: 4, duplicates: 2, outOfOrder: 1, gaps: 3, lossRate: 0.1 });
+});
+
+it('uploads timestamps continued past the wrap', () => {
+  const points = [65530, 65535, 4].map((timestamp, index) => point(index, timestamp));
+
+  expect(unwrapDataPoints(points).map(entry => entry.unwrappedTimestamp)).toEqual([65530, 65535, 65540]);
+  expect(GestureAPI.convertBLEDataToAPI(points, 'abc').map(entry => entry.rel_timestamp)).toEqual([65530, 65535, 65540]);
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PredictionResponse } from '../GestureAPI';
+import {
+  buildExportFile,
+  createDatasetBundle,
+  exportFilename,
+  SessionExportDocument,
+  sessionsToCSV,
+  sessionsToJSON,
+} from '../SessionExport';
+import { StoredSession } from '../SessionRepository';
+import { crc32 } from '../ZipArchive';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const prediction = {
+  all_detected_movements: { circle: 3 },
+  significant_movements: { circle: 3 },
+  detailed_segments: [
+    { movement: 'circle', avg_confidence: 0.92, duration: 0.9, start_time: 0.3, end_time: 1.2, window_count: 3 },
+  ],
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { overlap_ms: 100, sample_rate_hz: 100, window_size_ms: 200 },
+} as PredictionResponse;
+
+const stored = (recordingHash: string, startTime: number, values: number[]): StoredSession => ({
+  id: `${recordingHash}-${startTime}`,
+  recordingHash,
+  deviceId: 'AA:BB',
+  startTime,
+  endTime: startTime + 1000,
+  samples: values.map((value, sampleId) => ({
+    timestamp: sampleId * 10,
+    sampleId,
+    acceleration: { x: value, y: 0, z: 1 },
+    gyroscope: { x: 0, y: value * 10, z: 0 },
+    recordingHash,
+  })),
+  prediction: null,
+  packetLoss: null,
+  savedAt: startTime + 1000,
+});
+
+/**
+ * Entries of a stored (uncompressed) zip, read back from its central directory
+ */
+function readZip(archive: Uint8Array): Map<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const end = archive.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries = new Map<string, string>();
+  let offset = view.getUint32(end + 16, true);
+  for (let index = 0; index < view.getUint16(end + 10, true); index++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = archive.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+    entries.set(name, decoder.decode(data));
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('sessionsToCSV', () => {
+  it('writes samples in the server schema, one recording_id per session', () => {
+    const csv = sessionsToCSV([stored('abc', 1000, [0.5, 1]), stored('def', 5000, [2])]);
+
+    expect(csv.split('\n')).toEqual([
+      'rel_timestamp,recording_id,acc_x,acc_y,acc_z,gyro_x,gyro_y,gyro_z',
+      '0,g_1000_abc,0.5,0,1,0,5,0',
+      '10,g_1000_abc,1,0,1,0,10,0',
+      '0,g_5000_def,2,0,1,0,20,0',
+    ]);
+  });
+
+  it('applies filters when given', () => {
+    const csv = sessionsToCSV([stored('abc', 1000, [0, 2])], {
+      filters: { acceleration: [{ type: 'moving-average', windowSize: 2 }], gyroscope: [] },
+    });
+
+    expect(csv.split('\n')[2]).toBe('10,g_1000_abc,1,0,1,0,20,0');
+  });
+});
+
+it('exports JSON with metadata, predictions and samples', () => {
+  const session = { ...stored('abc', 1000, [1]), prediction };
+
+  const document: SessionExportDocument = JSON.parse(sessionsToJSON([session], { exportedAt: new Date(0) }));
+
+  expect(document).toMatchObject({ format: 'abracadabra-sessions', version: 1, exportedAt: '1970-01-01T00:00:00.000Z', filters: null });
+  expect(document.sessions[0]).toMatchObject({
+    id: 'abc-1000',
+    recordingId: 'g_1000_abc',
+    durationMs: 1000,
+    sampleCount: 1,
+    primaryMovement: 'circle',
+    confidence: 0.92,
+    prediction,
+  });
+  expect(document.sessions[0].samples).toEqual(session.samples);
+});
+
+it('bundles a manifest and one CSV per session into a zip', () => {
+  const sessions = [{ ...stored('abc', 1000, [1]), prediction }, stored('def', 5000, [2, 3])];
+
+  const entries = readZip(createDatasetBundle(sessions));
+
+  expect(Array.from(entries.keys())).toEqual(['manifest.json', 'recordings/g_1000_abc.csv', 'recordings/g_5000_def.csv']);
+  const manifest: SessionExportDocument = JSON.parse(entries.get('manifest.json')!);
+  expect(manifest.sessions.map(session => session.file)).toEqual(['recordings/g_1000_abc.csv', 'recordings/g_5000_def.csv']);
+  expect(manifest.sessions[0].primaryMovement).toBe('circle');
+  expect(manifest.sessions[0].samples).toBeUndefined();
+  expect(entries.get('recordings/g_5000_def.csv')).toBe(sessionsToCSV([sessions[1]]));
+});
+
+describe('buildExportFile', () => {
+  it('names single-session and batch exports', () => {
+    const exportedAt = new Date(2025, 2, 1, 14, 25, 0);
+
+    expect(exportFilename([stored('abc', 0, [])], 'csv', exportedAt)).toBe('abracadabra-session-abc.csv');
+    expect(exportFilename([stored('abc', 0, []), stored('def', 0, [])], 'zip', exportedAt))
+      .toBe('abracadabra-2-sessions-20250301-142500.zip');
+  });
+
+  it('picks the MIME type by format', () => {
+    const sessions = [stored('abc', 1000, [1])];
+
+    expect(buildExportFile(sessions, 'json').mimeType).toBe('application/json');
+    expect(buildExportFile(sessions, 'zip').data).toBeInstanceOf(Uint8Array);
+  });
+
+  it('refuses an empty export', () => {
+    expect(() => buildExportFile([], 'csv')).toThrow('No sessions to export');
+  });
+});
+
+it('computes standard CRC-32 checksums', () => {
+  expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+});
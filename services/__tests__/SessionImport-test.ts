@@ -0,0 +1,145 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PredictionResponse } from '../GestureAPI';
+import { sessionsToCSV, sessionsToJSON } from '../SessionExport';
+import {
+  IMPORTED_DEVICE_ID,
+  importSessions,
+  parseSessionFile,
+  parseSessionsCSV,
+  parseSessionsJSON,
+} from '../SessionImport';
+import { SessionRepository, StoredSession } from '../SessionRepository';
+import { MemoryStorageAdapter } from '../Storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const prediction = {
+  all_detected_movements: { circle: 3 },
+  significant_movements: { circle: 3 },
+  detailed_segments: [],
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { overlap_ms: 100, sample_rate_hz: 100, window_size_ms: 200 },
+} as PredictionResponse;
+
+const stored = (recordingHash: string, startTime: number, values: number[]): StoredSession => ({
+  id: `${recordingHash}-${startTime}`,
+  recordingHash,
+  deviceId: 'AA:BB',
+  startTime,
+  endTime: startTime + 1000,
+  samples: values.map((value, sampleId) => ({
+    timestamp: sampleId * 10,
+    sampleId,
+    acceleration: { x: value, y: 0, z: 1 },
+    gyroscope: { x: 0, y: value * 10, z: 0 },
+    recordingHash,
+  })),
+  prediction: null,
+  packetLoss: null,
+  savedAt: startTime + 1000,
+});
+
+describe('parseSessionsCSV', () => {
+  it('groups exported rows back into sessions by recording id', () => {
+    const csv = sessionsToCSV([stored('aaa', 1000, [0.1, 0.2, 0.3]), stored('bbb', 5000, [0.5, 0.6])]);
+    const sessions = parseSessionsCSV(csv, 9000);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({
+      id: 'aaa-1000',
+      recordingHash: 'aaa',
+      deviceId: IMPORTED_DEVICE_ID,
+      startTime: 1000,
+      endTime: 1020,
+      prediction: null,
+      savedAt: 9000,
+    });
+    expect(sessions[0].samples.map(sample => sample.acceleration.x)).toEqual([0.1, 0.2, 0.3]);
+    expect(sessions[0].samples.map(sample => sample.gyroscope.y)).toEqual([1, 2, 3]);
+    expect(sessions[1].recordingHash).toBe('bbb');
+    expect(sessions[1].samples.map(sample => sample.sampleId)).toEqual([0, 1]);
+  });
+
+  it('wraps long recordings into device-style uint16 counters', () => {
+    const csv = [
+      'rel_timestamp,recording_id,acc_x,acc_y,acc_z,gyro_x,gyro_y,gyro_z',
+      '65530,plain,0,0,1,0,0,0',
+      '65540,plain,0,0,1,0,0,0',
+    ].join('\n');
+    const [session] = parseSessionsCSV(csv, 9000);
+
+    expect(session.recordingHash).toBe('plain');
+    expect(session.startTime).toBe(9000); // No start time in the id
+    expect(session.samples.map(sample => sample.timestamp)).toEqual([65530, 4]);
+    expect(session.samples.map(sample => sample.unwrappedTimestamp)).toEqual([65530, 65540]);
+  });
+
+  it('rejects missing columns and malformed rows', () => {
+    expect(() => parseSessionsCSV('rel_timestamp,acc_x\n0,1')).toThrow('missing column(s): recording_id');
+    expect(() => parseSessionsCSV([
+      'rel_timestamp,recording_id,acc_x,acc_y,acc_z,gyro_x,gyro_y,gyro_z',
+      '0,a,0,0,1,0,0,0',
+      '10,a,0,0,oops,0,0,0',
+    ].join('\n'))).toThrow('Line 3');
+    expect(() => parseSessionsCSV('rel_timestamp,recording_id,acc_x,acc_y,acc_z,gyro_x,gyro_y,gyro_z\n'))
+      .toThrow('no samples');
+  });
+});
+
+describe('parseSessionsJSON', () => {
+  it('round-trips a JSON export', () => {
+    const original = { ...stored('aaa', 1000, [0.1, 0.2]), prediction };
+    const [session] = parseSessionsJSON(sessionsToJSON([original]), 9000);
+
+    expect(session).toEqual({ ...original, savedAt: 9000 });
+  });
+
+  it('rejects other documents and newer export versions', () => {
+    expect(() => parseSessionsJSON('not json')).toThrow('not valid JSON');
+    expect(() => parseSessionsJSON('{"sessions": []}')).toThrow('not an Abracadabra session export');
+
+    const document = JSON.parse(sessionsToJSON([stored('aaa', 1000, [0.1])]));
+    expect(() => parseSessionsJSON(JSON.stringify({ ...document, version: 99 }))).toThrow('version 99');
+    delete document.sessions[0].samples;
+    expect(() => parseSessionsJSON(JSON.stringify(document))).toThrow('has no samples');
+  });
+});
+
+describe('parseSessionFile', () => {
+  it('picks the parser by extension or content and names the file in errors', () => {
+    const session = stored('aaa', 1000, [0.1]);
+    expect(parseSessionFile({ name: 'a.json', text: sessionsToJSON([session]) })).toHaveLength(1);
+    expect(parseSessionFile({ name: 'export', text: sessionsToJSON([session]) })).toHaveLength(1);
+    expect(parseSessionFile({ name: 'a.csv', text: sessionsToCSV([session]) })).toHaveLength(1);
+    expect(() => parseSessionFile({ name: 'broken.csv', text: 'nope' })).toThrow(/^broken\.csv: /);
+  });
+});
+
+describe('importSessions', () => {
+  it('saves every parsed session to the repository', async () => {
+    const repository = new SessionRepository(new MemoryStorageAdapter());
+    const summaries = await importSessions([
+      { name: 'a.json', text: sessionsToJSON([{ ...stored('aaa', 1000, [0.1, 0.2]), prediction }]) },
+      { name: 'b.csv', text: sessionsToCSV([stored('bbb', 5000, [0.5])]) },
+    ], repository);
+
+    expect(summaries.map(summary => summary.id)).toEqual(['aaa-1000', 'bbb-5000']);
+    const sessions = await repository.list();
+    expect(sessions).toHaveLength(2);
+    expect((await repository.get('aaa-1000'))?.prediction).toEqual(prediction);
+    expect((await repository.get('bbb-5000'))?.samples).toHaveLength(1);
+  });
+
+  it('saves nothing when any file fails to parse', async () => {
+    const repository = new SessionRepository(new MemoryStorageAdapter());
+    await expect(importSessions([
+      { name: 'a.csv', text: sessionsToCSV([stored('aaa', 1000, [0.1])]) },
+      { name: 'b.csv', text: 'garbage' },
+    ], repository)).rejects.toThrow('b.csv');
+
+    expect(await repository.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { GestureAPI, PredictionResponse } from '../GestureAPI';
+import { decodePacket, Packet } from '../PacketCodec';
+import { SessionRepository, StoredSession } from '../SessionRepository';
+import { buildReplayPackets, repredictSession, ReplayEvent, SessionReplayer } from '../SessionReplayer';
+import { MemoryStorageAdapter } from '../Storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const prediction = {
+  all_detected_movements: { flick: 1 },
+  significant_movements: { flick: 1 },
+  detailed_segments: [],
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { overlap_ms: 100, sample_rate_hz: 100, window_size_ms: 200 },
+} as PredictionResponse;
+
+// 11 samples 10ms apart, crossing the uint16 timestamp wrap
+const session: StoredSession = {
+  id: 'abcd-1000',
+  recordingHash: 'abcd',
+  deviceId: 'AA:BB',
+  startTime: 1000,
+  endTime: 1100,
+  samples: Array.from({ length: 11 }, (_, index) => ({
+    timestamp: (65500 + index * 10) & 0xffff,
+    sampleId: index,
+    acceleration: { x: index / 10, y: 0, z: 1 },
+    gyroscope: { x: 0, y: 0, z: index },
+    recordingHash: 'abcd',
+  })),
+  prediction: null,
+  packetLoss: null,
+  savedAt: 2000,
+};
+
+function decoded(bytes: Uint8Array): Packet {
+  const result = decodePacket(bytes);
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.packet;
+}
+
+describe('buildReplayPackets', () => {
+  it('encodes the session as the device would have sent it', () => {
+    const packets = buildReplayPackets(session);
+    const types = packets.map(packet => decoded(packet.bytes).type);
+
+    expect(types).toEqual(['SESSION_START', ...Array(11).fill('SENSOR_DATA'), 'SESSION_END']);
+    expect(packets.map(packet => packet.atMs)).toEqual([0, 0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 100]);
+    expect(decoded(packets[0].bytes)).toMatchObject({ recordingHash: 'abcd', sampleRateHz: 100 });
+    expect(decoded(packets[5].bytes)).toMatchObject({ sampleId: 4, timestamp: 4, gyroscope: { z: 4 } });
+    expect(decoded(packets[12].bytes)).toMatchObject({ durationMs: 100, lastSampleId: 10, totalSamples: 11 });
+  });
+
+  it('returns nothing for an empty session', () => {
+    expect(buildReplayPackets({ ...session, samples: [] })).toEqual([]);
+  });
+});
+
+describe('SessionReplayer', () => {
+  let replayer: SessionReplayer;
+  let events: ReplayEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    replayer = new SessionReplayer();
+    events = [];
+    replayer.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    replayer.stop();
+    jest.useRealTimers();
+  });
+
+  const sent = () => events.filter(event => event.type === 'data').length;
+
+  it('delivers packets on the recorded schedule, scaled by speed', () => {
+    replayer.start(session, 2);
+    expect(replayer.isReplaying).toBe(true);
+    expect(sent()).toBe(2); // SESSION_START and the first sample
+
+    jest.advanceTimersByTime(20); // 40ms of recording
+    expect(sent()).toBe(6);
+
+    jest.advanceTimersByTime(40);
+    expect(sent()).toBe(13);
+    expect(events[events.length - 1]).toEqual({ type: 'finished', session });
+    expect(replayer.isReplaying).toBe(false);
+  });
+
+  it('stops on request and refuses overlapping or invalid replays', () => {
+    replayer.start(session);
+    expect(() => replayer.start(session)).toThrow('already running');
+
+    replayer.stop();
+    expect(events[events.length - 1]).toEqual({ type: 'stopped', session });
+    jest.advanceTimersByTime(1000);
+    expect(sent()).toBe(2);
+
+    expect(() => replayer.start(session, 0)).toThrow('Invalid replay speed');
+    expect(() => replayer.start({ ...session, samples: [] })).toThrow('no samples');
+  });
+});
+
+describe('repredictSession', () => {
+  it('predicts the stored samples again and saves the result', async () => {
+    const repository = new SessionRepository(new MemoryStorageAdapter());
+    const { id } = await repository.save(
+      { id: 'abcd', startTime: 1000, endTime: 1100, isActive: false, deviceId: 'AA:BB', samplesReceived: 11 },
+      session.samples,
+      null
+    );
+    const predictGesture = jest.spyOn(GestureAPI, 'predictGesture').mockResolvedValue(prediction);
+
+    const stored = (await repository.get(id))!;
+    await expect(repredictSession(stored, null, repository)).resolves.toBe(prediction);
+
+    const [data] = predictGesture.mock.calls[0];
+    expect(data).toHaveLength(11);
+    expect(data[0].recording_id).toBe('g_1000_abcd');
+    expect((await repository.get(id))?.prediction).toEqual(prediction);
+    predictGesture.mockRestore();
+  });
+});
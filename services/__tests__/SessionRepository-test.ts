@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { filterSessions, SessionRepository, SessionSummary, sessionLabels } from '../SessionRepository';
+import { MemoryStorageAdapter } from '../Storage';
+import { PredictionResponse } from '../GestureAPI';
+import { BLEDataPoint, GestureSession } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const session = (id: string, startTime: number): GestureSession => ({
+  id,
+  startTime,
+  endTime: startTime + 1500,
+  isActive: false,
+  deviceId: 'AA:BB',
+  samplesReceived: 2,
+});
+
+const samples: BLEDataPoint[] = [0, 1].map(sampleId => ({
+  timestamp: sampleId * 10,
+  sampleId,
+  acceleration: { x: 0, y: 0, z: 1 },
+  gyroscope: { x: 0, y: 0, z: 0 },
+  recordingHash: 'abc',
+}));
+
+const prediction = {
+  all_detected_movements: { circle: 3, flick: 1 },
+  significant_movements: { circle: 3 },
+  detailed_segments: [
+    { movement: 'flick', avg_confidence: 0.6, duration: 0.2, start_time: 0, end_time: 0.2, window_count: 1 },
+    { movement: 'circle', avg_confidence: 0.92, duration: 0.9, start_time: 0.3, end_time: 1.2, window_count: 3 },
+  ],
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { overlap_ms: 100, sample_rate_hz: 100, window_size_ms: 200 },
+} as PredictionResponse;
+
+let storage: MemoryStorageAdapter;
+let repository: SessionRepository;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  storage = new MemoryStorageAdapter();
+  repository = new SessionRepository(storage);
+});
+
+it('saves a session with its samples and lists a summary', async () => {
+  const summary = await repository.save(session('abc', 1000), samples);
+
+  expect(summary).toEqual({
+    id: 'abc-1000',
+    recordingHash: 'abc',
+    deviceId: 'AA:BB',
+    startTime: 1000,
+    endTime: 2500,
+    durationMs: 1500,
+    sampleCount: 2,
+    primaryMovement: null,
+    confidence: null,
+    packetLoss: null,
+    savedAt: expect.any(Number),
+  });
+  expect(await repository.list()).toEqual([summary]);
+  expect((await repository.get('abc-1000'))?.samples).toEqual(samples);
+});
+
+it('keeps the packet loss statistics of the session', async () => {
+  const packetLoss = { expected: 3, received: 2, missing: 1, duplicates: 0, outOfOrder: 0, gaps: 1, lossRate: 1 / 3 };
+
+  const summary = await repository.save({ ...session('abc', 1000), packetLoss }, samples);
+
+  expect(summary.packetLoss).toEqual(packetLoss);
+  expect((await repository.get('abc-1000'))?.packetLoss).toEqual(packetLoss);
+});
+
+it('lists newest sessions first', async () => {
+  await repository.save(session('a', 1000), samples);
+  await repository.save(session('c', 3000), samples);
+  await repository.save(session('b', 2000), samples);
+
+  expect((await repository.list()).map(entry => entry.id)).toEqual(['c-3000', 'b-2000', 'a-1000']);
+});
+
+it('attaches a late prediction and summarizes the primary movement', async () => {
+  const { id } = await repository.save(session('abc', 1000), samples);
+
+  const updated = await repository.setPrediction(id, prediction);
+
+  expect(updated).toMatchObject({ primaryMovement: 'circle', confidence: 0.92 });
+  expect((await repository.list())[0]).toMatchObject({ primaryMovement: 'circle' });
+  expect((await repository.get(id))?.prediction).toEqual(prediction);
+});
+
+it('deletes one session and purges the rest', async () => {
+  await repository.save(session('a', 1000), samples);
+  await repository.save(session('b', 2000), samples);
+
+  expect(await repository.delete('a-1000')).toBe(true);
+  expect(await repository.delete('a-1000')).toBe(false);
+  expect(await repository.get('a-1000')).toBeNull();
+
+  expect(await repository.purge()).toBe(1);
+  expect(await repository.list()).toEqual([]);
+  expect(storage.keys).toEqual([]);
+});
+
+it('notifies subscribers on every change', async () => {
+  const listener = jest.fn();
+  const unsubscribe = repository.subscribe(listener);
+
+  const { id } = await repository.save(session('a', 1000), samples);
+  await repository.setPrediction(id, prediction);
+  await repository.delete(id);
+  unsubscribe();
+  await repository.purge();
+
+  expect(listener).toHaveBeenCalledTimes(3);
+});
+
+it('keeps concurrent writes consistent', async () => {
+  await Promise.all([
+    repository.save(session('a', 1000), samples),
+    repository.save(session('b', 2000), samples),
+    repository.save(session('c', 3000), samples),
+  ]);
+
+  expect(await repository.list()).toHaveLength(3);
+});
+
+describe('filterSessions', () => {
+  const now = new Date(2026, 9, 18, 15, 0).getTime();
+  const summary = (id: string, startTime: number, primaryMovement: string | null) =>
+    ({ id, startTime, primaryMovement } as SessionSummary);
+  const sessions = [
+    summary('today-circle', now - 60 * 60 * 1000, 'circle'),
+    summary('yesterday-flick', now - 24 * 60 * 60 * 1000, 'flick'),
+    summary('old-circle', now - 40 * 24 * 60 * 60 * 1000, 'circle'),
+    summary('unlabeled', now - 2 * 60 * 60 * 1000, null),
+  ];
+  const ids = (filtered: SessionSummary[]) => filtered.map(entry => entry.id);
+
+  it('filters by detected gesture label', () => {
+    expect(ids(filterSessions(sessions, { label: 'circle' }, now))).toEqual(['today-circle', 'old-circle']);
+  });
+
+  it('filters by date range', () => {
+    expect(ids(filterSessions(sessions, { range: 'today' }, now))).toEqual(['today-circle', 'unlabeled']);
+    expect(ids(filterSessions(sessions, { range: 'week' }, now))).toHaveLength(3);
+    expect(ids(filterSessions(sessions, { range: 'all' }, now))).toHaveLength(4);
+  });
+
+  it('combines both filters', () => {
+    expect(ids(filterSessions(sessions, { label: 'circle', range: 'month' }, now))).toEqual(['today-circle']);
+  });
+
+  it('lists distinct labels', () => {
+    expect(sessionLabels(sessions)).toEqual(['circle', 'flick']);
+  });
+});
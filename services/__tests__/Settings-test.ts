@@ -0,0 +1,58 @@
+import { beforeEach, expect, it, jest } from '@jest/globals';
+import { DEFAULT_SETTINGS, resolveApiBaseUrl, SettingsStore } from '../Settings';
+import { MemoryStorageAdapter } from '../Storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+let storage: MemoryStorageAdapter;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  storage = new MemoryStorageAdapter();
+});
+
+it('starts from the defaults', async () => {
+  expect(await new SettingsStore(storage).load()).toEqual(DEFAULT_SETTINGS);
+});
+
+it('persists updates and notifies subscribers', async () => {
+  const store = new SettingsStore(storage);
+  const listener = jest.fn();
+  store.subscribe(listener);
+
+  await store.update({ predictionEngine: 'local' });
+
+  expect(listener).toHaveBeenLastCalledWith({ ...DEFAULT_SETTINGS, predictionEngine: 'local' });
+  expect((await new SettingsStore(storage).load()).predictionEngine).toBe('local');
+});
+
+it('reads storage again after a failed load', async () => {
+  await storage.setItem('abracadabra:settings', JSON.stringify({ predictionEngine: 'local' }));
+  jest.spyOn(storage, 'getItem').mockRejectedValueOnce(new Error('Storage unavailable'));
+  const store = new SettingsStore(storage);
+
+  await expect(store.load()).rejects.toThrow('Storage unavailable');
+  expect((await store.load()).predictionEngine).toBe('local');
+});
+
+it('fills settings missing from storage with defaults', async () => {
+  await storage.setItem('abracadabra:settings', JSON.stringify({}));
+
+  const store = new SettingsStore(storage);
+  await store.load();
+
+  expect(store.current).toEqual(DEFAULT_SETTINGS);
+});
+
+it('resolves environment base URLs, using the configured local and staging addresses', () => {
+  const settings = { ...DEFAULT_SETTINGS, localApiUrl: ' http://192.168.1.20:8000 ' };
+
+  expect(resolveApiBaseUrl(settings)).toBe('https://abracadabragestureprocessing-production.up.railway.app');
+  expect(resolveApiBaseUrl(settings, 'local')).toBe('http://192.168.1.20:8000');
+  expect(resolveApiBaseUrl({ ...settings, localApiUrl: '' }, 'local')).toBe('http://localhost:8000');
+  expect(resolveApiBaseUrl(settings, 'staging')).toBe('');
+  expect(resolveApiBaseUrl({ ...settings, stagingApiUrl: 'https://staging.example.com ' }, 'staging'))
+    .toBe('https://staging.example.com');
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEG_TO_RAD, fromAxisAngle, rotateVector } from '../orientation';
+import {
+  describeFilter,
+  estimateSampleRate,
+  filterRecording,
+  SensorFilters,
+  SignalFilterSpec,
+  SignalProcessor,
+} from '../SignalProcessing';
+import { BLEDataPoint } from '../types';
+
+const RATE_HZ = 100;
+
+const point = (index: number, accX: number, acceleration = { x: accX, y: 0, z: 0 }): BLEDataPoint => ({
+  timestamp: (index * 10) % 0x10000,
+  sampleId: index,
+  acceleration,
+  gyroscope: { x: accX, y: 0, z: 0 },
+  recordingHash: 'abc',
+});
+
+const sine = (frequencyHz: number, count = 1000, offset = 0) =>
+  Array.from({ length: count }, (_, index) => point(index, offset + Math.sin((2 * Math.PI * frequencyHz * index) / RATE_HZ)));
+
+/**
+ * Sine amplitude of acceleration x over the last second, once the filter has
+ * settled. Measured from the RMS, so sample phase doesn't matter.
+ */
+const amplitude = (points: BLEDataPoint[]) => {
+  const tail = points.slice(-RATE_HZ).map(entry => entry.acceleration.x);
+  return Math.sqrt((2 * tail.reduce((sum, value) => sum + value * value, 0)) / tail.length);
+};
+
+const settledAmplitude = (points: BLEDataPoint[], spec: SignalFilterSpec) =>
+  amplitude(filterRecording(points, { acceleration: [spec], gyroscope: [] }, RATE_HZ));
+
+describe('low-pass', () => {
+  const spec: SignalFilterSpec = { type: 'low-pass', cutoffHz: 5 };
+
+  it('passes frequencies below the cutoff', () => {
+    expect(settledAmplitude(sine(1), spec)).toBeGreaterThan(0.98);
+  });
+
+  it('attenuates the cutoff frequency by 3dB', () => {
+    expect(settledAmplitude(sine(5), spec)).toBeCloseTo(Math.SQRT1_2, 2);
+  });
+
+  it('rejects frequencies well above the cutoff', () => {
+    expect(settledAmplitude(sine(30), spec)).toBeLessThan(0.05);
+  });
+
+  it('starts from a constant signal without a transient', () => {
+    const output = filterRecording(sine(0, 10, 1), { acceleration: [spec], gyroscope: [] }, RATE_HZ);
+
+    output.forEach(entry => expect(entry.acceleration.x).toBeCloseTo(1, 9));
+  });
+});
+
+describe('high-pass', () => {
+  const spec: SignalFilterSpec = { type: 'high-pass', cutoffHz: 0.5 };
+
+  it('removes a constant offset', () => {
+    const output = filterRecording(sine(10, 1000, 1), { acceleration: [spec], gyroscope: [] }, RATE_HZ);
+    const tail = output.slice(-RATE_HZ).map(entry => entry.acceleration.x);
+
+    expect(tail.reduce((sum, value) => sum + value, 0) / tail.length).toBeCloseTo(0, 2);
+  });
+
+  it('passes frequencies above the cutoff', () => {
+    expect(settledAmplitude(sine(10), spec)).toBeGreaterThan(0.99);
+  });
+
+  it('attenuates frequencies below the cutoff', () => {
+    expect(settledAmplitude(sine(0.1, 3000), spec)).toBeLessThan(0.05);
+  });
+});
+
+describe('moving-average', () => {
+  it('cancels a sine whose period matches the window', () => {
+    expect(settledAmplitude(sine(20), { type: 'moving-average', windowSize: 5 })).toBeLessThan(1e-9);
+  });
+
+  it('averages the samples seen so far while filling the window', () => {
+    const points = [1, 2, 3, 4].map((value, index) => point(index, value));
+
+    const output = filterRecording(points, { acceleration: [{ type: 'moving-average', windowSize: 3 }], gyroscope: [] });
+
+    expect(output.map(entry => entry.acceleration.x)).toEqual([1, 1.5, 2, 3]);
+  });
+});
+
+describe('gravity-removal', () => {
+  it('leaves only the linear acceleration of a tilted, still device', () => {
+    const tilt = fromAxisAngle({ x: 1, y: 1, z: 0 }, 50 * DEG_TO_RAD);
+    const gravity = rotateVector({ ...tilt, x: -tilt.x, y: -tilt.y, z: -tilt.z }, { x: 0, y: 0, z: 1 });
+    const points = Array.from({ length: 200 }, (_, index) =>
+      ({ ...point(index, 0, gravity), gyroscope: { x: 0, y: 0, z: 0 } })
+    );
+
+    const output = filterRecording(points, { acceleration: [{ type: 'gravity-removal' }], gyroscope: [] });
+
+    output.forEach(entry => {
+      expect(Math.hypot(entry.acceleration.x, entry.acceleration.y, entry.acceleration.z)).toBeLessThan(1e-6);
+    });
+  });
+
+  it('only applies to acceleration', () => {
+    expect(() => new SignalProcessor({ acceleration: [], gyroscope: [{ type: 'gravity-removal' }] })).toThrow(
+      'Gravity removal only applies to acceleration'
+    );
+  });
+});
+
+describe('SignalProcessor', () => {
+  it('filters each sensor with its own chain', () => {
+    const filters: SensorFilters = {
+      acceleration: [{ type: 'low-pass', cutoffHz: 5 }, { type: 'moving-average', windowSize: 5 }],
+      gyroscope: [],
+    };
+
+    const output = filterRecording(sine(30), filters, RATE_HZ);
+
+    expect(amplitude(output)).toBeLessThan(0.05);
+    expect(output.map(entry => entry.gyroscope)).toEqual(sine(30).map(entry => entry.gyroscope));
+  });
+
+  it('starts over after a reset', () => {
+    const processor = new SignalProcessor({ acceleration: [{ type: 'moving-average', windowSize: 2 }], gyroscope: [] });
+    processor.process(point(0, 10));
+    processor.reset();
+
+    expect(processor.process(point(1, 2)).acceleration.x).toBe(2);
+  });
+
+  it('returns unfiltered recordings as they are', () => {
+    const points = sine(1, 10);
+
+    expect(filterRecording(points, { acceleration: [], gyroscope: [] })).toBe(points);
+  });
+
+  it('designs recordings\' filters for their own rate', () => {
+    // 1Hz at 25Hz: the same sine as 4Hz looks at 100Hz
+    const slow = sine(4, 400).map((entry, index) => ({ ...entry, timestamp: index * 40 }));
+    const lowPass: SensorFilters = { acceleration: [{ type: 'low-pass', cutoffHz: 5 }], gyroscope: [] };
+
+    expect(estimateSampleRate(slow)).toBe(25);
+    expect(amplitude(filterRecording(slow, lowPass))).toBeGreaterThan(0.95);
+    expect(amplitude(filterRecording(slow, lowPass, RATE_HZ))).toBeLessThan(0.95);
+  });
+
+  it('rejects cutoffs above the Nyquist frequency', () => {
+    expect(() => new SignalProcessor({ acceleration: [{ type: 'low-pass', cutoffHz: 60 }], gyroscope: [] }, RATE_HZ))
+      .toThrow('Cutoff 60Hz must be between 0 and 50Hz');
+  });
+});
+
+it('describes filters for chart labels', () => {
+  expect(describeFilter({ type: 'low-pass', cutoffHz: 5 })).toBe('Low-pass 5Hz');
+  expect(describeFilter({ type: 'moving-average', windowSize: 3 })).toBe('Moving average ×3');
+});
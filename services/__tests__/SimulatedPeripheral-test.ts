@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DeviceConnection } from '../DeviceConnection';
+import { GestureAPI } from '../GestureAPI';
+import { classifyLocally } from '../LocalClassifier';
+import { decodePacket, Packet } from '../PacketCodec';
+import { SessionAssembler } from '../SessionAssembler';
+import { createMockModel } from '../simulation/MockGestureServer';
+import { SIMULATED_GESTURES, SimulatedGesture, SimulatedPeripheral } from '../simulation/SimulatedPeripheral';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Six samples at 100Hz, so a full session plays in about 50ms
+const tap: SimulatedGesture = {
+  name: 'tap',
+  durationMs: 50,
+  sample: t => ({ acceleration: { x: t / 100, y: 0, z: 1 }, gyroscope: { x: 0, y: 0, z: t } }),
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function connect(peripheral: SimulatedPeripheral) {
+  const connection = new DeviceConnection({ createManager: peripheral.createManager, autoReconnect: false });
+  const packets: Packet[] = [];
+  connection.subscribe(event => {
+    if (event.type === 'data') {
+      const result = decodePacket(event.bytes);
+      if (result.ok) packets.push(result.packet);
+    }
+  });
+  connection.initialize();
+  await connection.startScan();
+  await wait(0);
+  return { connection, packets };
+}
+
+describe('gestureSamples', () => {
+  it('samples the script at the device rate with wrapping counters', () => {
+    const peripheral = new SimulatedPeripheral({ noise: 0 });
+    const samples = peripheral.gestureSamples(tap, 'abc');
+
+    expect(samples).toHaveLength(6);
+    expect(samples.map(sample => sample.sampleId)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(samples.map(sample => sample.gyroscope.z)).toEqual([0, 10, 20, 30, 40, 50]);
+    expect(new Set(samples.map(sample => (sample.timestamp - samples[0].timestamp) & 0xffff)))
+      .toEqual(new Set([0, 10, 20, 30, 40, 50]));
+    expect(samples.every(sample => sample.recordingHash === 'abc')).toBe(true);
+  });
+
+  it('scripts gestures the mock model recognizes', () => {
+    const peripheral = new SimulatedPeripheral();
+    const model = createMockModel();
+
+    for (const name of ['flick', 'shake', 'circle']) {
+      const samples = peripheral.gestureSamples(SIMULATED_GESTURES[name], 'abc');
+      const prediction = classifyLocally(GestureAPI.convertBLEDataToAPI(samples, 'abc'), model);
+      expect(GestureAPI.getPrimaryMovement(prediction)?.movement).toBe(name);
+    }
+  });
+});
+
+describe('SimulatedPeripheral', () => {
+  it('is found and streams a full session through DeviceConnection', async () => {
+    const peripheral = new SimulatedPeripheral({ random: () => 0.5 });
+    const { connection, packets } = await connect(peripheral);
+    expect(connection.state).toBe('streaming');
+    expect(connection.connectedDevice?.id).toBe(peripheral.device.id);
+
+    const recordingHash = peripheral.perform(tap);
+    await wait(150);
+
+    expect(peripheral.isPlaying).toBe(false);
+    expect(packets.map(packet => packet.type)).toEqual([
+      'SESSION_START', ...Array(6).fill('SENSOR_DATA'), 'SESSION_END',
+    ]);
+    expect(packets[0]).toMatchObject({ recordingHash, sampleRateHz: 100 });
+    expect(packets[7]).toMatchObject({ recordingHash, lastSampleId: 5, totalSamples: 6 });
+
+    const assembler = new SessionAssembler();
+    packets.forEach(packet => {
+      if (packet.type === 'SENSOR_DATA') {
+        assembler.push({ ...packet, recordingHash });
+      }
+    });
+    expect(assembler.finish(5)).toMatchObject({ expected: 6, missing: 0, duplicates: 0 });
+    connection.destroy();
+  });
+
+  it('only performs while connected and stops when the central disconnects', async () => {
+    const peripheral = new SimulatedPeripheral();
+    expect(() => peripheral.perform(tap)).toThrow('not connected');
+
+    const { connection, packets } = await connect(peripheral);
+    peripheral.perform(SIMULATED_GESTURES.circle);
+    await connection.disconnect();
+    const sent = packets.length;
+    await wait(50);
+
+    expect(peripheral.isPlaying).toBe(false);
+    expect(packets).toHaveLength(sent);
+    expect(packets.some(packet => packet.type === 'SESSION_END')).toBe(false);
+    connection.destroy();
+  });
+});
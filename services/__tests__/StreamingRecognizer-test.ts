@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { reconcile, RecognitionEvent, StreamingRecognizer, WindowClassifier } from '../StreamingRecognizer';
+import { IMUDataPoint, PredictionResponse, PrimaryMovement } from '../GestureAPI';
+import { BLEDataPoint } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// 40ms windows advancing by 20ms: 4 and 2 samples at 100Hz
+const WINDOW_PARAMS = { window_size_ms: 40, overlap_ms: 20, sample_rate_hz: 100 };
+
+const sample = (sampleId: number, gyroX = 0, intervalMs = 10): BLEDataPoint => ({
+  timestamp: sampleId * intervalMs,
+  sampleId,
+  acceleration: { x: 0, y: 0, z: 1 },
+  gyroscope: { x: gyroX, y: 0, z: 0 },
+  recordingHash: 'abc',
+});
+
+const final = (segments: PredictionResponse['detailed_segments']): PredictionResponse => ({
+  all_detected_movements: {},
+  significant_movements: {},
+  detailed_segments: segments,
+  raw_window_predictions: { predictions: [], confidences: [], smoothed_predictions: [], times: [] },
+  still_phases: 0,
+  window_params: { window_size_ms: 200, overlap_ms: 100, sample_rate_hz: 50 },
+});
+
+const segment = (movement: string, start_time: number, end_time: number) => ({
+  movement,
+  avg_confidence: 0.9,
+  duration: end_time - start_time,
+  start_time,
+  end_time,
+  window_count: 1,
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Labels a window "shake" when its first sample spins faster than 50°/s
+ */
+const byGyro: WindowClassifier = async (points: IMUDataPoint[]) =>
+  points[0].gyro_x > 50 ? { movement: 'shake', confidence: 0.8 } : null;
+
+let events: RecognitionEvent[];
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  events = [];
+});
+
+const createRecognizer = (classify: WindowClassifier = byGyro) => {
+  const recognizer = new StreamingRecognizer(classify);
+  recognizer.setWindowParams(WINDOW_PARAMS);
+  recognizer.subscribe(event => events.push(event));
+  return recognizer;
+};
+
+it('ignores samples until a session starts', async () => {
+  const classify = jest.fn(byGyro);
+  const recognizer = createRecognizer(classify);
+
+  for (let i = 0; i < 8; i++) recognizer.push(sample(i, 100));
+  await flush();
+
+  expect(classify).not.toHaveBeenCalled();
+});
+
+it('classifies each window as soon as it fills and merges consecutive detections', async () => {
+  const classify = jest.fn(byGyro);
+  const recognizer = createRecognizer(classify);
+  recognizer.start('abc');
+
+  for (let i = 0; i < 8; i++) {
+    recognizer.push(sample(i, i >= 2 ? 100 : 0));
+    await flush();
+  }
+
+  expect(classify.mock.calls.map(([points]) => points.length)).toEqual([4, 4, 4]);
+  expect(recognizer.provisional).toEqual([
+    { movement: 'shake', confidence: 0.8, startTime: 0.02, endTime: 0.08, windowCount: 2 },
+  ]);
+  expect(events.filter(event => event.type === 'provisional').map(event => event.type === 'provisional' && event.isNew))
+    .toEqual([true, false]);
+});
+
+it('sizes windows by time for devices streaming at another rate', async () => {
+  const classify = jest.fn(byGyro);
+  const recognizer = createRecognizer(classify);
+  recognizer.start('abc');
+
+  // 50Hz: two samples per window
+  for (let i = 0; i < 4; i++) {
+    recognizer.push(sample(i, 100, 20));
+    await flush();
+  }
+
+  expect(classify.mock.calls.map(([points]) => points.map(point => point.rel_timestamp))).toEqual([[0, 20], [20, 40], [40, 60]]);
+  expect(recognizer.provisional).toMatchObject([{ movement: 'shake', startTime: 0, endTime: 0.08, windowCount: 3 }]);
+});
+
+it('keeps window offsets from the first sample once used samples are dropped', async () => {
+  const classify = jest.fn(byGyro);
+  const recognizer = createRecognizer(classify);
+  recognizer.start('abc');
+
+  // The device clock doesn't start at zero
+  for (let i = 100; i < 112; i++) {
+    recognizer.push(sample(i, 100));
+    await flush();
+  }
+
+  expect(classify.mock.calls.map(([points]) => points.map(point => point.rel_timestamp))).toEqual([
+    [1000, 1010, 1020, 1030],
+    [1020, 1030, 1040, 1050],
+    [1040, 1050, 1060, 1070],
+    [1060, 1070, 1080, 1090],
+    [1080, 1090, 1100, 1110],
+  ]);
+  expect(recognizer.provisional).toMatchObject([{ movement: 'shake', startTime: 0, endTime: 0.12, windowCount: 5 }]);
+});
+
+it('only classifies the newest ready window while a request is in flight', async () => {
+  const resolvers: Array<(result: PrimaryMovement | null) => void> = [];
+  const classify = jest.fn<WindowClassifier>(() => new Promise(resolve => resolvers.push(resolve)));
+  const recognizer = createRecognizer(classify);
+  recognizer.start('abc');
+
+  for (let i = 0; i < 10; i++) recognizer.push(sample(i));
+  expect(classify).toHaveBeenCalledTimes(1);
+
+  resolvers[0](null);
+  await flush();
+
+  expect(classify).toHaveBeenCalledTimes(2);
+  expect(classify.mock.calls[1][0][0].rel_timestamp).toBe(60); // Window starting at sample 6
+});
+
+it('reports window failures and keeps going', async () => {
+  const classify = jest.fn<WindowClassifier>()
+    .mockRejectedValueOnce(new Error('Request timeout'))
+    .mockResolvedValue({ movement: 'circle', confidence: 0.7 });
+  const recognizer = createRecognizer(classify);
+  recognizer.start('abc');
+
+  for (let i = 0; i < 6; i++) {
+    recognizer.push(sample(i));
+    await flush();
+  }
+
+  expect(events.some(event => event.type === 'windowError')).toBe(true);
+  expect(recognizer.provisional.map(gesture => gesture.movement)).toEqual(['circle']);
+});
+
+it('discards results that arrive after the session finished', async () => {
+  let resolve: (result: PrimaryMovement | null) => void = () => {};
+  const recognizer = createRecognizer(() => new Promise(done => { resolve = done; }));
+  recognizer.start('abc');
+  for (let i = 0; i < 4; i++) recognizer.push(sample(i));
+
+  recognizer.finish(null);
+  resolve({ movement: 'shake', confidence: 0.9 });
+  await flush();
+
+  expect(recognizer.provisional).toEqual([]);
+  expect(recognizer.isActive).toBe(false);
+});
+
+it('tells sessions apart, even with the same recording hash', () => {
+  const recognizer = createRecognizer();
+  recognizer.start('abc');
+  const first = recognizer.session;
+  recognizer.start('abc');
+
+  expect(recognizer.session).not.toBe(first);
+  const second = recognizer.session;
+  recognizer.finish(null);
+  expect(recognizer.session).not.toBe(second);
+});
+
+it('adopts the final window_params for the next session', async () => {
+  const recognizer = createRecognizer();
+  recognizer.start('abc');
+
+  const reconciliation = recognizer.finish(final([]));
+
+  expect(reconciliation.final).not.toBeNull();
+  expect(recognizer.windowParams).toEqual({ window_size_ms: 200, overlap_ms: 100, sample_rate_hz: 50 });
+  expect(events.map(event => event.type)).toEqual(['started', 'reconciled']);
+});
+
+describe('reconcile', () => {
+  const shake = { movement: 'shake', confidence: 0.8, startTime: 0.5, endTime: 1.5, windowCount: 3 };
+  const flick = { movement: 'flick', confidence: 0.6, startTime: 2, endTime: 2.5, windowCount: 1 };
+
+  it('splits live gestures into confirmed and rejected, and lists missed segments', () => {
+    const result = reconcile([shake, flick], final([segment('shake', 1, 2), segment('circle', 3, 4)]));
+
+    expect(result.confirmed).toEqual([shake]);
+    expect(result.rejected).toEqual([flick]);
+    expect(result.missed.map(missed => missed.movement)).toEqual(['circle']);
+  });
+
+  it('does not confirm a segment of the same movement at a different time', () => {
+    const result = reconcile([shake], final([segment('shake', 3, 4)]));
+
+    expect(result.confirmed).toEqual([]);
+    expect(result.rejected).toEqual([shake]);
+  });
+
+  it('leaves everything unverified without a final prediction', () => {
+    expect(reconcile([shake], null)).toEqual({ final: null, confirmed: [], rejected: [], missed: [] });
+  });
+});
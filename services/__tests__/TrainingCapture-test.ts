@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createTrainingBatches, TrainingCapture, TrainingTake } from '../TrainingCapture';
+import { TrainingBatch, TrainingResponse } from '../GestureAPI';
+import { BLEDataPoint, GestureSession } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const session = (id: string, startTime: number): GestureSession => ({
+  id,
+  startTime,
+  endTime: startTime + 800,
+  isActive: false,
+  deviceId: 'AA:BB',
+  samplesReceived: 2,
+});
+
+const samples = (recordingHash: string): BLEDataPoint[] => [0, 1].map(sampleId => ({
+  timestamp: sampleId * 10,
+  sampleId,
+  acceleration: { x: 0, y: 0, z: 1 },
+  gyroscope: { x: 0, y: 0, z: 0 },
+  recordingHash,
+}));
+
+const response = (trainingSamples: number): TrainingResponse => ({
+  success: true,
+  message: 'ok',
+  model_updated: true,
+  training_samples: trainingSamples,
+  accuracy_score: 0.9,
+});
+
+let uploads: TrainingBatch[];
+let uploader: jest.Mock<(batch: TrainingBatch) => Promise<TrainingResponse>>;
+let capture: TrainingCapture;
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  uploads = [];
+  uploader = jest.fn(async (batch: TrainingBatch) => {
+    uploads.push(batch);
+    return response(100 + uploads.length);
+  });
+  capture = new TrainingCapture(uploader);
+});
+
+it('ignores sessions while not recording', () => {
+  expect(capture.addTake(session('a', 0), samples('a'))).toBeNull();
+  expect(capture.state.takes).toHaveLength(0);
+});
+
+it('requires a label and a positive repetition count', () => {
+  expect(() => capture.start('  ')).toThrow('label');
+  expect(() => capture.start('circle', 0)).toThrow('repetition');
+});
+
+it('stops recording once the target repetition count is reached', () => {
+  const listener = jest.fn();
+  capture.subscribe(listener);
+  capture.start(' circle ', 2);
+
+  capture.addTake(session('a', 0), samples('a'));
+  expect(capture.isRecording).toBe(true);
+  const second = capture.addTake(session('b', 1000), samples('b'));
+
+  expect(second).toMatchObject({ recordingHash: 'b', deviceId: 'AA:BB', durationMs: 800 });
+  expect(capture.state.label).toBe('circle');
+  expect(capture.state.takes).toHaveLength(2);
+  expect(capture.isRecording).toBe(false);
+  expect(capture.addTake(session('c', 2000), samples('c'))).toBeNull();
+  expect(listener).toHaveBeenCalled();
+});
+
+it('records a replacement after a take is discarded', () => {
+  capture.start('circle', 1);
+  const take = capture.addTake(session('a', 0), samples('a'))!;
+  expect(capture.isRecording).toBe(false);
+
+  expect(capture.discardTake(take.id)).toBe(true);
+  expect(capture.discardTake(take.id)).toBe(false);
+  expect(capture.state.takes).toHaveLength(0);
+
+  capture.start('circle');
+  expect(capture.isRecording).toBe(true);
+  expect(capture.addTake(session('b', 0), samples('b'))).not.toBeNull();
+});
+
+it('keeps takes when restarted with the same label and drops them for a new one', () => {
+  capture.start('circle', 3);
+  capture.addTake(session('a', 0), samples('a'));
+  capture.stop();
+
+  capture.start('circle', 3);
+  expect(capture.state.takes).toHaveLength(1);
+
+  capture.start('flick', 3);
+  expect(capture.state.takes).toHaveLength(0);
+});
+
+describe('upload', () => {
+  it('uploads takes in labeled batches and reports the last response', async () => {
+    capture.start('circle', 7);
+    for (let i = 0; i < 7; i++) {
+      capture.addTake(session(`h${i}`, i * 1000), samples(`h${i}`));
+    }
+
+    const result = await capture.upload();
+
+    expect(uploads.map(batch => batch.label)).toEqual(['circle', 'circle']);
+    expect(uploads.map(batch => new Set(batch.data.map(point => point.recording_id)).size)).toEqual([5, 2]);
+    expect(result.training_samples).toBe(102);
+    expect(capture.state).toMatchObject({ takes: [], isUploading: false, lastResult: result, error: null });
+  });
+
+  it('keeps the takes that were not uploaded when a batch fails', async () => {
+    uploader.mockImplementationOnce(async () => response(1))
+      .mockImplementationOnce(async () => { throw new Error('HTTP error! status: 500'); });
+    capture.start('circle', 7);
+    for (let i = 0; i < 7; i++) {
+      capture.addTake(session(`h${i}`, i * 1000), samples(`h${i}`));
+    }
+
+    await expect(capture.upload()).rejects.toThrow('500');
+
+    expect(capture.state.takes.map(take => take.recordingHash)).toEqual(['h5', 'h6']);
+    expect(capture.state.error).toBe('HTTP error! status: 500');
+    expect(capture.state.isUploading).toBe(false);
+  });
+
+  it('treats an unsuccessful response as a failure', async () => {
+    uploader.mockImplementationOnce(async () => ({ ...response(0), success: false, message: 'Unknown label' }));
+    capture.start('circle', 1);
+    capture.addTake(session('a', 0), samples('a'));
+
+    await expect(capture.upload()).rejects.toThrow('Unknown label');
+    expect(capture.state.takes).toHaveLength(1);
+  });
+
+  it('refuses to upload without takes', async () => {
+    await expect(capture.upload()).rejects.toThrow('No training takes');
+    expect(uploader).not.toHaveBeenCalled();
+  });
+});
+
+it('builds one recording id per take', () => {
+  const takes: TrainingTake[] = ['a', 'b', 'c'].map((hash, index) => ({
+    id: `${hash}_${index}`,
+    recordingHash: hash,
+    deviceId: 'AA:BB',
+    capturedAt: 0,
+    durationMs: 10,
+    samples: samples(hash),
+    packetLoss: hash === 'c' ? null : { expected: 3, received: 2, missing: 1, duplicates: 0, outOfOrder: 0, gaps: 1, lossRate: 1 / 3 },
+  }));
+
+  const batches = createTrainingBatches('flick', takes, 2);
+
+  expect(batches).toHaveLength(2);
+  expect(batches[0].data).toHaveLength(4);
+  expect(batches[0].data[0].recording_id).toMatch(/_a_0$/);
+  expect(batches[1].data.every(point => point.recording_id.endsWith('_c_2'))).toBe(true);
+  expect(batches[0].packetLoss).toMatchObject({ expected: 6, missing: 2 });
+  expect(batches[1].packetLoss).toBeUndefined();
+});
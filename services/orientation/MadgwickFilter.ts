@@ -0,0 +1,64 @@
+import { multiply, normalize, Quaternion, Vector3 } from '@/services/orientation/Quaternion';
+import { OrientationFilter, OrientationFilterOptions } from '@/services/orientation/OrientationFilter';
+
+export interface MadgwickFilterOptions extends OrientationFilterOptions {
+  beta?: number; // Gradient-descent step size (rad/s); higher trusts the accelerometer more
+}
+
+/**
+ * Madgwick's gradient-descent filter (IMU variant, no magnetometer).
+ * Yaw drifts, as there is nothing to correct it.
+ */
+export class MadgwickFilter extends OrientationFilter {
+  beta: number;
+
+  constructor(options: MadgwickFilterOptions = {}) {
+    super(options);
+    this.beta = options.beta ?? 0.1;
+  }
+
+  protected integrate(omega: Vector3, acceleration: Vector3, dt: number): Quaternion {
+    const { w, x, y, z } = this.q;
+    const rate = multiply(this.q, { w: 0, ...omega });
+    let qDot = { w: 0.5 * rate.w, x: 0.5 * rate.x, y: 0.5 * rate.y, z: 0.5 * rate.z };
+
+    const accNorm = Math.hypot(acceleration.x, acceleration.y, acceleration.z);
+    if (accNorm > 0) {
+      const ax = acceleration.x / accNorm;
+      const ay = acceleration.y / accNorm;
+      const az = acceleration.z / accNorm;
+
+      // Objective: estimated gravity in the body frame minus measured gravity
+      const fx = 2 * (x * z - w * y) - ax;
+      const fy = 2 * (w * x + y * z) - ay;
+      const fz = 2 * (0.5 - x * x - y * y) - az;
+
+      // Gradient = Jᵀ·f
+      const gradient = {
+        w: -2 * y * fx + 2 * x * fy,
+        x: 2 * z * fx + 2 * w * fy - 4 * x * fz,
+        y: -2 * w * fx + 2 * z * fy - 4 * y * fz,
+        z: 2 * x * fx + 2 * y * fy,
+      };
+      const gradientNorm = Math.hypot(gradient.w, gradient.x, gradient.y, gradient.z);
+      if (gradientNorm > 0) {
+        const step = this.beta / gradientNorm;
+        qDot = {
+          w: qDot.w - step * gradient.w,
+          x: qDot.x - step * gradient.x,
+          y: qDot.y - step * gradient.y,
+          z: qDot.z - step * gradient.z,
+        };
+      }
+    }
+
+    return normalize({
+      w: w + qDot.w * dt,
+      x: x + qDot.x * dt,
+      y: y + qDot.y * dt,
+      z: z + qDot.z * dt,
+    });
+  }
+}
+
+export default MadgwickFilter;
@@ -0,0 +1,69 @@
+import {
+  conjugate,
+  cross,
+  fromAxisAngle,
+  multiply,
+  normalize,
+  Quaternion,
+  rotateVector,
+  Vector3,
+} from '@/services/orientation/Quaternion';
+import { OrientationFilter, OrientationFilterOptions } from '@/services/orientation/OrientationFilter';
+
+export interface MahonyFilterOptions extends OrientationFilterOptions {
+  kp?: number; // Proportional gain pulling tilt toward gravity (rad/s per unit error)
+  ki?: number; // Integral gain; estimates gyroscope bias when > 0
+}
+
+const ACC_TRUST_MIN = 0.8; // Only trust the accelerometer as a gravity reference
+const ACC_TRUST_MAX = 1.2; // while its magnitude is close to 1g
+
+/**
+ * Mahony's complementary filter: the cross product between measured and
+ * estimated gravity feeds back into the gyroscope rates as a PI correction.
+ * Yaw drifts, as there is no magnetometer to correct it.
+ */
+export class MahonyFilter extends OrientationFilter {
+  kp: number;
+  ki: number;
+  private integralError: Vector3 = { x: 0, y: 0, z: 0 };
+
+  constructor(options: MahonyFilterOptions = {}) {
+    super(options);
+    this.kp = options.kp ?? 1;
+    this.ki = options.ki ?? 0;
+  }
+
+  protected integrate(omega: Vector3, acceleration: Vector3, dt: number): Quaternion {
+    let corrected = omega;
+
+    const accNorm = Math.hypot(acceleration.x, acceleration.y, acceleration.z);
+    if (accNorm >= ACC_TRUST_MIN && accNorm <= ACC_TRUST_MAX) {
+      const measured = { x: acceleration.x / accNorm, y: acceleration.y / accNorm, z: acceleration.z / accNorm };
+      const estimated = rotateVector(conjugate(this.q), { x: 0, y: 0, z: 1 });
+      const error = cross(measured, estimated);
+
+      if (this.ki > 0) {
+        this.integralError = {
+          x: this.integralError.x + this.ki * error.x * dt,
+          y: this.integralError.y + this.ki * error.y * dt,
+          z: this.integralError.z + this.ki * error.z * dt,
+        };
+      }
+      corrected = {
+        x: omega.x + this.kp * error.x + this.integralError.x,
+        y: omega.y + this.kp * error.y + this.integralError.y,
+        z: omega.z + this.kp * error.z + this.integralError.z,
+      };
+    }
+
+    const rate = Math.hypot(corrected.x, corrected.y, corrected.z);
+    return normalize(multiply(this.q, fromAxisAngle(corrected, rate * dt)));
+  }
+
+  protected resetState() {
+    this.integralError = { x: 0, y: 0, z: 0 };
+  }
+}
+
+export default MahonyFilter;
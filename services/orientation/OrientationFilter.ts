@@ -0,0 +1,122 @@
+import { BLEDataPoint } from '@/services/types';
+import {
+  DEG_TO_RAD,
+  EulerAngles,
+  IDENTITY,
+  Quaternion,
+  rotateVector,
+  toEuler,
+  Vector3,
+} from '@/services/orientation/Quaternion';
+
+export interface OrientationSample {
+  timestamp: number; // Device timestamp of the source point
+  time: number; // Seconds since the first point, unwrapped
+  quaternion: Quaternion;
+  euler: EulerAngles;
+  linearAcceleration: Vector3; // World frame, g, with gravity removed
+}
+
+export interface OrientationFilterOptions {
+  gyroScale?: number; // Multiplier on gyroscope rates, for sensors that over/under-report
+  maxGap?: number; // Seconds; longer gaps between samples are not integrated
+}
+
+const TIMESTAMP_RANGE = 0x10000; // Device timestamps are uint16 milliseconds
+
+/**
+ * Common driver for the fusion filters: unwraps device timestamps, converts
+ * gyroscope rates from °/s to rad/s and derives Euler angles and linear
+ * acceleration. Subclasses implement a single `integrate` step.
+ */
+export abstract class OrientationFilter {
+  gyroScale: number;
+  private readonly maxGap: number;
+  protected q: Quaternion = { ...IDENTITY };
+  private lastTimestamp: number | null = null;
+  private elapsed = 0;
+
+  constructor(options: OrientationFilterOptions = {}) {
+    this.gyroScale = options.gyroScale ?? 1;
+    this.maxGap = options.maxGap ?? 0.5;
+  }
+
+  get quaternion(): Quaternion {
+    return this.q;
+  }
+
+  reset(orientation: Quaternion = IDENTITY) {
+    this.q = { ...orientation };
+    this.lastTimestamp = null;
+    this.elapsed = 0;
+    this.resetState();
+  }
+
+  /**
+   * Advance by `dt` seconds with a gyroscope reading in °/s and an accelerometer reading in g
+   */
+  step(gyroscope: Vector3, acceleration: Vector3, dt: number): Quaternion {
+    if (dt > 0) {
+      const omega = {
+        x: gyroscope.x * this.gyroScale * DEG_TO_RAD,
+        y: gyroscope.y * this.gyroScale * DEG_TO_RAD,
+        z: gyroscope.z * this.gyroScale * DEG_TO_RAD,
+      };
+      this.q = this.integrate(omega, acceleration, dt);
+    }
+    return this.q;
+  }
+
+  /**
+   * Advance using the time since the previous point, following the
+   * device's uint16 millisecond clock across wraps
+   */
+  update(point: BLEDataPoint): OrientationSample {
+    const previous = this.lastTimestamp;
+    this.lastTimestamp = point.timestamp;
+
+    if (previous !== null) {
+      const dt = ((point.timestamp - previous + TIMESTAMP_RANGE) % TIMESTAMP_RANGE) / 1000;
+      this.elapsed += dt;
+      if (dt <= this.maxGap) {
+        this.step(point.gyroscope, point.acceleration, dt);
+      }
+    }
+
+    return {
+      timestamp: point.timestamp,
+      time: this.elapsed,
+      quaternion: this.q,
+      euler: toEuler(this.q),
+      linearAcceleration: linearAcceleration(this.q, point.acceleration),
+    };
+  }
+
+  /**
+   * One filter step with gyroscope rates in rad/s; returns the new, normalized orientation
+   */
+  protected abstract integrate(omega: Vector3, acceleration: Vector3, dt: number): Quaternion;
+
+  /**
+   * Clear any state beyond the orientation itself
+   */
+  protected resetState() {}
+}
+
+/**
+ * Acceleration in the world frame with the 1g gravity reaction removed
+ */
+export function linearAcceleration(q: Quaternion, acceleration: Vector3): Vector3 {
+  const world = rotateVector(q, acceleration);
+  return { x: world.x, y: world.y, z: world.z - 1 };
+}
+
+/**
+ * Run a recording through a filter from a reset state
+ */
+export function estimateOrientation(points: BLEDataPoint[], filter: OrientationFilter): OrientationSample[] {
+  filter.reset();
+  return points.map(point => filter.update(point));
+}
+
+export default OrientationFilter;
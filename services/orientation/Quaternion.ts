@@ -0,0 +1,88 @@
+/**
+ * Minimal quaternion math for orientation tracking. Quaternions rotate
+ * body-frame vectors into the world frame (z up).
+ */
+
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const IDENTITY: Quaternion = { w: 1, x: 0, y: 0, z: 0 };
+
+export const DEG_TO_RAD = Math.PI / 180;
+
+export function multiply(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+  };
+}
+
+export function conjugate(q: Quaternion): Quaternion {
+  return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+export function normalize(q: Quaternion): Quaternion {
+  const norm = Math.hypot(q.w, q.x, q.y, q.z);
+  if (norm === 0) {
+    return { ...IDENTITY };
+  }
+  return { w: q.w / norm, x: q.x / norm, y: q.y / norm, z: q.z / norm };
+}
+
+/**
+ * Rotation of `angle` radians around `axis` (need not be unit length)
+ */
+export function fromAxisAngle(axis: Vector3, angle: number): Quaternion {
+  const norm = Math.hypot(axis.x, axis.y, axis.z);
+  if (norm === 0 || angle === 0) {
+    return { ...IDENTITY };
+  }
+  const s = Math.sin(angle / 2) / norm;
+  return { w: Math.cos(angle / 2), x: axis.x * s, y: axis.y * s, z: axis.z * s };
+}
+
+/**
+ * Rotate a vector by q (body frame → world frame)
+ */
+export function rotateVector(q: Quaternion, v: Vector3): Vector3 {
+  const r = multiply(multiply(q, { w: 0, ...v }), conjugate(q));
+  return { x: r.x, y: r.y, z: r.z };
+}
+
+export function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+export interface EulerAngles {
+  roll: number; // Degrees around x
+  pitch: number; // Degrees around y
+  yaw: number; // Degrees around z
+}
+
+/**
+ * Z-Y-X (yaw, pitch, roll) angles in degrees. Pitch is clamped to ±90°.
+ */
+export function toEuler(q: Quaternion): EulerAngles {
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (q.w * q.y - q.z * q.x)));
+  return {
+    roll: Math.atan2(2 * (q.w * q.x + q.y * q.z), 1 - 2 * (q.x * q.x + q.y * q.y)) / DEG_TO_RAD,
+    pitch: Math.asin(sinPitch) / DEG_TO_RAD,
+    yaw: Math.atan2(2 * (q.w * q.z + q.x * q.y), 1 - 2 * (q.y * q.y + q.z * q.z)) / DEG_TO_RAD,
+  };
+}
@@ -0,0 +1,7 @@
+export * from '@/services/orientation/Quaternion';
+export { OrientationFilter, estimateOrientation, linearAcceleration } from '@/services/orientation/OrientationFilter';
+export type { OrientationFilterOptions, OrientationSample } from '@/services/orientation/OrientationFilter';
+export { MadgwickFilter } from '@/services/orientation/MadgwickFilter';
+export type { MadgwickFilterOptions } from '@/services/orientation/MadgwickFilter';
+export { MahonyFilter } from '@/services/orientation/MahonyFilter';
+export type { MahonyFilterOptions } from '@/services/orientation/MahonyFilter';
@@ -0,0 +1,238 @@
+import { DEVICE_CONFIG } from '@/constants/Device';
+import type {
+  BleErrorLike,
+  BleManagerLike,
+  CharacteristicLike,
+  DeviceLike,
+  ServiceLike,
+  SubscriptionLike,
+} from '@/services/DeviceConnection';
+
+/**
+ * In-memory stand-in for react-native-ble-plx's BleManager.
+ * Lets connection flows run in Jest on machines without Bluetooth hardware,
+ * and carries the app's simulated device.
+ */
+
+type MonitorListener = (error: BleErrorLike | null, characteristic: CharacteristicLike | null) => void;
+type DisconnectListener = (error: BleErrorLike | null, device: DeviceLike) => void;
+
+export class FakeCharacteristic implements CharacteristicLike {
+  value: string | null = null;
+  written: string[] = [];
+  onWrite: ((valueBase64: string) => void) | null = null; // Peripheral-side handler for writes
+  private listeners = new Set<MonitorListener>();
+
+  constructor(public uuid: string) {}
+
+  monitor(listener: MonitorListener): SubscriptionLike {
+    this.listeners.add(listener);
+    return { remove: () => this.listeners.delete(listener) };
+  }
+
+  async writeWithResponse(valueBase64: string): Promise<unknown> {
+    this.written.push(valueBase64);
+    this.onWrite?.(valueBase64);
+    return this;
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Deliver a notification to every monitor, as the peripheral would
+   */
+  notify(bytes: Uint8Array | number[]) {
+    this.value = btoa(String.fromCharCode(...Array.from(bytes)));
+    this.listeners.forEach(listener => listener(null, this));
+  }
+
+  fail(message: string) {
+    this.listeners.forEach(listener => listener({ message }, null));
+  }
+}
+
+export class FakeService implements ServiceLike {
+  constructor(public uuid: string, public chars: FakeCharacteristic[]) {}
+
+  async characteristics(): Promise<CharacteristicLike[]> {
+    return this.chars;
+  }
+}
+
+export interface FakeDeviceOptions {
+  id?: string;
+  name?: string | null;
+  rssi?: number;
+  serviceUUIDs?: string[] | null;
+  services?: FakeService[];
+}
+
+export class FakeDevice implements DeviceLike {
+  id: string;
+  name: string | null;
+  rssi: number;
+  serviceUUIDs: string[] | null;
+  connected = false;
+  private fakeServices: FakeService[];
+  private disconnectListeners = new Set<DisconnectListener>();
+
+  constructor(options: FakeDeviceOptions = {}) {
+    this.id = options.id ?? 'AA:BB:CC:DD:EE:FF';
+    this.name = options.name === undefined ? DEVICE_CONFIG.name : options.name;
+    this.rssi = options.rssi ?? -60;
+    this.serviceUUIDs = options.serviceUUIDs ?? null;
+    this.fakeServices = options.services ?? createGestureServices();
+  }
+
+  async discoverAllServicesAndCharacteristics(): Promise<unknown> {
+    return this;
+  }
+
+  async services(): Promise<ServiceLike[]> {
+    return this.fakeServices;
+  }
+
+  onDisconnected(listener: DisconnectListener): SubscriptionLike {
+    this.disconnectListeners.add(listener);
+    return { remove: () => this.disconnectListeners.delete(listener) };
+  }
+
+  async readRSSI(): Promise<FakeDevice> {
+    if (!this.connected) {
+      throw new Error(`Device ${this.id} is not connected`);
+    }
+    return this;
+  }
+
+  async cancelConnection(): Promise<unknown> {
+    if (this.connected) {
+      this.simulateDisconnect(null);
+    }
+    return this;
+  }
+
+  /**
+   * Drop the link as if the peripheral went out of range
+   */
+  simulateDisconnect(error: BleErrorLike | null = { message: 'Device was disconnected' }) {
+    this.connected = false;
+    this.disconnectListeners.forEach(listener => listener(error, this));
+  }
+
+  characteristic(uuid: string): FakeCharacteristic {
+    for (const service of this.fakeServices) {
+      const found = service.chars.find(char => char.uuid === uuid);
+      if (found) return found;
+    }
+    throw new Error(`Fake characteristic ${uuid} not found`);
+  }
+
+  get dataCharacteristic(): FakeCharacteristic {
+    return this.characteristic(DEVICE_CONFIG.dataCharacteristicUUID);
+  }
+
+  get commandCharacteristic(): FakeCharacteristic {
+    return this.characteristic(DEVICE_CONFIG.commandCharacteristicUUID);
+  }
+}
+
+export function createGestureServices(): FakeService[] {
+  return [
+    new FakeService(DEVICE_CONFIG.serviceUUID, [
+      new FakeCharacteristic(DEVICE_CONFIG.dataCharacteristicUUID),
+      new FakeCharacteristic(DEVICE_CONFIG.commandCharacteristicUUID),
+    ]),
+  ];
+}
+
+type ScanListener = (error: BleErrorLike | null, device: DeviceLike | null) => void;
+
+export class FakeBleManager implements BleManagerLike {
+  adapterState = 'PoweredOn';
+  devices: FakeDevice[] = [];
+  isScanning = false;
+  connectError: Error | null = null;
+  /** When false, connectToDevice never settles (for timeout tests) */
+  connectResolves = true;
+  connectCalls: string[] = [];
+  destroyed = false;
+  private stateListeners = new Set<(state: string) => void>();
+  private scanListener: ScanListener | null = null;
+
+  constructor(devices: FakeDevice[] = []) {
+    this.devices = devices;
+  }
+
+  async state(): Promise<string> {
+    return this.adapterState;
+  }
+
+  onStateChange(listener: (state: string) => void, emitCurrentState = false): SubscriptionLike {
+    this.stateListeners.add(listener);
+    if (emitCurrentState) {
+      listener(this.adapterState);
+    }
+    return { remove: () => this.stateListeners.delete(listener) };
+  }
+
+  setAdapterState(state: string) {
+    this.adapterState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  startDeviceScan(
+    _uuids: string[] | null,
+    _options: { allowDuplicates?: boolean } | null,
+    listener: ScanListener
+  ): void {
+    this.isScanning = true;
+    this.scanListener = listener;
+    // Advertise known devices asynchronously, like the native module
+    Promise.resolve().then(() => {
+      this.devices.forEach(device => this.advertise(device));
+    });
+  }
+
+  stopDeviceScan(): void {
+    this.isScanning = false;
+    this.scanListener = null;
+  }
+
+  /**
+   * Report a device to the active scan (no-op when not scanning)
+   */
+  advertise(device: FakeDevice) {
+    if (this.isScanning) {
+      this.scanListener?.(null, device);
+    }
+  }
+
+  failScan(message: string) {
+    this.scanListener?.({ message }, null);
+  }
+
+  async connectToDevice(deviceId: string): Promise<DeviceLike> {
+    this.connectCalls.push(deviceId);
+    if (this.connectError) {
+      throw this.connectError;
+    }
+    const device = this.devices.find(candidate => candidate.id === deviceId);
+    if (!device) {
+      throw new Error(`Device ${deviceId} is not available`);
+    }
+    if (!this.connectResolves) {
+      return new Promise<DeviceLike>(() => {});
+    }
+    device.connected = true;
+    return device;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.stopDeviceScan();
+  }
+}
+
+export default FakeBleManager;
@@ -0,0 +1,305 @@
+import { API_CONFIG, API_ENVIRONMENTS, ApiEndpoint } from '@/constants/API';
+import type { IMUDataPoint, ModelStatusResponse, TrainingResponse } from '@/services/GestureAPI';
+import { classifyLocally, FEATURE_NAMES, LocalModel } from '@/services/LocalClassifier';
+
+/**
+ * In-process stand-in for the gesture-processing service. It answers the
+ * "mock" API environment so the app and Jest can exercise GestureAPI offline,
+ * including its error paths.
+ */
+
+export type MockFailure =
+  | { type: 'timeout' } // Never answers; the request's own abort timer fires
+  | { type: 'network'; message?: string }
+  | { type: 'http'; status: number; body?: string }
+  | { type: 'malformed' }; // 200 with a body that is not JSON
+
+export interface MockRequest {
+  endpoint: ApiEndpoint | null;
+  method: string;
+  url: string;
+  fields: Record<string, string>;
+}
+
+export interface MockGestureServerOptions {
+  baseUrl?: string;
+  latencyMs?: number;
+  gestures?: string[];
+}
+
+const GYRO_WEIGHT = 0.1; // 50°/s RMS on one axis beats the "still" bias
+
+/**
+ * Hand-built model that maps the dominant rotation axis to a gesture:
+ * x → flick, y → shake, z → circle.
+ */
+export function createMockModel(): LocalModel {
+  const labels = ['still', 'flick', 'shake', 'circle'];
+  const axisFeature = ['', 'gyro_x_rms', 'gyro_y_rms', 'gyro_z_rms'];
+  return {
+    format_version: 1,
+    model_type: 'softmax_regression',
+    name: 'mock-server',
+    trained_at: new Date(0).toISOString(),
+    labels,
+    still_label: 'still',
+    feature_names: [...FEATURE_NAMES],
+    scaler: { mean: FEATURE_NAMES.map(() => 0), scale: FEATURE_NAMES.map(() => 1) },
+    weights: labels.map((_, label) =>
+      FEATURE_NAMES.map(name => (name === axisFeature[label] ? GYRO_WEIGHT : 0))
+    ),
+    bias: [3, 0, 0, 0],
+    window_params: { window_size_ms: 500, overlap_ms: 250, sample_rate_hz: 100 },
+    smoothing_window: 3,
+    min_segment_windows: 1,
+  };
+}
+
+/**
+ * Parse the CSV produced by GestureAPI.convertToCSV
+ */
+export function parseIMUCSV(csv: string): IMUDataPoint[] {
+  const [header, ...rows] = csv.trim().split('\n');
+  const columns = (header ?? '').split(',');
+  return rows.filter(row => row.trim()).map(row => {
+    const values = row.split(',');
+    const field = (name: string) => values[columns.indexOf(name)];
+    return {
+      rel_timestamp: Number(field('rel_timestamp')),
+      recording_id: field('recording_id'),
+      acc_x: Number(field('acc_x')),
+      acc_y: Number(field('acc_y')),
+      acc_z: Number(field('acc_z')),
+      gyro_x: Number(field('gyro_x')),
+      gyro_y: Number(field('gyro_y')),
+      gyro_z: Number(field('gyro_z')),
+    };
+  });
+}
+
+/**
+ * Read string fields from a request body. React Native's FormData has no
+ * `get`, only `getParts`.
+ */
+function readFields(body: unknown): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (!body || typeof body !== 'object') {
+    return fields;
+  }
+  const form = body as {
+    forEach?: (callback: (value: unknown, key: string) => void) => void;
+    getParts?: () => Array<{ fieldName: string; string?: string }>;
+  };
+  if (typeof form.getParts === 'function') {
+    form.getParts().forEach(part => {
+      if (typeof part.string === 'string') fields[part.fieldName] = part.string;
+    });
+  } else if (typeof form.forEach === 'function') {
+    form.forEach((value, key) => {
+      if (typeof value === 'string') fields[key] = value;
+    });
+  }
+  return fields;
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+}
+
+function abortError(): Error {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export class MockGestureServer {
+  readonly baseUrl: string;
+  latencyMs: number;
+  requests: MockRequest[] = [];
+  private gestures: string[];
+  private trainingSamples = 0;
+  private lastTrained: string | null = null;
+  private persistentFailures = new Map<ApiEndpoint, MockFailure>();
+  private queuedFailures = new Map<ApiEndpoint, MockFailure[]>();
+  private readonly model = createMockModel();
+
+  constructor(options: MockGestureServerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? API_ENVIRONMENTS.mock.baseUrl).replace(/\/+$/, '');
+    this.latencyMs = options.latencyMs ?? 0;
+    this.gestures = options.gestures ?? this.model.labels.filter(label => label !== this.model.still_label);
+  }
+
+  /**
+   * Fail the next request to `endpoint` once
+   */
+  failNext(endpoint: ApiEndpoint, failure: MockFailure) {
+    this.queuedFailures.set(endpoint, [...(this.queuedFailures.get(endpoint) ?? []), failure]);
+  }
+
+  /**
+   * Fail every request to `endpoint` until cleared with null
+   */
+  setFailure(endpoint: ApiEndpoint, failure: MockFailure | null) {
+    if (failure) {
+      this.persistentFailures.set(endpoint, failure);
+    } else {
+      this.persistentFailures.delete(endpoint);
+    }
+  }
+
+  reset() {
+    this.requests = [];
+    this.trainingSamples = 0;
+    this.lastTrained = null;
+    this.persistentFailures.clear();
+    this.queuedFailures.clear();
+  }
+
+  /**
+   * Drop-in `fetch`. URLs outside `baseUrl` are passed to the real fetch.
+   */
+  fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = requestUrl(input);
+    if (!url.startsWith(this.baseUrl)) {
+      return fetch(input, init);
+    }
+
+    const path = url.slice(this.baseUrl.length).split('?')[0];
+    const endpoint = (Object.keys(API_CONFIG.ENDPOINTS) as ApiEndpoint[])
+      .find(key => API_CONFIG.ENDPOINTS[key] === path) ?? null;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const fields = readFields(init.body);
+    this.requests.push({ endpoint, method, url, fields });
+    console.log('🧪 Mock server:', method, path);
+
+    if (this.latencyMs > 0) {
+      await this.delay(this.latencyMs, init.signal);
+    }
+
+    const failure = endpoint ? this.takeFailure(endpoint) : null;
+    if (failure) {
+      return this.fail(failure, init.signal);
+    }
+
+    switch (endpoint) {
+      case 'HEALTH':
+        return json({ status: 'healthy', environment: 'mock', timestamp: new Date().toISOString() });
+      case 'MODEL_STATUS':
+        return json(this.modelStatus());
+      case 'PREDICT':
+        return method === 'POST' ? this.predict(fields) : json({ error: 'Method not allowed' }, 405);
+      case 'TRAIN':
+        return method === 'POST' ? this.train(fields) : json({ error: 'Method not allowed' }, 405);
+      default:
+        return json({ error: `Not found: ${path}` }, 404);
+    }
+  };
+
+  /**
+   * Route the global fetch through this server. Returns a function restoring the previous fetch.
+   */
+  install(): () => void {
+    const previous = global.fetch;
+    const handler = this.fetch;
+    global.fetch = (input, init) =>
+      requestUrl(input).startsWith(this.baseUrl) ? handler(input, init) : previous(input, init);
+    return () => {
+      global.fetch = previous;
+    };
+  }
+
+  private takeFailure(endpoint: ApiEndpoint): MockFailure | null {
+    const queued = this.queuedFailures.get(endpoint);
+    if (queued?.length) {
+      return queued.shift()!;
+    }
+    return this.persistentFailures.get(endpoint) ?? null;
+  }
+
+  private fail(failure: MockFailure, signal?: AbortSignal | null): Promise<Response> {
+    switch (failure.type) {
+      case 'timeout':
+        return new Promise((_, reject) => {
+          signal?.addEventListener('abort', () => reject(abortError()));
+        });
+      case 'network':
+        return Promise.reject(new TypeError(failure.message ?? 'Network request failed'));
+      case 'http':
+        return Promise.resolve(new Response(failure.body ?? `Mock failure ${failure.status}`, { status: failure.status }));
+      case 'malformed':
+        return Promise.resolve(new Response('{"all_detected_movements": {', { status: 200 }));
+    }
+  }
+
+  private delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(abortError());
+      });
+    });
+  }
+
+  private modelStatus(): ModelStatusResponse {
+    return {
+      model_loaded: true,
+      model_type: 'mock',
+      training_samples: this.trainingSamples,
+      last_trained: this.lastTrained ?? this.model.trained_at!,
+      available_gestures: [...this.gestures],
+    };
+  }
+
+  private predict(fields: Record<string, string>): Response {
+    const data = parseIMUCSV(fields.csv_data ?? '');
+    if (data.length === 0) {
+      return json({ error: 'csv_data is required' }, 400);
+    }
+    return json({ ...classifyLocally(data, this.model), model_used: 'mock-server' });
+  }
+
+  private train(fields: Record<string, string>): Response {
+    if (!fields.csv_data) {
+      // Retrain on existing data
+      return json({
+        success: true,
+        message: 'Model retrained',
+        model_updated: true,
+        training_samples: this.trainingSamples,
+        accuracy_score: 0.9,
+      } satisfies TrainingResponse);
+    }
+
+    const label = fields.label?.trim();
+    if (!label) {
+      return json({ success: false, message: 'label is required', model_updated: false, training_samples: this.trainingSamples });
+    }
+
+    const recordings = new Set(parseIMUCSV(fields.csv_data).map(point => point.recording_id));
+    this.trainingSamples += recordings.size;
+    this.lastTrained = new Date().toISOString();
+    if (!this.gestures.includes(label)) {
+      this.gestures.push(label);
+    }
+
+    return json({
+      success: true,
+      message: `Trained on ${recordings.size} recordings of "${label}"`,
+      model_updated: true,
+      training_samples: this.trainingSamples,
+      accuracy_score: Math.min(0.99, 0.7 + this.trainingSamples * 0.01),
+    } satisfies TrainingResponse);
+  }
+}
+
+export const mockGestureServer = new MockGestureServer();
+
+export default MockGestureServer;
@@ -0,0 +1,296 @@
+import { COMMAND_CONFIG, DEVICE_CONFIG } from '@/constants/Device';
+import { CommandReply, CommandRequest, encodeCommandReply, parseCommandRequest } from '@/services/DeviceCommands';
+import type { StoredSession } from '@/services/SessionRepository';
+import { SessionReplayer } from '@/services/SessionReplayer';
+import { FakeBleManager, FakeDevice } from '@/services/simulation/FakeBleManager';
+import { BLEDataPoint } from '@/services/types';
+
+/**
+ * Stand-in for the AbracadabraIMU: a fake BLE peripheral that sends
+ * correctly encoded session packets for scripted gestures or recorded
+ * sessions. Lets the app run on the web build, in simulators and in Jest.
+ */
+
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SimulatedGesture {
+  name: string;
+  durationMs: number;
+  // Noise-free reading `t` ms into the gesture; acceleration in g, rotation in °/s
+  sample(t: number): { acceleration: Vector3; gyroscope: Vector3 };
+}
+
+export interface SimulatedPeripheralOptions {
+  deviceId?: string;
+  sampleRateHz?: number;
+  noise?: number; // Uniform noise amplitude in g; gyroscope noise is 100x in °/s
+  random?: () => number; // Noise and recording hash source, injectable for tests
+}
+
+export const SIMULATED_DEVICE_ID = 'SIMULATED-ABRACADABRA-IMU';
+export const SIMULATED_FIRMWARE_VERSION = '1.0.0-sim';
+
+const DEFAULT_SAMPLE_RATE_HZ = 100;
+const DEFAULT_NOISE = 0.01;
+const REMEMBERED_REPLIES = 16; // Answer resent requests without running them twice
+const RECORDED_GESTURES = ['flick', 'shake', 'circle']; // Performed in turn by the start command
+
+const REST = { x: 0, y: 0, z: 1 }; // Flat on the table
+const STILL = { x: 0, y: 0, z: 0 };
+
+/**
+ * 0 → 1 → 0 over the gesture, so every gesture starts and ends at rest
+ */
+const envelope = (t: number, durationMs: number) => Math.sin((Math.PI * t) / durationMs) ** 2;
+
+/**
+ * Waveforms matching the mock model's axes: a flick rotates about x, a
+ * shake about y and a circle about z
+ */
+export const SIMULATED_GESTURES: Record<string, SimulatedGesture> = {
+  still: {
+    name: 'still',
+    durationMs: 1000,
+    sample: () => ({ acceleration: REST, gyroscope: STILL }),
+  },
+  flick: {
+    name: 'flick',
+    durationMs: 600,
+    sample: t => {
+      const amount = envelope(t, 600);
+      return {
+        acceleration: { x: 0, y: 1.5 * amount, z: 1 - 0.5 * amount },
+        gyroscope: { x: 400 * amount, y: 0, z: 0 },
+      };
+    },
+  },
+  shake: {
+    name: 'shake',
+    durationMs: 1500,
+    sample: t => {
+      const swing = envelope(t, 1500) * Math.sin((2 * Math.PI * 4 * t) / 1000); // 4Hz
+      return {
+        acceleration: { x: 1.2 * swing, y: 0, z: 1 },
+        gyroscope: { x: 0, y: 250 * swing, z: 0 },
+      };
+    },
+  },
+  circle: {
+    name: 'circle',
+    durationMs: 2000,
+    sample: t => {
+      const amount = envelope(t, 2000);
+      const angle = (2 * Math.PI * t) / 1000; // One loop per second
+      return {
+        acceleration: { x: 0.6 * amount * Math.cos(angle), y: 0.6 * amount * Math.sin(angle), z: 1 },
+        gyroscope: { x: 0, y: 0, z: 360 * amount },
+      };
+    },
+  },
+};
+
+export class SimulatedPeripheral {
+  readonly device: FakeDevice;
+  private sampleRateHz: number;
+  private accelRangeG = 4;
+  private gyroRangeDps = 2000;
+  private performed = 0;
+  private replies = new Map<number, CommandReply>();
+  private readonly noise: number;
+  private readonly random: () => number;
+  private readonly player = new SessionReplayer();
+  private readonly bootedAt = Date.now();
+
+  constructor(options: SimulatedPeripheralOptions = {}) {
+    this.device = new FakeDevice({
+      id: options.deviceId ?? SIMULATED_DEVICE_ID,
+      name: DEVICE_CONFIG.name,
+      rssi: -50,
+      serviceUUIDs: [DEVICE_CONFIG.serviceUUID],
+    });
+    this.sampleRateHz = options.sampleRateHz ?? DEFAULT_SAMPLE_RATE_HZ;
+    this.noise = options.noise ?? DEFAULT_NOISE;
+    this.random = options.random ?? Math.random;
+
+    this.player.subscribe(event => {
+      if (event.type === 'data') {
+        this.device.dataCharacteristic.notify(event.bytes);
+      }
+    });
+    // Like the firmware, abandon a recording when the central goes away
+    this.device.onDisconnected(() => this.player.stop());
+    this.device.commandCharacteristic.onWrite = value => this.handleCommand(atob(value));
+  }
+
+  get settings() {
+    return { sampleRateHz: this.sampleRateHz, accelRangeG: this.accelRangeG, gyroRangeDps: this.gyroRangeDps };
+  }
+
+  get isConnected(): boolean {
+    return this.device.connected && this.device.dataCharacteristic.subscriberCount > 0;
+  }
+
+  get isPlaying(): boolean {
+    return this.player.isReplaying;
+  }
+
+  /**
+   * A BLE manager that finds and connects to this peripheral only.
+   * Pass it to DeviceConnection in place of the radio.
+   */
+  createManager = (): FakeBleManager => new FakeBleManager([this.device]);
+
+  /**
+   * Samples the device would record for a gesture, with noise and its own
+   * millisecond clock
+   */
+  gestureSamples(gesture: SimulatedGesture, recordingHash: string): BLEDataPoint[] {
+    const intervalMs = 1000 / this.sampleRateHz;
+    const count = Math.floor(gesture.durationMs / intervalMs) + 1;
+    const startTimestamp = Date.now() - this.bootedAt;
+    const jitter = (scale: number) => (this.random() * 2 - 1) * this.noise * scale;
+    const noisy = (vector: Vector3, scale: number) => ({
+      x: vector.x + jitter(scale),
+      y: vector.y + jitter(scale),
+      z: vector.z + jitter(scale),
+    });
+
+    return Array.from({ length: count }, (_, sampleId) => {
+      const t = Math.round(sampleId * intervalMs);
+      const { acceleration, gyroscope } = gesture.sample(t);
+      return {
+        timestamp: (startTimestamp + t) & 0xffff,
+        sampleId,
+        acceleration: noisy(acceleration, 1),
+        gyroscope: noisy(gyroscope, 100),
+        recordingHash,
+      };
+    });
+  }
+
+  /**
+   * Record a gesture, or send a stored session again, as a full
+   * SESSION_START → SENSOR_DATA → SESSION_END sequence in real time.
+   * Returns the recording hash.
+   */
+  perform(source: SimulatedGesture | StoredSession): string {
+    if (!this.isConnected) {
+      throw new Error('Simulated device is not connected');
+    }
+    const session = 'sample' in source ? this.gestureSession(source) : source;
+    console.log(`🧪 Simulated device performing ${'sample' in source ? source.name : session.id}`);
+    this.player.start(session);
+    this.performed++;
+    return session.recordingHash;
+  }
+
+  /**
+   * Abandon the current recording without a SESSION_END, like a reset device
+   */
+  stop() {
+    this.player.stop();
+  }
+
+  /**
+   * Answer a write to the command characteristic like the firmware
+   */
+  private handleCommand(text: string) {
+    const request = parseCommandRequest(text);
+    if (!request) {
+      return; // e.g. the legacy ping
+    }
+    const reply = this.replies.get(request.id) ?? this.execute(request);
+    this.replies.set(request.id, reply);
+    if (this.replies.size > REMEMBERED_REPLIES) {
+      this.replies.delete(this.replies.keys().next().value!);
+    }
+    // Notify after the write completes, as over the air
+    setTimeout(() => {
+      if (this.device.connected) {
+        this.device.commandCharacteristic.notify(Array.from(encodeCommandReply(reply), char => char.charCodeAt(0)));
+      }
+    }, 0);
+  }
+
+  private execute({ id, verb, arg }: CommandRequest): CommandReply {
+    const ok = (value: string | number | null = null): CommandReply => ({ id, ok: true, value: value === null ? null : String(value) });
+    const fail = (message: string): CommandReply => ({ id, ok: false, message });
+    const oneOf = (allowed: number[]) => (allowed.includes(Number(arg)) ? Number(arg) : null);
+
+    switch (verb) {
+      case 'start': {
+        if (this.isPlaying) {
+          return fail('already recording');
+        }
+        this.perform(SIMULATED_GESTURES[RECORDED_GESTURES[this.performed % RECORDED_GESTURES.length]]);
+        return ok();
+      }
+      case 'stop':
+        return ok(); // Scripted gestures end on their own
+      case 'rate': {
+        const rate = oneOf(COMMAND_CONFIG.SAMPLE_RATES_HZ);
+        if (rate === null) return fail(`unsupported rate ${arg}`);
+        this.sampleRateHz = rate;
+        return ok(rate);
+      }
+      case 'accel_range': {
+        const range = oneOf(COMMAND_CONFIG.ACCEL_RANGES_G);
+        if (range === null) return fail(`unsupported range ${arg}`);
+        this.accelRangeG = range;
+        return ok(range);
+      }
+      case 'gyro_range': {
+        const range = oneOf(COMMAND_CONFIG.GYRO_RANGES_DPS);
+        if (range === null) return fail(`unsupported range ${arg}`);
+        this.gyroRangeDps = range;
+        return ok(range);
+      }
+      case 'calibrate':
+        return ok();
+      case 'version':
+        return ok(SIMULATED_FIRMWARE_VERSION);
+      case 'battery':
+        return ok(Math.max(5, 100 - this.performed)); // Drains a percent per recording
+    }
+  }
+
+  private gestureSession(gesture: SimulatedGesture): StoredSession {
+    const recordingHash = Math.floor(this.random() * 0xffffffff).toString(16);
+    const samples = this.gestureSamples(gesture, recordingHash);
+    const startTime = Date.now();
+    return {
+      id: `${recordingHash}-${startTime}`,
+      recordingHash,
+      deviceId: this.device.id,
+      startTime,
+      endTime: startTime + gesture.durationMs,
+      samples,
+      prediction: null,
+      packetLoss: null,
+      savedAt: startTime,
+    };
+  }
+}
+
+export const simulatedPeripheral = new SimulatedPeripheral();
+
+/**
+ * Simulated sensors available at once, for multi-sensor recordings
+ */
+export const simulatedPeripherals = [
+  simulatedPeripheral,
+  new SimulatedPeripheral({ deviceId: `${SIMULATED_DEVICE_ID}-2` }),
+];
+
+/**
+ * A BLE manager that finds every simulated sensor; the first scan connects
+ * to the first one
+ */
+export const createSimulatedManager = (): FakeBleManager =>
+  new FakeBleManager(simulatedPeripherals.map(peripheral => peripheral.device));
+
+export default SimulatedPeripheral;
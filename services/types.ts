@@ -0,0 +1,35 @@
+// Shared domain types for recorded IMU data
+
+export interface GestureSession {
+  id: string; // Recording hash announced by SESSION_START
+  startTime: number;
+  endTime?: number;
+  isActive: boolean;
+  deviceId: string;
+  samplesReceived: number;
+  packetLoss?: PacketLossStats; // Set once the session has ended
+  groupId?: string; // Shared by sessions recorded together on several sensors
+}
+
+/**
+ * Sample-id bookkeeping for one recording
+ */
+export interface PacketLossStats {
+  expected: number; // Sample ids spanned from the first to the last sample
+  received: number; // Distinct samples kept
+  missing: number;
+  duplicates: number; // Dropped repeats of a sample id already received
+  outOfOrder: number; // Arrived after a later sample id
+  gaps: number; // Runs of one or more missing samples
+  lossRate: number; // missing / expected
+}
+
+export interface BLEDataPoint {
+  timestamp: number;
+  sampleId: number;
+  acceleration: { x: number; y: number; z: number };
+  gyroscope: { x: number; y: number; z: number };
+  recordingHash: string;
+  unwrappedTimestamp?: number; // Device ms, continued past the uint16 wrap
+  unwrappedSampleId?: number; // Continued past the uint16 wrap
+}